@@ -0,0 +1,207 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { signOut } from "next-auth/react"
+import { Activity, Home, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { ProviderHealth, ProviderStatus } from "@/types/agents"
+
+const STATUS_BADGES: Record<ProviderStatus, string> = {
+  healthy: "bg-green-100 text-green-800",
+  degraded: "bg-yellow-100 text-yellow-800",
+  failing: "bg-red-100 text-red-800",
+  idle: "bg-slate-100 text-slate-700",
+  unconfigured: "bg-slate-200 text-slate-600",
+}
+
+function formatTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "—"
+}
+
+export default function DataSourcesPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [sources, setSources] = useState<ProviderHealth[]>([])
+  const [checkedAt, setCheckedAt] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [probing, setProbing] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSources()
+  }, [])
+
+  const fetchSources = async () => {
+    setIsLoading(true)
+
+    try {
+      const response = await fetch("/api/admin/data-sources")
+
+      if (!response.ok) {
+        throw new Error("Failed to load data sources")
+      }
+
+      const data = await response.json()
+      setSources(data.sources)
+      setCheckedAt(data.checkedAt)
+    } catch (error) {
+      console.error("[DataSources] Error fetching status:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load data source status",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleProbe = async (source: ProviderHealth) => {
+    setProbing(source.id)
+
+    try {
+      const response = await fetch(`/api/admin/data-sources/${source.id}/probe`, { method: "POST" })
+
+      if (!response.ok) {
+        throw new Error("Probe request failed")
+      }
+
+      const { probe, source: updated } = await response.json()
+      setSources((prev) => prev.map((entry) => (entry.id === updated.id ? updated : entry)))
+      toast({
+        title: probe.ok ? `${source.label} responded` : `${source.label} probe failed`,
+        description: probe.ok ? `${probe.latencyMs} ms` : probe.error,
+        variant: probe.ok ? "default" : "destructive",
+      })
+    } catch (error) {
+      console.error("[DataSources] Error probing source:", error)
+      toast({
+        title: "Error",
+        description: `Could not probe ${source.label}`,
+        variant: "destructive",
+      })
+    } finally {
+      setProbing(null)
+    }
+  }
+
+  const handleLogout = () => {
+    signOut({ callbackUrl: "/" })
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-cyan-50 to-teal-50">
+      {/* Header */}
+      <header className="border-b border-white/50 bg-white/70 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <div className="flex items-center gap-2">
+            <img src={"/logo.jpg"} className="w-[50px]"/>
+            <span className="text-2xl font-bold text-slate-900">CareFund</span>
+          </div>
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => router.push("/dashboard/report")}>
+              <Home className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleLogout}>
+              Logout
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="mx-auto max-w-6xl">
+          <div className="mb-8 flex items-end justify-between gap-4">
+            <div>
+              <h1 className="mb-2 text-3xl font-bold text-slate-900">Data Sources</h1>
+              <p className="text-slate-600">
+                External providers, counted since the server last started
+                {checkedAt && ` · checked ${new Date(checkedAt).toLocaleTimeString()}`}
+              </p>
+            </div>
+            <Button variant="outline" onClick={fetchSources} disabled={isLoading} className="gap-2 bg-white">
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+
+          {isLoading && sources.length === 0 ? (
+            <Card className="border-cyan-200 bg-white/90 p-12 text-center backdrop-blur-sm">
+              <RefreshCw className="mx-auto h-8 w-8 animate-spin text-cyan-600" />
+              <p className="mt-4 text-slate-600">Loading data sources...</p>
+            </Card>
+          ) : (
+            <Card className="border-cyan-200 bg-white/90 p-2 backdrop-blur-sm">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Calls</TableHead>
+                    <TableHead className="text-right">Latency p50 / p95 / p99</TableHead>
+                    <TableHead>Last success</TableHead>
+                    <TableHead>Last error</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sources.map((source) => (
+                    <TableRow key={source.id}>
+                      <TableCell>
+                        <p className="font-medium text-slate-900">{source.label}</p>
+                        <p className="text-xs text-slate-500">{source.usedFor}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_BADGES[source.status]}>{source.status}</Badge>
+                        {!source.configured && <p className="mt-1 text-xs text-slate-500">API key not set</p>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {source.calls}
+                        {source.failures > 0 && <span className="text-red-600"> ({source.failures} failed)</span>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {source.latencyMs
+                          ? `${source.latencyMs.p50} / ${source.latencyMs.p95} / ${source.latencyMs.p99} ms`
+                          : "—"}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatTime(source.lastSuccess)}</TableCell>
+                      <TableCell className="max-w-[240px] whitespace-normal text-sm">
+                        {source.lastError ? (
+                          <>
+                            <p>{formatTime(source.lastError.at)}</p>
+                            <p className="truncate text-xs text-red-600" title={source.lastError.message}>
+                              {source.lastError.message}
+                            </p>
+                          </>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleProbe(source)}
+                          disabled={!source.probeable || probing !== null}
+                          className="gap-2"
+                        >
+                          <Activity className={`h-4 w-4 ${probing === source.id ? "animate-pulse" : ""}`} />
+                          Probe
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
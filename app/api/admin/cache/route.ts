@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { checkAdmin } from "@/lib/auth-guards"
+import cacheService from "@/lib/services/cache-service"
+
+export async function GET() {
+  try {
+    const admin = await checkAdmin()
+
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status })
+    }
+
+    const entries = cacheService.getEntries()
+
+    return NextResponse.json({ size: entries.length, entries }, { status: 200 })
+  } catch (error) {
+    console.error("[Admin Cache] Inspect error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+/**
+ * Clear the in-memory cache: one key with ?key=, a family of keys with ?prefix=, or everything
+ */
+export async function DELETE(request: Request) {
+  try {
+    const admin = await checkAdmin()
+
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const key = searchParams.get("key")
+    const prefix = searchParams.get("prefix")
+
+    let cleared: number
+    if (key) {
+      cleared = cacheService.has(key) ? 1 : 0
+      cacheService.delete(key)
+    } else if (prefix) {
+      cleared = cacheService.deleteByPrefix(prefix)
+    } else {
+      cleared = cacheService.getStats().size
+      cacheService.clear()
+    }
+
+    console.log(`[Admin Cache] ${admin.session.user.email} cleared ${cleared} entries`)
+
+    return NextResponse.json({ cleared }, { status: 200 })
+  } catch (error) {
+    console.error("[Admin Cache] Clear error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
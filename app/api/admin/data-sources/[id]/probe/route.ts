@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { checkAdmin } from "@/lib/auth-guards"
+import { getDataSourceHealth, isProviderId, probeDataSource } from "@/lib/services/data-source-registry"
+
+/**
+ * Send one request to a provider now and return the result with its updated health
+ */
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await checkAdmin()
+
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status })
+    }
+
+    const { id } = await params
+
+    if (!isProviderId(id)) {
+      return NextResponse.json({ error: "Data source not found" }, { status: 404 })
+    }
+
+    const probe = await probeDataSource(id)
+    const source = getDataSourceHealth().find((entry) => entry.id === id)
+    console.log(`[Admin DataSources] ${admin.session.user.email} probed ${id}: ${probe.ok ? "ok" : probe.error}`)
+
+    return NextResponse.json({ probe, source }, { status: 200 })
+  } catch (error) {
+    console.error("[Admin DataSources] Probe error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { checkAdmin } from "@/lib/auth-guards"
+import { getDataSourceHealth } from "@/lib/services/data-source-registry"
+
+/**
+ * Configuration and health of every external data provider, from the calls made
+ * since the server process started
+ */
+export async function GET() {
+  try {
+    const admin = await checkAdmin()
+
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status })
+    }
+
+    return NextResponse.json({ sources: getDataSourceHealth(), checkedAt: new Date().toISOString() }, { status: 200 })
+  } catch (error) {
+    console.error("[Admin DataSources] List error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
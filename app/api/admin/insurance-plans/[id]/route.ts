@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server"
+import { checkAdmin } from "@/lib/auth-guards"
+import {
+  countActivePlans,
+  getPlanTemplate,
+  insurancePlanTemplateSchema,
+  insurancePlanUpdateSchema,
+  isDuplicatePlanName,
+  retirePlanTemplate,
+  updatePlanTemplate,
+} from "@/lib/services/insurance-plan-store"
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await checkAdmin()
+
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status })
+    }
+
+    const { id } = await params
+    const existing = await getPlanTemplate(id)
+
+    if (!existing) {
+      return NextResponse.json({ error: "Plan not found" }, { status: 404 })
+    }
+
+    const patch = insurancePlanUpdateSchema.safeParse(await request.json().catch(() => null))
+    if (!patch.success) {
+      return NextResponse.json(
+        { error: "Invalid insurance plan", details: patch.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    // Cross-field rules (coverage and risk bands) are checked on the merged plan
+    const { _id, status, createdAt, updatedAt, retiredAt, ...template } = existing
+    const merged = insurancePlanTemplateSchema.safeParse({ ...template, ...patch.data })
+    if (!merged.success) {
+      return NextResponse.json(
+        { error: "Invalid insurance plan", details: merged.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const plan = await updatePlanTemplate(id, merged.data)
+    console.log(`[Admin Plans] ${admin.session.user.email} updated plan "${merged.data.name}"`)
+
+    return NextResponse.json({ plan }, { status: 200 })
+  } catch (error) {
+    if (isDuplicatePlanName(error)) {
+      return NextResponse.json({ error: "A plan with this name already exists" }, { status: 409 })
+    }
+    console.error("[Admin Plans] Update error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+/**
+ * Retire a plan. The document is kept so past analyses that reference it still resolve.
+ */
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await checkAdmin()
+
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status })
+    }
+
+    const { id } = await params
+    const existing = await getPlanTemplate(id)
+
+    if (!existing) {
+      return NextResponse.json({ error: "Plan not found" }, { status: 404 })
+    }
+
+    if (existing.status === "active" && (await countActivePlans()) <= 1) {
+      return NextResponse.json({ error: "The last active plan cannot be retired" }, { status: 409 })
+    }
+
+    const plan = await retirePlanTemplate(id)
+    console.log(`[Admin Plans] ${admin.session.user.email} retired plan "${existing.name}"`)
+
+    return NextResponse.json({ plan }, { status: 200 })
+  } catch (error) {
+    console.error("[Admin Plans] Retire error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { checkAdmin } from "@/lib/auth-guards"
+import {
+  createPlanTemplate,
+  insurancePlanTemplateSchema,
+  isDuplicatePlanName,
+  listPlanTemplates,
+} from "@/lib/services/insurance-plan-store"
+
+export async function GET() {
+  try {
+    const admin = await checkAdmin()
+
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status })
+    }
+
+    const plans = await listPlanTemplates()
+
+    return NextResponse.json({ plans }, { status: 200 })
+  } catch (error) {
+    console.error("[Admin Plans] List error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const admin = await checkAdmin()
+
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status })
+    }
+
+    const parsed = insurancePlanTemplateSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid insurance plan", details: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const plan = await createPlanTemplate(parsed.data)
+    console.log(`[Admin Plans] ${admin.session.user.email} created plan "${plan.name}"`)
+
+    return NextResponse.json({ plan }, { status: 201 })
+  } catch (error) {
+    if (isDuplicatePlanName(error)) {
+      return NextResponse.json({ error: "A plan with this name already exists" }, { status: 409 })
+    }
+    console.error("[Admin Plans] Create error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
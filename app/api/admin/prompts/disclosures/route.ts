@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { checkAdmin } from "@/lib/auth-guards"
+import { getRedactionPolicy } from "@/lib/config/redaction-policy"
+import { getAnalysisForAdmin } from "@/lib/services/analysis-history"
+import { disclosuresForAnalysis } from "@/lib/services/prompt-preview"
+
+/**
+ * Audit which personal fields left the server for a stored analysis: ?analysisId=...
+ */
+export async function GET(request: Request) {
+  try {
+    const admin = await checkAdmin()
+
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status })
+    }
+
+    const analysisId = new URL(request.url).searchParams.get("analysisId")
+
+    if (!analysisId) {
+      return NextResponse.json({ error: "analysisId is required" }, { status: 400 })
+    }
+
+    const analysis = await getAnalysisForAdmin(analysisId)
+
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    const prompts = await disclosuresForAnalysis(analysis)
+    return NextResponse.json({ analysisId, currentPolicy: getRedactionPolicy(), prompts }, { status: 200 })
+  } catch (error) {
+    console.error("[Admin Prompts] Disclosure audit error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { checkAdmin } from "@/lib/auth-guards"
+import { isPromptTemplateId } from "@/lib/config/prompt-templates"
+import { getAnalysisForAdmin } from "@/lib/services/analysis-history"
+import { previewPromptForAnalysis } from "@/lib/services/prompt-preview"
+
+/**
+ * Render a prompt template for a stored analysis:
+ * ?analysisId=...&templateId=risk-analysis[&version=1.0.0]
+ */
+export async function GET(request: Request) {
+  try {
+    const admin = await checkAdmin()
+
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const analysisId = searchParams.get("analysisId")
+    const templateId = searchParams.get("templateId")
+    const version = searchParams.get("version") || undefined
+
+    if (!analysisId) {
+      return NextResponse.json({ error: "analysisId is required" }, { status: 400 })
+    }
+
+    if (!isPromptTemplateId(templateId)) {
+      return NextResponse.json({ error: "Unknown prompt template" }, { status: 400 })
+    }
+
+    const analysis = await getAnalysisForAdmin(analysisId)
+
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    const preview = previewPromptForAnalysis(analysis, templateId, version)
+
+    if (!preview) {
+      return NextResponse.json({ error: `Unknown version ${version} of ${templateId}` }, { status: 404 })
+    }
+
+    return NextResponse.json(preview, { status: 200 })
+  } catch (error) {
+    console.error("[Admin Prompts] Preview error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { checkAdmin } from "@/lib/auth-guards"
+import { DEFAULT_PROMPT_VERSIONS, listPromptTemplates } from "@/lib/config/prompt-templates"
+
+/**
+ * Every registered prompt template version, flagging the ones new analyses use
+ */
+export async function GET() {
+  try {
+    const admin = await checkAdmin()
+
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status })
+    }
+
+    const templates = listPromptTemplates().map((template) => ({
+      ...template,
+      isDefault: DEFAULT_PROMPT_VERSIONS[template.id] === template.version,
+    }))
+
+    return NextResponse.json({ templates }, { status: 200 })
+  } catch (error) {
+    console.error("[Admin Prompts] List error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
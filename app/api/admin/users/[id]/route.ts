@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { checkAdmin } from "@/lib/auth-guards"
+import { USER_ROLES, isUserRole, setUserRole } from "@/lib/services/user-store"
+
+/**
+ * Change a user's role. Takes effect on admin routes immediately and in the
+ * user's session the next time they sign in.
+ */
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await checkAdmin()
+
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status })
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const role = body?.role
+
+    if (!isUserRole(role)) {
+      return NextResponse.json({ error: `Role must be one of: ${USER_ROLES.join(", ")}` }, { status: 400 })
+    }
+
+    const change = await setUserRole(id, role)
+
+    if (!change.ok) {
+      return change.reason === "not_found"
+        ? NextResponse.json({ error: "User not found" }, { status: 404 })
+        : NextResponse.json({ error: "The last admin cannot be demoted" }, { status: 409 })
+    }
+
+    console.log(`[Admin Users] ${admin.session.user.email} set ${change.user.email} to ${role}`)
+
+    return NextResponse.json({ user: change.user }, { status: 200 })
+  } catch (error) {
+    console.error("[Admin Users] Update error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { checkAdmin } from "@/lib/auth-guards"
+import { parsePagination } from "@/lib/services/analysis-history"
+import { listUsers } from "@/lib/services/user-store"
+
+export async function GET(request: Request) {
+  try {
+    const admin = await checkAdmin()
+
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { page, limit } = parsePagination(searchParams)
+
+    const users = await listUsers(page, limit)
+
+    return NextResponse.json(users, { status: 200 })
+  } catch (error) {
+    console.error("[Admin Users] List error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
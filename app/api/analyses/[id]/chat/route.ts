@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { getAnalysis } from "@/lib/services/analysis-history"
+import { clearChat, getChatMessages, replyToChat } from "@/lib/services/analysis-chat"
+import { SSE_HEADERS, createSSEStream } from "@/lib/utils/sse"
+import { ChatEvent } from "@/types/agents"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const chatMessageSchema = z.object({
+  message: z.string().trim().min(1).max(2000),
+})
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const analysis = await getAnalysis(session.user.id, id)
+
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    const messages = await getChatMessages(session.user.id, id)
+    return NextResponse.json({ messages }, { status: 200 })
+  } catch (error) {
+    console.error("[Chat] Get error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+/**
+ * Ask a question about the analysis. The reply streams as ChatEvents and ends with "done" or "error".
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const parsed = chatMessageSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid chat message", details: parsed.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const userId = session.user.id
+    const { id } = await params
+    const analysis = await getAnalysis(userId, id)
+
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    const stream = createSSEStream<ChatEvent>(async (send) => {
+      try {
+        const message = await replyToChat(userId, analysis, parsed.data.message, (text) => send({ type: "delta", text }))
+        send({ type: "done", message })
+      } catch (error) {
+        console.error(`[Chat] Reply failed for analysis ${id}:`, error)
+        send({ type: "error", message: error instanceof Error ? error.message : "Unknown error" })
+      }
+    })
+
+    return new Response(stream, { headers: SSE_HEADERS })
+  } catch (error) {
+    console.error("[Chat] Post error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const analysis = await getAnalysis(session.user.id, id)
+
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    await clearChat(session.user.id, id)
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error("[Chat] Delete error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
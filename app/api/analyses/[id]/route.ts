@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { getAnalysis } from "@/lib/services/analysis-history"
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const analysis = await getAnalysis(session.user.id, id)
+
+    if (!analysis) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(analysis, { status: 200 })
+  } catch (error) {
+    console.error("[Analyses] Get error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { getAnalysis } from "@/lib/services/analysis-history"
+import { diffAnalyses } from "@/lib/services/analysis-diff"
+import { getPlanCatalogue } from "@/lib/services/insurance-plan-store"
+
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const baseId = searchParams.get("base")
+    const targetId = searchParams.get("target")
+
+    if (!baseId || !targetId) {
+      return NextResponse.json({ error: "Both base and target analysis ids are required" }, { status: 400 })
+    }
+
+    if (baseId === targetId) {
+      return NextResponse.json({ error: "Choose two different analyses to compare" }, { status: 400 })
+    }
+
+    const [base, target, plans] = await Promise.all([
+      getAnalysis(session.user.id, baseId),
+      getAnalysis(session.user.id, targetId),
+      getPlanCatalogue(),
+    ])
+
+    if (!base || !target) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ diff: diffAnalyses(base, target, plans) }, { status: 200 })
+  } catch (error) {
+    console.error("[Analyses] Compare error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
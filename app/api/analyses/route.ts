@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { listAnalyses, parsePagination } from "@/lib/services/analysis-history"
+
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { page, limit } = parsePagination(searchParams)
+
+    const history = await listAnalyses(session.user.id, page, limit)
+
+    return NextResponse.json(history, { status: 200 })
+  } catch (error) {
+    console.error("[Analyses] List error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
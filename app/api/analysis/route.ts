@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { loadUserProfile, runAnalysisPipeline } from "@/lib/services/analysis-pipeline"
+
+/**
+ * Run the full analysis for the signed-in user's saved profile and return the stored analysis id
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userProfile = await loadUserProfile(session.user.id)
+
+    if (!userProfile) {
+      return NextResponse.json({ error: "Complete your profile before running an analysis" }, { status: 400 })
+    }
+
+    const { analysisId, agent1Results, agent2Results } = await runAnalysisPipeline(session.user.id, userProfile)
+
+    return NextResponse.json(
+      {
+        success: true,
+        analysisId,
+        data: { agent1Results, agent2Results },
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("[Pipeline] Error:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to complete analysis",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { loadUserProfile, runAnalysisPipeline } from "@/lib/services/analysis-pipeline"
+import { SSE_HEADERS, createSSEStream } from "@/lib/utils/sse"
+import { PipelineEvent, PipelineStage } from "@/types/agents"
+
+/**
+ * Run the full analysis for the saved profile and stream its progress as Server-Sent Events.
+ * Every event is a PipelineEvent; the stream ends with "done" or "error".
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userId = session.user.id
+    const userProfile = await loadUserProfile(userId)
+
+    if (!userProfile) {
+      return NextResponse.json({ error: "Complete your profile before running an analysis" }, { status: 400 })
+    }
+
+    const stream = createSSEStream<PipelineEvent>(async (send) => {
+      let stage: PipelineStage = "collector"
+      const emit = (event: PipelineEvent) => {
+        if (event.type === "stage_started") stage = event.stage
+        send(event)
+      }
+
+      try {
+        const { analysisId } = await runAnalysisPipeline(userId, userProfile, emit)
+        emit({ type: "done", analysisId })
+      } catch (error) {
+        console.error(`[Pipeline] Stream failed during ${stage}:`, error)
+        emit({ type: "error", stage, message: error instanceof Error ? error.message : "Unknown error" })
+      }
+    })
+
+    return new Response(stream, { headers: SSE_HEADERS })
+  } catch (error) {
+    console.error("[Pipeline] Stream setup error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -27,6 +27,7 @@ export async function POST(request: Request) {
       name,
       email,
       password: hashedPassword,
+      role: "user",
       createdAt: new Date(),
       profileCompleted: false,
     })
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { searchCities } from "@/lib/services/city-registry"
+
+const MAX_SUGGESTIONS = 10
+
+/**
+ * City typeahead: ?q=beng or ?q=560001 [&limit=8]
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get("q") || ""
+    const limit = Math.min(Number(searchParams.get("limit")) || 8, MAX_SUGGESTIONS)
+
+    const cities = await searchCities(query, limit)
+    return NextResponse.json({ cities }, { status: 200 })
+  } catch (error) {
+    console.error("[Cities] Search error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { resolveCity } from "@/lib/services/city-registry"
+import { getEnvironmentalForecast } from "@/lib/services/environmental-forecast"
+
+/**
+ * Seven-day temperature, humidity, PM2.5/PM10 and UV forecast for a city, with each day's
+ * exposure scored for the given occupation and work shift
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const location = await resolveCity(searchParams.get("city") || "", searchParams.get("state") || "")
+
+    if (!location) {
+      return NextResponse.json({ error: "Invalid city" }, { status: 400 })
+    }
+
+    const forecast = await getEnvironmentalForecast(
+      location.name,
+      searchParams.get("occupation") || "",
+      searchParams.get("workShift") || "",
+      location.state
+    )
+    if (!forecast) {
+      return NextResponse.json({ error: "The forecast is unavailable for this city" }, { status: 503 })
+    }
+
+    return NextResponse.json({
+      ...forecast,
+      source: {
+        weather: "Open-Meteo Forecast",
+        airQuality: forecast.days.some((day) => day.pm25 !== null) ? "Open-Meteo Air Quality (CAMS)" : null,
+      },
+    })
+  } catch (error) {
+    console.error("[CareFund] Forecast API error:", error)
+    return NextResponse.json({ error: "Failed to fetch the forecast" }, { status: 500 })
+  }
+}
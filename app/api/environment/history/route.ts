@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { resolveCity } from "@/lib/services/city-registry"
+import { getClimateHistory } from "@/lib/services/climate-history"
+
+/**
+ * Twelve months of AQI, temperature and humidity aggregates for a city, with a monthly series
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const location = await resolveCity(searchParams.get("city") || "", searchParams.get("state") || "")
+
+    if (!location) {
+      return NextResponse.json({ error: "Invalid city" }, { status: 400 })
+    }
+
+    const history = await getClimateHistory(location.name, location.state)
+    if (!history) {
+      return NextResponse.json({ error: "Climate history is unavailable for this city" }, { status: 503 })
+    }
+
+    return NextResponse.json({
+      ...history,
+      source: {
+        weather: history.weather ? "Open-Meteo Archive (ERA5)" : null,
+        aqi: history.aqi ? "Open-Meteo Air Quality (CAMS)" : null,
+      },
+    })
+  } catch (error) {
+    console.error("[CareFund] Climate history API error:", error)
+    return NextResponse.json({ error: "Failed to fetch climate history" }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { getAnalysisJob, toJobView } from "@/lib/services/analysis-jobs"
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const job = await getAnalysisJob(session.user.id, id)
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(toJobView(job), { status: 200 })
+  } catch (error) {
+    console.error("[Jobs] Status error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
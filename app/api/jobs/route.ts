@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { enqueueAnalysisJob, toJobView } from "@/lib/services/analysis-jobs"
+import { loadUserProfile } from "@/lib/services/analysis-pipeline"
+import { startJobWorker } from "@/lib/services/job-worker"
+
+/**
+ * Queue an analysis of the signed-in user's saved profile. Poll GET /api/jobs/[id] for progress.
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const userProfile = await loadUserProfile(session.user.id)
+
+    if (!userProfile) {
+      return NextResponse.json({ error: "Complete your profile before running an analysis" }, { status: 400 })
+    }
+
+    const job = await enqueueAnalysisJob(session.user.id, userProfile)
+
+    // Normally started by instrumentation.ts; this covers servers started without it
+    startJobWorker()
+
+    return NextResponse.json({ success: true, job: toJobView(job) }, { status: 202 })
+  } catch (error) {
+    console.error("[Jobs] Enqueue error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import clientPromise from "@/lib/mongodb"
 import { ObjectId } from "mongodb"
+import { resolveCity } from "@/lib/services/city-registry"
+import { dependentsSchema, healthHistorySchema, migrateProfile } from "@/lib/utils/health-history"
 
 export async function GET() {
   try {
@@ -21,7 +23,7 @@ export async function GET() {
       return NextResponse.json({ profileCompleted: false }, { status: 200 })
     }
 
-    return NextResponse.json(profile, { status: 200 })
+    return NextResponse.json(migrateProfile(profile), { status: 200 })
   } catch (error) {
     console.error("[v0] Get profile error:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
@@ -36,7 +38,36 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const profileData = await request.json()
+    const body = await request.json()
+
+    const healthHistory = healthHistorySchema.safeParse(body)
+    if (!healthHistory.success) {
+      return NextResponse.json(
+        { error: "Invalid health history", details: healthHistory.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    const household = dependentsSchema.safeParse(body)
+    if (!household.success) {
+      return NextResponse.json(
+        { error: "Invalid dependents", details: household.error.flatten().fieldErrors },
+        { status: 400 },
+      )
+    }
+
+    // The city is stored as the registry resolves it; the picked place's state tells namesakes apart
+    const cityLocation = await resolveCity(
+      typeof body.city === "string" ? body.city : "",
+      typeof body.cityLocation?.state === "string" ? body.cityLocation.state : ""
+    )
+    if (!cityLocation) {
+      return NextResponse.json({ error: "City not recognised. Pick it from the list." }, { status: 400 })
+    }
+
+    // Legacy single-string fields are replaced by the structured lists
+    const { healthCondition, customHealthCondition, pastSurgery, ...rest } = body
+    const profileData = { ...rest, ...healthHistory.data, ...household.data, city: cityLocation.name, cityLocation }
 
     const client = await clientPromise
     const db = client.db("carefund")
@@ -53,6 +84,11 @@ export async function POST(request: Request) {
         $setOnInsert: {
           createdAt: new Date(),
         },
+        $unset: {
+          healthCondition: "",
+          customHealthCondition: "",
+          pastSurgery: "",
+        },
       },
       { upsert: true },
     )
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { MAX_WHAT_IF_SCENARIOS, parseOverrides, runWhatIf } from "@/lib/services/what-if-simulator"
+import { WhatIfScenario } from "@/types/agents"
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { userProfile, scenarios } = body
+
+    if (!userProfile?.city || !userProfile?.occupation || !userProfile?.age) {
+      return NextResponse.json({ error: "A user profile with city, occupation and age is required" }, { status: 400 })
+    }
+
+    if (!Array.isArray(scenarios) || scenarios.length === 0) {
+      return NextResponse.json({ error: "At least one scenario is required" }, { status: 400 })
+    }
+
+    if (scenarios.length > MAX_WHAT_IF_SCENARIOS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_WHAT_IF_SCENARIOS} scenarios can be simulated at once` },
+        { status: 400 }
+      )
+    }
+
+    const parsedScenarios: WhatIfScenario[] = []
+    for (const [index, scenario] of scenarios.entries()) {
+      const overrides = parseOverrides(scenario?.overrides)
+      if (!overrides) {
+        return NextResponse.json({ error: `Scenario ${index + 1} has invalid overrides` }, { status: 400 })
+      }
+      parsedScenarios.push({
+        label: typeof scenario.label === "string" && scenario.label ? scenario.label : `Scenario ${index + 1}`,
+        overrides,
+      })
+    }
+
+    const results = await runWhatIf(userProfile, parsedScenarios)
+
+    return NextResponse.json({ success: true, data: results }, { status: 200 })
+  } catch (error) {
+    console.error("[WhatIf] Simulation error:", error)
+    return NextResponse.json({ error: "Failed to run what-if simulation" }, { status: 500 })
+  }
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { useRouter } from "next/navigation"
 import { useSession, signOut } from "next-auth/react"
 import { Shield, Database, Brain, TrendingUp, CheckCircle2, Loader2, AlertTriangle, RefreshCw } from "lucide-react"
@@ -9,7 +9,12 @@ import { Card } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/hooks/use-toast"
-import { AgentStep } from "@/types/agents"
+import { pipelineProgress, resetSteps, stepsFromJob } from "@/lib/utils/pipeline-progress"
+import { Agent1Results, Agent2Results, AgentStep, AnalysisJobView, PipelineStage } from "@/types/agents"
+
+const JOB_STORAGE_KEY = "analysisJobId"
+const JOB_POLL_INTERVAL_MS = 1500
+const STEP_STAGES: PipelineStage[] = ["collector", "analyzer", "planner"]
 
 export default function AnalysisPage() {
   const router = useRouter()
@@ -43,11 +48,14 @@ export default function AnalysisPage() {
       details: [],
     },
   ])
-  const [currentStep, setCurrentStep] = useState(0)
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [analysisComplete, setAnalysisComplete] = useState(false)
-  const [agent1Results, setAgent1Results] = useState<any>(null)
-  const [agent2Results, setAgent2Results] = useState<any>(null)
+  const [agent1Results, setAgent1Results] = useState<Agent1Results | null>(null)
+  const [agent2Results, setAgent2Results] = useState<Agent2Results | null>(null)
+  const [job, setJob] = useState<AnalysisJobView | null>(null)
+  const pollTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Set on unmount so requests still in flight neither update state nor poll again
+  const unmounted = useRef(false)
 
   useEffect(() => {
     if (status === "loading") return
@@ -85,178 +93,159 @@ export default function AnalysisPage() {
     }
   }
 
-  const runAnalysis = async () => {
+  const stopPolling = () => {
+    if (pollTimer.current) {
+      clearTimeout(pollTimer.current)
+      pollTimer.current = null
+    }
+  }
+
+  useEffect(() => {
+    unmounted.current = false
+    return () => {
+      unmounted.current = true
+      stopPolling()
+    }
+  }, [])
+
+  // A job keeps running on the server if this page is closed; pick it back up on return
+  useEffect(() => {
     if (!profile) return
-    setIsAnalyzing(true)
-    setCurrentStep(0)
+    const jobId = sessionStorage.getItem(JOB_STORAGE_KEY)
+    if (jobId) {
+      setIsAnalyzing(true)
+      pollJob(jobId)
+    }
+  }, [profile])
+
+  const pollJob = async (jobId: string) => {
+    stopPolling()
+    let analysisId: string | undefined
 
     try {
-      // Step 1: Run Agent 1 (Collector & Analyzer)
-      setAgentSteps((prev) => 
-        prev.map((step, idx) => 
-          idx === 0 ? { ...step, status: "processing", description: "Fetching real-time data from multiple sources..." } : step
-        )
-      )
-
-      const agent1Response = await fetch("/api/agents/collector-analyzer", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userProfile: profile }),
-      })
+      const response = await fetch(`/api/jobs/${jobId}`)
+      if (unmounted.current) return
 
-      if (!agent1Response.ok) {
-        throw new Error("Agent 1 failed")
+      if (response.status === 404) {
+        sessionStorage.removeItem(JOB_STORAGE_KEY)
+        setIsAnalyzing(false)
+        return
       }
 
-      const agent1Data = await agent1Response.json()
-      setAgent1Results(agent1Data.data)
-
-      // Update Agent 1 step with results
-      const envData = agent1Data.data.environmentalData
-      const statsData = agent1Data.data.statisticalData
-      
-      setAgentSteps((prev) =>
-        prev.map((step, idx) =>
-          idx === 0
-            ? {
-                ...step,
-                status: "complete",
-                description: "Data collection complete",
-                details: [
-                  `📍 Location: ${envData.city}, ${profile.area}`,
-                  `🌫️ Air Quality Index: ${envData.aqi} (${envData.climateRisk} Risk)`,
-                  `🌡️ Temperature: ${envData.temperature}°C, Humidity: ${envData.humidity}%`,
-                  `💼 Occupation: ${profile.occupation} (${statsData.occupationHazardLevel} hazard level)`,
-                  `📊 City Health Index: ${statsData.cityHealthIndex}/100`,
-                  `🚨 Crime Rate: ${statsData.crimeRate} per 100,000 population`,
-                ],
-              }
-            : step,
-        ),
-      )
-
-      setCurrentStep(1)
-
-      // Step 2: Display Agent 1 Analysis Results
-      setAgentSteps((prev) =>
-        prev.map((step, idx) =>
-          idx === 1 ? { ...step, status: "processing", description: "AI analyzing health risks and generating insights..." } : step
-        )
-      )
-
-      // Simulate AI processing time
-      await new Promise((resolve) => setTimeout(resolve, 1500))
-
-      const riskFactors = agent1Data.data.riskFactors
-      const riskScore = agent1Data.data.riskScore
-      const riskLevel = agent1Data.data.riskLevel
-
-      setAgentSteps((prev) =>
-        prev.map((step, idx) =>
-          idx === 1
-            ? {
-                ...step,
-                status: "complete",
-                description: "Risk analysis complete",
-                details: [
-                  `🎯 Overall Risk Score: ${riskScore}/100 (${riskLevel.toUpperCase()} Risk)`,
-                  `⚠️ Top Risk Factors:`,
-                  ...riskFactors.slice(0, 4).map((f: any) => `  • ${f.category}: ${f.description}`),
-                  `💡 AI Analysis: ${agent1Data.data.geminiAnalysis.substring(0, 150)}...`,
-                ],
-              }
-            : step,
-        ),
-      )
-
-      setCurrentStep(2)
-
-      // Step 3: Run Agent 2 (Financial Planner)
-      setAgentSteps((prev) =>
-        prev.map((step, idx) =>
-          idx === 2 ? { ...step, status: "processing", description: "Calculating insurance plans and savings recommendations..." } : step
-        )
-      )
-
-      const agent2Response = await fetch("/api/agents/planner-financial", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ 
-          agent1Results: agent1Data.data,
-          userProfile: profile 
-        }),
-      })
+      if (!response.ok) {
+        throw new Error("Failed to load analysis status")
+      }
+
+      const job: AnalysisJobView = await response.json()
+      if (unmounted.current) return
 
-      if (!agent2Response.ok) {
-        throw new Error("Agent 2 failed")
+      setJob(job)
+      setAgentSteps((prev) => stepsFromJob(prev, job, profile))
+
+      if (job.status === "succeeded" && job.analysisId) {
+        sessionStorage.removeItem(JOB_STORAGE_KEY)
+        analysisId = job.analysisId
       }
 
-      const agent2Data = await agent2Response.json()
-      setAgent2Results(agent2Data.data)
-
-      const insurancePlan = agent2Data.data.insurancePlan
-      const monthlySavings = agent2Data.data.monthlySavings
-      const emergencyFund = agent2Data.data.emergencyFund
-
-      setAgentSteps((prev) =>
-        prev.map((step, idx) =>
-          idx === 2
-            ? {
-                ...step,
-                status: "complete",
-                description: "Financial planning complete",
-                details: [
-                  `🏥 Recommended Insurance: ${insurancePlan.name}`,
-                  `💰 Coverage Amount: ₹${insurancePlan.coverage.toLocaleString()}`,
-                  `📅 Monthly Premium: ₹${insurancePlan.premium.toLocaleString()}`,
-                  `💵 Suggested Monthly Savings: ₹${monthlySavings.toLocaleString()}`,
-                  `🎯 Emergency Fund Target: ₹${emergencyFund.toLocaleString()}`,
-                  `🔮 ${agent2Data.data.autoPaySetup.message}`,
-                ],
-              }
-            : step,
-        ),
-      )
-
-      // Store complete results in session storage
-      sessionStorage.setItem(
-        "analysisResults",
-        JSON.stringify({
-          riskScore: agent1Data.data.riskScore,
-          riskLevel: agent1Data.data.riskLevel,
-          monthlySavings: agent2Data.data.monthlySavings,
-          insurancePlan: agent2Data.data.insurancePlan,
-          agent1Results: agent1Data.data,
-          agent2Results: agent2Data.data,
-          timestamp: new Date().toISOString(),
-        }),
-      )
-
-      setCurrentStep(3)
-      setAnalysisComplete(true)
-      setIsAnalyzing(false)
+      if (job.status === "failed") {
+        sessionStorage.removeItem(JOB_STORAGE_KEY)
+        setIsAnalyzing(false)
+        toast({
+          title: "Analysis Failed",
+          description: job.error || "An error occurred during the analysis. Please try again.",
+          variant: "destructive",
+        })
+        return
+      }
+    } catch (error) {
+      // Keep polling through network blips; the job itself is unaffected
+      console.error("[Analysis] Error polling job:", error)
+    }
+
+    if (unmounted.current) return
+
+    // Loading the finished result is not a poll error; it reports its own failure
+    if (analysisId) {
+      await finishAnalysis(analysisId)
+      return
+    }
+
+    pollTimer.current = setTimeout(() => pollJob(jobId), JOB_POLL_INTERVAL_MS)
+  }
 
+  const finishAnalysis = async (analysisId: string) => {
+    let analysis
+
+    try {
+      const response = await fetch(`/api/analyses/${analysisId}`)
+      if (unmounted.current) return
+
+      if (!response.ok) {
+        throw new Error("Failed to load analysis results")
+      }
+
+      analysis = await response.json()
+    } catch (error) {
+      if (unmounted.current) return
+      console.error("[Analysis] Error loading results:", error)
+      setIsAnalyzing(false)
       toast({
-        title: "Analysis Complete!",
-        description: "Your personalized health and financial report is ready.",
+        title: "Analysis Failed",
+        description: "The analysis finished but its results could not be loaded. Check your history.",
+        variant: "destructive",
       })
+      return
+    }
 
+    if (unmounted.current) return
+
+    setAgent1Results(analysis.agent1Results)
+    setAgent2Results(analysis.agent2Results)
+
+    // Store complete results in session storage
+    sessionStorage.setItem(
+      "analysisResults",
+      JSON.stringify({
+        riskScore: analysis.agent1Results.riskScore,
+        riskLevel: analysis.agent1Results.riskLevel,
+        monthlySavings: analysis.agent2Results.monthlySavings,
+        insurancePlan: analysis.agent2Results.insurancePlan,
+        agent1Results: analysis.agent1Results,
+        agent2Results: analysis.agent2Results,
+        analysisId,
+        timestamp: analysis.createdAt,
+      }),
+    )
+
+    setAnalysisComplete(true)
+    setIsAnalyzing(false)
+
+    toast({
+      title: "Analysis Complete!",
+      description: "Your personalized health and financial report is ready.",
+    })
+  }
+
+  const runAnalysis = async () => {
+    if (!profile) return
+    setIsAnalyzing(true)
+    setJob(null)
+    setAgentSteps((prev) => resetSteps(prev))
+
+    try {
+      // The server reads the saved profile itself and runs the agents in a background job
+      const response = await fetch("/api/jobs", { method: "POST" })
+
+      if (!response.ok) {
+        throw new Error("Analysis could not be started")
+      }
+
+      const { job } = await response.json()
+      sessionStorage.setItem(JOB_STORAGE_KEY, job._id)
+      setJob(job)
+      pollJob(job._id)
     } catch (error) {
       console.error("[Analysis] Error during analysis:", error)
-      
-      // Mark current step as error
-      setAgentSteps((prev) =>
-        prev.map((step, idx) =>
-          idx === currentStep
-            ? {
-                ...step,
-                status: "error",
-                description: "An error occurred during analysis",
-                error: error instanceof Error ? error.message : "Unknown error",
-              }
-            : step,
-        ),
-      )
 
       toast({
         title: "Analysis Failed",
@@ -287,7 +276,8 @@ export default function AnalysisPage() {
     return null
   }
 
-  const progress = analysisComplete ? 100 : (currentStep / 3) * 100
+  const progress = analysisComplete ? 100 : pipelineProgress(agentSteps)
+  const stepTiming = (index: number) => job?.timings.find((timing) => timing.stage === STEP_STAGES[index])?.durationMs
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-cyan-50 to-teal-50">
@@ -355,6 +345,13 @@ export default function AnalysisPage() {
                   <span className="text-sm font-semibold text-cyan-600">{Math.round(progress)}%</span>
                 </div>
                 <Progress value={progress} className="h-2" />
+                {job?.status === "queued" && (
+                  <p className="mt-3 text-sm text-slate-600">
+                    {job.attempts > 0
+                      ? `Attempt ${job.attempts} of ${job.maxAttempts} failed (${job.error}). Retrying shortly...`
+                      : "Waiting for an analysis worker..."}
+                  </p>
+                )}
               </Card>
 
               {/* Agent Steps */}
@@ -405,6 +402,9 @@ export default function AnalysisPage() {
                           )}
                         </div>
                         <p className="text-sm text-slate-600">{step.description}</p>
+                        {step.status === "complete" && stepTiming(index) !== undefined && (
+                          <p className="mt-1 text-xs text-slate-400">Took {(stepTiming(index)! / 1000).toFixed(1)}s</p>
+                        )}
 
                         {step.error && (
                           <div className="mt-4 rounded-lg bg-red-50 p-4">
@@ -421,6 +421,13 @@ export default function AnalysisPage() {
                             ))}
                           </div>
                         )}
+
+                        {step.liveText && (
+                          <div className="mt-4 max-h-48 overflow-y-auto rounded-lg border border-cyan-100 bg-cyan-50/50 p-4">
+                            <p className="mb-1 text-xs font-semibold uppercase text-cyan-700">💡 AI Analysis</p>
+                            <p className="whitespace-pre-wrap text-sm text-slate-700">{step.liveText}</p>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </Card>
@@ -450,10 +457,8 @@ export default function AnalysisPage() {
                       onClick={() => {
                         setIsAnalyzing(false)
                         setAnalysisComplete(false)
-                        setCurrentStep(0)
-                        setAgentSteps((prev) =>
-                          prev.map((step) => ({ ...step, status: "pending" as const, details: [] }))
-                        )
+                        setJob(null)
+                        setAgentSteps((prev) => resetSteps(prev))
                       }}
                     >
                       Run Again
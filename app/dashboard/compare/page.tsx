@@ -0,0 +1,359 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useSession, signOut } from "next-auth/react"
+import { ArrowDown, ArrowRight, ArrowUp, History, Minus, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/hooks/use-toast"
+import { formatAddictions, formatHealthConditions, formatSurgeries } from "@/lib/utils/health-history"
+import { AnalysisDiff, NumericChange } from "@/types/agents"
+
+const LIST_FORMATTERS: Record<string, (value: any[]) => string> = {
+  healthConditions: formatHealthConditions,
+  addictions: formatAddictions,
+  pastSurgeries: formatSurgeries,
+}
+
+const ENVIRONMENTAL_LABELS: Record<keyof AnalysisDiff["environmental"], string> = {
+  aqi: "Air Quality Index",
+  temperature: "Temperature (°C)",
+  humidity: "Humidity (%)",
+}
+
+const STATISTICAL_LABELS: Record<keyof AnalysisDiff["statistical"], string> = {
+  deathRate: "Death Rate (per 1,000)",
+  ageAdjustedDeathRate: "Age-Adjusted Death Rate",
+  crimeRate: "Crime Rate (per 100k)",
+  violentCrimeRate: "Violent Crime Rate (per 100k)",
+  safetyIndex: "Safety Index",
+  cityHealthIndex: "City Health Index",
+  occupationDeathRate: "Occupation Death Rate (per 100k)",
+}
+
+const FINANCIAL_LABELS: Record<keyof AnalysisDiff["financial"], string> = {
+  monthlySavings: "Monthly Savings (₹)",
+  emergencyFund: "Emergency Fund (₹)",
+  yearlyHealthBudget: "Yearly Health Budget (₹)",
+}
+
+export default function ComparePage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { data: session, status } = useSession()
+  const [diff, setDiff] = useState<AnalysisDiff | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    if (status === "loading") return
+
+    if (status === "unauthenticated") {
+      router.push("/login")
+      return
+    }
+
+    if (session?.user) {
+      const params = new URLSearchParams(window.location.search)
+      fetchDiff(params.get("base"), params.get("target"))
+    }
+  }, [status, session, router])
+
+  const fetchDiff = async (baseId: string | null, targetId: string | null) => {
+    if (!baseId || !targetId) {
+      router.push("/dashboard/history")
+      return
+    }
+
+    try {
+      const response = await fetch(
+        `/api/analyses/compare?base=${encodeURIComponent(baseId)}&target=${encodeURIComponent(targetId)}`
+      )
+
+      if (!response.ok) {
+        throw new Error("Failed to compare analyses")
+      }
+
+      const data = await response.json()
+      setDiff(data.diff)
+    } catch (error) {
+      console.error("[Compare] Error fetching diff:", error)
+      toast({
+        title: "Error",
+        description: "Failed to compare these analyses",
+        variant: "destructive",
+      })
+      router.push("/dashboard/history")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // For risk-type metrics a positive delta is bad; for health/safety indices it is good
+  const renderDelta = (change: NumericChange, higherIsBetter: boolean = false) => {
+    if (change.delta === null) {
+      return <span className="text-xs text-slate-400">n/a</span>
+    }
+    if (change.delta === 0) {
+      return (
+        <span className="inline-flex items-center gap-1 text-sm text-slate-500">
+          <Minus className="h-3 w-3" />0
+        </span>
+      )
+    }
+
+    const improved = higherIsBetter ? change.delta > 0 : change.delta < 0
+    const Icon = change.delta > 0 ? ArrowUp : ArrowDown
+    return (
+      <span
+        className={`inline-flex items-center gap-1 text-sm font-semibold ${improved ? "text-green-600" : "text-red-600"}`}
+      >
+        <Icon className="h-3 w-3" />
+        {change.delta > 0 ? "+" : ""}
+        {change.delta.toLocaleString()}
+      </span>
+    )
+  }
+
+  const renderValue = (value: unknown, field?: string) => {
+    if (value === null || value === undefined || value === "") return "—"
+    if (Array.isArray(value) && field && LIST_FORMATTERS[field]) return LIST_FORMATTERS[field](value)
+    if (typeof value === "object") return JSON.stringify(value)
+    return String(value)
+  }
+
+  const renderChangeRows = <K extends string>(
+    changes: Record<K, NumericChange>,
+    labels: Record<K, string>,
+    higherIsBetter: K[] = []
+  ) =>
+    (Object.keys(labels) as K[]).map((key) => (
+      <tr key={key} className="border-b border-slate-100">
+        <td className="p-3 text-sm font-medium text-slate-700">{labels[key]}</td>
+        <td className="p-3 text-center text-sm text-slate-600">{renderValue(changes[key].from)}</td>
+        <td className="p-3 text-center text-sm text-slate-600">{renderValue(changes[key].to)}</td>
+        <td className="p-3 text-center">{renderDelta(changes[key], higherIsBetter.includes(key))}</td>
+      </tr>
+    ))
+
+  const handleLogout = () => {
+    signOut({ callbackUrl: "/" })
+  }
+
+  if (status === "loading" || isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-blue-50 via-cyan-50 to-teal-50">
+        <div className="text-center">
+          <RefreshCw className="mx-auto h-8 w-8 animate-spin text-cyan-600" />
+          <p className="mt-4 text-slate-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (status === "unauthenticated" || !diff) {
+    return null
+  }
+
+  const tierBadge = {
+    upgrade: "bg-orange-100 text-orange-800",
+    downgrade: "bg-green-100 text-green-800",
+    same: "bg-slate-100 text-slate-700",
+    unknown: "bg-slate-100 text-slate-700",
+  }[diff.insurancePlan.tierChange]
+
+  const tableHead = (
+    <thead>
+      <tr className="border-b-2 border-slate-200">
+        <th className="p-3 text-left text-sm font-semibold text-slate-900">Metric</th>
+        <th className="p-3 text-center text-sm font-semibold text-slate-900">
+          {new Date(diff.base.createdAt).toLocaleDateString()}
+        </th>
+        <th className="p-3 text-center text-sm font-semibold text-slate-900">
+          {new Date(diff.target.createdAt).toLocaleDateString()}
+        </th>
+        <th className="p-3 text-center text-sm font-semibold text-slate-900">Change</th>
+      </tr>
+    </thead>
+  )
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-cyan-50 to-teal-50">
+      {/* Header */}
+      <header className="border-b border-white/50 bg-white/70 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <div className="flex items-center gap-2">
+            <img src={"/logo.jpg"} className="w-[50px]"/>
+            <span className="text-2xl font-bold text-slate-900">CareFund</span>
+          </div>
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => router.push("/dashboard/history")}>
+              <History className="mr-2 h-4 w-4" />
+              History
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleLogout}>
+              Logout
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="mx-auto max-w-5xl space-y-6">
+          <div>
+            <h1 className="mb-2 text-3xl font-bold text-slate-900">Compare Analyses</h1>
+            <p className="text-slate-600">
+              {new Date(diff.base.createdAt).toLocaleString()} → {new Date(diff.target.createdAt).toLocaleString()}
+            </p>
+          </div>
+
+          {/* Summary */}
+          <div className="grid gap-6 md:grid-cols-2">
+            <Card className="border-cyan-200 bg-white/90 p-6 backdrop-blur-sm">
+              <h2 className="mb-4 font-semibold text-slate-900">Risk Score</h2>
+              <div className="flex items-center gap-4">
+                <span className="text-3xl font-bold text-slate-500">{diff.riskScore.from}</span>
+                <ArrowRight className="h-5 w-5 text-slate-400" />
+                <span className="text-3xl font-bold text-cyan-600">{diff.riskScore.to}</span>
+                {renderDelta(diff.riskScore)}
+              </div>
+              <p className="mt-3 text-sm text-slate-600">
+                Risk level: {diff.riskLevel.from.toUpperCase()}
+                {diff.riskLevel.changed ? ` → ${diff.riskLevel.to.toUpperCase()}` : " (unchanged)"}
+              </p>
+              {diff.riskModelVersion.changed && (
+                <p className="mt-2 text-xs text-amber-700">
+                  Scored with different risk models ({diff.riskModelVersion.from ?? "unversioned"} →{" "}
+                  {diff.riskModelVersion.to ?? "unversioned"}), so part of the change may come from the model itself.
+                </p>
+              )}
+            </Card>
+
+            <Card className="border-cyan-200 bg-white/90 p-6 backdrop-blur-sm">
+              <div className="mb-4 flex items-center justify-between">
+                <h2 className="font-semibold text-slate-900">Recommended Plan</h2>
+                <Badge className={tierBadge}>
+                  {diff.insurancePlan.tierChange === "same"
+                    ? "Same tier"
+                    : diff.insurancePlan.tierChange === "unknown"
+                      ? "Tier not comparable"
+                      : `Tier ${diff.insurancePlan.tierChange}`}
+                </Badge>
+              </div>
+              <p className="text-sm text-slate-600">
+                {diff.insurancePlan.from.name} ({diff.insurancePlan.from.type})
+              </p>
+              {diff.insurancePlan.planChanged && (
+                <p className="text-sm font-semibold text-slate-900">
+                  → {diff.insurancePlan.to.name} ({diff.insurancePlan.to.type})
+                </p>
+              )}
+              <div className="mt-3 flex gap-6 text-sm">
+                <span>Premium: {renderDelta(diff.insurancePlan.premium)}</span>
+                <span>Coverage: {renderDelta(diff.insurancePlan.coverage, true)}</span>
+              </div>
+            </Card>
+          </div>
+
+          {/* Risk Factors */}
+          <Card className="border-cyan-200 bg-white/90 p-6 backdrop-blur-sm">
+            <h2 className="mb-4 text-xl font-semibold text-slate-900">Risk Factors</h2>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <h3 className="mb-2 text-sm font-semibold text-red-700">Appeared</h3>
+                {diff.riskFactors.added.length === 0 ? (
+                  <p className="text-sm text-slate-500">None</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {diff.riskFactors.added.map((factor) => (
+                      <li key={factor.category} className="rounded-lg bg-red-50 p-3 text-sm">
+                        <p className="font-medium text-slate-900">{factor.category}</p>
+                        <p className="text-xs text-slate-600">{factor.description}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <h3 className="mb-2 text-sm font-semibold text-green-700">Disappeared</h3>
+                {diff.riskFactors.removed.length === 0 ? (
+                  <p className="text-sm text-slate-500">None</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {diff.riskFactors.removed.map((factor) => (
+                      <li key={factor.category} className="rounded-lg bg-green-50 p-3 text-sm">
+                        <p className="font-medium text-slate-900">{factor.category}</p>
+                        <p className="text-xs text-slate-600">{factor.description}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <h3 className="mb-2 text-sm font-semibold text-slate-700">Changed</h3>
+                {diff.riskFactors.changed.length === 0 ? (
+                  <p className="text-sm text-slate-500">None</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {diff.riskFactors.changed.map((change) => (
+                      <li key={change.category} className="rounded-lg bg-slate-50 p-3 text-sm">
+                        <p className="font-medium text-slate-900">{change.category}</p>
+                        <p className="text-xs text-slate-600">
+                          {change.from.level} ({change.from.impact}) → {change.to.level} ({change.to.impact})
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </Card>
+
+          {/* Inputs */}
+          <Card className="border-cyan-200 bg-white/90 p-6 backdrop-blur-sm">
+            <h2 className="mb-4 text-xl font-semibold text-slate-900">Environmental & Statistical Inputs</h2>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                {tableHead}
+                <tbody>
+                  {renderChangeRows(diff.environmental, ENVIRONMENTAL_LABELS)}
+                  {renderChangeRows(diff.statistical, STATISTICAL_LABELS, ["safetyIndex", "cityHealthIndex"])}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+
+          <Card className="border-cyan-200 bg-white/90 p-6 backdrop-blur-sm">
+            <h2 className="mb-4 text-xl font-semibold text-slate-900">Financial Plan</h2>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                {tableHead}
+                <tbody>{renderChangeRows(diff.financial, FINANCIAL_LABELS)}</tbody>
+              </table>
+            </div>
+          </Card>
+
+          {/* Profile Changes */}
+          <Card className="border-cyan-200 bg-white/90 p-6 backdrop-blur-sm">
+            <h2 className="mb-4 text-xl font-semibold text-slate-900">Profile Changes</h2>
+            {diff.profileChanges.length === 0 ? (
+              <p className="text-sm text-slate-500">Your profile was the same for both runs.</p>
+            ) : (
+              <ul className="space-y-2">
+                {diff.profileChanges.map((change) => (
+                  <li key={change.field} className="flex items-center gap-3 rounded-lg bg-slate-50 p-3 text-sm">
+                    <span className="w-40 font-medium text-slate-900">{change.field}</span>
+                    <span className="text-slate-500">{renderValue(change.from, change.field)}</span>
+                    <ArrowRight className="h-4 w-4 text-slate-400" />
+                    <span className="font-semibold text-slate-900">{renderValue(change.to, change.field)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
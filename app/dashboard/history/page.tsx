@@ -0,0 +1,246 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useSession, signOut } from "next-auth/react"
+import { Calendar, ChevronLeft, ChevronRight, FileText, GitCompare, Home, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Progress } from "@/components/ui/progress"
+import { useToast } from "@/hooks/use-toast"
+import { AnalysisSummary } from "@/types/agents"
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+}
+
+const PAGE_SIZE = 10
+
+export default function HistoryPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { data: session, status } = useSession()
+  const [analyses, setAnalyses] = useState<AnalysisSummary[]>([])
+  const [pagination, setPagination] = useState<Pagination | null>(null)
+  const [page, setPage] = useState(1)
+  const [isLoading, setIsLoading] = useState(true)
+  const [selected, setSelected] = useState<AnalysisSummary[]>([])
+
+  useEffect(() => {
+    if (status === "loading") return
+
+    if (status === "unauthenticated") {
+      router.push("/login")
+      return
+    }
+
+    if (session?.user) {
+      fetchHistory(page)
+    }
+  }, [status, session, router, page])
+
+  const fetchHistory = async (pageToLoad: number) => {
+    setIsLoading(true)
+
+    try {
+      const response = await fetch(`/api/analyses?page=${pageToLoad}&limit=${PAGE_SIZE}`)
+
+      if (!response.ok) {
+        throw new Error("Failed to load analysis history")
+      }
+
+      const data = await response.json()
+      setAnalyses(data.analyses)
+      setPagination(data.pagination)
+    } catch (error) {
+      console.error("[History] Error fetching analyses:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load analysis history",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const toggleSelected = (analysis: AnalysisSummary) => {
+    setSelected((prev) => {
+      if (prev.some((item) => item._id === analysis._id)) {
+        return prev.filter((item) => item._id !== analysis._id)
+      }
+      // Keep at most two selections, dropping the oldest pick
+      return [...prev, analysis].slice(-2)
+    })
+  }
+
+  const handleCompare = () => {
+    if (selected.length !== 2) return
+
+    // Always diff the earlier run against the later one
+    const [base, target] = [...selected].sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    )
+    router.push(`/dashboard/compare?base=${base._id}&target=${target._id}`)
+  }
+
+  const getRiskBadge = (level: AnalysisSummary["riskLevel"]) => {
+    switch (level) {
+      case "low":
+        return "bg-green-100 text-green-800"
+      case "medium":
+        return "bg-yellow-100 text-yellow-800"
+      case "high":
+        return "bg-orange-100 text-orange-800"
+      case "critical":
+        return "bg-red-100 text-red-800"
+    }
+  }
+
+  const handleLogout = () => {
+    signOut({ callbackUrl: "/" })
+  }
+
+  if (status === "loading") {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-blue-50 via-cyan-50 to-teal-50">
+        <div className="text-center">
+          <RefreshCw className="mx-auto h-8 w-8 animate-spin text-cyan-600" />
+          <p className="mt-4 text-slate-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (status === "unauthenticated") {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-cyan-50 to-teal-50">
+      {/* Header */}
+      <header className="border-b border-white/50 bg-white/70 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <div className="flex items-center gap-2">
+            <img src={"/logo.jpg"} className="w-[50px]"/>
+            <span className="text-2xl font-bold text-slate-900">CareFund</span>
+          </div>
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => router.push("/dashboard/report")}>
+              <Home className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleLogout}>
+              Logout
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="mx-auto max-w-4xl">
+          <div className="mb-8 flex items-end justify-between gap-4">
+            <div>
+              <h1 className="mb-2 text-3xl font-bold text-slate-900">Analysis History</h1>
+              <p className="text-slate-600">Every AI analysis you have run, newest first. Select two to compare.</p>
+            </div>
+            <Button variant="outline" onClick={handleCompare} disabled={selected.length !== 2} className="gap-2 bg-white">
+              <GitCompare className="h-4 w-4" />
+              Compare ({selected.length}/2)
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <Card className="border-cyan-200 bg-white/90 p-12 text-center backdrop-blur-sm">
+              <RefreshCw className="mx-auto h-8 w-8 animate-spin text-cyan-600" />
+              <p className="mt-4 text-slate-600">Loading analyses...</p>
+            </Card>
+          ) : analyses.length === 0 ? (
+            <Card className="border-cyan-200 bg-white/90 p-12 text-center backdrop-blur-sm">
+              <FileText className="mx-auto mb-4 h-12 w-12 text-slate-400" />
+              <h2 className="mb-2 text-xl font-bold text-slate-900">No analyses yet</h2>
+              <p className="mb-6 text-slate-600">Run your first AI analysis to start building your history.</p>
+              <Button
+                onClick={() => router.push("/dashboard/analysis")}
+                className="bg-gradient-to-r from-cyan-600 to-teal-600 hover:from-cyan-700 hover:to-teal-700"
+              >
+                Run AI Analysis
+              </Button>
+            </Card>
+          ) : (
+            <div className="relative space-y-4 border-l-2 border-cyan-200 pl-6">
+              {analyses.map((analysis) => (
+                <Card
+                  key={analysis._id}
+                  className="relative cursor-pointer border-cyan-200 bg-white/90 p-6 backdrop-blur-sm transition-all hover:ring-2 hover:ring-cyan-400"
+                  onClick={() => router.push(`/dashboard/results?id=${analysis._id}`)}
+                >
+                  <div className="absolute -left-[33px] top-8 h-4 w-4 rounded-full border-2 border-white bg-cyan-600"></div>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-start gap-3">
+                      <Checkbox
+                        className="mt-1"
+                        checked={selected.some((item) => item._id === analysis._id)}
+                        onClick={(e) => e.stopPropagation()}
+                        onCheckedChange={() => toggleSelected(analysis)}
+                        aria-label="Select for comparison"
+                      />
+                      <div>
+                        <div className="mb-2 flex items-center gap-2 text-sm text-slate-500">
+                          <Calendar className="h-4 w-4" />
+                          {new Date(analysis.createdAt).toLocaleString()}
+                        </div>
+                        <h3 className="text-lg font-semibold text-slate-900">{analysis.planName}</h3>
+                        <p className="text-sm text-slate-600">
+                          {analysis.planType} Plan · ₹{analysis.premium.toLocaleString()}/month
+                          {analysis.city && ` · ${analysis.city}`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <Badge className={getRiskBadge(analysis.riskLevel)}>{analysis.riskLevel.toUpperCase()}</Badge>
+                      <p className="mt-2 text-2xl font-bold text-cyan-600">{analysis.riskScore}</p>
+                      <p className="text-xs text-slate-500">/ 100</p>
+                    </div>
+                  </div>
+                  <Progress value={analysis.riskScore} className="mt-4 h-2" />
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="mt-6 flex items-center justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((prev) => prev - 1)}
+                disabled={page <= 1 || isLoading}
+              >
+                <ChevronLeft className="mr-1 h-4 w-4" />
+                Newer
+              </Button>
+              <span className="text-sm text-slate-600">
+                Page {pagination.page} of {pagination.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((prev) => prev + 1)}
+                disabled={page >= pagination.totalPages || isLoading}
+              >
+                Older
+                <ChevronRight className="ml-1 h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
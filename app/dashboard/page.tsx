@@ -14,42 +14,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/hooks/use-toast"
-
-const INDIAN_CITIES = [
-  "Mumbai",
-  "Delhi",
-  "Bangalore",
-  "Hyderabad",
-  "Chennai",
-  "Kolkata",
-  "Pune",
-  "Ahmedabad",
-  "Jaipur",
-  "Lucknow",
-]
-
-const OCCUPATIONS = [
-  "IT Professional",
-  "Healthcare Worker",
-  "Teacher",
-  "Engineer",
-  "Business Owner",
-  "Factory Worker",
-  "Driver",
-  "Student",
-  "Other",
-]
-
-const HEALTH_CONDITIONS = [
-  "None",
-  "Diabetes",
-  "Hypertension",
-  "Asthma",
-  "Heart Disease",
-  "Thyroid",
-  "Arthritis",
-  "Other",
-]
+import { CityField } from "@/components/profile/city-field"
+import { DependentsFields, withoutBlankDependents } from "@/components/profile/dependents-fields"
+import { HealthHistoryFields, withoutBlankEntries } from "@/components/profile/health-history-fields"
+import { OCCUPATIONS, WORK_SHIFTS } from "@/lib/data/profile-options"
+import { HealthHistory, normalizeHealthHistory } from "@/lib/utils/health-history"
+import { CityLocation, Dependent } from "@/types/agents"
 
 export default function DashboardPage() {
   const router = useRouter()
@@ -64,14 +34,18 @@ export default function DashboardPage() {
     city: "",
     area: "",
     age: "",
-    healthCondition: "",
-    customHealthCondition: "",
     monthlyIncome: "",
-    pastSurgery: "",
-    addictions: "",
     workShift: "",
     occupation: "",
   })
+  const [healthHistory, setHealthHistory] = useState<HealthHistory>({
+    healthConditions: [],
+    addictions: [],
+    pastSurgeries: [],
+  })
+  const [dependents, setDependents] = useState<Dependent[]>([])
+  // The place picked in the typeahead, so same-name towns in other states are told apart
+  const [cityLocation, setCityLocation] = useState<CityLocation | null>(null)
 
   useEffect(() => {
     if (status === "loading") return
@@ -97,14 +71,13 @@ export default function DashboardPage() {
           city: data.city || "",
           area: data.area || "",
           age: data.age || "",
-          healthCondition: data.healthCondition || "",
-          customHealthCondition: data.customHealthCondition || "",
           monthlyIncome: data.monthlyIncome || "",
-          pastSurgery: data.pastSurgery || "",
-          addictions: data.addictions || "",
           workShift: data.workShift || "",
           occupation: data.occupation || "",
         })
+        setHealthHistory(normalizeHealthHistory(data))
+        setDependents(Array.isArray(data.dependents) ? data.dependents : [])
+        setCityLocation(data.cityLocation || null)
         setProfileCompleted(true)
       } else {
         setFormData((prev) => ({ ...prev, name: session?.user?.name || "" }))
@@ -125,20 +98,43 @@ export default function DashboardPage() {
     setFormData((prev) => ({ ...prev, [field]: value }))
   }
 
+  const handleCityChange = (location: CityLocation) => {
+    setCityLocation(location)
+    handleInputChange("city", location.name)
+  }
+
+  const cityLabel = cityLocation ? `${cityLocation.name}, ${cityLocation.state}` : formData.city
+
   const handleSubmitProfile = async (e: React.FormEvent) => {
     e.preventDefault()
 
+    // The city typeahead is not a native input, so the browser cannot enforce it
+    if (!formData.city) {
+      toast({
+        title: "City required",
+        description: "Search for your city or pincode and pick it from the list",
+        variant: "destructive",
+      })
+      return
+    }
+
     try {
       const response = await fetch("/api/profile", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          cityLocation,
+          ...withoutBlankEntries(healthHistory),
+          dependents: withoutBlankDependents(dependents),
+        }),
       })
 
       if (!response.ok) {
-        throw new Error("Failed to save profile")
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to save profile")
       }
 
       setProfileCompleted(true)
@@ -152,7 +148,9 @@ export default function DashboardPage() {
       console.error("[v0] Error saving profile:", error)
       toast({
         title: "Error",
-        description: "Failed to save profile. Please try again.",
+        description: error instanceof Error && error.message !== "Failed to save profile"
+          ? error.message
+          : "Failed to save profile. Please try again.",
         variant: "destructive",
       })
     }
@@ -227,7 +225,7 @@ export default function DashboardPage() {
                 <div className="flex items-start gap-2">
                   <MapPin className="mt-0.5 h-4 w-4 text-slate-500" />
                   <div>
-                    <p className="font-medium text-slate-900">{formData.city}</p>
+                    <p className="font-medium text-slate-900">{cityLabel}</p>
                     <p className="text-slate-600">{formData.area}</p>
                   </div>
                 </div>
@@ -289,22 +287,11 @@ export default function DashboardPage() {
 
                     <div className="space-y-2">
                       <Label htmlFor="city">City</Label>
-                      <Select
-                        value={formData.city}
-                        onValueChange={(value) => handleInputChange("city", value)}
-                        required
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select city" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {INDIAN_CITIES.map((city) => (
-                            <SelectItem key={city} value={city}>
-                              {city}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      <CityField
+                        id="city"
+                        value={cityLabel}
+                        onChange={handleCityChange}
+                      />
                     </div>
 
                     <div className="space-y-2">
@@ -350,47 +337,15 @@ export default function DashboardPage() {
                           <SelectValue placeholder="Select work shift" />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="Day">Day Shift</SelectItem>
-                          <SelectItem value="Night">Night Shift</SelectItem>
-                          <SelectItem value="Rotating">Rotating Shift</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label htmlFor="healthCondition">Current Health Condition</Label>
-                      <Select
-                        value={formData.healthCondition}
-                        onValueChange={(value) => handleInputChange("healthCondition", value)}
-                        required
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select condition" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {HEALTH_CONDITIONS.map((condition) => (
-                            <SelectItem key={condition} value={condition}>
-                              {condition}
+                          {WORK_SHIFTS.map((shift) => (
+                            <SelectItem key={shift.value} value={shift.value}>
+                              {shift.label}
                             </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
                     </div>
 
-                    {formData.healthCondition === "Other" && (
-                      <div className="space-y-2">
-                        <Label htmlFor="customHealthCondition">Specify Health Condition</Label>
-                        <Input
-                          id="customHealthCondition"
-                          type="text"
-                          value={formData.customHealthCondition}
-                          onChange={(e) => handleInputChange("customHealthCondition", e.target.value)}
-                          required
-                          placeholder="Please specify your health condition"
-                        />
-                      </div>
-                    )}
-
                     <div className="space-y-2">
                       <Label htmlFor="monthlyIncome">Monthly Income (₹)</Label>
                       <Input
@@ -404,27 +359,9 @@ export default function DashboardPage() {
                       />
                     </div>
 
-                    <div className="space-y-2">
-                      <Label htmlFor="pastSurgery">Past Major Surgery</Label>
-                      <Input
-                        id="pastSurgery"
-                        type="text"
-                        value={formData.pastSurgery}
-                        onChange={(e) => handleInputChange("pastSurgery", e.target.value)}
-                        placeholder="None or specify"
-                      />
-                    </div>
+                    <HealthHistoryFields value={healthHistory} onChange={setHealthHistory} />
 
-                    <div className="space-y-2 md:col-span-2">
-                      <Label htmlFor="addictions">Addictions (if any)</Label>
-                      <Input
-                        id="addictions"
-                        type="text"
-                        value={formData.addictions}
-                        onChange={(e) => handleInputChange("addictions", e.target.value)}
-                        placeholder="Smoking, alcohol, etc. or None"
-                      />
-                    </div>
+                    <DependentsFields value={dependents} onChange={setDependents} />
                   </div>
 
                   <div className="flex gap-4">
@@ -9,23 +9,39 @@ import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { useToast } from "@/hooks/use-toast"
+import { ClimateTrendCharts } from "@/components/report/climate-trend-charts"
+import { ForecastStrip } from "@/components/report/forecast-strip"
+import { PollutantChart } from "@/components/report/pollutant-chart"
+import { formatHealthConditions, normalizeHealthHistory } from "@/lib/utils/health-history"
+import {
+  AddictionEntry,
+  ClimateHistory,
+  EnvironmentalForecast,
+  HealthConditionEntry,
+  PollutantBreakdown,
+  SurgeryEntry,
+} from "@/types/agents"
 
 interface EnvironmentalData {
   aqi: number
   temperature: number
   humidity: number
+  pollutants?: PollutantBreakdown
+  // Station nearest the profile's area, when its reading replaced the city feed
+  station?: { name: string; distanceKm: number }
 }
 
 interface UserProfile {
   name: string
   city: string
+  // State of the city picked in the profile, empty on older profiles
+  state: string
   area: string
   age: string
-  healthCondition: string
-  customHealthCondition: string
+  healthConditions: HealthConditionEntry[]
   monthlyIncome: string
-  pastSurgery: string
-  addictions: string
+  pastSurgeries: SurgeryEntry[]
+  addictions: AddictionEntry[]
   workShift: string
   occupation: string
 }
@@ -36,6 +52,8 @@ export default function ReportPage() {
   const { data: session, status } = useSession()
   const [profile, setProfile] = useState<UserProfile | null>(null)
   const [envData, setEnvData] = useState<EnvironmentalData | null>(null)
+  const [climateHistory, setClimateHistory] = useState<ClimateHistory | null>(null)
+  const [forecast, setForecast] = useState<EnvironmentalForecast | null>(null)
   const [healthScore, setHealthScore] = useState<number | null>(null)
   const [isLoadingEnv, setIsLoadingEnv] = useState(false)
   const [isLoadingProfile, setIsLoadingProfile] = useState(true)
@@ -67,12 +85,10 @@ export default function ReportPage() {
         name: data.name || session?.user?.name || "",
         city: data.city || "",
         area: data.area || "",
+        state: data.cityLocation?.state || "",
         age: data.age || "",
-        healthCondition: data.healthCondition || "",
-        customHealthCondition: data.customHealthCondition || "",
+        ...normalizeHealthHistory(data),
         monthlyIncome: data.monthlyIncome || "",
-        pastSurgery: data.pastSurgery || "",
-        addictions: data.addictions || "",
         workShift: data.workShift || "",
         occupation: data.occupation || "",
       }
@@ -80,8 +96,10 @@ export default function ReportPage() {
       setProfile(profileData)
       setIsLoadingProfile(false)
 
-      // Fetch environmental data
-      fetchEnvironmentalData(data.city)
+      // Fetch environmental data, the week ahead and the 12-month trends
+      fetchEnvironmentalData(profileData)
+      fetchForecast(profileData)
+      fetchClimateHistory(profileData)
       
       // Load health score from previous analysis if available
       loadHealthScore()
@@ -96,12 +114,13 @@ export default function ReportPage() {
     }
   }
 
-  const fetchEnvironmentalData = async (city: string) => {
+  const fetchEnvironmentalData = async ({ city, state, area }: UserProfile) => {
     setIsLoadingEnv(true)
 
     try {
-      // Fetch real environmental data from our API
-      const response = await fetch(`/api/environment?city=${encodeURIComponent(city)}`)
+      // The area picks the same nearby station the analysis uses
+      const params = new URLSearchParams({ city, state, area })
+      const response = await fetch(`/api/environment?${params}`)
       
       if (!response.ok) {
         throw new Error("Failed to fetch environmental data")
@@ -113,35 +132,47 @@ export default function ReportPage() {
         aqi: data.aqi,
         temperature: data.temperature,
         humidity: data.humidity,
+        pollutants: data.pollutants || undefined,
+        station: data.station || undefined,
       })
     } catch (error) {
       console.error("[v0] Error fetching environmental data:", error)
+      // The API already falls back to estimates, so reaching here means it was unreachable
       toast({
         title: "Error",
-        description: "Failed to fetch environmental data. Using estimated values.",
+        description: "Failed to fetch environmental data",
         variant: "destructive",
       })
-      
-      // Fallback to estimated data
-      const fallbackData: Record<string, EnvironmentalData> = {
-        Mumbai: { aqi: 165, temperature: 32, humidity: 68 },
-        Delhi: { aqi: 220, temperature: 28, humidity: 55 },
-        Bangalore: { aqi: 95, temperature: 26, humidity: 60 },
-        Hyderabad: { aqi: 130, temperature: 30, humidity: 58 },
-        Chennai: { aqi: 140, temperature: 33, humidity: 75 },
-        Kolkata: { aqi: 180, temperature: 31, humidity: 70 },
-        Pune: { aqi: 110, temperature: 29, humidity: 52 },
-        Ahmedabad: { aqi: 150, temperature: 35, humidity: 45 },
-        Jaipur: { aqi: 160, temperature: 34, humidity: 40 },
-        Lucknow: { aqi: 190, temperature: 30, humidity: 62 },
-      }
-      
-      setEnvData(fallbackData[city] || fallbackData["Mumbai"])
+      setEnvData(null)
     } finally {
       setIsLoadingEnv(false)
     }
   }
 
+  const fetchForecast = async ({ city, state, occupation, workShift }: UserProfile) => {
+    try {
+      const params = new URLSearchParams({ city, state, occupation, workShift })
+      const response = await fetch(`/api/environment/forecast?${params}`)
+      // Like the trends, the forecast is optional
+      setForecast(response.ok ? await response.json() : null)
+    } catch (error) {
+      console.error("[Report] Error fetching forecast:", error)
+      setForecast(null)
+    }
+  }
+
+  const fetchClimateHistory = async ({ city, state }: UserProfile) => {
+    try {
+      const params = new URLSearchParams({ city, state })
+      const response = await fetch(`/api/environment/history?${params}`)
+      // The trends are optional; the current reading still shows without them
+      setClimateHistory(response.ok ? await response.json() : null)
+    } catch (error) {
+      console.error("[Report] Error fetching climate history:", error)
+      setClimateHistory(null)
+    }
+  }
+
   const getAQIStatus = (aqi: number) => {
     if (aqi <= 50) return { label: "Good", color: "bg-green-500", textColor: "text-green-700" }
     if (aqi <= 100) return { label: "Moderate", color: "bg-yellow-500", textColor: "text-yellow-700" }
@@ -198,6 +229,9 @@ export default function ReportPage() {
             <Button variant="ghost" size="sm" onClick={() => router.push("/dashboard")}>
               Profile
             </Button>
+            <Button variant="ghost" size="sm" onClick={() => router.push("/dashboard/history")}>
+              History
+            </Button>
             <span className="text-sm text-slate-600">Welcome, {session?.user?.name}</span>
             <Button variant="outline" size="sm" onClick={handleLogout}>
               Logout
@@ -241,12 +275,8 @@ export default function ReportPage() {
                 <p className="text-slate-600">{profile.workShift}</p>
               </div>
               <div>
-                <span className="font-medium text-slate-700">Health Condition:</span>
-                <p className="text-slate-600">
-                  {profile.healthCondition === "Other" && profile.customHealthCondition
-                    ? profile.customHealthCondition
-                    : profile.healthCondition}
-                </p>
+                <span className="font-medium text-slate-700">Health Conditions:</span>
+                <p className="text-slate-600">{formatHealthConditions(profile.healthConditions)}</p>
               </div>
               <div>
                 <span className="font-medium text-slate-700">Monthly Income:</span>
@@ -287,7 +317,7 @@ export default function ReportPage() {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => fetchEnvironmentalData(profile.city)}
+                onClick={() => fetchEnvironmentalData(profile)}
                 disabled={isLoadingEnv}
               >
                 {isLoadingEnv ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
@@ -309,6 +339,11 @@ export default function ReportPage() {
                   <h3 className="mb-1 text-sm font-medium text-slate-600">AQI</h3>
                   <p className="mb-2 text-3xl font-bold text-slate-900">{envData.aqi}</p>
                   {aqiStatus && <Badge className={`${aqiStatus.color} text-white`}>{aqiStatus.label}</Badge>}
+                  {envData.station && (
+                    <p className="mt-2 text-xs text-slate-500">
+                      {envData.station.name}, {envData.station.distanceKm} km away
+                    </p>
+                  )}
                 </Card>
 
                 {/* Temperature Card */}
@@ -331,8 +366,45 @@ export default function ReportPage() {
               </div>
             ) : null}
 
+            {/* Pollutant Breakdown */}
+            {!isLoadingEnv && envData?.pollutants && (
+              <Card className="border-cyan-200 bg-white/90 p-6 backdrop-blur-sm">
+                <div className="mb-4">
+                  <h3 className="text-lg font-semibold text-slate-900">What&apos;s in the Air</h3>
+                  <p className="text-sm text-slate-600">The pollutants behind today&apos;s AQI of {envData.aqi}</p>
+                </div>
+                <PollutantChart pollutants={envData.pollutants} />
+              </Card>
+            )}
+
+            {/* 7-Day Forecast */}
+            {forecast && (
+              <Card className="border-cyan-200 bg-white/90 p-6 backdrop-blur-sm">
+                <div className="mb-4">
+                  <h3 className="text-lg font-semibold text-slate-900">Next 7 Days</h3>
+                  <p className="text-sm text-slate-600">
+                    Day-by-day exposure during your working and commuting hours, with precautions
+                  </p>
+                </div>
+                <ForecastStrip forecast={forecast} />
+              </Card>
+            )}
+
+            {/* 12-Month Trends */}
+            {climateHistory && (
+              <Card className="border-cyan-200 bg-white/90 p-6 backdrop-blur-sm">
+                <div className="mb-4">
+                  <h3 className="text-lg font-semibold text-slate-900">Last 12 Months</h3>
+                  <p className="text-sm text-slate-600">
+                    Today&apos;s reading is one day; your risk score also counts the past year in {profile.city}
+                  </p>
+                </div>
+                <ClimateTrendCharts history={climateHistory} />
+              </Card>
+            )}
+
             {/* Generate Report Button */}
-            {envData && (
+            {!isLoadingEnv && (
               <Card className="border-cyan-200 bg-gradient-to-br from-cyan-600 to-teal-600 p-8 text-center backdrop-blur-sm">
                 <h3 className="mb-2 text-2xl font-bold text-white">Ready for AI Analysis?</h3>
                 <p className="mb-6 text-cyan-50">
@@ -3,7 +3,7 @@
 import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { useSession, signOut } from "next-auth/react"
-import { Shield, TrendingUp, Heart, AlertCircle, DollarSign, Calendar, Download, Home, RefreshCw, CheckCircle2, XCircle, Info } from "lucide-react"
+import { Shield, TrendingUp, Heart, AlertCircle, DollarSign, Calendar, Download, Home, RefreshCw, CheckCircle2, XCircle, Info, History } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
@@ -11,6 +11,27 @@ import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useToast } from "@/hooks/use-toast"
+import { RiskWaterfallChart } from "@/components/results/risk-waterfall-chart"
+import { WhatIfPanel } from "@/components/results/what-if-panel"
+import { FamilyCoverageCard } from "@/components/results/family-coverage-card"
+import { AIInsightsCard } from "@/components/results/ai-insights-card"
+import { PreventionStepsCard } from "@/components/results/prevention-steps-card"
+import { AnalysisChatDrawer } from "@/components/results/analysis-chat-drawer"
+import { drawScoreWaterfall } from "@/lib/utils/pdf-charts"
+import {
+  formatAddictions,
+  formatHealthConditions,
+  formatSurgeries,
+  normalizeHealthHistory,
+} from "@/lib/utils/health-history"
+import {
+  FamilyCoverage,
+  FinancialInsights,
+  HouseholdRisk,
+  PreventionStep,
+  RiskInsights,
+  RiskScoreBreakdown,
+} from "@/types/agents"
 import jsPDF from "jspdf"
 import autoTable from "jspdf-autotable"
 
@@ -33,11 +54,22 @@ interface InsurancePlan {
 }
 
 interface AnalysisResults {
+  // Stored analysis id; absent on results saved to the session before analyses were stored
+  analysisId?: string
   riskScore: number
   monthlySavings: number
   insurancePlan: InsurancePlan
+  agent1Results?: {
+    riskModelVersion?: string
+    scoreBreakdown?: RiskScoreBreakdown
+    householdRisk?: HouseholdRisk
+    preventionSteps?: PreventionStep[]
+    riskInsights?: RiskInsights
+  }
   agent2Results?: {
     alternativePlans: InsurancePlan[]
+    familyCoverage?: FamilyCoverage
+    financialInsights?: FinancialInsights
   }
   timestamp: string
 }
@@ -60,8 +92,14 @@ export default function ResultsPage() {
     }
 
     if (session?.user) {
-      fetchProfile()
-      loadAnalysisResults()
+      const analysisId = new URLSearchParams(window.location.search).get("id")
+
+      if (analysisId) {
+        loadStoredAnalysis(analysisId)
+      } else {
+        fetchProfile()
+        loadAnalysisResults()
+      }
     }
   }, [status, session, router])
 
@@ -99,6 +137,40 @@ export default function ResultsPage() {
     setResults(JSON.parse(analysisResults))
   }
 
+  const loadStoredAnalysis = async (analysisId: string) => {
+    try {
+      const response = await fetch(`/api/analyses/${analysisId}`)
+
+      if (!response.ok) {
+        throw new Error("Analysis not found")
+      }
+
+      const analysis = await response.json()
+
+      // Show the profile as it was when this analysis ran
+      setProfile(analysis.profileData)
+      setResults({
+        analysisId: analysis._id,
+        riskScore: analysis.agent1Results.riskScore,
+        monthlySavings: analysis.agent2Results.monthlySavings,
+        insurancePlan: analysis.agent2Results.insurancePlan,
+        agent1Results: analysis.agent1Results,
+        agent2Results: analysis.agent2Results,
+        timestamp: analysis.createdAt,
+      })
+    } catch (error) {
+      console.error("[Results] Error loading stored analysis:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load this analysis",
+        variant: "destructive",
+      })
+      router.push("/dashboard/history")
+    } finally {
+      setIsLoadingProfile(false)
+    }
+  }
+
   const handleLogout = () => {
     signOut({ callbackUrl: "/" })
   }
@@ -170,13 +242,21 @@ export default function ResultsPage() {
       addText(`Risk Score: ${results.riskScore}/100`, 11)
       yPos += 5
 
+      const scoreBreakdown = results.agent1Results?.scoreBreakdown
+      if (scoreBreakdown) {
+        checkNewPage(scoreBreakdown.contributions.length * 6 + 30)
+        addText('Risk Score Breakdown:', 12, true)
+        yPos = drawScoreWaterfall(pdf, scoreBreakdown, margin, yPos, contentWidth)
+        yPos += 5
+      }
+
       addText('Key Risk Factors:', 12, true)
       addText(`• Environmental Exposure: High AQI levels in ${profile.city}`, 10)
       addText(`• Occupational Hazards: ${profile.occupation} related considerations`, 10)
-      const healthStatus = profile.healthCondition === "Other" && profile.customHealthCondition
-        ? profile.customHealthCondition
-        : profile.healthCondition
-      addText(`• Health Condition: ${healthStatus}`, 10)
+      const healthHistory = normalizeHealthHistory(profile)
+      addText(`• Health Conditions: ${formatHealthConditions(healthHistory.healthConditions)}`, 10)
+      addText(`• Addictions: ${formatAddictions(healthHistory.addictions)}`, 10)
+      addText(`• Past Surgeries: ${formatSurgeries(healthHistory.pastSurgeries)}`, 10)
       yPos += 10
 
       checkNewPage()
@@ -244,6 +324,42 @@ export default function ResultsPage() {
         yPos = (pdf as any).lastAutoTable.finalY + 10
       }
 
+      const householdRisk = results.agent1Results?.householdRisk
+      const familyCoverage = results.agent2Results?.familyCoverage
+      if (householdRisk && familyCoverage) {
+        checkNewPage(50)
+        addText('Family Coverage', 16, true, [6, 182, 212])
+        addText(`Household Risk Score: ${householdRisk.aggregateScore}/100 (${householdRisk.aggregateLevel.toUpperCase()})`, 11)
+        yPos += 2
+
+        autoTable(pdf, {
+          startY: yPos,
+          head: [['Member', 'Relationship', 'Age', 'Risk Score', 'Individual Plan', 'Monthly Premium']],
+          body: householdRisk.members.map((member, index) => {
+            const plan = familyCoverage.individual.plans[index]
+            return [
+              member.name,
+              member.relationship,
+              member.age.toString(),
+              `${member.riskScore}/100`,
+              plan?.planName || 'N/A',
+              plan ? `Rs.${plan.premium.toLocaleString()}` : 'N/A',
+            ]
+          }),
+          theme: 'grid',
+          headStyles: { fillColor: [6, 182, 212], textColor: [255, 255, 255] },
+          margin: { left: margin, right: margin },
+          styles: { fontSize: 9 },
+        })
+
+        yPos = (pdf as any).lastAutoTable.finalY + 8
+        addText(`Family Floater: ${familyCoverage.floater.name} - Rs.${familyCoverage.floater.premium.toLocaleString()}/month for Rs.${familyCoverage.floater.coverage.toLocaleString()} shared cover`, 10)
+        addText(`Individual Policies: Rs.${familyCoverage.individual.totalPremium.toLocaleString()}/month for Rs.${familyCoverage.individual.totalCoverage.toLocaleString()} total cover`, 10)
+        // jsPDF's built-in fonts have no rupee glyph
+        addText(`Recommendation: ${familyCoverage.reason.replace(/₹/g, 'Rs.')}`, 10, true)
+        yPos += 5
+      }
+
       checkNewPage()
 
       addText('Savings Strategy', 16, true, [6, 182, 212])
@@ -256,21 +372,60 @@ export default function ResultsPage() {
 
       checkNewPage()
 
+      const riskInsights = results.agent1Results?.riskInsights
+      const financialInsights = results.agent2Results?.financialInsights
+      if (riskInsights || financialInsights) {
+        addText('AI Insights', 16, true, [6, 182, 212])
+        yPos += 2
+
+        if (riskInsights) {
+          addText(riskInsights.summary, 10)
+          riskInsights.factorCommentary.forEach((item) => {
+            checkNewPage()
+            addText(`${item.category}: ${item.commentary}`, 10)
+          })
+          addText(`Outlook: ${riskInsights.outlook}`, 10, true)
+          yPos += 3
+        }
+
+        if (financialInsights) {
+          checkNewPage()
+          addText(financialInsights.summary.replace(/₹/g, 'Rs.'), 10)
+          financialInsights.tips.forEach((tip) => {
+            checkNewPage()
+            addText(`• ${tip.title}: ${tip.detail.replace(/₹/g, 'Rs.')}`, 10)
+          })
+        }
+        yPos += 10
+
+        checkNewPage()
+      }
+
       addText('Prevention & Action Steps', 16, true, [6, 182, 212])
       yPos += 2
-      
-      addText('Immediate Actions:', 12, true)
-      addText('• Install air purifier at home due to high AQI', 10)
-      addText('• Schedule comprehensive health check-up', 10)
-      addText('• Consider N95 masks for outdoor activities', 10)
-      addText('• Review and update vaccination records', 10)
-      yPos += 5
 
-      addText('Long-term Strategies:', 12, true)
-      addText('• Maintain regular exercise routine (30 min/day)', 10)
-      addText(`• Monitor and manage ${healthStatus}`, 10)
-      addText('• Annual preventive health screenings', 10)
-      addText('• Build emergency health fund gradually', 10)
+      const preventionSteps = results.agent1Results?.preventionSteps
+      if (preventionSteps?.length) {
+        preventionSteps.forEach((step) => {
+          checkNewPage()
+          addText(`• [${step.priority.toUpperCase()}, ${step.frequency}] ${step.action}`, 10, true)
+          if (step.description !== step.action) addText(step.description, 10)
+        })
+      } else {
+        addText('Immediate Actions:', 12, true)
+        addText('• Install air purifier at home due to high AQI', 10)
+        addText('• Schedule comprehensive health check-up', 10)
+        addText('• Consider N95 masks for outdoor activities', 10)
+        addText('• Review and update vaccination records', 10)
+        yPos += 5
+
+        addText('Long-term Strategies:', 12, true)
+        addText('• Maintain regular exercise routine (30 min/day)', 10)
+        const managedConditions = healthHistory.healthConditions.map((condition) => condition.name).join(", ")
+        addText(`• Monitor and manage ${managedConditions || "overall health"}`, 10)
+        addText('• Annual preventive health screenings', 10)
+        addText('• Build emergency health fund gradually', 10)
+      }
       yPos += 10
 
       checkNewPage(30)
@@ -347,6 +502,7 @@ export default function ResultsPage() {
   const yearlyPremium = results.insurancePlan.premium * 12
   const yearlySavings = results.monthlySavings * 12
   const allPlans = [results.insurancePlan, ...(results.agent2Results?.alternativePlans || [])]
+  const healthHistory = normalizeHealthHistory(profile)
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-cyan-50 to-teal-50">
@@ -362,6 +518,10 @@ export default function ResultsPage() {
               <Home className="mr-2 h-4 w-4" />
               Dashboard
             </Button>
+            <Button variant="ghost" size="sm" onClick={() => router.push("/dashboard/history")}>
+              <History className="mr-2 h-4 w-4" />
+              History
+            </Button>
             <Button variant="outline" size="sm" onClick={handleLogout}>
               Logout
             </Button>
@@ -380,24 +540,27 @@ export default function ResultsPage() {
                   Generated for {profile.name} on {new Date(results.timestamp).toLocaleDateString()}
                 </p>
               </div>
-              <Button 
-                variant="outline" 
-                className="gap-2 bg-white hover:bg-slate-50"
-                onClick={handleDownloadPDF}
-                disabled={isGeneratingPDF}
-              >
-                {isGeneratingPDF ? (
-                  <>
-                    <RefreshCw className="h-4 w-4 animate-spin" />
-                    Generating...
-                  </>
-                ) : (
-                  <>
-                    <Download className="h-4 w-4" />
-                    Download PDF
-                  </>
-                )}
-              </Button>
+              <div className="flex items-center gap-2">
+                {results.analysisId && <AnalysisChatDrawer analysisId={results.analysisId} />}
+                <Button 
+                  variant="outline" 
+                  className="gap-2 bg-white hover:bg-slate-50"
+                  onClick={handleDownloadPDF}
+                  disabled={isGeneratingPDF}
+                >
+                  {isGeneratingPDF ? (
+                    <>
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                      Generating...
+                    </>
+                  ) : (
+                    <>
+                      <Download className="h-4 w-4" />
+                      Download PDF
+                    </>
+                  )}
+                </Button>
+              </div>
             </div>
           </div>
 
@@ -445,11 +608,9 @@ export default function ResultsPage() {
                   <div className="flex items-start gap-3 rounded-lg bg-slate-50 p-3">
                     <div className="mt-0.5 h-2 w-2 rounded-full bg-cyan-600"></div>
                     <div className="flex-1">
-                      <p className="text-sm font-medium text-slate-900">Health Condition</p>
+                      <p className="text-sm font-medium text-slate-900">Health Conditions</p>
                       <p className="text-xs text-slate-600">
-                        Current status: {profile.healthCondition === "Other" && profile.customHealthCondition
-                          ? profile.customHealthCondition
-                          : profile.healthCondition}
+                        Current status: {formatHealthConditions(healthHistory.healthConditions)}
                       </p>
                     </div>
                   </div>
@@ -458,6 +619,58 @@ export default function ResultsPage() {
             </div>
           </Card>
 
+          {/* Risk Score Breakdown */}
+          {results.agent1Results?.scoreBreakdown && (
+            <Card className="mb-6 border-cyan-200 bg-white/90 p-8 backdrop-blur-sm">
+              <div className="mb-4">
+                <h2 className="mb-2 text-2xl font-bold text-slate-900">How Your Score Adds Up</h2>
+                <p className="text-slate-600">
+                  Points contributed by each factor
+                  {results.agent1Results.riskModelVersion && ` (scoring model v${results.agent1Results.riskModelVersion})`}
+                </p>
+              </div>
+              <RiskWaterfallChart breakdown={results.agent1Results.scoreBreakdown} />
+              <div className="mt-4 grid gap-2 text-sm sm:grid-cols-2">
+                {results.agent1Results.scoreBreakdown.contributions
+                  .filter((contribution) => contribution.points !== 0)
+                  .map((contribution) => (
+                    <div key={contribution.key} className="flex items-center justify-between rounded-lg bg-slate-50 px-3 py-2">
+                      <span className="text-slate-700">
+                        {contribution.label}
+                        {contribution.inputValue !== null && (
+                          <span className="text-slate-500"> ({contribution.inputValue})</span>
+                        )}
+                      </span>
+                      <span className="font-semibold text-slate-900">+{contribution.points}</span>
+                    </div>
+                  ))}
+                {results.agent1Results.scoreBreakdown.capAdjustment !== 0 && (
+                  <div className="flex items-center justify-between rounded-lg bg-green-50 px-3 py-2">
+                    <span className="text-slate-700">Capped at {results.agent1Results.scoreBreakdown.maxScore}</span>
+                    <span className="font-semibold text-green-700">{results.agent1Results.scoreBreakdown.capAdjustment}</span>
+                  </div>
+                )}
+              </div>
+            </Card>
+          )}
+
+          {(results.agent1Results?.riskInsights || results.agent2Results?.financialInsights) && (
+            <AIInsightsCard
+              riskInsights={results.agent1Results?.riskInsights}
+              financialInsights={results.agent2Results?.financialInsights}
+            />
+          )}
+
+          {results.agent1Results?.householdRisk && (
+            <FamilyCoverageCard
+              householdRisk={results.agent1Results.householdRisk}
+              familyCoverage={results.agent2Results?.familyCoverage}
+            />
+          )}
+
+          {/* What-if Simulator */}
+          <WhatIfPanel profile={profile} />
+
           {/* Insurance Options Section - NEW */}
           <Card className="mb-6 border-cyan-200 bg-white/90 p-8 backdrop-blur-sm">
             <div className="mb-6">
@@ -761,70 +974,72 @@ export default function ResultsPage() {
           </div>
 
           {/* Prevention Steps */}
-          <Card className="mb-6 border-cyan-200 bg-white/90 p-6 backdrop-blur-sm">
-            <div className="mb-4 flex items-center gap-3">
-              <div className="flex h-12 w-12 items-center justify-center rounded-full bg-green-100">
-                <Heart className="h-6 w-6 text-green-600" />
-              </div>
-              <div>
-                <h3 className="text-xl font-semibold text-slate-900">Prevention & Action Steps</h3>
-                <p className="text-sm text-slate-600">Recommendations to reduce your health risks</p>
+          {results.agent1Results?.preventionSteps?.length ? (
+            <PreventionStepsCard steps={results.agent1Results.preventionSteps} />
+          ) : (
+            <Card className="mb-6 border-cyan-200 bg-white/90 p-6 backdrop-blur-sm">
+              <div className="mb-4 flex items-center gap-3">
+                <div className="flex h-12 w-12 items-center justify-center rounded-full bg-green-100">
+                  <Heart className="h-6 w-6 text-green-600" />
+                </div>
+                <div>
+                  <h3 className="text-xl font-semibold text-slate-900">Prevention & Action Steps</h3>
+                  <p className="text-sm text-slate-600">Recommendations to reduce your health risks</p>
+                </div>
               </div>
-            </div>
 
-            <div className="grid gap-4 md:grid-cols-2">
-              <div className="rounded-lg border border-slate-200 p-4">
-                <h4 className="mb-2 font-semibold text-slate-900">Immediate Actions</h4>
-                <ul className="space-y-2 text-sm text-slate-600">
-                  <li className="flex items-start gap-2">
-                    <span className="text-cyan-600">•</span>
-                    <span>Install air purifier at home due to high AQI</span>
-                  </li>
-                  <li className="flex items-start gap-2">
-                    <span className="text-cyan-600">•</span>
-                    <span>Schedule comprehensive health check-up</span>
-                  </li>
-                  <li className="flex items-start gap-2">
-                    <span className="text-cyan-600">•</span>
-                    <span>Consider N95 masks for outdoor activities</span>
-                  </li>
-                  <li className="flex items-start gap-2">
-                    <span className="text-cyan-600">•</span>
-                    <span>Review and update vaccination records</span>
-                  </li>
-                </ul>
-              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="rounded-lg border border-slate-200 p-4">
+                  <h4 className="mb-2 font-semibold text-slate-900">Immediate Actions</h4>
+                  <ul className="space-y-2 text-sm text-slate-600">
+                    <li className="flex items-start gap-2">
+                      <span className="text-cyan-600">•</span>
+                      <span>Install air purifier at home due to high AQI</span>
+                    </li>
+                    <li className="flex items-start gap-2">
+                      <span className="text-cyan-600">•</span>
+                      <span>Schedule comprehensive health check-up</span>
+                    </li>
+                    <li className="flex items-start gap-2">
+                      <span className="text-cyan-600">•</span>
+                      <span>Consider N95 masks for outdoor activities</span>
+                    </li>
+                    <li className="flex items-start gap-2">
+                      <span className="text-cyan-600">•</span>
+                      <span>Review and update vaccination records</span>
+                    </li>
+                  </ul>
+                </div>
 
-              <div className="rounded-lg border border-slate-200 p-4">
-                <h4 className="mb-2 font-semibold text-slate-900">Long-term Strategies</h4>
-                <ul className="space-y-2 text-sm text-slate-600">
-                  <li className="flex items-start gap-2">
-                    <span className="text-teal-600">•</span>
-                    <span>Maintain regular exercise routine (30 min/day)</span>
-                  </li>
-                  <li className="flex items-start gap-2">
-                    <span className="text-teal-600">•</span>
-                    <span>
-                      Monitor and manage{" "}
-                      {profile.healthCondition !== "None" 
-                        ? (profile.healthCondition === "Other" && profile.customHealthCondition 
-                          ? profile.customHealthCondition 
-                          : profile.healthCondition)
-                        : "overall health"}
-                    </span>
-                  </li>
-                  <li className="flex items-start gap-2">
-                    <span className="text-teal-600">•</span>
-                    <span>Annual preventive health screenings</span>
-                  </li>
-                  <li className="flex items-start gap-2">
-                    <span className="text-teal-600">•</span>
-                    <span>Build emergency health fund gradually</span>
-                  </li>
-                </ul>
+                <div className="rounded-lg border border-slate-200 p-4">
+                  <h4 className="mb-2 font-semibold text-slate-900">Long-term Strategies</h4>
+                  <ul className="space-y-2 text-sm text-slate-600">
+                    <li className="flex items-start gap-2">
+                      <span className="text-teal-600">•</span>
+                      <span>Maintain regular exercise routine (30 min/day)</span>
+                    </li>
+                    <li className="flex items-start gap-2">
+                      <span className="text-teal-600">•</span>
+                      <span>
+                        Monitor and manage{" "}
+                        {healthHistory.healthConditions.length > 0
+                          ? healthHistory.healthConditions.map((condition) => condition.name).join(", ")
+                          : "overall health"}
+                      </span>
+                    </li>
+                    <li className="flex items-start gap-2">
+                      <span className="text-teal-600">•</span>
+                      <span>Annual preventive health screenings</span>
+                    </li>
+                    <li className="flex items-start gap-2">
+                      <span className="text-teal-600">•</span>
+                      <span>Build emergency health fund gradually</span>
+                    </li>
+                  </ul>
+                </div>
               </div>
-            </div>
-          </Card>
+            </Card>
+          )}
 
           {/* Confidence Score */}
           <Card className="border-cyan-200 bg-gradient-to-br from-cyan-600 to-teal-600 p-6 text-center backdrop-blur-sm">
@@ -0,0 +1,108 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Check, ChevronsUpDown, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { cn } from "@/lib/utils"
+import { CityLocation } from "@/types/agents"
+
+// Wait for a pause in typing before asking the server
+const SEARCH_DELAY_MS = 250
+
+interface CityFieldProps {
+  id?: string
+  value: string
+  onChange: (city: CityLocation) => void
+}
+
+/**
+ * City typeahead backed by the city registry; accepts city names and pincodes
+ */
+export function CityField({ id, value, onChange }: CityFieldProps) {
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState("")
+  const [suggestions, setSuggestions] = useState<CityLocation[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setIsSearching(true)
+      try {
+        const response = await fetch(`/api/cities?q=${encodeURIComponent(query)}`, { signal: controller.signal })
+        if (!response.ok) throw new Error("City search failed")
+        const data = await response.json()
+        setSuggestions(data.cities)
+      } catch (error) {
+        if (!controller.signal.aborted) console.error("[CityField] Error searching cities:", error)
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false)
+      }
+    }, SEARCH_DELAY_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [open, query])
+
+  const select = (city: CityLocation) => {
+    onChange(city)
+    setQuery("")
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn(!value && "text-muted-foreground")}>{value || "Search city or pincode"}</span>
+          <ChevronsUpDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0" align="start">
+        {/* Results are already filtered by the server */}
+        <Command shouldFilter={false}>
+          <CommandInput value={query} onValueChange={setQuery} placeholder="Type a city or 6-digit pincode..." />
+          <CommandList>
+            {isSearching && suggestions.length === 0 ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-4 w-4 animate-spin text-slate-500" />
+              </div>
+            ) : (
+              <CommandEmpty>No matching city found.</CommandEmpty>
+            )}
+            <CommandGroup>
+              {suggestions.map((city) => (
+                <CommandItem
+                  key={`${city.name}-${city.state}-${city.pincode || ""}`}
+                  value={`${city.name}-${city.state}-${city.pincode || ""}`}
+                  onSelect={() => select(city)}
+                >
+                  <Check className={cn("h-4 w-4", value === city.name ? "opacity-100" : "opacity-0")} />
+                  <div className="flex flex-col">
+                    <span>{city.name}</span>
+                    <span className="text-xs text-slate-500">
+                      {[city.pincode, city.district !== city.name && city.district, city.state].filter(Boolean).join(", ")}
+                    </span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import { Plus, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DEPENDENT_RELATIONSHIPS, HEALTH_CONDITIONS } from "@/lib/data/profile-options"
+import { Dependent, DependentRelationship } from "@/types/agents"
+
+interface DependentsFieldsProps {
+  value: Dependent[]
+  onChange: (value: Dependent[]) => void
+}
+
+const CONDITION_CHOICES = HEALTH_CONDITIONS.filter((condition) => condition !== "None" && condition !== "Other")
+
+/**
+ * Drop dependents the user added but never named, so they don't fail validation
+ */
+export function withoutBlankDependents(dependents: Dependent[]): Dependent[] {
+  return dependents.filter((dependent) => dependent.name.trim())
+}
+
+export function DependentsFields({ value, onChange }: DependentsFieldsProps) {
+  const updateAt = (index: number, patch: Partial<Dependent>) =>
+    onChange(value.map((dependent, i) => (i === index ? { ...dependent, ...patch } : dependent)))
+
+  const toggleCondition = (index: number, name: string) => {
+    const conditions = value[index].healthConditions
+    const has = conditions.some((condition) => condition.name === name)
+    updateAt(index, {
+      healthConditions: has
+        ? conditions.filter((condition) => condition.name !== name)
+        : [...conditions, { name, status: "unknown" }],
+    })
+  }
+
+  return (
+    <div className="space-y-3 md:col-span-2">
+      <div>
+        <Label>Family Members</Label>
+        <p className="text-xs text-slate-500">Add your spouse, children or parents to compare family floater cover.</p>
+      </div>
+
+      {value.map((dependent, index) => (
+        <div key={index} className="space-y-3 rounded-lg border border-slate-200 p-3">
+          <div className="grid grid-cols-[1fr_9rem_5rem_auto] items-center gap-2">
+            <Input
+              value={dependent.name}
+              onChange={(e) => updateAt(index, { name: e.target.value })}
+              placeholder="Name"
+              aria-label="Family member name"
+            />
+            <Select
+              value={dependent.relationship}
+              onValueChange={(relationship) => updateAt(index, { relationship: relationship as DependentRelationship })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEPENDENT_RELATIONSHIPS.map((relationship) => (
+                  <SelectItem key={relationship.value} value={relationship.value}>
+                    {relationship.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              max="120"
+              value={dependent.age}
+              onChange={(e) => updateAt(index, { age: parseInt(e.target.value, 10) || 0 })}
+              aria-label="Age"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              aria-label="Remove family member"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {CONDITION_CHOICES.map((condition) => (
+              <Badge
+                key={condition}
+                variant={dependent.healthConditions.some((c) => c.name === condition) ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => toggleCondition(index, condition)}
+              >
+                {condition}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...value, { name: "", relationship: "spouse", age: 30, healthConditions: [] }])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add family member
+      </Button>
+    </div>
+  )
+}
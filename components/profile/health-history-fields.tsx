@@ -0,0 +1,228 @@
+"use client"
+
+import { Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  ADDICTION_FREQUENCIES,
+  ADDICTION_OPTIONS,
+  CONDITION_STATUSES,
+  HEALTH_CONDITIONS,
+} from "@/lib/data/profile-options"
+import { HealthHistory } from "@/lib/utils/health-history"
+import { AddictionFrequency, ConditionStatus } from "@/types/agents"
+
+interface HealthHistoryFieldsProps {
+  value: HealthHistory
+  onChange: (value: HealthHistory) => void
+}
+
+const CONDITION_SUGGESTIONS = HEALTH_CONDITIONS.filter((condition) => condition !== "None" && condition !== "Other")
+const ADDICTION_SUGGESTIONS = ADDICTION_OPTIONS.filter((addiction) => addiction !== "Other")
+
+function parseYear(value: string): number | undefined {
+  const year = parseInt(value, 10)
+  return Number.isFinite(year) ? year : undefined
+}
+
+/**
+ * Drop rows the user added but never named, so they don't fail validation
+ */
+export function withoutBlankEntries(history: HealthHistory): HealthHistory {
+  return {
+    healthConditions: history.healthConditions.filter((condition) => condition.name.trim()),
+    addictions: history.addictions.filter((addiction) => addiction.name.trim()),
+    pastSurgeries: history.pastSurgeries.filter((surgery) => surgery.name.trim()),
+  }
+}
+
+function RemoveButton({ onClick, label }: { onClick: () => void; label: string }) {
+  return (
+    <Button type="button" variant="ghost" size="icon" onClick={onClick} aria-label={label}>
+      <X className="h-4 w-4" />
+    </Button>
+  )
+}
+
+export function HealthHistoryFields({ value, onChange }: HealthHistoryFieldsProps) {
+  const { healthConditions, addictions, pastSurgeries } = value
+  const maxYear = new Date().getFullYear()
+
+  const replaceAt = <T,>(list: T[], index: number, patch: Partial<T>) =>
+    list.map((item, i) => (i === index ? { ...item, ...patch } : item))
+
+  return (
+    <div className="space-y-6 md:col-span-2">
+      <datalist id="condition-suggestions">
+        {CONDITION_SUGGESTIONS.map((condition) => (
+          <option key={condition} value={condition} />
+        ))}
+      </datalist>
+      <datalist id="addiction-suggestions">
+        {ADDICTION_SUGGESTIONS.map((addiction) => (
+          <option key={addiction} value={addiction} />
+        ))}
+      </datalist>
+
+      {/* Health conditions */}
+      <div className="space-y-2">
+        <Label>Health Conditions</Label>
+        {healthConditions.length === 0 && <p className="text-sm text-slate-500">No health conditions added.</p>}
+        {healthConditions.map((condition, index) => (
+          <div key={index} className="grid grid-cols-[1fr_6rem_9rem_auto] items-center gap-2">
+            <Input
+              list="condition-suggestions"
+              value={condition.name}
+              onChange={(e) =>
+                onChange({ ...value, healthConditions: replaceAt(healthConditions, index, { name: e.target.value }) })
+              }
+              placeholder="e.g. Diabetes"
+              aria-label="Condition"
+            />
+            <Input
+              type="number"
+              min="1900"
+              max={maxYear}
+              value={condition.diagnosedYear ?? ""}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  healthConditions: replaceAt(healthConditions, index, { diagnosedYear: parseYear(e.target.value) }),
+                })
+              }
+              placeholder="Since"
+              aria-label="Year diagnosed"
+            />
+            <Select
+              value={condition.status}
+              onValueChange={(status) =>
+                onChange({
+                  ...value,
+                  healthConditions: replaceAt(healthConditions, index, { status: status as ConditionStatus }),
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONDITION_STATUSES.map((status) => (
+                  <SelectItem key={status.value} value={status.value}>
+                    {status.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <RemoveButton
+              label="Remove condition"
+              onClick={() => onChange({ ...value, healthConditions: healthConditions.filter((_, i) => i !== index) })}
+            />
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, healthConditions: [...healthConditions, { name: "", status: "unknown" }] })}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add condition
+        </Button>
+      </div>
+
+      {/* Addictions */}
+      <div className="space-y-2">
+        <Label>Addictions</Label>
+        {addictions.length === 0 && <p className="text-sm text-slate-500">No addictions added.</p>}
+        {addictions.map((addiction, index) => (
+          <div key={index} className="grid grid-cols-[1fr_13rem_auto] items-center gap-2">
+            <Input
+              list="addiction-suggestions"
+              value={addiction.name}
+              onChange={(e) => onChange({ ...value, addictions: replaceAt(addictions, index, { name: e.target.value }) })}
+              placeholder="e.g. Smoking"
+              aria-label="Addiction"
+            />
+            <Select
+              value={addiction.frequency}
+              onValueChange={(frequency) =>
+                onChange({
+                  ...value,
+                  addictions: replaceAt(addictions, index, { frequency: frequency as AddictionFrequency }),
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ADDICTION_FREQUENCIES.map((frequency) => (
+                  <SelectItem key={frequency.value} value={frequency.value}>
+                    {frequency.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <RemoveButton
+              label="Remove addiction"
+              onClick={() => onChange({ ...value, addictions: addictions.filter((_, i) => i !== index) })}
+            />
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, addictions: [...addictions, { name: "", frequency: "daily" }] })}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add addiction
+        </Button>
+      </div>
+
+      {/* Past surgeries */}
+      <div className="space-y-2">
+        <Label>Past Major Surgeries</Label>
+        {pastSurgeries.length === 0 && <p className="text-sm text-slate-500">No surgeries added.</p>}
+        {pastSurgeries.map((surgery, index) => (
+          <div key={index} className="grid grid-cols-[1fr_6rem_auto] items-center gap-2">
+            <Input
+              value={surgery.name}
+              onChange={(e) =>
+                onChange({ ...value, pastSurgeries: replaceAt(pastSurgeries, index, { name: e.target.value }) })
+              }
+              placeholder="e.g. Knee replacement"
+              aria-label="Surgery"
+            />
+            <Input
+              type="number"
+              min="1900"
+              max={maxYear}
+              value={surgery.year ?? ""}
+              onChange={(e) =>
+                onChange({ ...value, pastSurgeries: replaceAt(pastSurgeries, index, { year: parseYear(e.target.value) }) })
+              }
+              placeholder="Year"
+              aria-label="Surgery year"
+            />
+            <RemoveButton
+              label="Remove surgery"
+              onClick={() => onChange({ ...value, pastSurgeries: pastSurgeries.filter((_, i) => i !== index) })}
+            />
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, pastSurgeries: [...pastSurgeries, { name: "" }] })}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add surgery
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts"
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart"
+import { ClimateHistory } from "@/types/agents"
+
+const airQualityConfig = {
+  meanAQI: { label: "Mean AQI", color: "#0891b2" },
+  daysAbove150: { label: "Days above 150", color: "#f97316" },
+} satisfies ChartConfig
+
+const heatConfig = {
+  meanMaxTemperature: { label: "Mean daily max (°C)", color: "#dc2626" },
+  heatwaveDays: { label: "Heatwave days", color: "#f59e0b" },
+  meanHumidity: { label: "Mean humidity (%)", color: "#0d9488" },
+} satisfies ChartConfig
+
+// "2025-03" → "Mar 25"
+function monthLabel(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number)
+  return new Date(year, monthIndex - 1).toLocaleDateString("en-IN", { month: "short", year: "2-digit" })
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg bg-slate-50 p-3">
+      <p className="text-xs text-slate-500">{label}</p>
+      <p className="text-lg font-semibold text-slate-900">{value}</p>
+    </div>
+  )
+}
+
+interface ClimateTrendChartsProps {
+  history: ClimateHistory
+}
+
+export function ClimateTrendCharts({ history }: ClimateTrendChartsProps) {
+  const data = history.monthly.map((month) => ({ ...month, label: monthLabel(month.month) }))
+  const { aqi, weather } = history
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-6">
+        {aqi && (
+          <>
+            <Stat label="Mean AQI" value={String(aqi.mean)} />
+            <Stat label="Days AQI > 150" value={`${aqi.daysAbove150} / ${aqi.daysMeasured}`} />
+            <Stat label="Days AQI > 200" value={String(aqi.daysAbove200)} />
+          </>
+        )}
+        {weather && (
+          <>
+            <Stat label="Heatwave days" value={String(weather.heatwaveDays)} />
+            <Stat label="Peak temperature" value={`${weather.peakTemperature}°C`} />
+            <Stat label="Humidity range" value={`${weather.minHumidity}–${weather.maxHumidity}%`} />
+          </>
+        )}
+      </div>
+
+      {aqi && (
+        <div>
+          <h4 className="mb-2 text-sm font-medium text-slate-700">Air quality by month</h4>
+          <ChartContainer config={airQualityConfig} className="aspect-auto h-[240px] w-full">
+            <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} />
+              <YAxis yAxisId="aqi" tickLine={false} axisLine={false} width={36} />
+              <YAxis yAxisId="days" orientation="right" tickLine={false} axisLine={false} width={28} domain={[0, 31]} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar yAxisId="aqi" dataKey="meanAQI" fill="var(--color-meanAQI)" radius={[4, 4, 0, 0]} />
+              <Line yAxisId="days" dataKey="daysAbove150" stroke="var(--color-daysAbove150)" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ChartContainer>
+        </div>
+      )}
+
+      {weather && (
+        <div>
+          <h4 className="mb-2 text-sm font-medium text-slate-700">Heat and humidity by month</h4>
+          <ChartContainer config={heatConfig} className="aspect-auto h-[240px] w-full">
+            <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} />
+              <YAxis yAxisId="value" tickLine={false} axisLine={false} width={36} />
+              <YAxis yAxisId="days" orientation="right" tickLine={false} axisLine={false} width={28} domain={[0, 31]} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar yAxisId="days" dataKey="heatwaveDays" fill="var(--color-heatwaveDays)" radius={[4, 4, 0, 0]} />
+              <Line yAxisId="value" dataKey="meanMaxTemperature" stroke="var(--color-meanMaxTemperature)" strokeWidth={2} dot={false} />
+              <Line yAxisId="value" dataKey="meanHumidity" stroke="var(--color-meanHumidity)" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ChartContainer>
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500">
+        {history.from} to {history.to}. Heatwave days reached 40°C or more. Source: Open-Meteo archive and air quality data.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { EnvironmentalForecast, ExposureLevel, ForecastHazard } from "@/types/agents"
+
+const LEVEL_STYLES: Record<ExposureLevel, string> = {
+  low: "bg-green-100 text-green-800",
+  moderate: "bg-yellow-100 text-yellow-800",
+  high: "bg-orange-100 text-orange-800",
+  severe: "bg-red-100 text-red-800",
+}
+
+const HAZARD_LABELS: Record<ForecastHazard, string> = {
+  heat: "Heat",
+  pm25: "PM2.5",
+  pm10: "PM10",
+  uv: "UV",
+}
+
+// "2026-10-19" → "Mon 19"
+function dayLabel(date: string): string {
+  return new Date(`${date}T00:00`).toLocaleDateString("en-IN", { weekday: "short", day: "numeric" })
+}
+
+interface ForecastStripProps {
+  forecast: EnvironmentalForecast
+}
+
+export function ForecastStrip({ forecast }: ForecastStripProps) {
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-4 lg:grid-cols-7">
+        {forecast.days.map((day) => (
+          <div key={day.date} className="flex flex-col rounded-lg border border-slate-200 bg-slate-50 p-3">
+            <div className="mb-2 flex items-center justify-between gap-2">
+              <span className="text-sm font-semibold text-slate-900">{dayLabel(day.date)}</span>
+              <Badge className={LEVEL_STYLES[day.exposure.level]}>{day.exposure.level}</Badge>
+            </div>
+
+            <div className="space-y-0.5 text-xs text-slate-600">
+              {day.temperatureMax !== null && day.temperatureMin !== null && (
+                <p>
+                  {Math.round(day.temperatureMin)}–{Math.round(day.temperatureMax)}°C
+                  {day.meanHumidity !== null && `, ${day.meanHumidity}% RH`}
+                </p>
+              )}
+              {day.pm25 !== null && (
+                <p>
+                  PM2.5 {day.pm25}
+                  {day.pm10 !== null && ` · PM10 ${day.pm10}`} µg/m³
+                </p>
+              )}
+              {day.uvIndexMax !== null && <p>UV up to {Math.round(day.uvIndexMax)}</p>}
+            </div>
+
+            {day.exposure.hazards.length > 0 && (
+              <p className="mt-2 text-xs font-medium text-slate-700">
+                {day.exposure.hazards.map(({ hazard, level }) => `${HAZARD_LABELS[hazard]} (${level})`).join(", ")}
+              </p>
+            )}
+
+            <ul className="mt-2 space-y-1 text-xs text-slate-600">
+              {day.precautions.length > 0 ? (
+                day.precautions.map((precaution) => <li key={precaution}>• {precaution}</li>)
+              ) : (
+                <li>No special precautions needed</li>
+              )}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {forecast.pattern.description}. Particulates are averaged over those hours; heat and UV use the worst hour.
+        Source: Open-Meteo forecast and air quality data.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+"use client"
+
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, XAxis, YAxis } from "recharts"
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import { POLLUTANT_IDS, POLLUTANT_LABELS } from "@/lib/utils/pollutants"
+import { PollutantBreakdown } from "@/types/agents"
+
+const chartConfig = {
+  value: { label: "Sub-index", color: "#0891b2" },
+} satisfies ChartConfig
+
+// Same bands as the AQI badge on the report page
+function barColor(value: number): string {
+  if (value <= 50) return "#22c55e"
+  if (value <= 100) return "#eab308"
+  if (value <= 150) return "#f97316"
+  if (value <= 200) return "#ef4444"
+  return "#a855f7"
+}
+
+interface PollutantChartProps {
+  pollutants: PollutantBreakdown
+}
+
+export function PollutantChart({ pollutants }: PollutantChartProps) {
+  const data = POLLUTANT_IDS.filter((id) => pollutants.values[id] !== undefined).map((id) => ({
+    label: POLLUTANT_LABELS[id],
+    value: pollutants.values[id]!,
+  }))
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+        <BarChart data={data} layout="vertical" margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+          <CartesianGrid horizontal={false} />
+          <XAxis type="number" tickLine={false} axisLine={false} />
+          <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={56} />
+          <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+          <ReferenceLine x={100} stroke="#f97316" strokeDasharray="4 4" />
+          <Bar dataKey="value" radius={[0, 4, 4, 0]}>
+            {data.map((entry) => (
+              <Cell key={entry.label} fill={barColor(entry.value)} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+      <p className="text-xs text-slate-500">
+        {pollutants.dominant && <>Dominant pollutant: {POLLUTANT_LABELS[pollutants.dominant]}. </>}
+        Each bar is the pollutant&apos;s sub-index on the AQI scale; above the dashed line is unhealthy for sensitive groups.
+        Source: AQICN.
+      </p>
+    </div>
+  )
+}
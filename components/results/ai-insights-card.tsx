@@ -0,0 +1,74 @@
+"use client"
+
+import { Lightbulb, Sparkles } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Card } from "@/components/ui/card"
+import { FinancialInsights, FinancialTipCategory, RiskInsights } from "@/types/agents"
+
+interface AIInsightsCardProps {
+  riskInsights?: RiskInsights
+  financialInsights?: FinancialInsights
+}
+
+const TIP_LABELS: Record<FinancialTipCategory, string> = {
+  insurance: "Insurance",
+  savings: "Savings",
+  "emergency-fund": "Emergency fund",
+  tax: "Tax",
+  family: "Family",
+  "long-term": "Long term",
+}
+
+export function AIInsightsCard({ riskInsights, financialInsights }: AIInsightsCardProps) {
+  return (
+    <Card className="mb-6 border-cyan-200 bg-white/90 p-8 backdrop-blur-sm">
+      <h2 className="mb-6 flex items-center gap-2 text-2xl font-bold text-slate-900">
+        <Sparkles className="h-6 w-6 text-cyan-600" />
+        AI Insights
+      </h2>
+
+      {riskInsights && (
+        <div className="mb-6">
+          <h3 className="mb-2 font-semibold text-slate-900">Health Risk Analysis</h3>
+          <p className="mb-4 whitespace-pre-line text-slate-700">{riskInsights.summary}</p>
+
+          <div className="mb-4 space-y-3">
+            {riskInsights.factorCommentary.map((item, index) => (
+              <div key={index} className="rounded-lg bg-slate-50 p-4">
+                <p className="mb-1 text-sm font-semibold text-slate-900">{item.category}</p>
+                <p className="text-sm text-slate-600">{item.commentary}</p>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-sm text-slate-700">
+            <span className="font-semibold">Outlook:</span> {riskInsights.outlook}
+          </p>
+        </div>
+      )}
+
+      {financialInsights && (
+        <div>
+          <h3 className="mb-2 font-semibold text-slate-900">Financial Plan</h3>
+          <p className="mb-2 whitespace-pre-line text-slate-700">{financialInsights.summary}</p>
+          <p className="mb-4 text-sm text-slate-600">{financialInsights.planRationale}</p>
+
+          <div className="grid gap-3 md:grid-cols-2">
+            {financialInsights.tips.map((tip, index) => (
+              <div key={index} className="rounded-lg border border-slate-200 p-4">
+                <div className="mb-1 flex items-center justify-between gap-2">
+                  <p className="flex items-center gap-2 text-sm font-semibold text-slate-900">
+                    <Lightbulb className="h-4 w-4 text-yellow-500" />
+                    {tip.title}
+                  </p>
+                  <Badge variant="outline">{TIP_LABELS[tip.category]}</Badge>
+                </div>
+                <p className="text-sm text-slate-600">{tip.detail}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,200 @@
+"use client"
+
+import { FormEvent, useEffect, useRef, useState } from "react"
+import { Loader2, MessageCircle, Send, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import { useToast } from "@/hooks/use-toast"
+import { readSSE } from "@/lib/utils/sse"
+import { ChatEvent, ChatMessage } from "@/types/agents"
+
+const SUGGESTED_QUESTIONS = [
+  "Why is my premium this high?",
+  "Should I add a critical illness rider?",
+  "What is driving my risk score?",
+]
+
+interface AnalysisChatDrawerProps {
+  analysisId: string
+}
+
+export function AnalysisChatDrawer({ analysisId }: AnalysisChatDrawerProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [hasLoaded, setHasLoaded] = useState(false)
+  const [draft, setDraft] = useState("")
+  // Reply text as it streams in, null when no reply is in progress
+  const [pendingReply, setPendingReply] = useState<string | null>(null)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!open || hasLoaded) return
+
+    const loadMessages = async () => {
+      try {
+        const response = await fetch(`/api/analyses/${analysisId}/chat`)
+        if (!response.ok) throw new Error("Failed to load conversation")
+        const data = await response.json()
+        setMessages(data.messages)
+        setHasLoaded(true)
+      } catch (error) {
+        console.error("[Chat] Error loading conversation:", error)
+      }
+    }
+
+    loadMessages()
+  }, [open, hasLoaded, analysisId])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" })
+  }, [messages, pendingReply])
+
+  const sendMessage = async (text: string) => {
+    const message = text.trim()
+    if (!message || pendingReply !== null) return
+
+    setDraft("")
+    setMessages((current) => [...current, { role: "user", content: message, createdAt: new Date().toISOString() }])
+    setPendingReply("")
+
+    try {
+      const response = await fetch(`/api/analyses/${analysisId}/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to send message")
+      }
+
+      await readSSE<ChatEvent>(response, (event) => {
+        if (event.type === "delta") {
+          setPendingReply((current) => (current || "") + event.text)
+        } else if (event.type === "done") {
+          setMessages((current) => [...current, event.message])
+        } else {
+          throw new Error(event.message)
+        }
+      })
+    } catch (error) {
+      console.error("[Chat] Error sending message:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send message",
+        variant: "destructive",
+      })
+    } finally {
+      setPendingReply(null)
+    }
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    sendMessage(draft)
+  }
+
+  const handleClear = async () => {
+    try {
+      const response = await fetch(`/api/analyses/${analysisId}/chat`, { method: "DELETE" })
+      if (!response.ok) throw new Error("Failed to clear conversation")
+      setMessages([])
+    } catch (error) {
+      console.error("[Chat] Error clearing conversation:", error)
+      toast({
+        title: "Error",
+        description: "Failed to clear conversation",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" className="gap-2 bg-white hover:bg-slate-50">
+          <MessageCircle className="h-4 w-4" />
+          Ask about this report
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex w-full flex-col gap-0 sm:max-w-md">
+        <SheetHeader className="border-b">
+          <SheetTitle>Ask about this report</SheetTitle>
+          <SheetDescription>Answers are based only on this analysis and are not medical advice.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 space-y-3 overflow-y-auto p-4">
+          {messages.length === 0 && pendingReply === null && (
+            <div className="space-y-2">
+              <p className="text-sm text-slate-600">Try asking:</p>
+              {SUGGESTED_QUESTIONS.map((question) => (
+                <Button
+                  key={question}
+                  variant="outline"
+                  size="sm"
+                  className="h-auto w-full justify-start whitespace-normal text-left"
+                  onClick={() => sendMessage(question)}
+                >
+                  {question}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {messages.map((message, index) => (
+            <div
+              key={index}
+              className={`max-w-[85%] whitespace-pre-wrap rounded-lg px-3 py-2 text-sm ${
+                message.role === "user" ? "ml-auto bg-blue-600 text-white" : "bg-slate-100 text-slate-900"
+              }`}
+            >
+              {message.content}
+            </div>
+          ))}
+
+          {pendingReply !== null && (
+            <div className="max-w-[85%] whitespace-pre-wrap rounded-lg bg-slate-100 px-3 py-2 text-sm text-slate-900">
+              {pendingReply || <Loader2 className="h-4 w-4 animate-spin text-slate-500" />}
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-2 border-t p-4">
+          <Textarea
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" && !event.shiftKey) {
+                event.preventDefault()
+                sendMessage(draft)
+              }
+            }}
+            placeholder="Ask a question about your results..."
+            maxLength={2000}
+            rows={2}
+          />
+          <div className="flex justify-between">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={handleClear}
+              disabled={messages.length === 0 || pendingReply !== null}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Clear
+            </Button>
+            <Button type="submit" size="sm" disabled={!draft.trim() || pendingReply !== null}>
+              {pendingReply !== null ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              Send
+            </Button>
+          </div>
+        </form>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,111 @@
+"use client"
+
+import { Users } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Card } from "@/components/ui/card"
+import { FamilyCoverage, HouseholdRisk } from "@/types/agents"
+
+interface FamilyCoverageCardProps {
+  householdRisk: HouseholdRisk
+  familyCoverage?: FamilyCoverage
+}
+
+const LEVEL_STYLES: Record<HouseholdRisk["aggregateLevel"], string> = {
+  low: "bg-green-100 text-green-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  high: "bg-orange-100 text-orange-800",
+  critical: "bg-red-100 text-red-800",
+}
+
+const RELATIONSHIP_LABELS: Record<string, string> = {
+  self: "You",
+  spouse: "Spouse",
+  child: "Child",
+  parent: "Parent",
+}
+
+export function FamilyCoverageCard({ householdRisk, familyCoverage }: FamilyCoverageCardProps) {
+  const formatRupees = (n: number) => `₹${n.toLocaleString("en-IN")}`
+
+  return (
+    <Card className="mb-6 border-cyan-200 bg-white/90 p-8 backdrop-blur-sm">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="mb-2 flex items-center gap-2 text-2xl font-bold text-slate-900">
+            <Users className="h-6 w-6 text-cyan-600" />
+            Family Coverage
+          </h2>
+          <p className="text-slate-600">
+            {householdRisk.memberCount} members, eldest aged {householdRisk.eldestAge}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-sm text-slate-600">Household risk</p>
+          <p className="text-3xl font-bold text-slate-900">{householdRisk.aggregateScore}</p>
+          <Badge className={`capitalize ${LEVEL_STYLES[householdRisk.aggregateLevel]}`}>
+            {householdRisk.aggregateLevel}
+          </Badge>
+        </div>
+      </div>
+
+      <div className="mb-6 grid gap-3 md:grid-cols-2">
+        {householdRisk.members.map((member, index) => (
+          <div key={index} className="rounded-lg bg-slate-50 p-4">
+            <div className="mb-1 flex items-center justify-between">
+              <p className="font-semibold text-slate-900">
+                {member.name}{" "}
+                <span className="text-sm font-normal text-slate-500">
+                  ({RELATIONSHIP_LABELS[member.relationship]}, {member.age})
+                </span>
+              </p>
+              <Badge className={`capitalize ${LEVEL_STYLES[member.riskLevel]}`}>{member.riskScore}</Badge>
+            </div>
+            {member.topFactors.length > 0 && (
+              <p className="text-xs text-slate-600">{member.topFactors.join(" · ")}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {familyCoverage && (
+        <>
+          <div className="mb-4 grid gap-4 md:grid-cols-2">
+            <div
+              className={`rounded-lg border-2 p-4 ${familyCoverage.recommendation === "floater" ? "border-cyan-500 bg-cyan-50" : "border-slate-200"}`}
+            >
+              <div className="mb-2 flex items-center justify-between">
+                <p className="font-semibold text-slate-900">Family floater</p>
+                {familyCoverage.recommendation === "floater" && <Badge className="bg-cyan-600">Recommended</Badge>}
+              </div>
+              <p className="text-sm text-slate-600">{familyCoverage.floater.name}</p>
+              <p className="mt-2 text-2xl font-bold text-slate-900">{formatRupees(familyCoverage.floater.premium)}/mo</p>
+              <p className="text-sm text-slate-600">{formatRupees(familyCoverage.floater.coverage)} shared cover</p>
+            </div>
+            <div
+              className={`rounded-lg border-2 p-4 ${familyCoverage.recommendation === "individual" ? "border-cyan-500 bg-cyan-50" : "border-slate-200"}`}
+            >
+              <div className="mb-2 flex items-center justify-between">
+                <p className="font-semibold text-slate-900">Individual policies</p>
+                {familyCoverage.recommendation === "individual" && <Badge className="bg-cyan-600">Recommended</Badge>}
+              </div>
+              <ul className="text-sm text-slate-600">
+                {familyCoverage.individual.plans.map((plan, index) => (
+                  <li key={index}>
+                    {plan.name}: {plan.planName}, {formatRupees(plan.premium)}/mo
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-2 text-2xl font-bold text-slate-900">
+                {formatRupees(familyCoverage.individual.totalPremium)}/mo
+              </p>
+              <p className="text-sm text-slate-600">
+                {formatRupees(familyCoverage.individual.totalCoverage)} total cover
+              </p>
+            </div>
+          </div>
+          <p className="text-sm text-slate-700">{familyCoverage.reason}</p>
+        </>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,58 @@
+"use client"
+
+import { Heart } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Card } from "@/components/ui/card"
+import { PreventionCategory, PreventionStep } from "@/types/agents"
+
+interface PreventionStepsCardProps {
+  steps: PreventionStep[]
+}
+
+const PRIORITY_ORDER: Record<PreventionStep["priority"], number> = { high: 0, medium: 1, low: 2 }
+
+const PRIORITY_STYLES: Record<PreventionStep["priority"], string> = {
+  high: "bg-red-100 text-red-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  low: "bg-green-100 text-green-800",
+}
+
+const CATEGORY_LABELS: Record<PreventionCategory, string> = {
+  medical: "Medical",
+  environmental: "Environmental",
+  occupational: "Occupational",
+  lifestyle: "Lifestyle",
+  "mental-health": "Mental health",
+}
+
+export function PreventionStepsCard({ steps }: PreventionStepsCardProps) {
+  const ordered = [...steps].sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority])
+
+  return (
+    <Card className="mb-6 border-cyan-200 bg-white/90 p-6 backdrop-blur-sm">
+      <div className="mb-4 flex items-center gap-3">
+        <div className="flex h-12 w-12 items-center justify-center rounded-full bg-green-100">
+          <Heart className="h-6 w-6 text-green-600" />
+        </div>
+        <div>
+          <h3 className="text-xl font-semibold text-slate-900">Prevention & Action Steps</h3>
+          <p className="text-sm text-slate-600">Recommendations to reduce your health risks</p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {ordered.map((step, index) => (
+          <div key={index} className="rounded-lg border border-slate-200 p-4">
+            <div className="mb-2 flex flex-wrap items-center gap-2">
+              <Badge className={`capitalize ${PRIORITY_STYLES[step.priority]}`}>{step.priority}</Badge>
+              <Badge variant="outline">{step.frequency}</Badge>
+              {step.category && <Badge variant="secondary">{CATEGORY_LABELS[step.category]}</Badge>}
+            </div>
+            <h4 className="mb-1 font-semibold text-slate-900">{step.action}</h4>
+            {step.description !== step.action && <p className="text-sm text-slate-600">{step.description}</p>}
+          </div>
+        ))}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts"
+import { ChartConfig, ChartContainer, ChartTooltip } from "@/components/ui/chart"
+import { buildWaterfallSteps, waterfallPeak, WaterfallStep } from "@/lib/utils/score-waterfall"
+import { RiskScoreBreakdown } from "@/types/agents"
+
+const STEP_COLORS: Record<WaterfallStep["kind"], string> = {
+  increase: "#f97316",
+  decrease: "#16a34a",
+  total: "#0891b2",
+}
+
+const chartConfig = {
+  value: { label: "Points" },
+} satisfies ChartConfig
+
+interface RiskWaterfallChartProps {
+  breakdown: RiskScoreBreakdown
+}
+
+export function RiskWaterfallChart({ breakdown }: RiskWaterfallChartProps) {
+  const steps = buildWaterfallSteps(breakdown)
+  // Each bar floats on a transparent offset bar so it starts where the previous step ended
+  const data = steps.map((step) => ({
+    ...step,
+    offset: Math.min(step.start, step.end),
+    value: Math.abs(step.end - step.start),
+  }))
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[320px] w-full">
+      <BarChart data={data} margin={{ top: 8, right: 8, bottom: 48, left: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" interval={0} angle={-35} textAnchor="end" height={60} tickLine={false} />
+        <YAxis domain={[0, waterfallPeak(steps, breakdown.maxScore)]} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip
+          cursor={false}
+          content={({ active, payload }) => {
+            if (!active || !payload?.length) return null
+            const step = payload[0].payload as WaterfallStep
+            return (
+              <div className="rounded-lg border bg-background px-3 py-2 text-xs shadow-xl">
+                <p className="font-medium">{step.label}</p>
+                <p className="text-muted-foreground">
+                  {step.kind === "total"
+                    ? `${step.end} / ${breakdown.maxScore}`
+                    : `${step.points > 0 ? "+" : ""}${step.points} points (${step.start} → ${step.end})`}
+                </p>
+              </div>
+            )
+          }}
+        />
+        <Bar dataKey="offset" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+        <Bar dataKey="value" stackId="waterfall" radius={[4, 4, 0, 0]}>
+          {data.map((step, index) => (
+            <Cell key={index} fill={STEP_COLORS[step.kind]} />
+          ))}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,381 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { ArrowDown, ArrowUp, Loader2, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Badge } from "@/components/ui/badge"
+import { CityField } from "@/components/profile/city-field"
+import {
+  ADDICTION_FREQUENCIES,
+  ADDICTION_OPTIONS,
+  CONDITION_STATUSES,
+  HEALTH_CONDITIONS,
+  OCCUPATIONS,
+  WORK_SHIFTS,
+} from "@/lib/data/profile-options"
+import { normalizeHealthHistory } from "@/lib/utils/health-history"
+import {
+  AddictionEntry,
+  AddictionFrequency,
+  ConditionStatus,
+  HealthConditionEntry,
+  WhatIfOverrides,
+  WhatIfResults,
+} from "@/types/agents"
+
+// Catalogue choices offered as toggles; "None" and "Other" only make sense in the profile form
+const CONDITION_CHOICES = HEALTH_CONDITIONS.filter((condition) => condition !== "None" && condition !== "Other")
+const ADDICTION_CHOICES = ADDICTION_OPTIONS.filter((addiction) => addiction !== "Other")
+const NOT_USING = "none"
+
+interface WhatIfPanelProps {
+  profile: any
+}
+
+interface ScenarioControls {
+  age: number
+  monthlyIncome: number
+  city: string
+  occupation: string
+  workShift: string
+  healthConditions: HealthConditionEntry[]
+  addictions: AddictionEntry[]
+}
+
+function controlsFromProfile(profile: any): ScenarioControls {
+  const { healthConditions, addictions } = normalizeHealthHistory(profile)
+  return {
+    age: Number(profile.age) || 30,
+    monthlyIncome: parseFloat(profile.monthlyIncome) || 50000,
+    city: profile.city || "",
+    occupation: profile.occupation || "",
+    workShift: profile.workShift || "Day",
+    healthConditions,
+    addictions,
+  }
+}
+
+/**
+ * Only the controls that differ from the profile are sent as overrides
+ */
+function overridesFor(controls: ScenarioControls, base: ScenarioControls): WhatIfOverrides {
+  const overrides: WhatIfOverrides = {}
+  ;(Object.keys(controls) as (keyof ScenarioControls)[]).forEach((field) => {
+    if (JSON.stringify(controls[field]) !== JSON.stringify(base[field])) {
+      ;(overrides as Record<string, unknown>)[field] = controls[field]
+    }
+  })
+  return overrides
+}
+
+function withOption(options: string[], value: string): string[] {
+  return value && !options.includes(value) ? [value, ...options] : options
+}
+
+function withOptions(options: string[], values: string[]): string[] {
+  return values.reduce((all, value) => withOption(all, value), options)
+}
+
+function Delta({ value, format, lowerIsBetter = true }: { value: number; format: (n: number) => string; lowerIsBetter?: boolean }) {
+  if (value === 0) return <span className="text-sm text-slate-500">No change</span>
+
+  const improved = lowerIsBetter ? value < 0 : value > 0
+  const Icon = value > 0 ? ArrowUp : ArrowDown
+  return (
+    <span className={`flex items-center gap-1 text-sm font-medium ${improved ? "text-green-600" : "text-red-600"}`}>
+      <Icon className="h-4 w-4" />
+      {format(Math.abs(value))}
+    </span>
+  )
+}
+
+export function WhatIfPanel({ profile }: WhatIfPanelProps) {
+  const baseControls = useMemo(() => controlsFromProfile(profile), [profile])
+  const [controls, setControls] = useState<ScenarioControls>(baseControls)
+  const [results, setResults] = useState<WhatIfResults | null>(null)
+  const [isSimulating, setIsSimulating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const overrides = useMemo(() => overridesFor(controls, baseControls), [controls, baseControls])
+  const hasChanges = Object.keys(overrides).length > 0
+
+  useEffect(() => {
+    setControls(baseControls)
+  }, [baseControls])
+
+  // Debounce so dragging a slider doesn't fire a request per step
+  useEffect(() => {
+    if (!hasChanges) {
+      setResults(null)
+      setError(null)
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setIsSimulating(true)
+      setError(null)
+      try {
+        const response = await fetch("/api/what-if", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            userProfile: profile,
+            scenarios: [{ label: "What if", overrides }],
+          }),
+          signal: controller.signal,
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Simulation failed")
+        }
+        setResults(data.data)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.error("[WhatIf] Simulation error:", err)
+        setError(err instanceof Error ? err.message : "Simulation failed")
+      } finally {
+        if (!controller.signal.aborted) setIsSimulating(false)
+      }
+    }, 500)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [overrides, hasChanges, profile])
+
+  const update = <K extends keyof ScenarioControls>(field: K, value: ScenarioControls[K]) => {
+    setControls((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const toggleCondition = (name: string) => {
+    const existing = controls.healthConditions.find((condition) => condition.name === name)
+    update(
+      "healthConditions",
+      existing
+        ? controls.healthConditions.filter((condition) => condition !== existing)
+        : [...controls.healthConditions, { name, status: "unknown" }]
+    )
+  }
+
+  const setConditionStatus = (name: string, status: ConditionStatus) => {
+    update(
+      "healthConditions",
+      controls.healthConditions.map((condition) => (condition.name === name ? { ...condition, status } : condition))
+    )
+  }
+
+  const setAddictionFrequency = (name: string, frequency: string) => {
+    const existing = controls.addictions.some((addiction) => addiction.name === name)
+    if (frequency === NOT_USING) {
+      update("addictions", controls.addictions.filter((addiction) => addiction.name !== name))
+    } else if (existing) {
+      update(
+        "addictions",
+        controls.addictions.map((addiction) =>
+          addiction.name === name ? { ...addiction, frequency: frequency as AddictionFrequency } : addiction
+        )
+      )
+    } else {
+      update("addictions", [...controls.addictions, { name, frequency: frequency as AddictionFrequency }])
+    }
+  }
+
+  const formatRupees = (n: number) => `₹${n.toLocaleString("en-IN")}`
+  const scenario = results?.scenarios[0]
+
+  return (
+    <Card className="mb-6 border-cyan-200 bg-white/90 p-8 backdrop-blur-sm">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="mb-2 text-2xl font-bold text-slate-900">What If?</h2>
+          <p className="text-slate-600">
+            Change your profile to see how your risk score, premium and savings would move. Nothing is saved.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setControls(baseControls)} disabled={!hasChanges}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Reset
+        </Button>
+      </div>
+
+      <div className="mb-6 flex flex-wrap gap-2">
+        <Button variant="secondary" size="sm" onClick={() => update("addictions", [])}>
+          Quit addictions
+        </Button>
+        <Button variant="secondary" size="sm" onClick={() => update("workShift", "Day")}>
+          Switch to day shift
+        </Button>
+        <Button variant="secondary" size="sm" onClick={() => update("age", controls.age + 5)}>
+          In 5 years
+        </Button>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Age: {controls.age}</Label>
+          <Slider min={18} max={80} step={1} value={[controls.age]} onValueChange={([value]) => update("age", value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Monthly income: {formatRupees(controls.monthlyIncome)}</Label>
+          <Slider
+            min={10000}
+            max={500000}
+            step={5000}
+            value={[controls.monthlyIncome]}
+            onValueChange={([value]) => update("monthlyIncome", value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>City</Label>
+          <CityField value={controls.city} onChange={(city) => update("city", city.name)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Occupation</Label>
+          <Select value={controls.occupation} onValueChange={(value) => update("occupation", value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select occupation" />
+            </SelectTrigger>
+            <SelectContent>
+              {withOption(OCCUPATIONS, baseControls.occupation).map((occupation) => (
+                <SelectItem key={occupation} value={occupation}>
+                  {occupation}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Work shift</Label>
+          <Select value={controls.workShift} onValueChange={(value) => update("workShift", value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select work shift" />
+            </SelectTrigger>
+            <SelectContent>
+              {WORK_SHIFTS.map((shift) => (
+                <SelectItem key={shift.value} value={shift.value}>
+                  {shift.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-3 md:col-span-2">
+          <Label>Health conditions</Label>
+          <div className="flex flex-wrap gap-2">
+            {withOptions(CONDITION_CHOICES, baseControls.healthConditions.map((c) => c.name)).map((name) => {
+              const active = controls.healthConditions.some((condition) => condition.name === name)
+              return (
+                <Badge
+                  key={name}
+                  variant={active ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => toggleCondition(name)}
+                >
+                  {name}
+                </Badge>
+              )
+            })}
+          </div>
+          {controls.healthConditions.length > 0 && (
+            <div className="grid gap-3 sm:grid-cols-2">
+              {controls.healthConditions.map((condition) => (
+                <div key={condition.name} className="flex items-center justify-between gap-3 rounded-lg bg-slate-50 px-3 py-2">
+                  <span className="text-sm text-slate-700">{condition.name}</span>
+                  <Select
+                    value={condition.status}
+                    onValueChange={(value) => setConditionStatus(condition.name, value as ConditionStatus)}
+                  >
+                    <SelectTrigger className="h-8 w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONDITION_STATUSES.map((status) => (
+                        <SelectItem key={status.value} value={status.value}>
+                          {status.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="space-y-3 md:col-span-2">
+          <Label>Addictions</Label>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {withOptions(ADDICTION_CHOICES, baseControls.addictions.map((a) => a.name)).map((name) => (
+              <div key={name} className="flex items-center justify-between gap-3 rounded-lg bg-slate-50 px-3 py-2">
+                <span className="text-sm text-slate-700">{name}</span>
+                <Select
+                  value={controls.addictions.find((addiction) => addiction.name === name)?.frequency || NOT_USING}
+                  onValueChange={(value) => setAddictionFrequency(name, value)}
+                >
+                  <SelectTrigger className="h-8 w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_USING}>Not using</SelectItem>
+                    {ADDICTION_FREQUENCIES.map((frequency) => (
+                      <SelectItem key={frequency.value} value={frequency.value}>
+                        {frequency.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-8">
+        {!hasChanges && (
+          <p className="text-center text-sm text-slate-500">Adjust any control above to run a scenario.</p>
+        )}
+        {hasChanges && isSimulating && !scenario && (
+          <div className="flex items-center justify-center gap-2 text-slate-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Simulating...
+          </div>
+        )}
+        {hasChanges && error && <p className="text-center text-sm text-red-600">{error}</p>}
+        {hasChanges && results && scenario && (
+          <div className={`grid gap-4 md:grid-cols-3 ${isSimulating ? "opacity-60" : ""}`}>
+            <div className="rounded-lg bg-slate-50 p-4">
+              <p className="text-sm text-slate-600">Risk score</p>
+              <p className="text-2xl font-bold text-slate-900">
+                {results.baseline.riskScore} → {scenario.outcome.riskScore}
+              </p>
+              <p className="mb-1 text-xs capitalize text-slate-500">{scenario.outcome.riskLevel} risk</p>
+              <Delta value={scenario.delta.riskScore} format={(n) => `${n} points`} />
+            </div>
+            <div className="rounded-lg bg-slate-50 p-4">
+              <p className="text-sm text-slate-600">Monthly premium</p>
+              <p className="text-2xl font-bold text-slate-900">
+                {formatRupees(scenario.outcome.insurancePlan.premium)}
+              </p>
+              <p className="mb-1 text-xs text-slate-500">{scenario.outcome.insurancePlan.name}</p>
+              <Delta value={scenario.delta.premium} format={formatRupees} />
+            </div>
+            <div className="rounded-lg bg-slate-50 p-4">
+              <p className="text-sm text-slate-600">Monthly savings</p>
+              <p className="text-2xl font-bold text-slate-900">{formatRupees(scenario.outcome.monthlySavings)}</p>
+              <p className="mb-1 text-xs capitalize text-slate-500">
+                {scenario.outcome.affordability.financialStrain} financial strain (
+                {scenario.outcome.affordability.monthlyIncomePercentage}% of income)
+              </p>
+              <Delta value={scenario.delta.monthlySavings} format={formatRupees} />
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  // The analysis job worker needs Node APIs and a database connection
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startJobWorker } = await import("./lib/services/job-worker")
+    startJobWorker()
+  }
+}
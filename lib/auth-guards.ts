@@ -0,0 +1,31 @@
+import { getServerSession, type Session } from "next-auth"
+import { authOptions } from "./auth"
+import { getUserRole } from "./services/user-store"
+import type { UserRole } from "@/types/next-auth"
+
+export type RoleCheck =
+  | { ok: true; session: Session }
+  | { ok: false; status: 401 | 403; error: string }
+
+/**
+ * Resolve the current session and confirm the user holds the given role.
+ * The role is re-read from the database because session tokens live for 30 days
+ * and a demotion has to take effect before they expire.
+ */
+export async function checkRole(role: UserRole): Promise<RoleCheck> {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return { ok: false, status: 401, error: "Unauthorized" }
+  }
+
+  if (session.user.role !== role || (await getUserRole(session.user.id)) !== role) {
+    return { ok: false, status: 403, error: "Forbidden" }
+  }
+
+  return { ok: true, session }
+}
+
+export function checkAdmin(): Promise<RoleCheck> {
+  return checkRole("admin")
+}
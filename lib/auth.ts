@@ -3,6 +3,7 @@ import CredentialsProvider from "next-auth/providers/credentials"
 import { MongoDBAdapter } from "@auth/mongodb-adapter"
 import clientPromise from "./mongodb"
 import bcrypt from "bcryptjs"
+import { bootstrapAdmin, roleOf } from "./services/user-store"
 
 export const authOptions: NextAuthOptions = {
   adapter: MongoDBAdapter(clientPromise) as any,
@@ -32,10 +33,13 @@ export const authOptions: NextAuthOptions = {
           throw new Error("Invalid password")
         }
 
+        const id = user._id.toString()
+
         return {
-          id: user._id.toString(),
+          id,
           email: user.email,
           name: user.name,
+          role: await bootstrapAdmin(id, user.email, roleOf(user)),
         }
       },
     }),
@@ -44,12 +48,15 @@ export const authOptions: NextAuthOptions = {
     async jwt({ token, user }) {
       if (user) {
         token.id = user.id
+        token.role = user.role
       }
       return token
     },
     async session({ session, token }) {
       if (session.user) {
         session.user.id = token.id as string
+        // Tokens issued before roles existed carry no role
+        session.user.role = token.role ?? "user"
       }
       return session
     },
@@ -23,6 +23,25 @@ export const API_CONFIGS = {
     requiresAuth: false
   },
   
+  // Historical weather (ERA5 reanalysis) and modelled air quality; a year of history changes slowly
+  openMeteoArchive: {
+    baseUrl: 'https://archive-api.open-meteo.com/v1',
+    timeout: 20000,
+    retryAttempts: 2,
+    retryDelay: 2000,
+    cacheTTL: 604800, // 7 days
+    requiresAuth: false
+  },
+
+  openMeteoAirQuality: {
+    baseUrl: 'https://air-quality-api.open-meteo.com/v1',
+    timeout: 20000,
+    retryAttempts: 2,
+    retryDelay: 2000,
+    cacheTTL: 604800, // 7 days
+    requiresAuth: false
+  },
+  
   openWeatherMap: {
     baseUrl: 'https://api.openweathermap.org/data/2.5',
     timeout: 10000,
@@ -32,6 +51,25 @@ export const API_CONFIGS = {
     requiresAuth: true
   },
   
+  // Geocoding (Open-Meteo place search and India Post pincode lookup; places rarely move)
+  openMeteoGeocoding: {
+    baseUrl: 'https://geocoding-api.open-meteo.com/v1',
+    timeout: 10000,
+    retryAttempts: 2,
+    retryDelay: 1000,
+    cacheTTL: 2592000, // 30 days
+    requiresAuth: false
+  },
+
+  indiaPost: {
+    baseUrl: 'https://api.postalpincode.in',
+    timeout: 10000,
+    retryAttempts: 2,
+    retryDelay: 1000,
+    cacheTTL: 2592000, // 30 days
+    requiresAuth: false
+  },
+  
   // Air Quality
   aqicn: {
     baseUrl: 'https://api.waqi.info',
@@ -42,6 +80,16 @@ export const API_CONFIGS = {
     requiresAuth: true
   },
   
+  // Map features (nearest hospitals) from OpenStreetMap
+  overpass: {
+    baseUrl: 'https://overpass-api.de/api',
+    timeout: 20000,
+    retryAttempts: 2,
+    retryDelay: 2000,
+    cacheTTL: 604800, // 7 days
+    requiresAuth: false
+  },
+  
   // Health & Statistics
   worldBank: {
     baseUrl: 'https://api.worldbank.org/v2',
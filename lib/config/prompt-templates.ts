@@ -0,0 +1,392 @@
+/**
+ * Prompt Templates
+ * Named, versioned prompts for the LLM agents. Text refers to variables as
+ * {{name}}. Published versions must never be edited in place: add a new
+ * version instead so stored reports keep pointing at the text that produced them.
+ */
+
+import { createHash } from "crypto"
+
+export type PromptTemplateId = "risk-analysis" | "financial-plan" | "prevention-steps" | "analysis-chat"
+
+export type PromptVariables = Record<string, string | number>
+
+export interface PromptTemplate<V extends PromptVariables = PromptVariables> {
+  id: PromptTemplateId
+  version: string
+  description: string
+  // Every variable the text may reference, with what it holds
+  variables: { [K in keyof V]: string }
+  text: string
+}
+
+export type RiskAnalysisPromptVariables = {
+  age: string
+  occupation: string
+  city: string
+  area: string
+  workShift: string
+  healthConditions: string
+  addictions: string
+  pastSurgeries: string
+  aqi: number
+  temperature: number
+  humidity: number
+  hazardLevel: string
+  occupationRiskScore: number
+  occupationDeathRate: number
+  commonRisks: string
+  healthIssues: string
+  crimeRate: number
+  safetyIndex: number
+  stressLevel: string
+  healthRiskImpact: number
+  cityHealthIndex: number
+  deathRate: number
+  riskScore: number
+  riskLevel: string
+  riskFactors: string
+}
+
+export type FinancialPlanPromptVariables = {
+  age: string
+  occupation: string
+  city: string
+  riskScore: number
+  riskLevel: string
+  riskFactorCategories: string
+  planName: string
+  planCoverage: string
+  planPremium: string
+  planFeatures: string
+  monthlySavings: string
+  emergencyFund: string
+  familyCoverage: string
+  familyCoverageTip: string
+}
+
+export type PreventionStepsPromptVariables = {
+  riskFactors: string
+  occupation: string
+  age: string
+  healthConditions: string
+  addictions: string
+  commonRisks: string
+}
+
+export type AnalysisChatPromptVariables = {
+  age: string
+  occupation: string
+  city: string
+  healthConditions: string
+  riskScore: number
+  riskLevel: string
+  scoreBreakdown: string
+  riskFactors: string
+  recommendedPlan: string
+  alternativePlans: string
+  familyCoverage: string
+  monthlySavings: string
+  emergencyFund: string
+  financialRecommendations: string
+}
+
+export interface PromptVariablesById {
+  "risk-analysis": RiskAnalysisPromptVariables
+  "financial-plan": FinancialPlanPromptVariables
+  "prevention-steps": PreventionStepsPromptVariables
+  "analysis-chat": AnalysisChatPromptVariables
+}
+
+const RISK_ANALYSIS_V1: PromptTemplate<RiskAnalysisPromptVariables> = {
+  id: "risk-analysis",
+  version: "1.0.0",
+  description: "Agent 1 health risk assessment with a summary, commentary per risk factor and an outlook",
+  variables: {
+    age: "User's age in years",
+    occupation: "User's occupation",
+    city: "City of residence",
+    area: "Area or locality within the city",
+    workShift: "Work shift pattern",
+    healthConditions: "Formatted list of health conditions with their status",
+    addictions: "Formatted list of addictions with their frequency",
+    pastSurgeries: "Formatted list of past surgeries",
+    aqi: "Current air quality index",
+    temperature: "Current temperature in °C",
+    humidity: "Current relative humidity in %",
+    hazardLevel: "Occupation hazard level",
+    occupationRiskScore: "Occupation risk score",
+    occupationDeathRate: "Occupational deaths per 100,000 workers",
+    commonRisks: "Comma-separated common occupational risks",
+    healthIssues: "Comma-separated occupational health issues",
+    crimeRate: "Crimes per 100,000 population",
+    safetyIndex: "City safety index out of 100",
+    stressLevel: "City stress level",
+    healthRiskImpact: "Health impact of crime-related stress",
+    cityHealthIndex: "City health index",
+    deathRate: "City death rate",
+    riskScore: "Overall risk score out of 100",
+    riskLevel: "Overall risk level",
+    riskFactors: "One line per risk factor: category, level and description",
+  },
+  text: `
+You are a health risk analysis expert. Analyze the following data and provide a comprehensive health risk assessment.
+
+USER PROFILE:
+- Age: {{age}}
+- Occupation: {{occupation}}
+- City: {{city}}, Area: {{area}}
+- Work Shift: {{workShift}}
+- Health Conditions: {{healthConditions}}
+- Addictions: {{addictions}}
+- Past Surgeries: {{pastSurgeries}}
+
+ENVIRONMENTAL DATA:
+- Air Quality Index (AQI): {{aqi}}
+- Temperature: {{temperature}}°C
+- Humidity: {{humidity}}%
+
+OCCUPATION HAZARDS:
+- Hazard Level: {{hazardLevel}}
+- Risk Score: {{occupationRiskScore}}
+- Death Rate: {{occupationDeathRate}} per 100,000 workers
+- Common Risks: {{commonRisks}}
+- Health Issues: {{healthIssues}}
+
+CITY STATISTICS:
+- Crime Rate: {{crimeRate}} per 100,000 population
+- Safety Index: {{safetyIndex}}/100
+- Stress Level: {{stressLevel}}
+- Health Risk Impact: {{healthRiskImpact}}
+
+STATISTICAL DATA:
+- City Health Index: {{cityHealthIndex}}
+- Death Rate: {{deathRate}}
+
+RISK FACTORS (overall score {{riskScore}}/100, {{riskLevel}} risk):
+{{riskFactors}}
+
+Respond with a JSON object containing:
+- summary: a 3-5 sentence overview of the user's health risk, covering environmental, occupational, lifestyle and city-specific risks
+- factorCommentary: one entry per risk factor listed above, using its category exactly as written, explaining why it matters for this user and how to mitigate it
+- outlook: 2-3 sentences on the overall health outlook
+
+Keep the analysis professional, clear, and actionable. Focus on preventive measures and risk mitigation.
+`,
+}
+
+const FINANCIAL_PLAN_V1: PromptTemplate<FinancialPlanPromptVariables> = {
+  id: "financial-plan",
+  version: "1.0.0",
+  description: "Agent 2 financial plan with a summary, plan rationale and categorised tips",
+  variables: {
+    age: "User's age in years",
+    occupation: "User's occupation",
+    city: "City of residence",
+    riskScore: "Overall risk score out of 100",
+    riskLevel: "Overall risk level",
+    riskFactorCategories: "Comma-separated risk factor categories",
+    planName: "Recommended insurance plan",
+    planCoverage: "Plan coverage, formatted in rupees",
+    planPremium: "Monthly premium, formatted in rupees",
+    planFeatures: "Comma-separated list of up to five plan features",
+    monthlySavings: "Suggested monthly savings, formatted in rupees",
+    emergencyFund: "Emergency fund target, formatted in rupees",
+    familyCoverage: "Family floater comparison section, empty without dependents",
+    familyCoverageTip: "Extra tip instruction for households with dependents, empty otherwise",
+  },
+  text: `
+You are a financial planning expert specializing in health insurance and medical savings. Analyze the following data and provide comprehensive financial recommendations.
+
+USER PROFILE:
+- Age: {{age}}
+- Occupation: {{occupation}}
+- City: {{city}}
+
+RISK ANALYSIS:
+- Risk Score: {{riskScore}}/100
+- Risk Level: {{riskLevel}}
+- Key Risk Factors: {{riskFactorCategories}}
+
+RECOMMENDED INSURANCE:
+- Plan: {{planName}}
+- Coverage: ₹{{planCoverage}}
+- Monthly Premium: ₹{{planPremium}}
+- Features: {{planFeatures}}
+
+SAVINGS PLAN:
+- Monthly Savings: ₹{{monthlySavings}}
+- Emergency Fund Target: ₹{{emergencyFund}}
+{{familyCoverage}}
+Respond with a JSON object containing:
+- summary: a 3-5 sentence overview of how the user should plan for healthcare costs
+- planRationale: why this insurance plan suits the user's risk profile
+- tips: 4-6 practical tips covering the monthly savings strategy, building the emergency health fund, optimizing insurance benefits, tax benefits and long-term financial health security{{familyCoverageTip}}
+
+Keep recommendations practical, India-specific, and focused on financial security. Consider the user's occupation and risk level.
+`,
+}
+
+const PREVENTION_STEPS_V1: PromptTemplate<PreventionStepsPromptVariables> = {
+  id: "prevention-steps",
+  version: "1.0.0",
+  description: "Agent 1 prevention steps with priority, frequency and category",
+  variables: {
+    riskFactors: "One line per risk factor: category, level and description",
+    occupation: "User's occupation",
+    age: "User's age in years",
+    healthConditions: "Formatted list of health conditions with their status",
+    addictions: "Formatted list of addictions with their frequency",
+    commonRisks: "Comma-separated common occupational risks",
+  },
+  text: `
+Based on the following health risk factors, provide 5-7 specific, actionable prevention steps:
+
+RISK FACTORS:
+{{riskFactors}}
+
+USER CONTEXT:
+- Occupation: {{occupation}}
+- Age: {{age}}
+- Health Conditions: {{healthConditions}}
+- Addictions: {{addictions}}
+
+OCCUPATION HAZARDS:
+{{commonRisks}}
+
+Each step should be:
+- Specific and actionable
+- Relevant to the user's situation
+- Practical to implement
+- Focused on prevention rather than treatment
+
+Respond with a JSON object whose "steps" array orders the steps from most to least important. For each step give:
+- priority: "high" for steps addressing high or critical risk factors, "medium" or "low" otherwise
+- action: a short imperative title
+- description: one or two sentences on how to carry it out
+- frequency: how often the user should do it
+- category: the kind of risk the step addresses
+`,
+}
+
+const ANALYSIS_CHAT_V1: PromptTemplate<AnalysisChatPromptVariables> = {
+  id: "analysis-chat",
+  version: "1.0.0",
+  description: "System prompt for follow-up questions about one stored analysis",
+  variables: {
+    age: "User's age in years",
+    occupation: "User's occupation",
+    city: "City of residence",
+    healthConditions: "Formatted list of health conditions with their status",
+    riskScore: "Overall risk score out of 100",
+    riskLevel: "Overall risk level",
+    scoreBreakdown: "One line per score component with its points, or a note that none was stored",
+    riskFactors: "One line per risk factor: category, level and description",
+    recommendedPlan: "Recommended plan with coverage, premium and features",
+    alternativePlans: "One line per alternative plan with coverage and premium",
+    familyCoverage: "Family floater comparison, or a note that the report has no dependents",
+    monthlySavings: "Suggested monthly savings, formatted in rupees",
+    emergencyFund: "Emergency fund target, formatted in rupees",
+    financialRecommendations: "One line per financial recommendation",
+  },
+  text: `
+You are CareFund's assistant. You answer the user's follow-up questions about their health cost report, summarised below.
+
+Ground every answer in the report. When the report does not contain what the user asks about, say so instead of guessing, and suggest re-running the analysis or using the what-if simulator where that would help. Explain how scores and premiums follow from the listed factors and plans. Amounts are monthly Indian rupees unless stated otherwise. You do not diagnose conditions or replace a doctor or a licensed insurance advisor. Keep answers short and in plain language.
+
+USER PROFILE:
+- Age: {{age}}
+- Occupation: {{occupation}}
+- City: {{city}}
+- Health Conditions: {{healthConditions}}
+
+RISK SCORE: {{riskScore}}/100 ({{riskLevel}} risk)
+Score breakdown:
+{{scoreBreakdown}}
+
+RISK FACTORS:
+{{riskFactors}}
+
+RECOMMENDED PLAN:
+{{recommendedPlan}}
+
+ALTERNATIVE PLANS:
+{{alternativePlans}}
+
+FAMILY COVERAGE:
+{{familyCoverage}}
+
+SAVINGS PLAN:
+- Monthly Savings: ₹{{monthlySavings}}
+- Emergency Fund Target: ₹{{emergencyFund}}
+
+FINANCIAL RECOMMENDATIONS:
+{{financialRecommendations}}
+`,
+}
+
+export const PROMPT_TEMPLATES: { [K in PromptTemplateId]: Record<string, PromptTemplate<PromptVariablesById[K]>> } = {
+  "risk-analysis": {
+    [RISK_ANALYSIS_V1.version]: RISK_ANALYSIS_V1,
+  },
+  "financial-plan": {
+    [FINANCIAL_PLAN_V1.version]: FINANCIAL_PLAN_V1,
+  },
+  "prevention-steps": {
+    [PREVENTION_STEPS_V1.version]: PREVENTION_STEPS_V1,
+  },
+  "analysis-chat": {
+    [ANALYSIS_CHAT_V1.version]: ANALYSIS_CHAT_V1,
+  },
+} satisfies Record<PromptTemplateId, Record<string, PromptTemplate>>
+
+// Version used for new analyses
+export const DEFAULT_PROMPT_VERSIONS: Record<PromptTemplateId, string> = {
+  "risk-analysis": RISK_ANALYSIS_V1.version,
+  "financial-plan": FINANCIAL_PLAN_V1.version,
+  "prevention-steps": PREVENTION_STEPS_V1.version,
+  "analysis-chat": ANALYSIS_CHAT_V1.version,
+}
+
+export function isPromptTemplateId(value: unknown): value is PromptTemplateId {
+  return typeof value === "string" && value in PROMPT_TEMPLATES
+}
+
+/**
+ * Get a prompt template by id, at the given version or the default one.
+ * Returns null for unknown versions.
+ */
+export function getPromptTemplate<K extends PromptTemplateId>(
+  id: K,
+  version?: string
+): PromptTemplate<PromptVariablesById[K]> | null {
+  const versions = PROMPT_TEMPLATES[id] as Record<string, PromptTemplate<PromptVariablesById[K]>>
+  return versions[version || DEFAULT_PROMPT_VERSIONS[id]] || null
+}
+
+/**
+ * Every registered template version
+ */
+export function listPromptTemplates(): PromptTemplate[] {
+  return Object.values(PROMPT_TEMPLATES).flatMap((versions) => Object.values(versions))
+}
+
+/**
+ * Fill a template's {{placeholders}}. Throws when the text references a variable
+ * that was not supplied, so a template can never silently render "undefined".
+ */
+export function renderPrompt<V extends PromptVariables>(template: PromptTemplate<V>, variables: V): string {
+  return template.text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Prompt ${template.id}@${template.version} is missing variable "${name}"`)
+    }
+    return String(variables[name])
+  })
+}
+
+/**
+ * Fingerprint of a rendered prompt, stored with each report
+ */
+export function hashPrompt(text: string): string {
+  return createHash("sha256").update(text).digest("hex")
+}
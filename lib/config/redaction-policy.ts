@@ -0,0 +1,94 @@
+/**
+ * LLM Redaction Policy
+ * How each personal profile field is treated before a prompt leaves the server.
+ * Names (the user's and their dependents') are never sent, whatever the policy.
+ */
+
+// exact: years as entered; bucket: a ten-year band such as "30-39"
+export type AgeRule = "exact" | "bucket" | "omit"
+
+export type TextRule = "send" | "omit"
+
+// catalogue: only catalogue names are sent, anything unrecognised becomes a generic label
+export type CatalogueRule = "send" | "catalogue" | "omit"
+
+// category: conditions are reduced to their catalogue category, e.g. "Respiratory condition"
+export type ConditionRule = CatalogueRule | "category"
+
+export interface RedactionPolicy {
+  age: AgeRule
+  city: TextRule
+  area: TextRule
+  occupation: CatalogueRule
+  workShift: TextRule
+  healthConditions: ConditionRule
+  addictions: CatalogueRule
+  pastSurgeries: CatalogueRule
+}
+
+export type RedactedField = keyof RedactionPolicy | "dependents"
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  age: "bucket",
+  city: "send",
+  area: "omit",
+  occupation: "catalogue",
+  workShift: "send",
+  healthConditions: "category",
+  addictions: "catalogue",
+  pastSurgeries: "catalogue",
+}
+
+const ALLOWED_RULES: { [K in keyof RedactionPolicy]: RedactionPolicy[K][] } = {
+  age: ["exact", "bucket", "omit"],
+  city: ["send", "omit"],
+  area: ["send", "omit"],
+  occupation: ["send", "catalogue", "omit"],
+  workShift: ["send", "omit"],
+  healthConditions: ["send", "catalogue", "category", "omit"],
+  addictions: ["send", "catalogue", "omit"],
+  pastSurgeries: ["send", "catalogue", "omit"],
+}
+
+let policy: RedactionPolicy | null = null
+
+function isRedactionField(field: string): field is keyof RedactionPolicy {
+  return Object.prototype.hasOwnProperty.call(ALLOWED_RULES, field)
+}
+
+/**
+ * Apply a rule to one field if the field allows it; returns false otherwise
+ */
+function applyRule<K extends keyof RedactionPolicy>(target: RedactionPolicy, field: K, rule: string): boolean {
+  const allowed: RedactionPolicy[K][] = ALLOWED_RULES[field]
+  const match = allowed.find((candidate) => candidate === rule)
+  if (match === undefined) return false
+
+  target[field] = match
+  return true
+}
+
+/**
+ * The default policy with any overrides from LLM_REDACTION, e.g. "age=exact,area=send".
+ * Invalid overrides are ignored with a warning so a typo never sends more than the default.
+ */
+export function getRedactionPolicy(): RedactionPolicy {
+  if (policy) return policy
+
+  const resolved: RedactionPolicy = { ...DEFAULT_REDACTION_POLICY }
+
+  ;(process.env.LLM_REDACTION || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const [field = "", rule = ""] = entry.split("=").map((part) => part.trim())
+
+      if (!isRedactionField(field) || !applyRule(resolved, field, rule)) {
+        console.warn(`[Redaction] Ignoring invalid LLM_REDACTION entry "${entry}"`)
+      }
+    })
+
+  policy = resolved
+  return policy
+}
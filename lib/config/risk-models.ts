@@ -0,0 +1,591 @@
+/**
+ * Risk Scoring Models
+ * Declarative, versioned definitions of every weight, band and cap used to
+ * score a profile. Published versions must never be edited in place: add a
+ * new version instead so stored reports stay reproducible.
+ */
+
+import { FloodProneness, PollutantId } from "@/types/agents"
+
+export type RiskLevel = "low" | "medium" | "high" | "critical"
+
+// Awards `points` when the value is strictly greater than `above`.
+// Bands are evaluated in order and the first match wins.
+export interface AboveBand {
+  above: number
+  points: number
+}
+
+// Awards `points` when the value is strictly less than `below`.
+export interface BelowBand {
+  below: number
+  points: number
+}
+
+// Maps a value onto a risk factor level, first match wins
+export interface LevelBand {
+  above?: number
+  below?: number
+  level: RiskLevel
+}
+
+// Fixed points whenever the profile reports anything at all.
+// Without a factorLevel no risk factor is generated.
+export interface FlatScoring {
+  type: "flat"
+  points: number
+  factorLevel?: RiskLevel
+}
+
+// Points per catalogue entry (lib/data/medical-conditions.ts), keyed by entry id.
+// The most severe entry counts in full and every further entry at `additionalWeight`.
+export interface CatalogueScoring {
+  type: "catalogue"
+  weights: Record<string, number>
+  unrecognised: number
+  additionalWeight: number
+  cap: number
+  // Factor level for a single entry's points, "low" when no band matches
+  factorLevels: LevelBand[]
+  // Weight multipliers by entry qualifier (condition status, addiction frequency)
+  modifiers?: Record<string, number>
+}
+
+// Extra points when a condition's sensitivity meets the user's exposure
+export interface ConditionInteractions {
+  airQuality: AboveBand[]
+  heat: AboveBand[]
+  physicalLabour: {
+    hazardLevels: RiskLevel[]
+    points: number
+  }
+  shiftWork: {
+    shifts: string[]
+    points: number
+  }
+  cap: number
+}
+
+export interface ConditionCatalogueScoring extends CatalogueScoring {
+  interactions: ConditionInteractions
+}
+
+// Area-level exposure from lib/services/locality-data.ts
+export interface LocalityScoring {
+  floodRisk: {
+    points: Record<FloodProneness, number>
+    factorLevels: Partial<Record<FloodProneness, RiskLevel>>
+  }
+  // Kilometres to the nearest hospital
+  hospitalDistance: {
+    bands: AboveBand[]
+    factorLevels: LevelBand[]
+  }
+  wardHealth: {
+    vectorBorne: AboveBand[]
+    waterborne: AboveBand[]
+    cap: number
+    // Factor level for the combined points
+    factorLevels: LevelBand[]
+  }
+  // City-level fallbacks describe the area less precisely, so they count at this share
+  cityFallbackWeight: number
+}
+
+// Twelve-month exposure from lib/services/climate-history.ts, scored alongside the current reading
+export interface ClimateHistoryScoring {
+  airQuality: {
+    daysAbove150: AboveBand[]
+    daysAbove200: AboveBand[]
+    cap: number
+    // Factor level by days above 150
+    factorLevels: LevelBand[]
+  }
+  heat: {
+    heatwaveDays: AboveBand[]
+    humidDays: AboveBand[]
+    cap: number
+    // Factor level by heatwave days
+    factorLevels: LevelBand[]
+  }
+}
+
+// A pollutant an occupation breathes more of than the city reading suggests,
+// e.g. drivers in traffic exhaust. Bands apply to the pollutant's AQICN sub-index.
+export interface OccupationalPollutant {
+  pollutant: PollutantId
+  occupations: string[]
+  // How the work raises exposure, completing "As a driver you ..."
+  exposure: string
+  bands: AboveBand[]
+  factorLevels: LevelBand[]
+}
+
+// Per-pollutant readings from lib/utils/pollutants.ts
+export interface PollutantScoring {
+  occupational: OccupationalPollutant[]
+  // Condition catalogue ids and the pollutants that aggravate each. The worst listed
+  // pollutant adds an interaction on top of the overall AQI one.
+  conditions: Record<string, PollutantId[]>
+  conditionBands: AboveBand[]
+  // Cap on the occupational points together
+  occupationalCap: number
+}
+
+export interface RiskScoringModel {
+  version: string
+  description: string
+  maxScore: number
+  base: number
+  age: {
+    bands: AboveBand[]
+    factorLevels: LevelBand[]
+  }
+  ageAdjustedDeathRate: {
+    divisor: number
+    multiplier: number
+    cap: number
+  }
+  aqi: {
+    bands: AboveBand[]
+    otherwise: number
+    factorLevels: LevelBand[]
+  }
+  seasonalRisks: {
+    pointsPerRisk: number
+    cap: number
+    factorLevels: LevelBand[]
+  }
+  occupation: {
+    weight: number
+    factorHazardLevels: RiskLevel[]
+  }
+  healthCondition: FlatScoring | ConditionCatalogueScoring
+  addictions: FlatScoring | CatalogueScoring
+  pastSurgery: FlatScoring | CatalogueScoring
+  workShift: {
+    points: Record<string, number>
+    factorLevel: RiskLevel
+  }
+  crime: {
+    bands: AboveBand[]
+    otherwise: number
+    cap: number
+    factorLevels: LevelBand[]
+  }
+  violentCrime: {
+    threshold: number
+    divisor: number
+    cap: number
+  }
+  safetyIndex: {
+    bands: BelowBand[]
+    factorLevels: LevelBand[]
+  }
+  // Absent before 2.2.0, so older models ignore locality data
+  locality?: LocalityScoring
+  // Absent before 2.3.0. When present, condition interactions use the worse of the
+  // current AQI and the 12-month mean.
+  climateHistory?: ClimateHistoryScoring
+  // Absent before 2.4.0, so older models only see the overall AQI
+  pollutants?: PollutantScoring
+  // Reported as a risk factor only; it does not contribute to the score
+  cityHealthIndex: {
+    impact: number
+    factorLevels: LevelBand[]
+  }
+  riskLevels: {
+    critical: number
+    high: number
+    medium: number
+  }
+}
+
+const RISK_MODEL_V1: RiskScoringModel = {
+  version: "1.0.0",
+  description: "Original CareFund scoring weights",
+  maxScore: 100,
+  base: 10,
+  age: {
+    bands: [
+      { above: 60, points: 20 },
+      { above: 50, points: 15 },
+      { above: 40, points: 10 },
+      { above: 30, points: 5 },
+    ],
+    factorLevels: [
+      { above: 60, level: "high" },
+      { above: 50, level: "medium" },
+    ],
+  },
+  ageAdjustedDeathRate: {
+    divisor: 20,
+    multiplier: 5,
+    cap: 5,
+  },
+  aqi: {
+    bands: [
+      { above: 200, points: 25 },
+      { above: 150, points: 20 },
+      { above: 100, points: 15 },
+      { above: 50, points: 10 },
+    ],
+    otherwise: 5,
+    factorLevels: [
+      { above: 200, level: "critical" },
+      { above: 150, level: "high" },
+      { above: 100, level: "medium" },
+    ],
+  },
+  seasonalRisks: {
+    pointsPerRisk: 2,
+    cap: 5,
+    factorLevels: [
+      { above: 2, level: "high" },
+      { above: 0, level: "medium" },
+    ],
+  },
+  occupation: {
+    weight: 0.2,
+    factorHazardLevels: ["critical", "high"],
+  },
+  healthCondition: {
+    type: "flat",
+    points: 15,
+    factorLevel: "high",
+  },
+  addictions: {
+    type: "flat",
+    points: 10,
+    factorLevel: "medium",
+  },
+  pastSurgery: {
+    type: "flat",
+    points: 5,
+  },
+  workShift: {
+    points: {
+      Night: 5,
+      Rotating: 3,
+    },
+    factorLevel: "medium",
+  },
+  crime: {
+    bands: [
+      { above: 1000, points: 20 },
+      { above: 500, points: 15 },
+      { above: 300, points: 10 },
+    ],
+    otherwise: 5,
+    cap: 10,
+    factorLevels: [
+      { above: 1000, level: "high" },
+      { above: 500, level: "medium" },
+    ],
+  },
+  violentCrime: {
+    threshold: 30,
+    divisor: 10,
+    cap: 5,
+  },
+  safetyIndex: {
+    bands: [
+      { below: 60, points: 5 },
+      { below: 70, points: 3 },
+    ],
+    factorLevels: [
+      { below: 50, level: "high" },
+      { below: 60, level: "medium" },
+    ],
+  },
+  cityHealthIndex: {
+    impact: 10,
+    factorLevels: [
+      { below: 40, level: "high" },
+      { below: 60, level: "medium" },
+    ],
+  },
+  riskLevels: {
+    critical: 80,
+    high: 60,
+    medium: 40,
+  },
+}
+
+const RISK_MODEL_V2: RiskScoringModel = {
+  ...RISK_MODEL_V1,
+  version: "2.0.0",
+  description: "Condition-specific scoring for health conditions, addictions and past surgery",
+  healthCondition: {
+    type: "catalogue",
+    weights: {
+      asthma: 10,
+      copd: 14,
+      diabetes: 12,
+      hypertension: 10,
+      heartDisease: 18,
+      thyroid: 5,
+      arthritis: 6,
+      kidneyDisease: 15,
+      cancer: 20,
+      stroke: 18,
+      obesity: 8,
+      liverDisease: 12,
+      tuberculosis: 12,
+      epilepsy: 8,
+      mentalHealth: 6,
+      pcos: 4,
+      migraine: 3,
+      allergies: 3,
+    },
+    unrecognised: 8,
+    additionalWeight: 0.5,
+    cap: 30,
+    factorLevels: [
+      { above: 17, level: "critical" },
+      { above: 9, level: "high" },
+      { above: 4, level: "medium" },
+    ],
+    interactions: {
+      airQuality: [
+        { above: 150, points: 8 },
+        { above: 100, points: 5 },
+        { above: 50, points: 2 },
+      ],
+      heat: [
+        { above: 38, points: 6 },
+        { above: 33, points: 3 },
+      ],
+      physicalLabour: {
+        hazardLevels: ["high", "critical"],
+        points: 5,
+      },
+      shiftWork: {
+        shifts: ["Night", "Rotating"],
+        points: 3,
+      },
+      cap: 15,
+    },
+  },
+  addictions: {
+    type: "catalogue",
+    weights: {
+      smoking: 12,
+      chewingTobacco: 10,
+      alcohol: 8,
+      substances: 12,
+      caffeine: 1,
+    },
+    unrecognised: 6,
+    additionalWeight: 0.5,
+    cap: 20,
+    factorLevels: [
+      { above: 9, level: "high" },
+      { above: 4, level: "medium" },
+    ],
+  },
+  pastSurgery: {
+    type: "catalogue",
+    weights: {
+      cardiac: 8,
+      transplant: 10,
+      oncology: 8,
+      neuro: 6,
+      orthopedic: 3,
+      minor: 1,
+    },
+    unrecognised: 4,
+    additionalWeight: 0.5,
+    cap: 12,
+    factorLevels: [
+      { above: 7, level: "high" },
+      { above: 3, level: "medium" },
+    ],
+  },
+}
+
+const RISK_MODEL_V2_1: RiskScoringModel = {
+  ...RISK_MODEL_V2,
+  version: "2.1.0",
+  description: "Condition status and addiction frequency adjust catalogue weights",
+  healthCondition: {
+    ...(RISK_MODEL_V2.healthCondition as ConditionCatalogueScoring),
+    modifiers: {
+      controlled: 0.75,
+      uncontrolled: 1.3,
+      unknown: 1,
+    },
+  },
+  addictions: {
+    ...(RISK_MODEL_V2.addictions as CatalogueScoring),
+    modifiers: {
+      occasional: 0.4,
+      weekly: 0.7,
+      daily: 1,
+      heavy: 1.4,
+    },
+  },
+}
+
+const RISK_MODEL_V2_2: RiskScoringModel = {
+  ...RISK_MODEL_V2_1,
+  version: "2.2.0",
+  description: "Locality flood proneness, hospital access and ward health indicators",
+  locality: {
+    floodRisk: {
+      points: {
+        high: 4,
+        moderate: 2,
+        low: 0,
+      },
+      factorLevels: {
+        high: "high",
+        moderate: "medium",
+      },
+    },
+    hospitalDistance: {
+      bands: [
+        { above: 10, points: 4 },
+        { above: 5, points: 2 },
+      ],
+      factorLevels: [
+        { above: 10, level: "high" },
+        { above: 5, level: "medium" },
+      ],
+    },
+    wardHealth: {
+      vectorBorne: [
+        { above: 60, points: 3 },
+        { above: 40, points: 2 },
+      ],
+      waterborne: [
+        { above: 100, points: 3 },
+        { above: 70, points: 2 },
+      ],
+      cap: 5,
+      factorLevels: [
+        { above: 4, level: "high" },
+        { above: 2, level: "medium" },
+      ],
+    },
+    cityFallbackWeight: 0.5,
+  },
+}
+
+const RISK_MODEL_V2_3: RiskScoringModel = {
+  ...RISK_MODEL_V2_2,
+  version: "2.3.0",
+  description: "Twelve-month AQI, heatwave and humidity history alongside the current reading",
+  climateHistory: {
+    airQuality: {
+      daysAbove150: [
+        { above: 120, points: 6 },
+        { above: 60, points: 4 },
+        { above: 20, points: 2 },
+      ],
+      daysAbove200: [
+        { above: 30, points: 3 },
+        { above: 10, points: 2 },
+      ],
+      cap: 8,
+      factorLevels: [
+        { above: 120, level: "critical" },
+        { above: 60, level: "high" },
+        { above: 20, level: "medium" },
+      ],
+    },
+    heat: {
+      heatwaveDays: [
+        { above: 30, points: 4 },
+        { above: 10, points: 2 },
+        { above: 0, points: 1 },
+      ],
+      humidDays: [
+        { above: 120, points: 2 },
+        { above: 60, points: 1 },
+      ],
+      cap: 5,
+      factorLevels: [
+        { above: 30, level: "high" },
+        { above: 10, level: "medium" },
+      ],
+    },
+  },
+}
+
+const RISK_MODEL_V2_4: RiskScoringModel = {
+  ...RISK_MODEL_V2_3,
+  version: "2.4.0",
+  description: "Pollutant breakdown: occupational NO2 and ozone exposure, pollutant-specific condition interactions",
+  pollutants: {
+    occupational: [
+      {
+        pollutant: "no2",
+        occupations: ["Driver"],
+        exposure: "spend the shift in traffic exhaust, where NO₂ runs well above the station reading",
+        bands: [
+          { above: 100, points: 5 },
+          { above: 50, points: 3 },
+          { above: 20, points: 1 },
+        ],
+        factorLevels: [
+          { above: 100, level: "high" },
+          { above: 50, level: "medium" },
+        ],
+      },
+      {
+        pollutant: "o3",
+        occupations: ["Driver", "Construction Worker", "Farmer"],
+        exposure: "work outdoors through the afternoon, when ground-level ozone peaks",
+        bands: [
+          { above: 100, points: 4 },
+          { above: 50, points: 2 },
+        ],
+        factorLevels: [
+          { above: 100, level: "high" },
+          { above: 50, level: "medium" },
+        ],
+      },
+    ],
+    conditions: {
+      asthma: ["pm25", "o3", "no2", "so2"],
+      copd: ["pm25", "pm10", "no2", "so2"],
+      heartDisease: ["pm25", "co"],
+      allergies: ["pm10", "o3"],
+      tuberculosis: ["pm25", "pm10"],
+    },
+    conditionBands: [
+      { above: 150, points: 5 },
+      { above: 100, points: 3 },
+      { above: 50, points: 1 },
+    ],
+    occupationalCap: 8,
+  },
+}
+
+export const RISK_MODELS: Record<string, RiskScoringModel> = {
+  [RISK_MODEL_V1.version]: RISK_MODEL_V1,
+  [RISK_MODEL_V2.version]: RISK_MODEL_V2,
+  [RISK_MODEL_V2_1.version]: RISK_MODEL_V2_1,
+  [RISK_MODEL_V2_2.version]: RISK_MODEL_V2_2,
+  [RISK_MODEL_V2_3.version]: RISK_MODEL_V2_3,
+  [RISK_MODEL_V2_4.version]: RISK_MODEL_V2_4,
+}
+
+export const DEFAULT_RISK_MODEL_VERSION = RISK_MODEL_V2_4.version
+
+/**
+ * Get a risk scoring model by version.
+ * Falls back to RISK_MODEL_VERSION from the environment, then to the default.
+ */
+export function getRiskModel(version?: string): RiskScoringModel {
+  const requested = version || process.env.RISK_MODEL_VERSION || DEFAULT_RISK_MODEL_VERSION
+  const model = RISK_MODELS[requested]
+
+  if (!model) {
+    console.warn(`[RiskModel] Unknown model version ${requested}, using ${DEFAULT_RISK_MODEL_VERSION}`)
+    return RISK_MODELS[DEFAULT_RISK_MODEL_VERSION]
+  }
+
+  return model
+}
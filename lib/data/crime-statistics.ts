@@ -1,6 +1,8 @@
 // Crime statistics for major Indian cities
 // Data based on National Crime Records Bureau (NCRB) reports
 
+import { canonicalCityName } from "./indian-cities"
+
 export interface CityStatistics {
   city: string
   crimeRate: number // per 100,000 population
@@ -165,7 +167,7 @@ export const CITY_STATISTICS: Record<string, CityStatistics> = {
 }
 
 export function getCityStatistics(city: string): CityStatistics {
-  return CITY_STATISTICS[city] || {
+  return CITY_STATISTICS[canonicalCityName(city)] || {
     city: city,
     crimeRate: 300,
     safetyIndex: 70,
@@ -0,0 +1,25 @@
+// Working hours and outdoor occupations used to estimate daily outdoor exposure
+
+export interface ShiftWindow {
+  // Hour the shift starts and its length; a window may run past midnight
+  startHour: number
+  hours: number
+}
+
+export const SHIFT_WINDOWS: Record<string, ShiftWindow[]> = {
+  Day: [{ startHour: 9, hours: 9 }],
+  Night: [{ startHour: 21, hours: 9 }],
+  // Which week is which is unknown, so a rotating shift is exposed to both
+  Rotating: [
+    { startHour: 9, hours: 9 },
+    { startHour: 21, hours: 9 },
+  ],
+}
+
+export const DEFAULT_SHIFT = "Day"
+
+// Time spent outside getting to and from work, either side of the shift
+export const COMMUTE_HOURS = 1
+
+// Occupations that spend the whole shift outdoors
+export const OUTDOOR_OCCUPATIONS = ["Driver", "Construction Worker", "Farmer"]
@@ -0,0 +1,109 @@
+// Offline seed for the city registry (lib/services/city-registry.ts).
+// Covers the larger Indian cities so lookups work without network access;
+// anything else is resolved through the geocoding adapter.
+
+export interface CitySeed {
+  // Canonical name, used as the key for other city-level data
+  name: string
+  aliases: string[]
+  state: string
+  district: string
+  lat: number
+  lon: number
+  // Leading pincode digits delivered in the city; the longest matching prefix wins
+  pincodePrefixes: string[]
+}
+
+export const CITY_SEED: CitySeed[] = [
+  { name: "Mumbai", aliases: ["Bombay"], state: "Maharashtra", district: "Mumbai", lat: 19.076, lon: 72.8777, pincodePrefixes: ["400"] },
+  { name: "Delhi", aliases: ["New Delhi"], state: "Delhi", district: "New Delhi", lat: 28.7041, lon: 77.1025, pincodePrefixes: ["110"] },
+  { name: "Bangalore", aliases: ["Bengaluru"], state: "Karnataka", district: "Bengaluru Urban", lat: 12.9716, lon: 77.5946, pincodePrefixes: ["560"] },
+  { name: "Hyderabad", aliases: ["Secunderabad"], state: "Telangana", district: "Hyderabad", lat: 17.385, lon: 78.4867, pincodePrefixes: ["500"] },
+  { name: "Chennai", aliases: ["Madras"], state: "Tamil Nadu", district: "Chennai", lat: 13.0827, lon: 80.2707, pincodePrefixes: ["600"] },
+  { name: "Kolkata", aliases: ["Calcutta"], state: "West Bengal", district: "Kolkata", lat: 22.5726, lon: 88.3639, pincodePrefixes: ["700"] },
+  { name: "Pune", aliases: ["Poona"], state: "Maharashtra", district: "Pune", lat: 18.5204, lon: 73.8567, pincodePrefixes: ["411", "412"] },
+  { name: "Ahmedabad", aliases: ["Amdavad"], state: "Gujarat", district: "Ahmedabad", lat: 23.0225, lon: 72.5714, pincodePrefixes: ["380", "382"] },
+  { name: "Jaipur", aliases: [], state: "Rajasthan", district: "Jaipur", lat: 26.9124, lon: 75.7873, pincodePrefixes: ["302", "303"] },
+  { name: "Lucknow", aliases: [], state: "Uttar Pradesh", district: "Lucknow", lat: 26.8467, lon: 80.9462, pincodePrefixes: ["226", "227"] },
+  { name: "Thane", aliases: [], state: "Maharashtra", district: "Thane", lat: 19.2183, lon: 72.9781, pincodePrefixes: ["4006"] },
+  { name: "Navi Mumbai", aliases: ["New Bombay"], state: "Maharashtra", district: "Thane", lat: 19.033, lon: 73.0297, pincodePrefixes: ["4007"] },
+  { name: "Surat", aliases: [], state: "Gujarat", district: "Surat", lat: 21.1702, lon: 72.8311, pincodePrefixes: ["394", "395"] },
+  { name: "Vadodara", aliases: ["Baroda"], state: "Gujarat", district: "Vadodara", lat: 22.3072, lon: 73.1812, pincodePrefixes: ["390", "391"] },
+  { name: "Rajkot", aliases: [], state: "Gujarat", district: "Rajkot", lat: 22.3039, lon: 70.8022, pincodePrefixes: ["360"] },
+  { name: "Gandhinagar", aliases: [], state: "Gujarat", district: "Gandhinagar", lat: 23.2156, lon: 72.6369, pincodePrefixes: ["3820"] },
+  { name: "Kanpur", aliases: [], state: "Uttar Pradesh", district: "Kanpur Nagar", lat: 26.4499, lon: 80.3319, pincodePrefixes: ["208", "209"] },
+  { name: "Agra", aliases: [], state: "Uttar Pradesh", district: "Agra", lat: 27.1767, lon: 78.0081, pincodePrefixes: ["282", "283"] },
+  { name: "Varanasi", aliases: ["Banaras", "Benares", "Kashi"], state: "Uttar Pradesh", district: "Varanasi", lat: 25.3176, lon: 82.9739, pincodePrefixes: ["221"] },
+  { name: "Prayagraj", aliases: ["Allahabad"], state: "Uttar Pradesh", district: "Prayagraj", lat: 25.4358, lon: 81.8463, pincodePrefixes: ["211", "212"] },
+  { name: "Meerut", aliases: [], state: "Uttar Pradesh", district: "Meerut", lat: 28.9845, lon: 77.7064, pincodePrefixes: ["250"] },
+  { name: "Bareilly", aliases: [], state: "Uttar Pradesh", district: "Bareilly", lat: 28.367, lon: 79.4304, pincodePrefixes: ["243"] },
+  { name: "Ghaziabad", aliases: [], state: "Uttar Pradesh", district: "Ghaziabad", lat: 28.6692, lon: 77.4538, pincodePrefixes: ["2010", "2012"] },
+  { name: "Noida", aliases: ["Greater Noida"], state: "Uttar Pradesh", district: "Gautam Buddh Nagar", lat: 28.5355, lon: 77.391, pincodePrefixes: ["2013"] },
+  { name: "Gurgaon", aliases: ["Gurugram"], state: "Haryana", district: "Gurugram", lat: 28.4595, lon: 77.0266, pincodePrefixes: ["122"] },
+  { name: "Faridabad", aliases: [], state: "Haryana", district: "Faridabad", lat: 28.4089, lon: 77.3178, pincodePrefixes: ["121"] },
+  { name: "Chandigarh", aliases: [], state: "Chandigarh", district: "Chandigarh", lat: 30.7333, lon: 76.7794, pincodePrefixes: ["160"] },
+  { name: "Ludhiana", aliases: [], state: "Punjab", district: "Ludhiana", lat: 30.901, lon: 75.8573, pincodePrefixes: ["141"] },
+  { name: "Amritsar", aliases: [], state: "Punjab", district: "Amritsar", lat: 31.634, lon: 74.8723, pincodePrefixes: ["143"] },
+  { name: "Dehradun", aliases: [], state: "Uttarakhand", district: "Dehradun", lat: 30.3165, lon: 78.0322, pincodePrefixes: ["248"] },
+  { name: "Shimla", aliases: [], state: "Himachal Pradesh", district: "Shimla", lat: 31.1048, lon: 77.1734, pincodePrefixes: ["171"] },
+  { name: "Srinagar", aliases: [], state: "Jammu and Kashmir", district: "Srinagar", lat: 34.0837, lon: 74.7973, pincodePrefixes: ["190"] },
+  { name: "Jammu", aliases: [], state: "Jammu and Kashmir", district: "Jammu", lat: 32.7266, lon: 74.857, pincodePrefixes: ["180", "181"] },
+  { name: "Jodhpur", aliases: [], state: "Rajasthan", district: "Jodhpur", lat: 26.2389, lon: 73.0243, pincodePrefixes: ["342"] },
+  { name: "Kota", aliases: [], state: "Rajasthan", district: "Kota", lat: 25.2138, lon: 75.8648, pincodePrefixes: ["324"] },
+  { name: "Udaipur", aliases: [], state: "Rajasthan", district: "Udaipur", lat: 24.5854, lon: 73.7125, pincodePrefixes: ["313"] },
+  { name: "Indore", aliases: [], state: "Madhya Pradesh", district: "Indore", lat: 22.7196, lon: 75.8577, pincodePrefixes: ["452", "453"] },
+  { name: "Bhopal", aliases: [], state: "Madhya Pradesh", district: "Bhopal", lat: 23.2599, lon: 77.4126, pincodePrefixes: ["462"] },
+  { name: "Jabalpur", aliases: [], state: "Madhya Pradesh", district: "Jabalpur", lat: 23.1815, lon: 79.9864, pincodePrefixes: ["482"] },
+  { name: "Gwalior", aliases: [], state: "Madhya Pradesh", district: "Gwalior", lat: 26.2183, lon: 78.1828, pincodePrefixes: ["474"] },
+  { name: "Raipur", aliases: [], state: "Chhattisgarh", district: "Raipur", lat: 21.2514, lon: 81.6296, pincodePrefixes: ["492"] },
+  { name: "Nagpur", aliases: [], state: "Maharashtra", district: "Nagpur", lat: 21.1458, lon: 79.0882, pincodePrefixes: ["440", "441"] },
+  { name: "Nashik", aliases: ["Nasik"], state: "Maharashtra", district: "Nashik", lat: 19.9975, lon: 73.7898, pincodePrefixes: ["422"] },
+  { name: "Aurangabad", aliases: ["Chhatrapati Sambhajinagar"], state: "Maharashtra", district: "Chhatrapati Sambhajinagar", lat: 19.8762, lon: 75.3433, pincodePrefixes: ["431"] },
+  { name: "Solapur", aliases: ["Sholapur"], state: "Maharashtra", district: "Solapur", lat: 17.6599, lon: 75.9064, pincodePrefixes: ["413"] },
+  { name: "Panaji", aliases: ["Panjim", "Goa"], state: "Goa", district: "North Goa", lat: 15.4909, lon: 73.8278, pincodePrefixes: ["403"] },
+  { name: "Mysore", aliases: ["Mysuru"], state: "Karnataka", district: "Mysuru", lat: 12.2958, lon: 76.6394, pincodePrefixes: ["570"] },
+  { name: "Hubli", aliases: ["Hubballi", "Dharwad", "Hubli-Dharwad"], state: "Karnataka", district: "Dharwad", lat: 15.3647, lon: 75.124, pincodePrefixes: ["580"] },
+  { name: "Mangalore", aliases: ["Mangaluru"], state: "Karnataka", district: "Dakshina Kannada", lat: 12.9141, lon: 74.856, pincodePrefixes: ["575"] },
+  { name: "Coimbatore", aliases: ["Kovai"], state: "Tamil Nadu", district: "Coimbatore", lat: 11.0168, lon: 76.9558, pincodePrefixes: ["641"] },
+  { name: "Madurai", aliases: [], state: "Tamil Nadu", district: "Madurai", lat: 9.9252, lon: 78.1198, pincodePrefixes: ["625"] },
+  { name: "Tiruchirappalli", aliases: ["Trichy", "Tiruchi"], state: "Tamil Nadu", district: "Tiruchirappalli", lat: 10.7905, lon: 78.7047, pincodePrefixes: ["620"] },
+  { name: "Puducherry", aliases: ["Pondicherry"], state: "Puducherry", district: "Puducherry", lat: 11.9416, lon: 79.8083, pincodePrefixes: ["605"] },
+  { name: "Thiruvananthapuram", aliases: ["Trivandrum"], state: "Kerala", district: "Thiruvananthapuram", lat: 8.5241, lon: 76.9366, pincodePrefixes: ["695"] },
+  { name: "Kochi", aliases: ["Cochin", "Ernakulam"], state: "Kerala", district: "Ernakulam", lat: 9.9312, lon: 76.2673, pincodePrefixes: ["682"] },
+  { name: "Kozhikode", aliases: ["Calicut"], state: "Kerala", district: "Kozhikode", lat: 11.2588, lon: 75.7804, pincodePrefixes: ["673"] },
+  { name: "Visakhapatnam", aliases: ["Vizag"], state: "Andhra Pradesh", district: "Visakhapatnam", lat: 17.6868, lon: 83.2185, pincodePrefixes: ["530", "531"] },
+  { name: "Vijayawada", aliases: ["Bezawada"], state: "Andhra Pradesh", district: "NTR", lat: 16.5062, lon: 80.648, pincodePrefixes: ["520", "521"] },
+  { name: "Warangal", aliases: [], state: "Telangana", district: "Hanamkonda", lat: 17.9689, lon: 79.5941, pincodePrefixes: ["506"] },
+  { name: "Patna", aliases: [], state: "Bihar", district: "Patna", lat: 25.5941, lon: 85.1376, pincodePrefixes: ["800", "801"] },
+  { name: "Ranchi", aliases: [], state: "Jharkhand", district: "Ranchi", lat: 23.3441, lon: 85.3096, pincodePrefixes: ["834", "835"] },
+  { name: "Jamshedpur", aliases: ["Tatanagar"], state: "Jharkhand", district: "East Singhbhum", lat: 22.8046, lon: 86.2029, pincodePrefixes: ["831"] },
+  { name: "Dhanbad", aliases: [], state: "Jharkhand", district: "Dhanbad", lat: 23.7957, lon: 86.4304, pincodePrefixes: ["826", "828"] },
+  { name: "Howrah", aliases: [], state: "West Bengal", district: "Howrah", lat: 22.5958, lon: 88.2636, pincodePrefixes: ["711"] },
+  { name: "Bhubaneswar", aliases: [], state: "Odisha", district: "Khordha", lat: 20.2961, lon: 85.8245, pincodePrefixes: ["751"] },
+  { name: "Cuttack", aliases: [], state: "Odisha", district: "Cuttack", lat: 20.4625, lon: 85.8828, pincodePrefixes: ["753"] },
+  { name: "Guwahati", aliases: ["Gauhati"], state: "Assam", district: "Kamrup Metropolitan", lat: 26.1445, lon: 91.7362, pincodePrefixes: ["781"] },
+  { name: "Shillong", aliases: [], state: "Meghalaya", district: "East Khasi Hills", lat: 25.5788, lon: 91.8933, pincodePrefixes: ["793"] },
+  { name: "Imphal", aliases: [], state: "Manipur", district: "Imphal West", lat: 24.817, lon: 93.9368, pincodePrefixes: ["795"] },
+  { name: "Agartala", aliases: [], state: "Tripura", district: "West Tripura", lat: 23.8315, lon: 91.2868, pincodePrefixes: ["799"] },
+  { name: "Aizawl", aliases: [], state: "Mizoram", district: "Aizawl", lat: 23.7271, lon: 92.7176, pincodePrefixes: ["796"] },
+  { name: "Kohima", aliases: [], state: "Nagaland", district: "Kohima", lat: 25.6751, lon: 94.1086, pincodePrefixes: ["797"] },
+  { name: "Itanagar", aliases: [], state: "Arunachal Pradesh", district: "Papum Pare", lat: 27.0844, lon: 93.6053, pincodePrefixes: ["791"] },
+  { name: "Gangtok", aliases: [], state: "Sikkim", district: "Gangtok", lat: 27.3389, lon: 88.6065, pincodePrefixes: ["737"] },
+]
+
+const normaliseName = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ")
+
+/**
+ * Seed entry for a city name or alias, e.g. "Bengaluru" finds Bangalore
+ */
+export function findSeedCity(name: string): CitySeed | undefined {
+  const query = normaliseName(name)
+  return CITY_SEED.find((seed) => [seed.name, ...seed.aliases].some((candidate) => normaliseName(candidate) === query))
+}
+
+/**
+ * The registry's name for a city, so city-level tables keyed by name match aliases too
+ */
+export function canonicalCityName(city: string): string {
+  return findSeedCity(city)?.name || city.trim()
+}
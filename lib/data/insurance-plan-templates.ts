@@ -0,0 +1,185 @@
+// Insurance plan templates based on risk levels.
+// These seed the insurance_plans collection; the live catalogue is read through
+// lib/services/insurance-plan-store.ts
+
+export interface InsurancePlanTemplate {
+  name: string
+  type: string
+  minCoverage: number
+  maxCoverage: number
+  basePremium: number
+  features: string[]
+  advantages: string[]
+  disadvantages: string[]
+  suitableFor: string[]
+  riskRange: {
+    min: number
+    max: number
+  }
+  // Family floater variant: one sum insured shared by the household
+  floater: {
+    maxMembers: number
+    maxCoverage: number
+    // Premium increase for each member beyond the first
+    memberLoading: number
+    // Coverage increase for each member beyond the first
+    coveragePerMember: number
+  }
+}
+
+export const INSURANCE_PLANS: InsurancePlanTemplate[] = [
+  {
+    name: "Essential Health Cover",
+    type: "Basic",
+    minCoverage: 300000,
+    maxCoverage: 500000,
+    basePremium: 3500,
+    features: [
+      "Hospitalization coverage",
+      "Pre and post hospitalization (30/60 days)",
+      "Daycare procedures",
+      "Ambulance charges",
+      "Room rent (shared/semi-private)",
+      "Annual health check-up"
+    ],
+    advantages: [
+      "Most affordable premium - ideal for budget-conscious individuals",
+      "Covers essential medical emergencies and hospitalization",
+      "Quick claim settlement process",
+      "No medical tests required for young, healthy individuals",
+      "Tax benefits under Section 80D",
+      "Suitable for those with low health risks"
+    ],
+    disadvantages: [
+      "Limited coverage amount may not be sufficient for major illnesses",
+      "Room rent restrictions (shared/semi-private only)",
+      "Pre-existing diseases not covered initially",
+      "No coverage for advanced treatments",
+      "Limited network of hospitals",
+      "No international coverage"
+    ],
+    suitableFor: [
+      "Young professionals",
+      "Low-risk occupations",
+      "Good health conditions",
+      "Students"
+    ],
+    riskRange: {
+      min: 0,
+      max: 40
+    },
+    floater: {
+      maxMembers: 6,
+      maxCoverage: 1000000,
+      memberLoading: 0.3,
+      coveragePerMember: 0.5
+    }
+  },
+  {
+    name: "Comprehensive Care Plus",
+    type: "Standard",
+    minCoverage: 500000,
+    maxCoverage: 1000000,
+    basePremium: 5500,
+    features: [
+      "All Essential Cover features",
+      "Private room coverage",
+      "Pre-existing disease cover (after 2 years)",
+      "Maternity coverage (optional)",
+      "Critical illness rider",
+      "No claim bonus (up to 50%)",
+      "Worldwide emergency coverage",
+      "Organ donor expenses"
+    ],
+    advantages: [
+      "Balanced coverage with reasonable premium",
+      "Private room facility for better comfort",
+      "Pre-existing disease coverage after waiting period",
+      "Critical illness protection included",
+      "No claim bonus rewards healthy lifestyle",
+      "Worldwide emergency coverage for travelers",
+      "Suitable for families with optional maternity coverage",
+      "Wide network of cashless hospitals"
+    ],
+    disadvantages: [
+      "Higher premium compared to basic plans",
+      "2-year waiting period for pre-existing diseases",
+      "Room rent may have sub-limits",
+      "Some advanced treatments may require co-payment",
+      "Maternity coverage comes with additional cost",
+      "May not cover all alternative treatments"
+    ],
+    suitableFor: [
+      "Mid-career professionals",
+      "Medium-risk occupations",
+      "Families",
+      "Those with minor health conditions"
+    ],
+    riskRange: {
+      min: 41,
+      max: 70
+    },
+    floater: {
+      maxMembers: 6,
+      maxCoverage: 2500000,
+      memberLoading: 0.35,
+      coveragePerMember: 0.5
+    }
+  },
+  {
+    name: "Premium Health Shield",
+    type: "Premium",
+    minCoverage: 1000000,
+    maxCoverage: 2000000,
+    basePremium: 8500,
+    features: [
+      "All Comprehensive Care features",
+      "Deluxe room coverage",
+      "Pre-existing disease cover (immediate)",
+      "Mental health coverage",
+      "Alternative treatments (Ayurveda, Homeopathy)",
+      "International treatment coverage",
+      "Home healthcare",
+      "Health coaching and wellness programs",
+      "Second medical opinion",
+      "No room rent capping",
+      "Restoration of sum insured"
+    ],
+    advantages: [
+      "Highest coverage amount for major medical expenses",
+      "Immediate pre-existing disease coverage - no waiting period",
+      "Deluxe room with no rent capping",
+      "Comprehensive mental health coverage",
+      "Alternative treatment options (Ayurveda, Homeopathy)",
+      "International treatment coverage",
+      "Home healthcare and wellness programs",
+      "Sum insured restoration benefit",
+      "Priority claim settlement",
+      "Dedicated relationship manager"
+    ],
+    disadvantages: [
+      "Significantly higher premium cost",
+      "May require detailed medical examination",
+      "Not affordable for lower income groups",
+      "Some benefits may have usage limits",
+      "Complex policy terms and conditions",
+      "Higher documentation requirements for claims"
+    ],
+    suitableFor: [
+      "High-risk occupations",
+      "Senior professionals",
+      "Those with existing health conditions",
+      "High-stress jobs"
+    ],
+    riskRange: {
+      min: 71,
+      max: 100
+    },
+    floater: {
+      maxMembers: 8,
+      maxCoverage: 5000000,
+      memberLoading: 0.4,
+      coveragePerMember: 0.6
+    }
+  }
+]
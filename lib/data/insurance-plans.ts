@@ -1,165 +1,21 @@
-// Insurance plan templates based on risk levels
+import { FamilyCoverage, HouseholdRisk } from "@/types/agents"
+import { InsurancePlanTemplate } from "@/lib/data/insurance-plan-templates"
+import { getActivePlanTemplates } from "@/lib/services/insurance-plan-store"
 
-export interface InsurancePlanTemplate {
-  name: string
-  type: string
-  minCoverage: number
-  maxCoverage: number
-  basePremium: number
-  features: string[]
-  advantages: string[]
-  disadvantages: string[]
-  suitableFor: string[]
-  riskRange: {
-    min: number
-    max: number
-  }
-}
+export type { InsurancePlanTemplate } from "@/lib/data/insurance-plan-templates"
 
-export const INSURANCE_PLANS: InsurancePlanTemplate[] = [
-  {
-    name: "Essential Health Cover",
-    type: "Basic",
-    minCoverage: 300000,
-    maxCoverage: 500000,
-    basePremium: 3500,
-    features: [
-      "Hospitalization coverage",
-      "Pre and post hospitalization (30/60 days)",
-      "Daycare procedures",
-      "Ambulance charges",
-      "Room rent (shared/semi-private)",
-      "Annual health check-up"
-    ],
-    advantages: [
-      "Most affordable premium - ideal for budget-conscious individuals",
-      "Covers essential medical emergencies and hospitalization",
-      "Quick claim settlement process",
-      "No medical tests required for young, healthy individuals",
-      "Tax benefits under Section 80D",
-      "Suitable for those with low health risks"
-    ],
-    disadvantages: [
-      "Limited coverage amount may not be sufficient for major illnesses",
-      "Room rent restrictions (shared/semi-private only)",
-      "Pre-existing diseases not covered initially",
-      "No coverage for advanced treatments",
-      "Limited network of hospitals",
-      "No international coverage"
-    ],
-    suitableFor: [
-      "Young professionals",
-      "Low-risk occupations",
-      "Good health conditions",
-      "Students"
-    ],
-    riskRange: {
-      min: 0,
-      max: 40
-    }
-  },
-  {
-    name: "Comprehensive Care Plus",
-    type: "Standard",
-    minCoverage: 500000,
-    maxCoverage: 1000000,
-    basePremium: 5500,
-    features: [
-      "All Essential Cover features",
-      "Private room coverage",
-      "Pre-existing disease cover (after 2 years)",
-      "Maternity coverage (optional)",
-      "Critical illness rider",
-      "No claim bonus (up to 50%)",
-      "Worldwide emergency coverage",
-      "Organ donor expenses"
-    ],
-    advantages: [
-      "Balanced coverage with reasonable premium",
-      "Private room facility for better comfort",
-      "Pre-existing disease coverage after waiting period",
-      "Critical illness protection included",
-      "No claim bonus rewards healthy lifestyle",
-      "Worldwide emergency coverage for travelers",
-      "Suitable for families with optional maternity coverage",
-      "Wide network of cashless hospitals"
-    ],
-    disadvantages: [
-      "Higher premium compared to basic plans",
-      "2-year waiting period for pre-existing diseases",
-      "Room rent may have sub-limits",
-      "Some advanced treatments may require co-payment",
-      "Maternity coverage comes with additional cost",
-      "May not cover all alternative treatments"
-    ],
-    suitableFor: [
-      "Mid-career professionals",
-      "Medium-risk occupations",
-      "Families",
-      "Those with minor health conditions"
-    ],
-    riskRange: {
-      min: 41,
-      max: 70
-    }
-  },
-  {
-    name: "Premium Health Shield",
-    type: "Premium",
-    minCoverage: 1000000,
-    maxCoverage: 2000000,
-    basePremium: 8500,
-    features: [
-      "All Comprehensive Care features",
-      "Deluxe room coverage",
-      "Pre-existing disease cover (immediate)",
-      "Mental health coverage",
-      "Alternative treatments (Ayurveda, Homeopathy)",
-      "International treatment coverage",
-      "Home healthcare",
-      "Health coaching and wellness programs",
-      "Second medical opinion",
-      "No room rent capping",
-      "Restoration of sum insured"
-    ],
-    advantages: [
-      "Highest coverage amount for major medical expenses",
-      "Immediate pre-existing disease coverage - no waiting period",
-      "Deluxe room with no rent capping",
-      "Comprehensive mental health coverage",
-      "Alternative treatment options (Ayurveda, Homeopathy)",
-      "International treatment coverage",
-      "Home healthcare and wellness programs",
-      "Sum insured restoration benefit",
-      "Priority claim settlement",
-      "Dedicated relationship manager"
-    ],
-    disadvantages: [
-      "Significantly higher premium cost",
-      "May require detailed medical examination",
-      "Not affordable for lower income groups",
-      "Some benefits may have usage limits",
-      "Complex policy terms and conditions",
-      "Higher documentation requirements for claims"
-    ],
-    suitableFor: [
-      "High-risk occupations",
-      "Senior professionals",
-      "Those with existing health conditions",
-      "High-stress jobs"
-    ],
-    riskRange: {
-      min: 71,
-      max: 100
-    }
-  }
-]
+/**
+ * Plan whose risk band contains the score, defaulting to the middle tier
+ */
+function planForScore(plans: InsurancePlanTemplate[], riskScore: number): InsurancePlanTemplate {
+  return plans.find(
+    p => riskScore >= p.riskRange.min && riskScore <= p.riskRange.max
+  ) || plans[Math.floor(plans.length / 2)]
+}
 
-export function getInsurancePlan(riskScore: number, age: number, occupation: string) {
+export async function getInsurancePlan(riskScore: number, age: number, occupation: string) {
   // Find the appropriate plan based on risk score
-  let plan = INSURANCE_PLANS.find(
-    p => riskScore >= p.riskRange.min && riskScore <= p.riskRange.max
-  ) || INSURANCE_PLANS[1] // Default to Comprehensive
+  const plan = planForScore(await getActivePlanTemplates(), riskScore)
 
   // Calculate coverage based on risk and age
   let coverage = plan.minCoverage
@@ -195,11 +51,12 @@ export function getInsurancePlan(riskScore: number, age: number, occupation: str
   }
 }
 
-export function getAlternativePlans(riskScore: number, age: number) {
+export async function getAlternativePlans(riskScore: number, age: number) {
   // Get all plans except the recommended one
-  const recommendedPlan = getInsurancePlan(riskScore, age, "")
+  const plans = await getActivePlanTemplates()
+  const recommendedPlan = planForScore(plans, riskScore)
   
-  return INSURANCE_PLANS
+  return plans
     .filter(p => p.name !== recommendedPlan.name)
     .map(plan => {
       let coverage = plan.minCoverage
@@ -229,6 +86,96 @@ export function getAlternativePlans(riskScore: number, age: number) {
     })
 }
 
+// Floater premiums are loaded by the eldest member's age, first match wins
+const FLOATER_AGE_LOADINGS = [
+  { above: 60, multiplier: 1.8 },
+  { above: 50, multiplier: 1.5 },
+  { above: 35, multiplier: 1.2 },
+]
+
+export async function getFloaterPlan(householdScore: number, memberCount: number, eldestAge: number) {
+  const plan = planForScore(await getActivePlanTemplates(), householdScore)
+  const members = Math.min(memberCount, plan.floater.maxMembers)
+
+  // Same tiering as individual cover, then widened for every additional member
+  let coverage = plan.minCoverage
+  if (householdScore > 70) {
+    coverage = plan.maxCoverage
+  } else if (householdScore > 50) {
+    coverage = Math.round((plan.minCoverage + plan.maxCoverage) / 2)
+  }
+  coverage = coverage * (1 + plan.floater.coveragePerMember * (members - 1))
+  coverage = Math.min(Math.round(coverage / 50000) * 50000, plan.floater.maxCoverage)
+
+  const ageLoading = FLOATER_AGE_LOADINGS.find(loading => eldestAge > loading.above)?.multiplier || 1
+  const memberLoading = 1 + plan.floater.memberLoading * (members - 1)
+  const riskMultiplier = 1 + (householdScore / 100)
+  const premium = Math.round(plan.basePremium * ageLoading * memberLoading * riskMultiplier)
+
+  return {
+    name: `${plan.name} Family Floater`,
+    type: plan.type,
+    coverage,
+    premium,
+    features: [`Single sum insured shared by ${members} members`, ...plan.features],
+    advantages: plan.advantages,
+    disadvantages: [
+      "One large claim can exhaust cover for the whole family",
+      ...plan.disadvantages
+    ],
+    recommended: false,
+    memberCount: members,
+    eldestAge,
+    maxMembers: plan.floater.maxMembers
+  }
+}
+
+/**
+ * Compare one floater policy against individual policies for every household member
+ */
+export async function compareFamilyCoverage(household: HouseholdRisk): Promise<FamilyCoverage> {
+  const { maxMembers, ...floater } = await getFloaterPlan(
+    household.aggregateScore,
+    household.memberCount,
+    household.eldestAge
+  )
+
+  const plans = await Promise.all(household.members.map(async member => {
+    const plan = await getInsurancePlan(member.riskScore, member.age, "")
+    return {
+      name: member.name,
+      relationship: member.relationship,
+      planName: plan.name,
+      coverage: plan.coverage,
+      premium: plan.premium
+    }
+  }))
+  const totalPremium = plans.reduce((sum, plan) => sum + plan.premium, 0)
+  const totalCoverage = plans.reduce((sum, plan) => sum + plan.coverage, 0)
+  const monthlyDifference = totalPremium - floater.premium
+
+  let recommendation: FamilyCoverage["recommendation"]
+  let reason: string
+  if (household.memberCount > maxMembers) {
+    recommendation = "individual"
+    reason = `${floater.name} covers at most ${maxMembers} members, so individual policies are needed for a household of ${household.memberCount}.`
+  } else if (monthlyDifference > 0) {
+    recommendation = "floater"
+    reason = `A floater saves ₹${monthlyDifference.toLocaleString()} per month over ${plans.length} individual policies while sharing ₹${floater.coverage.toLocaleString()} of cover across the household.`
+  } else {
+    recommendation = "individual"
+    reason = `Loading for the eldest member (age ${household.eldestAge}) makes a floater ₹${Math.abs(monthlyDifference).toLocaleString()} per month costlier than individual policies, which also give each member their own cover.`
+  }
+
+  return {
+    recommendation,
+    reason,
+    floater: { ...floater, recommended: recommendation === "floater" },
+    individual: { plans, totalPremium, totalCoverage },
+    monthlyDifference
+  }
+}
+
 export function calculateMonthlySavings(riskScore: number, premium: number, age: number): number {
   // Base savings recommendation
   let baseAmount = 2000
@@ -0,0 +1,158 @@
+// Locality indicators for the area-level risk inputs (lib/services/locality-data.ts).
+// The built-in dataset is a small sample covering well-known localities of the ten
+// original cities; a municipal dataset in the same shape can replace it through
+// LOCALITY_DATASET_PATH.
+
+import { FloodProneness } from "@/types/agents"
+
+export interface HealthIndicatorValues {
+  vectorBorneCasesPer100k: number
+  waterborneCasesPer100k: number
+}
+
+export interface LocalityRecord {
+  // Locality name first, then other spellings people enter
+  names: string[]
+  // Municipal ward or zone the locality falls in
+  ward: string
+  floodProneness?: FloodProneness
+  floodNote?: string
+  health?: HealthIndicatorValues
+}
+
+export interface CityLocalityRecord {
+  // Canonical city name from lib/data/indian-cities.ts
+  city: string
+  // City-wide values, used when the user's area has no record of its own
+  floodProneness: FloodProneness
+  health: HealthIndicatorValues
+  localities: LocalityRecord[]
+}
+
+export interface LocalityDataset {
+  id: string
+  source: string
+  year: number
+  cities: CityLocalityRecord[]
+}
+
+export const BUILT_IN_LOCALITY_DATASET: LocalityDataset = {
+  id: "carefund-sample",
+  source: "CareFund sample ward indicators (municipal monsoon reports)",
+  year: 2023,
+  cities: [
+    {
+      city: "Mumbai",
+      floodProneness: "high",
+      health: { vectorBorneCasesPer100k: 62, waterborneCasesPer100k: 118 },
+      localities: [
+        { names: ["Sion", "Gandhi Market"], ward: "F/North", floodProneness: "high", floodNote: "Low-lying junction that waterlogs in heavy rain", health: { vectorBorneCasesPer100k: 71, waterborneCasesPer100k: 134 } },
+        { names: ["Kurla"], ward: "L", floodProneness: "high", floodNote: "Mithi river overflow and railway subway flooding", health: { vectorBorneCasesPer100k: 84, waterborneCasesPer100k: 152 } },
+        { names: ["Andheri West", "Andheri East", "Andheri"], ward: "K/West", floodProneness: "high", floodNote: "Andheri subway closes during heavy rain", health: { vectorBorneCasesPer100k: 66, waterborneCasesPer100k: 109 } },
+        { names: ["Hindmata", "Dadar", "Parel"], ward: "F/South", floodProneness: "high", floodNote: "Chronic waterlogging hotspot", health: { vectorBorneCasesPer100k: 58, waterborneCasesPer100k: 112 } },
+        { names: ["Malad", "Malad West", "Malad East"], ward: "P/North", floodProneness: "moderate", health: { vectorBorneCasesPer100k: 64, waterborneCasesPer100k: 121 } },
+        { names: ["Colaba", "Cuffe Parade"], ward: "A", floodProneness: "low", health: { vectorBorneCasesPer100k: 41, waterborneCasesPer100k: 76 } },
+        { names: ["Powai"], ward: "S", floodProneness: "moderate", health: { vectorBorneCasesPer100k: 55, waterborneCasesPer100k: 88 } },
+      ],
+    },
+    {
+      city: "Delhi",
+      floodProneness: "moderate",
+      health: { vectorBorneCasesPer100k: 48, waterborneCasesPer100k: 86 },
+      localities: [
+        { names: ["Yamuna Bazaar", "Mayur Vihar", "Mayur Vihar Phase 1"], ward: "Shahdara South", floodProneness: "high", floodNote: "Yamuna floodplain", health: { vectorBorneCasesPer100k: 63, waterborneCasesPer100k: 112 } },
+        { names: ["Minto Road", "Connaught Place", "ITO"], ward: "New Delhi", floodProneness: "moderate", floodNote: "Underpasses waterlog in heavy rain", health: { vectorBorneCasesPer100k: 39, waterborneCasesPer100k: 64 } },
+        { names: ["Dwarka"], ward: "Najafgarh", floodProneness: "low", health: { vectorBorneCasesPer100k: 44, waterborneCasesPer100k: 71 } },
+        { names: ["Rohini"], ward: "Rohini", floodProneness: "low", health: { vectorBorneCasesPer100k: 46, waterborneCasesPer100k: 79 } },
+        { names: ["Laxmi Nagar", "Preet Vihar"], ward: "Shahdara South", floodProneness: "moderate", health: { vectorBorneCasesPer100k: 57, waterborneCasesPer100k: 98 } },
+      ],
+    },
+    {
+      city: "Bangalore",
+      floodProneness: "moderate",
+      health: { vectorBorneCasesPer100k: 41, waterborneCasesPer100k: 58 },
+      localities: [
+        { names: ["Bellandur", "Sarjapur Road"], ward: "Mahadevapura", floodProneness: "high", floodNote: "Lake overflow floods the outer ring road", health: { vectorBorneCasesPer100k: 54, waterborneCasesPer100k: 73 } },
+        { names: ["Mahadevapura", "Whitefield", "Marathahalli"], ward: "Mahadevapura", floodProneness: "high", floodNote: "Encroached storm drains", health: { vectorBorneCasesPer100k: 52, waterborneCasesPer100k: 69 } },
+        { names: ["Koramangala", "HSR Layout"], ward: "Bommanahalli", floodProneness: "moderate", health: { vectorBorneCasesPer100k: 45, waterborneCasesPer100k: 61 } },
+        { names: ["Jayanagar", "Basavanagudi"], ward: "South", floodProneness: "low", health: { vectorBorneCasesPer100k: 33, waterborneCasesPer100k: 47 } },
+        { names: ["Malleshwaram", "Rajajinagar"], ward: "West", floodProneness: "low", health: { vectorBorneCasesPer100k: 31, waterborneCasesPer100k: 45 } },
+      ],
+    },
+    {
+      city: "Hyderabad",
+      floodProneness: "moderate",
+      health: { vectorBorneCasesPer100k: 39, waterborneCasesPer100k: 72 },
+      localities: [
+        { names: ["Tolichowki", "Nadeem Colony"], ward: "Khairatabad", floodProneness: "high", floodNote: "Flooded by lake breaches in 2020", health: { vectorBorneCasesPer100k: 47, waterborneCasesPer100k: 91 } },
+        { names: ["Malakpet", "Dilsukhnagar"], ward: "Charminar", floodProneness: "high", floodNote: "Musi river catchment", health: { vectorBorneCasesPer100k: 49, waterborneCasesPer100k: 94 } },
+        { names: ["Gachibowli", "HITEC City", "Madhapur"], ward: "Serilingampally", floodProneness: "low", health: { vectorBorneCasesPer100k: 29, waterborneCasesPer100k: 51 } },
+        { names: ["Banjara Hills", "Jubilee Hills"], ward: "Khairatabad", floodProneness: "low", health: { vectorBorneCasesPer100k: 27, waterborneCasesPer100k: 49 } },
+      ],
+    },
+    {
+      city: "Chennai",
+      floodProneness: "high",
+      health: { vectorBorneCasesPer100k: 52, waterborneCasesPer100k: 89 },
+      localities: [
+        { names: ["Velachery"], ward: "Zone 13 (Adyar)", floodProneness: "high", floodNote: "Former marshland, floods every northeast monsoon", health: { vectorBorneCasesPer100k: 61, waterborneCasesPer100k: 104 } },
+        { names: ["Pallikaranai", "Medavakkam"], ward: "Zone 15 (Sholinganallur)", floodProneness: "high", floodNote: "Marsh catchment", health: { vectorBorneCasesPer100k: 58, waterborneCasesPer100k: 97 } },
+        { names: ["T. Nagar", "T Nagar", "Thyagaraya Nagar"], ward: "Zone 10 (Kodambakkam)", floodProneness: "moderate", health: { vectorBorneCasesPer100k: 47, waterborneCasesPer100k: 82 } },
+        { names: ["Anna Nagar"], ward: "Zone 8 (Anna Nagar)", floodProneness: "low", health: { vectorBorneCasesPer100k: 38, waterborneCasesPer100k: 66 } },
+        { names: ["Mudichur", "Tambaram"], ward: "Tambaram", floodProneness: "high", floodNote: "Adyar river overflow", health: { vectorBorneCasesPer100k: 63, waterborneCasesPer100k: 108 } },
+      ],
+    },
+    {
+      city: "Kolkata",
+      floodProneness: "high",
+      health: { vectorBorneCasesPer100k: 78, waterborneCasesPer100k: 96 },
+      localities: [
+        { names: ["Behala"], ward: "Borough XIV", floodProneness: "high", floodNote: "Poor drainage, waterlogs after heavy rain", health: { vectorBorneCasesPer100k: 92, waterborneCasesPer100k: 108 } },
+        { names: ["Thanthania", "College Street", "Amherst Street"], ward: "Borough IV", floodProneness: "high", health: { vectorBorneCasesPer100k: 81, waterborneCasesPer100k: 101 } },
+        { names: ["Ballygunge", "Gariahat"], ward: "Borough VIII", floodProneness: "moderate", health: { vectorBorneCasesPer100k: 69, waterborneCasesPer100k: 84 } },
+        { names: ["Salt Lake", "Bidhannagar"], ward: "Bidhannagar", floodProneness: "moderate", health: { vectorBorneCasesPer100k: 73, waterborneCasesPer100k: 79 } },
+      ],
+    },
+    {
+      city: "Pune",
+      floodProneness: "moderate",
+      health: { vectorBorneCasesPer100k: 36, waterborneCasesPer100k: 64 },
+      localities: [
+        { names: ["Sinhagad Road", "Ekta Nagar"], ward: "Sinhagad Road", floodProneness: "high", floodNote: "Mutha river releases from Khadakwasla dam", health: { vectorBorneCasesPer100k: 44, waterborneCasesPer100k: 78 } },
+        { names: ["Kothrud"], ward: "Kothrud-Bawdhan", floodProneness: "low", health: { vectorBorneCasesPer100k: 31, waterborneCasesPer100k: 52 } },
+        { names: ["Hadapsar"], ward: "Hadapsar-Mundhwa", floodProneness: "moderate", health: { vectorBorneCasesPer100k: 40, waterborneCasesPer100k: 71 } },
+        { names: ["Hinjewadi", "Wakad"], ward: "Aundh-Baner", floodProneness: "moderate", health: { vectorBorneCasesPer100k: 34, waterborneCasesPer100k: 58 } },
+      ],
+    },
+    {
+      city: "Ahmedabad",
+      floodProneness: "moderate",
+      health: { vectorBorneCasesPer100k: 44, waterborneCasesPer100k: 93 },
+      localities: [
+        { names: ["Vasna", "Paldi"], ward: "West Zone", floodProneness: "high", floodNote: "Sabarmati riverside low ground", health: { vectorBorneCasesPer100k: 49, waterborneCasesPer100k: 101 } },
+        { names: ["Maninagar"], ward: "South Zone", floodProneness: "moderate", health: { vectorBorneCasesPer100k: 47, waterborneCasesPer100k: 98 } },
+        { names: ["Satellite", "Bodakdev"], ward: "South West Zone", floodProneness: "low", health: { vectorBorneCasesPer100k: 36, waterborneCasesPer100k: 72 } },
+      ],
+    },
+    {
+      city: "Jaipur",
+      floodProneness: "low",
+      health: { vectorBorneCasesPer100k: 38, waterborneCasesPer100k: 67 },
+      localities: [
+        { names: ["Walled City", "Pink City", "Johari Bazaar"], ward: "Hawa Mahal", floodProneness: "moderate", floodNote: "Old drains overflow in cloudbursts", health: { vectorBorneCasesPer100k: 46, waterborneCasesPer100k: 82 } },
+        { names: ["Malviya Nagar"], ward: "Malviya Nagar", floodProneness: "low", health: { vectorBorneCasesPer100k: 33, waterborneCasesPer100k: 58 } },
+        { names: ["Mansarovar"], ward: "Mansarovar", floodProneness: "low", health: { vectorBorneCasesPer100k: 35, waterborneCasesPer100k: 61 } },
+      ],
+    },
+    {
+      city: "Lucknow",
+      floodProneness: "moderate",
+      health: { vectorBorneCasesPer100k: 46, waterborneCasesPer100k: 88 },
+      localities: [
+        { names: ["Daliganj", "Kudiya Ghat"], ward: "Zone 6", floodProneness: "high", floodNote: "Gomti riverbank", health: { vectorBorneCasesPer100k: 58, waterborneCasesPer100k: 103 } },
+        { names: ["Gomti Nagar"], ward: "Zone 4", floodProneness: "moderate", health: { vectorBorneCasesPer100k: 41, waterborneCasesPer100k: 74 } },
+        { names: ["Hazratganj"], ward: "Zone 1", floodProneness: "low", health: { vectorBorneCasesPer100k: 39, waterborneCasesPer100k: 71 } },
+      ],
+    },
+  ],
+}
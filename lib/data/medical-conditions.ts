@@ -0,0 +1,315 @@
+// Medical condition, addiction and surgery catalogues used to interpret profile free text.
+// Scoring weights live in the risk model (lib/config/risk-models.ts), keyed by entry id.
+
+// Environmental or lifestyle exposures that make a condition worse
+export type ConditionSensitivity = "airQuality" | "heat" | "physicalLabour" | "shiftWork"
+
+export interface CatalogueEntry {
+  id: string
+  name: string
+  synonyms: string[]
+}
+
+export interface MedicalCondition extends CatalogueEntry {
+  category: "respiratory" | "cardiovascular" | "metabolic" | "endocrine" | "musculoskeletal" | "chronic" | "mental"
+  sensitivities: ConditionSensitivity[]
+}
+
+export const MEDICAL_CONDITIONS: Record<string, MedicalCondition> = {
+  asthma: {
+    id: "asthma",
+    name: "Asthma",
+    synonyms: ["asthmatic", "bronchial asthma", "wheezing"],
+    category: "respiratory",
+    sensitivities: ["airQuality"],
+  },
+  copd: {
+    id: "copd",
+    name: "COPD",
+    synonyms: ["chronic obstructive pulmonary disease", "chronic bronchitis", "emphysema", "lung disease"],
+    category: "respiratory",
+    sensitivities: ["airQuality", "physicalLabour"],
+  },
+  diabetes: {
+    id: "diabetes",
+    name: "Diabetes",
+    synonyms: ["diabetic", "type 1 diabetes", "type 2 diabetes", "high blood sugar", "sugar", "madhumeha"],
+    category: "metabolic",
+    sensitivities: ["shiftWork", "heat"],
+  },
+  hypertension: {
+    id: "hypertension",
+    name: "Hypertension",
+    synonyms: ["high blood pressure", "high bp", "bp", "blood pressure"],
+    category: "cardiovascular",
+    sensitivities: ["heat", "shiftWork"],
+  },
+  heartDisease: {
+    id: "heartDisease",
+    name: "Heart Disease",
+    synonyms: [
+      "heart condition",
+      "cardiac",
+      "coronary artery disease",
+      "cad",
+      "heart attack",
+      "angina",
+      "heart failure",
+      "arrhythmia",
+    ],
+    category: "cardiovascular",
+    sensitivities: ["heat", "airQuality", "physicalLabour"],
+  },
+  thyroid: {
+    id: "thyroid",
+    name: "Thyroid",
+    synonyms: ["hypothyroidism", "hyperthyroidism", "thyroid disorder", "goitre", "goiter"],
+    category: "endocrine",
+    sensitivities: [],
+  },
+  arthritis: {
+    id: "arthritis",
+    name: "Arthritis",
+    synonyms: ["rheumatoid arthritis", "osteoarthritis", "joint pain", "gout", "spondylitis"],
+    category: "musculoskeletal",
+    sensitivities: ["physicalLabour"],
+  },
+  kidneyDisease: {
+    id: "kidneyDisease",
+    name: "Kidney Disease",
+    synonyms: ["ckd", "chronic kidney disease", "renal failure", "kidney failure", "dialysis", "kidney stones"],
+    category: "chronic",
+    sensitivities: ["heat"],
+  },
+  cancer: {
+    id: "cancer",
+    name: "Cancer",
+    synonyms: ["tumor", "tumour", "carcinoma", "leukemia", "leukaemia", "lymphoma", "malignancy"],
+    category: "chronic",
+    sensitivities: ["airQuality"],
+  },
+  stroke: {
+    id: "stroke",
+    name: "Stroke",
+    synonyms: ["paralysis", "brain stroke", "tia", "transient ischemic attack"],
+    category: "cardiovascular",
+    sensitivities: ["heat"],
+  },
+  obesity: {
+    id: "obesity",
+    name: "Obesity",
+    synonyms: ["obese", "overweight"],
+    category: "metabolic",
+    sensitivities: ["heat"],
+  },
+  liverDisease: {
+    id: "liverDisease",
+    name: "Liver Disease",
+    synonyms: ["fatty liver", "cirrhosis", "hepatitis", "jaundice"],
+    category: "chronic",
+    sensitivities: [],
+  },
+  tuberculosis: {
+    id: "tuberculosis",
+    name: "Tuberculosis",
+    synonyms: ["tb"],
+    category: "respiratory",
+    sensitivities: ["airQuality"],
+  },
+  epilepsy: {
+    id: "epilepsy",
+    name: "Epilepsy",
+    synonyms: ["seizures", "seizure disorder", "fits"],
+    category: "chronic",
+    sensitivities: ["shiftWork"],
+  },
+  mentalHealth: {
+    id: "mentalHealth",
+    name: "Mental Health Condition",
+    synonyms: ["depression", "anxiety", "bipolar", "ptsd", "schizophrenia", "ocd"],
+    category: "mental",
+    sensitivities: ["shiftWork"],
+  },
+  pcos: {
+    id: "pcos",
+    name: "PCOS",
+    synonyms: ["pcod", "polycystic ovary syndrome"],
+    category: "endocrine",
+    sensitivities: [],
+  },
+  migraine: {
+    id: "migraine",
+    name: "Migraine",
+    synonyms: ["chronic headache", "headaches"],
+    category: "chronic",
+    sensitivities: ["heat", "shiftWork"],
+  },
+  allergies: {
+    id: "allergies",
+    name: "Allergies",
+    synonyms: ["allergy", "allergic rhinitis", "sinusitis", "dust allergy", "hay fever"],
+    category: "respiratory",
+    sensitivities: ["airQuality"],
+  },
+}
+
+export const ADDICTIONS: Record<string, CatalogueEntry> = {
+  smoking: {
+    id: "smoking",
+    name: "Smoking",
+    synonyms: ["smoker", "cigarette", "cigarettes", "cigar", "bidi", "beedi", "hookah", "vaping", "vape", "e-cigarette"],
+  },
+  chewingTobacco: {
+    id: "chewingTobacco",
+    name: "Chewing Tobacco",
+    synonyms: ["tobacco", "gutka", "gutkha", "khaini", "paan masala", "zarda", "snuff"],
+  },
+  alcohol: {
+    id: "alcohol",
+    name: "Alcohol",
+    synonyms: ["drinking", "drinker", "liquor", "beer", "wine", "whisky", "alcoholism"],
+  },
+  substances: {
+    id: "substances",
+    name: "Recreational Drugs",
+    synonyms: ["drugs", "cannabis", "ganja", "marijuana", "weed", "charas", "opioids", "opium", "cocaine"],
+  },
+  caffeine: {
+    id: "caffeine",
+    name: "Caffeine",
+    synonyms: ["coffee", "tea", "energy drinks"],
+  },
+}
+
+export const SURGERIES: Record<string, CatalogueEntry> = {
+  cardiac: {
+    id: "cardiac",
+    name: "Cardiac Surgery",
+    synonyms: ["bypass", "cabg", "angioplasty", "stent", "valve replacement", "heart surgery", "pacemaker"],
+  },
+  transplant: {
+    id: "transplant",
+    name: "Organ Transplant",
+    synonyms: ["kidney transplant", "liver transplant", "organ transplant"],
+  },
+  oncology: {
+    id: "oncology",
+    name: "Cancer Surgery",
+    synonyms: ["tumor removal", "tumour removal", "mastectomy", "cancer surgery", "chemotherapy"],
+  },
+  neuro: {
+    id: "neuro",
+    name: "Brain or Spine Surgery",
+    synonyms: ["brain surgery", "spine surgery", "spinal surgery", "neurosurgery", "disc surgery", "slip disc"],
+  },
+  orthopedic: {
+    id: "orthopedic",
+    name: "Orthopedic Surgery",
+    synonyms: ["knee replacement", "hip replacement", "acl", "fracture", "ligament", "rod implant", "plate implant"],
+  },
+  minor: {
+    id: "minor",
+    name: "Minor Surgery",
+    synonyms: [
+      "appendix",
+      "appendectomy",
+      "gallbladder",
+      "hernia",
+      "tonsils",
+      "tonsillectomy",
+      "cataract",
+      "lasik",
+      "c-section",
+      "caesarean",
+      "cesarean",
+      "piles",
+    ],
+  },
+}
+
+// Result of matching free text against a catalogue
+export interface CatalogueMatch<T extends CatalogueEntry> {
+  entries: T[]
+  unrecognised: string[]
+}
+
+const NOT_APPLICABLE = new Set(["", "none", "no", "nil", "na", "n/a", "nothing"])
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function mentions(text: string, term: string): boolean {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(term.toLowerCase())}($|[^a-z0-9])`).test(text)
+}
+
+/**
+ * Split a free-text answer such as "Diabetes, high BP and asthma" into separate items
+ */
+export function splitFreeText(value: string | string[] | undefined | null): string[] {
+  const values = Array.isArray(value) ? value : [value || ""]
+  return values
+    .flatMap((item) => String(item).split(/,|;|&|\+|\band\b|\n/i))
+    .map((item) => item.trim())
+    .filter((item) => !NOT_APPLICABLE.has(item.toLowerCase()))
+}
+
+/**
+ * Match free text against a catalogue by name or synonym.
+ * Each catalogue entry appears at most once; text that matches nothing is returned as unrecognised.
+ */
+export function matchCatalogue<T extends CatalogueEntry>(
+  catalogue: Record<string, T>,
+  value: string | string[] | undefined | null
+): CatalogueMatch<T> {
+  const entries: T[] = []
+  const unrecognised: string[] = []
+
+  splitFreeText(value).forEach((item) => {
+    const text = item.toLowerCase()
+    const matches = Object.values(catalogue).filter((entry) =>
+      [entry.name, ...entry.synonyms].some((term) => mentions(text, term))
+    )
+
+    if (matches.length === 0) {
+      unrecognised.push(item)
+      return
+    }
+
+    matches.forEach((entry) => {
+      if (!entries.some((existing) => existing.id === entry.id)) entries.push(entry)
+    })
+  })
+
+  return { entries, unrecognised }
+}
+
+// A reported item resolved against a catalogue; `entry` is null when nothing matched
+export interface ReportedItem<T extends CatalogueEntry> {
+  entry: T | null
+  name: string
+  qualifier?: string
+}
+
+/**
+ * Resolve structured profile entries (e.g. a condition with its status) against a catalogue.
+ * One entry may name several catalogue items; each catalogue item is kept once.
+ */
+export function matchReportedItems<T extends CatalogueEntry>(
+  catalogue: Record<string, T>,
+  reported: { name: string; qualifier?: string }[]
+): ReportedItem<T>[] {
+  const items: ReportedItem<T>[] = []
+
+  reported.forEach(({ name, qualifier }) => {
+    const match = matchCatalogue(catalogue, name)
+    match.entries.forEach((entry) => {
+      if (!items.some((item) => item.entry?.id === entry.id)) {
+        items.push({ entry, name: entry.name, qualifier })
+      }
+    })
+    match.unrecognised.forEach((text) => items.push({ entry: null, name: text, qualifier }))
+  })
+
+  return items
+}
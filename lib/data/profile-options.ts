@@ -0,0 +1,53 @@
+// Option lists shared by the profile form and the what-if simulator
+
+export const OCCUPATIONS = [
+  "IT Professional",
+  "Healthcare Worker",
+  "Teacher",
+  "Engineer",
+  "Business Owner",
+  "Factory Worker",
+  "Driver",
+  "Construction Worker",
+  "Farmer",
+  "Student",
+  "Other",
+]
+
+export const HEALTH_CONDITIONS = [
+  "None",
+  "Diabetes",
+  "Hypertension",
+  "Asthma",
+  "Heart Disease",
+  "Thyroid",
+  "Arthritis",
+  "Other",
+]
+
+export const WORK_SHIFTS = [
+  { value: "Day", label: "Day Shift" },
+  { value: "Night", label: "Night Shift" },
+  { value: "Rotating", label: "Rotating Shift" },
+]
+
+export const CONDITION_STATUSES = [
+  { value: "controlled", label: "Controlled" },
+  { value: "uncontrolled", label: "Uncontrolled" },
+  { value: "unknown", label: "Not sure" },
+] as const
+
+export const ADDICTION_OPTIONS = ["Smoking", "Chewing Tobacco", "Alcohol", "Recreational Drugs", "Other"]
+
+export const ADDICTION_FREQUENCIES = [
+  { value: "occasional", label: "Occasionally" },
+  { value: "weekly", label: "Weekly" },
+  { value: "daily", label: "Daily" },
+  { value: "heavy", label: "Heavily (several times a day)" },
+] as const
+
+export const DEPENDENT_RELATIONSHIPS = [
+  { value: "spouse", label: "Spouse" },
+  { value: "child", label: "Child" },
+  { value: "parent", label: "Parent" },
+] as const
@@ -0,0 +1,403 @@
+import clientPromise from "@/lib/mongodb"
+import { collectAllData } from "@/lib/services/data-collector"
+import { calculateRiskBreakdown, getRiskLevel, generateRiskFactors } from "@/lib/services/risk-calculator"
+import { getRiskModel } from "@/lib/config/risk-models"
+import { calculateHouseholdRisk } from "@/lib/services/household-risk"
+import {
+  analyzeHealthRisks,
+  generateFinancialPlan,
+  generatePreventionSteps,
+  isLLMConfigured
+} from "@/lib/services/llm-service"
+import {
+  getInsurancePlan,
+  getAlternativePlans,
+  calculateMonthlySavings,
+  calculateEmergencyFund,
+  calculateAffordability,
+  compareFamilyCoverage
+} from "@/lib/data/insurance-plans"
+import { formatFinancialInsights, formatRiskInsights } from "@/lib/services/insight-schemas"
+import { fallbackFinancialInsights, fallbackPreventionSteps, fallbackRiskInsights } from "@/lib/services/fallback-insights"
+import { migrateProfile } from "@/lib/utils/health-history"
+import {
+  Agent1Results,
+  Agent2Results,
+  FinancialInsights,
+  PipelineEmitter,
+  PreventionStep,
+  PromptRun,
+  RiskInsights
+} from "@/types/agents"
+
+/**
+ * Agent 1: collect environmental and statistical data, score risk and ask the LLM for an analysis.
+ * Progress is reported through emit when a caller is streaming it.
+ */
+export async function runCollectorAnalyzer(rawProfile: any, emit?: PipelineEmitter): Promise<Agent1Results> {
+  const userProfile = migrateProfile(rawProfile)
+
+  console.log("[Agent 1] Starting enhanced data collection and analysis...")
+  console.log(`[Agent 1] User: ${userProfile.occupation}, ${userProfile.city}, Age: ${userProfile.age}`)
+
+  // Step 1: Collect all data from various sources (now with real-time data)
+  emit?.({ type: "stage_started", stage: "collector", message: "Fetching real-time data from multiple sources..." })
+  const collectedData = await collectAllData(
+    userProfile.city,
+    userProfile.occupation,
+    userProfile.age,
+    userProfile.area,
+    userProfile.cityLocation?.state,
+    emit
+  )
+
+  console.log("[Agent 1] Data collection complete")
+  if (collectedData.dataQuality) {
+    console.log(`[Agent 1] Data Quality: ${collectedData.dataQuality.overall} (${collectedData.dataQuality.realTimeDataPercentage}% real-time)`)
+  }
+  if (collectedData.dataQuality?.locality) {
+    const { localMetrics, cityFallbacks } = collectedData.dataQuality.locality
+    console.log(`[Agent 1] Locality data: ${localMetrics.join(", ") || "none"} area-level, ${cityFallbacks.join(", ") || "none"} city-level`)
+  }
+
+  // Step 2: Calculate risk score
+  const riskCalculationInput = {
+    userProfile,
+    environmentalData: collectedData.environmental,
+    statisticalData: collectedData.statistical,
+    occupationHazard: collectedData.occupationHazard,
+    cityStats: collectedData.cityStats,
+    localityData: collectedData.locality
+  }
+
+  const riskModel = getRiskModel()
+  const scoreBreakdown = calculateRiskBreakdown(riskCalculationInput, riskModel)
+  const riskScore = scoreBreakdown.score
+  const riskLevel = getRiskLevel(riskScore, riskModel)
+  const riskFactors = generateRiskFactors(riskCalculationInput, riskModel)
+
+  console.log(`[Agent 1] Risk calculation complete. Score: ${riskScore} (model ${riskModel.version})`)
+  emit?.({
+    type: "risk_scored",
+    riskScore,
+    riskLevel,
+    riskModelVersion: riskModel.version,
+    topFactors: riskFactors.slice(0, 4)
+  })
+
+  // Step 2.5: Per-member and household risk when dependents are listed
+  const householdRisk = calculateHouseholdRisk(riskCalculationInput, riskModel)
+  if (householdRisk) {
+    console.log(`[Agent 1] Household risk: ${householdRisk.aggregateScore} across ${householdRisk.memberCount} members`)
+  }
+
+  // Step 3: Generate AI analysis using the LLM provider (if configured)
+  emit?.({ type: "stage_started", stage: "analyzer", message: "AI analyzing health risks and generating insights..." })
+  let riskInsights: RiskInsights | null = null
+  const prompts: PromptRun[] = []
+  
+  if (isLLMConfigured()) {
+    console.log("[Agent 1] Requesting AI analysis...")
+    const analysis = await analyzeHealthRisks({
+      userProfile,
+      environmentalData: collectedData.environmental,
+      statisticalData: collectedData.statistical,
+      occupationHazard: collectedData.occupationHazard,
+      cityStats: collectedData.cityStats,
+      riskScore,
+      riskLevel,
+      riskFactors
+    }, emit && (text => emit({ type: "gemini_chunk", task: "riskAnalysis", text })))
+    if (analysis) {
+      riskInsights = analysis.data
+      prompts.push(analysis.prompt)
+      console.log(`[Agent 1] AI analysis ${riskInsights ? "complete" : "unavailable, using fallback analysis"}`)
+    } else {
+      console.log("[Agent 1] No risk factors to comment on, using fallback analysis")
+    }
+  } else {
+    console.log("[Agent 1] LLM provider not configured, using fallback analysis")
+  }
+
+  riskInsights ??= fallbackRiskInsights(riskFactors, riskScore, riskLevel)
+
+  // Step 4: Generate prevention steps
+  let preventionSteps: PreventionStep[] | null = null
+  
+  if (isLLMConfigured()) {
+    const steps = await generatePreventionSteps({
+      riskFactors,
+      userProfile,
+      environmentalData: collectedData.environmental,
+      occupationHazard: collectedData.occupationHazard
+    })
+    preventionSteps = steps.data
+    prompts.push(steps.prompt)
+  }
+
+  // Fallback prevention steps
+  preventionSteps ??= fallbackPreventionSteps(collectedData.environmental.aqi, collectedData.occupationHazard)
+
+  // Compile Agent 1 results with enhanced data
+  const agent1Results: Agent1Results = {
+    riskScore,
+    riskLevel,
+    riskModelVersion: riskModel.version,
+    scoreBreakdown,
+    ...(householdRisk && { householdRisk }),
+    environmentalData: collectedData.environmental,
+    statisticalData: collectedData.statistical,
+    riskFactors,
+    preventionSteps,
+    geminiAnalysis: formatRiskInsights(riskInsights),
+    riskInsights,
+    ...(prompts.length > 0 && { prompts }),
+    timestamp: new Date().toISOString(),
+    // Add enhanced data fields
+    ...(collectedData.healthAlerts && { healthAlerts: collectedData.healthAlerts }),
+    ...(collectedData.dataQuality && { dataQuality: collectedData.dataQuality }),
+    ...(collectedData.locality && { localityData: collectedData.locality }),
+    ...(collectedData.realTimeData && { 
+      realTimeDataSources: {
+        climate: collectedData.realTimeData.climate.sources,
+        deathRate: collectedData.realTimeData.deathRate.source,
+        crime: collectedData.realTimeData.crime.source,
+        occupationDeathRate: collectedData.realTimeData.occupationDeathRate.source
+      }
+    })
+  }
+
+  console.log("[Agent 1] Analysis complete")
+  console.log(`[Agent 1] Risk Score: ${riskScore}/100 (${riskLevel})`)
+  console.log(`[Agent 1] Risk Factors: ${riskFactors.length}`)
+  console.log(`[Agent 1] Prevention Steps: ${preventionSteps.length}`)
+
+  emit?.({ type: "collector_complete", results: agent1Results })
+  return agent1Results
+}
+
+/**
+ * Agent 2: price insurance plans and build the savings plan for an Agent 1 result
+ */
+export async function runFinancialPlanner(
+  agent1Results: Agent1Results,
+  userProfile: any,
+  emit?: PipelineEmitter
+): Promise<Agent2Results> {
+  console.log("[Agent 2] Starting financial planning...")
+  emit?.({ type: "stage_started", stage: "planner", message: "Calculating insurance plans and savings recommendations..." })
+
+  // Step 1: Get recommended insurance plan
+  const basePlan = await getInsurancePlan(
+    agent1Results.riskScore,
+    userProfile.age,
+    userProfile.occupation
+  )
+
+  console.log("[Agent 2] Insurance plan selected:", basePlan.name)
+
+  // Step 2: Get alternative plans
+  const alternativePlans = await getAlternativePlans(
+    agent1Results.riskScore,
+    userProfile.age
+  )
+
+  // Step 3: Calculate monthly savings
+  const monthlySavings = calculateMonthlySavings(
+    agent1Results.riskScore,
+    basePlan.premium,
+    userProfile.age
+  )
+
+  // Step 3.5: Calculate affordability for all plans
+  const monthlyIncome = parseFloat(userProfile.monthlyIncome) || 50000
+  
+  // Add affordability to recommended plan
+  const recommendedPlanAffordability = calculateAffordability(
+    monthlyIncome,
+    basePlan.premium,
+    monthlySavings
+  )
+  
+  const insurancePlan = {
+    ...basePlan,
+    affordability: recommendedPlanAffordability
+  }
+
+  // Add affordability to alternative plans
+  const alternativePlansWithAffordability = alternativePlans.map(plan => {
+    const planSavings = calculateMonthlySavings(
+      agent1Results.riskScore,
+      plan.premium,
+      userProfile.age
+    )
+    const affordability = calculateAffordability(
+      monthlyIncome,
+      plan.premium,
+      planSavings
+    )
+    return {
+      ...plan,
+      affordability
+    }
+  })
+
+  // Step 3.75: Family floater vs individual policies when dependents are covered
+  const familyCoverage = agent1Results.householdRisk
+    ? await compareFamilyCoverage(agent1Results.householdRisk)
+    : undefined
+
+  if (familyCoverage) {
+    console.log(`[Agent 2] Family coverage: ${familyCoverage.recommendation} recommended`)
+  }
+
+  // Step 4: Calculate emergency fund
+  const emergencyFund = calculateEmergencyFund(
+    monthlySavings,
+    agent1Results.riskScore
+  )
+
+  // Step 5: Calculate yearly health budget
+  const yearlyHealthBudget = (insurancePlan.premium * 12) + (monthlySavings * 12)
+
+  console.log("[Agent 2] Financial calculations complete")
+
+  // Step 6: Generate financial recommendations
+  const financialRecommendations = [
+    {
+      category: "Insurance Premium",
+      suggestion: `Pay ₹${insurancePlan.premium.toLocaleString()} monthly for ${insurancePlan.name}`,
+      amount: insurancePlan.premium,
+      priority: "high" as const
+    },
+    {
+      category: "Emergency Savings",
+      suggestion: `Save ₹${monthlySavings.toLocaleString()} monthly to build emergency health fund`,
+      amount: monthlySavings,
+      priority: "high" as const
+    },
+    {
+      category: "Emergency Fund Target",
+      suggestion: `Build emergency fund of ₹${emergencyFund.toLocaleString()} over ${Math.ceil(emergencyFund / monthlySavings)} months`,
+      amount: emergencyFund,
+      priority: "medium" as const
+    },
+    {
+      category: "Annual Health Budget",
+      suggestion: `Allocate ₹${yearlyHealthBudget.toLocaleString()} annually for health expenses`,
+      amount: yearlyHealthBudget,
+      priority: "medium" as const
+    },
+    {
+      category: "Tax Benefits",
+      suggestion: "Claim tax deduction under Section 80D for health insurance premium",
+      priority: "low" as const
+    }
+  ]
+
+  if (familyCoverage) {
+    const familyPremium = familyCoverage.recommendation === "floater"
+      ? familyCoverage.floater.premium
+      : familyCoverage.individual.totalPremium
+    financialRecommendations.push({
+      category: "Family Coverage",
+      suggestion: familyCoverage.recommendation === "floater"
+        ? `Cover all ${familyCoverage.floater.memberCount} members under ${familyCoverage.floater.name} for ₹${familyPremium.toLocaleString()} monthly`
+        : `Buy individual policies for each family member, ₹${familyPremium.toLocaleString()} monthly in total`,
+      amount: familyPremium,
+      priority: "high" as const
+    })
+  }
+
+  // Add risk-specific recommendations
+  if (agent1Results.riskScore > 70) {
+    financialRecommendations.push({
+      category: "Critical Illness Cover",
+      suggestion: "Consider additional critical illness rider for comprehensive protection",
+      priority: "low" as const
+    })
+  }
+
+  if (userProfile.age > 45) {
+    financialRecommendations.push({
+      category: "Senior Care",
+      suggestion: "Plan for increased healthcare costs in retirement years",
+      priority: "low" as const
+    })
+  }
+
+  // Step 7: Generate AI financial analysis using the LLM provider (if configured)
+  let financialInsights: FinancialInsights | null = null
+  let financialPrompt: PromptRun | undefined
+  
+  if (isLLMConfigured()) {
+    console.log("[Agent 2] Requesting AI financial analysis...")
+    const plan = await generateFinancialPlan({
+      riskAnalysis: agent1Results,
+      userProfile,
+      insurancePlan,
+      monthlySavings,
+      emergencyFund,
+      familyCoverage
+    }, emit && (text => emit({ type: "gemini_chunk", task: "financialPlan", text })))
+    financialInsights = plan.data
+    financialPrompt = plan.prompt
+    console.log(`[Agent 2] AI financial analysis ${financialInsights ? "complete" : "unavailable, using fallback analysis"}`)
+  } else {
+    console.log("[Agent 2] LLM provider not configured, using fallback analysis")
+  }
+
+  financialInsights ??= fallbackFinancialInsights(insurancePlan, monthlySavings, emergencyFund, familyCoverage)
+
+  // Step 8: Auto-pay setup information (future feature)
+  const autoPaySetup = {
+    available: false,
+    message: "Auto-pay feature coming soon! You'll be able to set up automatic deductions from your bank account for insurance premiums and savings."
+  }
+
+  // Compile Agent 2 results
+  const agent2Results: Agent2Results = {
+    insurancePlan,
+    alternativePlans: alternativePlansWithAffordability,
+    ...(familyCoverage && { familyCoverage }),
+    monthlySavings,
+    emergencyFund,
+    yearlyHealthBudget,
+    financialRecommendations,
+    geminiAnalysis: formatFinancialInsights(financialInsights),
+    financialInsights,
+    ...(financialPrompt && { prompts: [financialPrompt] }),
+    autoPaySetup,
+    timestamp: new Date().toISOString()
+  }
+
+  console.log("[Agent 2] Financial planning complete")
+
+  emit?.({ type: "planner_complete", results: agent2Results })
+  return agent2Results
+}
+
+/**
+ * Persist a completed analysis and return its id
+ */
+export async function saveAnalysis(
+  userId: string,
+  userProfile: any,
+  agent1Results: Agent1Results,
+  agent2Results: Agent2Results
+): Promise<string> {
+  const client = await clientPromise
+  const db = client.db("carefund")
+
+  const insertResult = await db.collection("analysis_results").insertOne({
+    userId,
+    profileData: userProfile,
+    agent1Results,
+    agent2Results,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  })
+
+  console.log("[Pipeline] Analysis results saved to database")
+  return insertResult.insertedId.toString()
+}
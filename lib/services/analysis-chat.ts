@@ -0,0 +1,212 @@
+import { ObjectId, type Collection } from "mongodb"
+import clientPromise from "@/lib/mongodb"
+import {
+  AnalysisChatPromptVariables,
+  getPromptTemplate,
+  hashPrompt,
+  renderPrompt,
+} from "@/lib/config/prompt-templates"
+import { getLLMProvider } from "@/lib/services/llm-provider"
+import {
+  PROMPT_PROFILE_FIELDS,
+  ProfileRedaction,
+  redactProfile,
+  redactRiskFactors,
+} from "@/lib/services/llm-redaction"
+import { AnalysisResults, ChatMessage, InsurancePlan, PromptRun } from "@/types/agents"
+
+// Earlier turns are dropped from the model's context, not from the stored conversation
+const MAX_CONTEXT_MESSAGES = 20
+
+export interface AnalysisChat {
+  _id: ObjectId
+  userId: string
+  analysisId: string
+  messages: ChatMessage[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+let indexesReady: Promise<unknown> | null = null
+
+async function chatsCollection(): Promise<Collection<AnalysisChat>> {
+  const client = await clientPromise
+  const chats = client.db("carefund").collection<AnalysisChat>("analysis_chats")
+  indexesReady ??= chats.createIndex({ userId: 1, analysisId: 1 }, { unique: true })
+  await indexesReady
+  return chats
+}
+
+const rupees = (amount: number) => amount.toLocaleString()
+
+const describePlan = (plan: InsurancePlan) =>
+  `${plan.name} (${plan.type}): ₹${rupees(plan.coverage)} cover for ₹${rupees(plan.premium)}/month`
+
+/**
+ * Everything the assistant may draw on, taken from the stored analysis only
+ */
+export function analysisChatPromptVariables(
+  analysis: AnalysisResults,
+  redaction: ProfileRedaction = redactProfile(analysis.profileData)
+): AnalysisChatPromptVariables {
+  const { agent1Results, agent2Results } = analysis
+  const { profile } = redaction
+  const { familyCoverage } = agent2Results
+
+  return {
+    age: profile.age,
+    occupation: profile.occupation,
+    city: profile.city,
+    healthConditions: profile.healthConditions,
+    riskScore: agent1Results.riskScore,
+    riskLevel: agent1Results.riskLevel,
+    scoreBreakdown: agent1Results.scoreBreakdown
+      ? agent1Results.scoreBreakdown.contributions
+          .map((contribution) => `- ${contribution.label}: ${contribution.points > 0 ? "+" : ""}${contribution.points}`)
+          .join("\n")
+      : "Not recorded for this report",
+    riskFactors: redactRiskFactors(agent1Results.riskFactors, redaction)
+      .map((f) => `- ${f.category} (${f.level}): ${f.description}`)
+      .join("\n"),
+    recommendedPlan: [
+      describePlan(agent2Results.insurancePlan),
+      `Features: ${agent2Results.insurancePlan.features.join(", ")}`,
+      ...(agent2Results.insurancePlan.affordability
+        ? [`Affordability: ${agent2Results.insurancePlan.affordability.recommendation}`]
+        : []),
+    ].join("\n"),
+    alternativePlans: agent2Results.alternativePlans.map((plan) => `- ${describePlan(plan)}`).join("\n") || "None",
+    familyCoverage: familyCoverage
+      ? redaction.scrub(
+          `${familyCoverage.recommendation === "floater" ? "Family floater" : "Individual policies"} recommended: ${familyCoverage.reason}`
+        )
+      : "The report covers the user only",
+    monthlySavings: rupees(agent2Results.monthlySavings),
+    emergencyFund: rupees(agent2Results.emergencyFund),
+    financialRecommendations: agent2Results.financialRecommendations
+      .map((rec) => `- ${rec.category} (${rec.priority}): ${rec.suggestion}`)
+      .join("\n"),
+  }
+}
+
+/**
+ * Deterministic reply used by the mock provider and when the model is unavailable.
+ * Picks the part of the report the question is most likely about.
+ */
+function templateReply(analysis: AnalysisResults, question: string): string {
+  const { agent1Results, agent2Results } = analysis
+  const plan = agent2Results.insurancePlan
+  const topFactors = [...agent1Results.riskFactors].sort((a, b) => b.impact - a.impact).slice(0, 3)
+  const asked = question.toLowerCase()
+
+  if (/premium|cost|price|expensive|cheap/.test(asked)) {
+    return `Your recommended plan, ${plan.name}, costs ₹${rupees(plan.premium)} a month for ₹${rupees(plan.coverage)} of cover. It was chosen for a risk score of ${agent1Results.riskScore}/100, so the premium reflects ${topFactors.map((f) => f.category.toLowerCase()).join(", ")} in particular.`
+  }
+
+  if (/rider|critical illness|add-on|addon/.test(asked)) {
+    const rider = agent2Results.financialRecommendations.find((rec) => /critical illness/i.test(rec.category))
+    return rider
+      ? `Your report suggests it: ${rider.suggestion}. A rider adds to the ₹${rupees(plan.premium)} monthly premium, so compare quotes before adding it.`
+      : `Your report does not recommend a critical illness rider at a risk score of ${agent1Results.riskScore}/100. You can still add one; it would raise the ₹${rupees(plan.premium)} monthly premium.`
+  }
+
+  if (/sav|emergency|fund|budget/.test(asked)) {
+    return `The plan is to save ₹${rupees(agent2Results.monthlySavings)} a month towards an emergency fund of ₹${rupees(agent2Results.emergencyFund)}, alongside the ₹${rupees(plan.premium)} premium.`
+  }
+
+  return `Your risk score is ${agent1Results.riskScore}/100 (${agent1Results.riskLevel} risk). The biggest factors are ${topFactors
+    .map((f) => `${f.category.toLowerCase()} (${f.level})`)
+    .join(", ")}. The recommended plan is ${plan.name} at ₹${rupees(plan.premium)} a month.`
+}
+
+export async function getChatMessages(userId: string, analysisId: string): Promise<ChatMessage[]> {
+  const chats = await chatsCollection()
+  const chat = await chats.findOne({ userId, analysisId })
+  return chat?.messages || []
+}
+
+export async function clearChat(userId: string, analysisId: string): Promise<void> {
+  const chats = await chatsCollection()
+  await chats.deleteOne({ userId, analysisId })
+}
+
+/**
+ * Answer a question about an analysis the caller has already loaded for its owner,
+ * streaming the reply through onText and storing both turns
+ */
+export async function replyToChat(
+  userId: string,
+  analysis: AnalysisResults,
+  question: string,
+  onText?: (text: string) => void
+): Promise<ChatMessage> {
+  const analysisId = analysis._id!
+  const history = await getChatMessages(userId, analysisId)
+  const provider = getLLMProvider()
+  const template = getPromptTemplate("analysis-chat")!
+  const redaction = redactProfile(analysis.profileData)
+  const system = renderPrompt(template, analysisChatPromptVariables(analysis, redaction))
+  const fallback = () => templateReply(analysis, question)
+
+  let content: string | null = null
+  let streamed = false
+
+  if (provider.isConfigured()) {
+    try {
+      content = await provider.chat({
+        label: "Analysis chat",
+        system,
+        messages: [
+          // Questions are stored as typed but scrubbed like the report before they are sent
+          ...history.slice(-MAX_CONTEXT_MESSAGES).map(({ role, content }) => ({ role, content: redaction.scrub(content) })),
+          { role: "user", content: redaction.scrub(question) },
+        ],
+        template: fallback,
+        onText: onText && ((chunk) => {
+          streamed = true
+          onText(chunk)
+        }),
+      })
+    } catch (error) {
+      console.error(`[Chat] Reply failed for analysis ${analysisId} (${provider.id}):`, error)
+    }
+  }
+
+  const generated = !!content?.trim()
+  if (!generated) {
+    content = fallback()
+    // A half-streamed reply is replaced by the complete one in the final event
+    if (!streamed) onText?.(content)
+  }
+
+  const prompt: PromptRun = {
+    templateId: template.id,
+    templateVersion: template.version,
+    provider: provider.id,
+    model: provider.model,
+    promptHash: hashPrompt(system),
+    generated,
+    disclosure: redaction.disclose(
+      analysis.agent2Results.familyCoverage
+        ? [...PROMPT_PROFILE_FIELDS["analysis-chat"], "dependents"]
+        : PROMPT_PROFILE_FIELDS["analysis-chat"]
+    ),
+  }
+
+  const now = new Date()
+  const userMessage: ChatMessage = { role: "user", content: question, createdAt: now.toISOString() }
+  const reply: ChatMessage = { role: "assistant", content: content!, createdAt: new Date().toISOString(), prompt }
+
+  const chats = await chatsCollection()
+  await chats.updateOne(
+    { userId, analysisId },
+    {
+      $push: { messages: { $each: [userMessage, reply] } },
+      $set: { updatedAt: now },
+      $setOnInsert: { createdAt: now },
+    },
+    { upsert: true }
+  )
+
+  return reply
+}
@@ -0,0 +1,158 @@
+import { InsurancePlanTemplate } from "@/lib/data/insurance-plan-templates"
+import { migrateProfile } from "@/lib/utils/health-history"
+import {
+  AnalysisDiff,
+  AnalysisResults,
+  NumericChange,
+  ProfileFieldChange,
+  RiskFactor,
+  RiskFactorChange,
+} from "@/types/agents"
+
+// Profile fields that are bookkeeping rather than user input
+const IGNORED_PROFILE_FIELDS = new Set(["_id", "userId", "createdAt", "updatedAt", "profileCompleted"])
+
+/**
+ * Build a from/to/delta record for a numeric value that may be missing on either side
+ */
+function numericChange(from: number | undefined | null, to: number | undefined | null): NumericChange {
+  const fromValue = typeof from === "number" ? from : null
+  const toValue = typeof to === "number" ? to : null
+  const delta = fromValue !== null && toValue !== null ? Math.round((toValue - fromValue) * 10) / 10 : null
+
+  return { from: fromValue, to: toValue, delta }
+}
+
+/**
+ * Plan tier is the lowest risk score the catalogue offers a plan type for, so admin-created
+ * types order with the rest. Null when the type is not in the catalogue.
+ */
+function getPlanTier(planType: string, plans: InsurancePlanTemplate[]): number | null {
+  const mins = plans.filter((plan) => plan.type === planType).map((plan) => plan.riskRange.min)
+  return mins.length > 0 ? Math.min(...mins) : null
+}
+
+function diffRiskFactors(from: RiskFactor[], to: RiskFactor[]) {
+  const fromByCategory = new Map(from.map((factor) => [factor.category, factor]))
+  const toByCategory = new Map(to.map((factor) => [factor.category, factor]))
+
+  const added = to.filter((factor) => !fromByCategory.has(factor.category))
+  const removed = from.filter((factor) => !toByCategory.has(factor.category))
+
+  const changed: RiskFactorChange[] = []
+  toByCategory.forEach((toFactor, category) => {
+    const fromFactor = fromByCategory.get(category)
+    if (fromFactor && (fromFactor.level !== toFactor.level || fromFactor.impact !== toFactor.impact)) {
+      changed.push({
+        category,
+        from: { level: fromFactor.level, impact: fromFactor.impact },
+        to: { level: toFactor.level, impact: toFactor.impact },
+      })
+    }
+  })
+
+  return { added, removed, changed }
+}
+
+function diffProfiles(from: Record<string, any>, to: Record<string, any>): ProfileFieldChange[] {
+  const fields = new Set([...Object.keys(from || {}), ...Object.keys(to || {})])
+  const changes: ProfileFieldChange[] = []
+
+  fields.forEach((field) => {
+    if (IGNORED_PROFILE_FIELDS.has(field)) return
+
+    const fromValue = from?.[field] ?? null
+    const toValue = to?.[field] ?? null
+
+    // Profile values are loosely typed (age may be "34" or 34), so compare their serialised form
+    if (JSON.stringify(fromValue) !== JSON.stringify(toValue) && String(fromValue) !== String(toValue)) {
+      changes.push({ field, from: fromValue, to: toValue })
+    }
+  })
+
+  return changes.sort((a, b) => a.field.localeCompare(b.field))
+}
+
+/**
+ * Compute a structured diff between two stored analyses.
+ * `base` is treated as the earlier run and `target` as the later one; `plans` is the
+ * plan catalogue, including retired plans, used to order the recommended plans.
+ */
+export function diffAnalyses(
+  base: AnalysisResults,
+  target: AnalysisResults,
+  plans: InsurancePlanTemplate[]
+): AnalysisDiff {
+  const baseAgent1 = base.agent1Results
+  const targetAgent1 = target.agent1Results
+  const basePlan = base.agent2Results.insurancePlan
+  const targetPlan = target.agent2Results.insurancePlan
+
+  const baseTier = getPlanTier(basePlan.type, plans)
+  const targetTier = getPlanTier(targetPlan.type, plans)
+  let tierChange: AnalysisDiff["insurancePlan"]["tierChange"] = "same"
+  if (baseTier === null || targetTier === null) tierChange = "unknown"
+  else if (targetTier > baseTier) tierChange = "upgrade"
+  else if (targetTier < baseTier) tierChange = "downgrade"
+
+  return {
+    base: { id: String(base._id), createdAt: base.createdAt },
+    target: { id: String(target._id), createdAt: target.createdAt },
+    riskScore: numericChange(baseAgent1.riskScore, targetAgent1.riskScore),
+    riskLevel: {
+      from: baseAgent1.riskLevel,
+      to: targetAgent1.riskLevel,
+      changed: baseAgent1.riskLevel !== targetAgent1.riskLevel,
+    },
+    riskModelVersion: {
+      from: baseAgent1.riskModelVersion ?? null,
+      to: targetAgent1.riskModelVersion ?? null,
+      changed: baseAgent1.riskModelVersion !== targetAgent1.riskModelVersion,
+    },
+    riskFactors: diffRiskFactors(baseAgent1.riskFactors || [], targetAgent1.riskFactors || []),
+    environmental: {
+      aqi: numericChange(baseAgent1.environmentalData?.aqi, targetAgent1.environmentalData?.aqi),
+      temperature: numericChange(baseAgent1.environmentalData?.temperature, targetAgent1.environmentalData?.temperature),
+      humidity: numericChange(baseAgent1.environmentalData?.humidity, targetAgent1.environmentalData?.humidity),
+    },
+    statistical: {
+      deathRate: numericChange(baseAgent1.statisticalData?.deathRate, targetAgent1.statisticalData?.deathRate),
+      ageAdjustedDeathRate: numericChange(
+        baseAgent1.statisticalData?.ageAdjustedDeathRate,
+        targetAgent1.statisticalData?.ageAdjustedDeathRate
+      ),
+      crimeRate: numericChange(baseAgent1.statisticalData?.crimeRate, targetAgent1.statisticalData?.crimeRate),
+      violentCrimeRate: numericChange(
+        baseAgent1.statisticalData?.violentCrimeRate,
+        targetAgent1.statisticalData?.violentCrimeRate
+      ),
+      safetyIndex: numericChange(baseAgent1.statisticalData?.safetyIndex, targetAgent1.statisticalData?.safetyIndex),
+      cityHealthIndex: numericChange(
+        baseAgent1.statisticalData?.cityHealthIndex,
+        targetAgent1.statisticalData?.cityHealthIndex
+      ),
+      occupationDeathRate: numericChange(
+        baseAgent1.statisticalData?.occupationDeathRate,
+        targetAgent1.statisticalData?.occupationDeathRate
+      ),
+    },
+    insurancePlan: {
+      from: { name: basePlan.name, type: basePlan.type, premium: basePlan.premium, coverage: basePlan.coverage },
+      to: { name: targetPlan.name, type: targetPlan.type, premium: targetPlan.premium, coverage: targetPlan.coverage },
+      planChanged: basePlan.name !== targetPlan.name,
+      tierChange,
+      premium: numericChange(basePlan.premium, targetPlan.premium),
+      coverage: numericChange(basePlan.coverage, targetPlan.coverage),
+    },
+    financial: {
+      monthlySavings: numericChange(base.agent2Results.monthlySavings, target.agent2Results.monthlySavings),
+      emergencyFund: numericChange(base.agent2Results.emergencyFund, target.agent2Results.emergencyFund),
+      yearlyHealthBudget: numericChange(
+        base.agent2Results.yearlyHealthBudget,
+        target.agent2Results.yearlyHealthBudget
+      ),
+    },
+    // Older runs stored single-string health fields; compare both in the structured form
+    profileChanges: diffProfiles(migrateProfile(base.profileData || {}), migrateProfile(target.profileData || {})),
+  }
+}
@@ -0,0 +1,120 @@
+import { ObjectId, type Collection, type Filter } from "mongodb"
+import clientPromise from "@/lib/mongodb"
+import { AnalysisResults, AnalysisSummary } from "@/types/agents"
+
+const DEFAULT_PAGE_SIZE = 10
+const MAX_PAGE_SIZE = 50
+
+// An analysis as saved in the database; AnalysisResults carries its id as a string
+type StoredAnalysis = Omit<AnalysisResults, "_id"> & { _id: ObjectId }
+
+export interface AnalysisHistoryPage {
+  analyses: AnalysisSummary[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+/**
+ * Parse pagination parameters from a request URL
+ */
+export function parsePagination(searchParams: URLSearchParams): { page: number; limit: number } {
+  const page = Math.max(parseInt(searchParams.get("page") || "1", 10) || 1, 1)
+  const limit = Math.min(
+    Math.max(parseInt(searchParams.get("limit") || String(DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE
+  )
+  return { page, limit }
+}
+
+async function analysesCollection(): Promise<Collection<StoredAnalysis>> {
+  const client = await clientPromise
+  return client.db("carefund").collection<StoredAnalysis>("analysis_results")
+}
+
+/**
+ * List a user's saved analyses, newest first
+ */
+export async function listAnalyses(userId: string, page: number, limit: number): Promise<AnalysisHistoryPage> {
+  const collection = await analysesCollection()
+
+  const [total, documents] = await Promise.all([
+    collection.countDocuments({ userId }),
+    collection
+      .find({ userId })
+      .project({
+        createdAt: 1,
+        "agent1Results.riskScore": 1,
+        "agent1Results.riskLevel": 1,
+        "agent2Results.insurancePlan.name": 1,
+        "agent2Results.insurancePlan.type": 1,
+        "agent2Results.insurancePlan.premium": 1,
+        "profileData.city": 1,
+        "profileData.occupation": 1,
+      })
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .toArray(),
+  ])
+
+  const analyses: AnalysisSummary[] = documents.map((doc) => ({
+    _id: doc._id.toString(),
+    riskScore: doc.agent1Results?.riskScore ?? 0,
+    riskLevel: doc.agent1Results?.riskLevel ?? "low",
+    planName: doc.agent2Results?.insurancePlan?.name ?? "Unknown plan",
+    planType: doc.agent2Results?.insurancePlan?.type ?? "",
+    premium: doc.agent2Results?.insurancePlan?.premium ?? 0,
+    city: doc.profileData?.city ?? "",
+    occupation: doc.profileData?.occupation ?? "",
+    createdAt: doc.createdAt,
+  }))
+
+  return {
+    analyses,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  }
+}
+
+async function findAnalysis(filter: Filter<StoredAnalysis>): Promise<AnalysisResults | null> {
+  const collection = await analysesCollection()
+  const doc = await collection.findOne(filter)
+
+  if (!doc) {
+    return null
+  }
+
+  const { _id, ...analysis } = doc
+  return { ...analysis, _id: _id.toString() }
+}
+
+/**
+ * Load a single saved analysis, scoped to its owner.
+ * Returns null for malformed ids and for analyses belonging to other users.
+ */
+export async function getAnalysis(userId: string, analysisId: string): Promise<AnalysisResults | null> {
+  if (!ObjectId.isValid(analysisId)) {
+    return null
+  }
+
+  return findAnalysis({ _id: new ObjectId(analysisId), userId })
+}
+
+/**
+ * Load any user's analysis, for admin tools only. Returns null for malformed or unknown ids.
+ */
+export async function getAnalysisForAdmin(analysisId: string): Promise<AnalysisResults | null> {
+  if (!ObjectId.isValid(analysisId)) {
+    return null
+  }
+
+  return findAnalysis({ _id: new ObjectId(analysisId) })
+}
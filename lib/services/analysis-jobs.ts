@@ -0,0 +1,256 @@
+import { ObjectId, type Collection, type UpdateFilter } from "mongodb"
+import clientPromise from "@/lib/mongodb"
+import { APIError } from "@/lib/utils/api-helpers"
+import { AnalysisJobView, GeminiTask, JobStatus, JobStepTiming, PipelineEvent } from "@/types/agents"
+
+const DEFAULT_MAX_ATTEMPTS = 3
+// A running job whose lock lapses is assumed abandoned by a crashed worker and is picked up again
+const LOCK_DURATION_MS = 10 * 60 * 1000
+const RETRY_BASE_DELAY_MS = 5000
+// Gemini text is written in batches rather than once per chunk
+const LIVE_TEXT_FLUSH_MS = 1000
+
+export interface AnalysisJob {
+  _id: ObjectId
+  userId: string
+  profileData: Record<string, any>
+  status: JobStatus
+  attempts: number
+  maxAttempts: number
+  events: PipelineEvent[]
+  liveText: Partial<Record<GeminiTask, string>>
+  timings: JobStepTiming[]
+  analysisId?: string
+  error?: string
+  runAfter: Date
+  lockedUntil?: Date
+  createdAt: Date
+  updatedAt: Date
+  startedAt?: Date
+  finishedAt?: Date
+}
+
+export async function jobsCollection(): Promise<Collection<AnalysisJob>> {
+  const client = await clientPromise
+  return client.db("carefund").collection<AnalysisJob>("analysis_jobs")
+}
+
+export function toJobView(job: AnalysisJob): AnalysisJobView {
+  return {
+    _id: job._id.toString(),
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    events: job.events,
+    liveText: job.liveText,
+    timings: job.timings,
+    analysisId: job.analysisId,
+    error: job.error,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString(),
+    finishedAt: job.finishedAt?.toISOString(),
+  }
+}
+
+/**
+ * Queue an analysis of a profile snapshot, so later profile edits don't change a queued run
+ */
+export async function enqueueAnalysisJob(userId: string, profileData: Record<string, any>): Promise<AnalysisJob> {
+  const jobs = await jobsCollection()
+  const now = new Date()
+
+  const job: Omit<AnalysisJob, "_id"> = {
+    userId,
+    profileData,
+    status: "queued",
+    attempts: 0,
+    maxAttempts: DEFAULT_MAX_ATTEMPTS,
+    events: [],
+    liveText: {},
+    timings: [],
+    runAfter: now,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  const result = await jobs.insertOne(job as AnalysisJob)
+  console.log(`[Jobs] Queued analysis job ${result.insertedId} for user ${userId}`)
+  return { ...job, _id: result.insertedId }
+}
+
+/**
+ * Load a job scoped to its owner. Returns null for malformed ids and other users' jobs.
+ */
+export async function getAnalysisJob(userId: string, jobId: string): Promise<AnalysisJob | null> {
+  if (!ObjectId.isValid(jobId)) return null
+  const jobs = await jobsCollection()
+  return jobs.findOne({ _id: new ObjectId(jobId), userId })
+}
+
+/**
+ * Atomically take the oldest runnable job: a queued job whose retry delay has passed,
+ * or a running job whose worker stopped renewing its lock
+ */
+export async function claimNextJob(): Promise<AnalysisJob | null> {
+  const jobs = await jobsCollection()
+  const now = new Date()
+
+  return jobs.findOneAndUpdate(
+    {
+      $or: [
+        { status: "queued", runAfter: { $lte: now } },
+        { status: "running", lockedUntil: { $lt: now } },
+      ],
+    },
+    {
+      $set: {
+        status: "running",
+        startedAt: now,
+        updatedAt: now,
+        lockedUntil: new Date(now.getTime() + LOCK_DURATION_MS),
+        events: [],
+        liveText: {},
+        timings: [],
+      },
+      $unset: { error: "" },
+      $inc: { attempts: 1 },
+    },
+    { sort: { createdAt: 1 }, returnDocument: "after" }
+  )
+}
+
+/**
+ * Records a running job's progress: events immediately, Gemini text in batches,
+ * and how long each pipeline stage took. Every write also renews the job's lock.
+ */
+export function createJobRecorder(jobs: Collection<AnalysisJob>, jobId: ObjectId) {
+  const liveText: Partial<Record<GeminiTask, string>> = {}
+  const timings: JobStepTiming[] = []
+  let openStage: { stage: JobStepTiming["stage"]; startedAt: number } | null = null
+  let flushTimer: ReturnType<typeof setTimeout> | null = null
+  // Writes are chained so events land in the order they were emitted
+  let writes: Promise<unknown> = Promise.resolve()
+
+  const write = (update: UpdateFilter<AnalysisJob>) => {
+    const now = new Date()
+    const withLock = {
+      ...update,
+      $set: { ...update.$set, updatedAt: now, lockedUntil: new Date(now.getTime() + LOCK_DURATION_MS) },
+    } as UpdateFilter<AnalysisJob>
+    writes = writes
+      .then(() => jobs.updateOne({ _id: jobId }, withLock))
+      .catch((error) => console.error(`[Jobs] Failed to record progress for ${jobId}:`, error))
+  }
+
+  const closeStage = () => {
+    if (!openStage) return
+    timings.push({
+      stage: openStage.stage,
+      startedAt: new Date(openStage.startedAt).toISOString(),
+      durationMs: Date.now() - openStage.startedAt,
+    })
+    openStage = null
+  }
+
+  const flushLiveText = () => {
+    if (flushTimer) {
+      clearTimeout(flushTimer)
+      flushTimer = null
+    }
+    write({ $set: { liveText: { ...liveText } } })
+  }
+
+  return {
+    emit(event: PipelineEvent) {
+      if (event.type === "gemini_chunk") {
+        liveText[event.task] = (liveText[event.task] || "") + event.text
+        if (!flushTimer) flushTimer = setTimeout(flushLiveText, LIVE_TEXT_FLUSH_MS)
+        return
+      }
+
+      if (event.type === "stage_started") {
+        closeStage()
+        openStage = { stage: event.stage, startedAt: Date.now() }
+      }
+
+      write({ $push: { events: event }, $set: { timings: [...timings] } })
+    },
+
+    /**
+     * Close the last stage and wait for pending writes
+     */
+    async finish(): Promise<JobStepTiming[]> {
+      closeStage()
+      flushLiveText()
+      write({ $set: { timings: [...timings] } })
+      await writes
+      return timings
+    },
+
+    currentStage() {
+      return openStage?.stage ?? "collector"
+    },
+  }
+}
+
+/**
+ * Network hiccups, timeouts, rate limits and upstream 5xx responses are worth retrying
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof APIError) {
+    const status = error.statusCode
+    return status === undefined || status === 408 || status === 429 || status >= 500
+  }
+
+  const err = error as { code?: string; name?: string; status?: number; hasErrorLabel?: (label: string) => boolean }
+  if (err?.code && ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"].includes(err.code)) return true
+  if (err?.name === "MongoNetworkError" || err?.name === "MongoServerSelectionError") return true
+  if (typeof err?.hasErrorLabel === "function" && err.hasErrorLabel("RetryableWriteError")) return true
+  if (typeof err?.status === "number") return err.status === 429 || err.status >= 500
+
+  return false
+}
+
+export async function markJobSucceeded(jobs: Collection<AnalysisJob>, job: AnalysisJob, analysisId: string) {
+  const now = new Date()
+  await jobs.updateOne(
+    { _id: job._id },
+    {
+      $set: { status: "succeeded", analysisId, finishedAt: now, updatedAt: now },
+      $push: { events: { type: "done", analysisId } },
+      $unset: { lockedUntil: "" },
+    }
+  )
+}
+
+/**
+ * Requeue a failed attempt with exponential backoff, or fail the job for good
+ */
+export async function markJobFailed(
+  jobs: Collection<AnalysisJob>,
+  job: AnalysisJob,
+  stage: JobStepTiming["stage"],
+  error: unknown
+): Promise<JobStatus> {
+  const message = error instanceof Error ? error.message : "Unknown error"
+  const retry = isTransientError(error) && job.attempts < job.maxAttempts
+  const now = new Date()
+
+  await jobs.updateOne(
+    { _id: job._id },
+    {
+      $set: retry
+        ? {
+            status: "queued",
+            error: message,
+            runAfter: new Date(now.getTime() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)),
+            updatedAt: now,
+          }
+        : { status: "failed", error: message, finishedAt: now, updatedAt: now },
+      $push: { events: { type: "error", stage, message } },
+      $unset: { lockedUntil: "" },
+    }
+  )
+
+  return retry ? "queued" : "failed"
+}
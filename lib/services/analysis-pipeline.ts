@@ -0,0 +1,70 @@
+import { ObjectId } from "mongodb"
+import clientPromise from "@/lib/mongodb"
+import { runCollectorAnalyzer, runFinancialPlanner, saveAnalysis } from "@/lib/services/analysis-agents"
+import { getAnalysis } from "@/lib/services/analysis-history"
+import { migrateProfile } from "@/lib/utils/health-history"
+import { Agent1Results, Agent2Results, PipelineEmitter } from "@/types/agents"
+
+export interface PipelineResult {
+  analysisId: string
+  agent1Results: Agent1Results
+  agent2Results: Agent2Results
+}
+
+/**
+ * Load the user's saved profile, or null when they have not completed one
+ */
+export async function loadUserProfile(userId: string) {
+  const client = await clientPromise
+  const db = client.db("carefund")
+
+  const profile = await db.collection("profiles").findOne({ userId })
+
+  if (!profile || !profile.city || !profile.occupation || !profile.age) {
+    return null
+  }
+
+  const { _id, ...fields } = profile
+  return migrateProfile(fields)
+}
+
+/**
+ * Run both agents against a profile read on the server and persist the result.
+ * Nothing the browser sends feeds into the stored scores.
+ */
+export async function runAnalysisPipeline(
+  userId: string,
+  userProfile: Record<string, any>,
+  emit?: PipelineEmitter
+): Promise<PipelineResult> {
+  const agent1Results = await runCollectorAnalyzer(userProfile, emit)
+  const agent2Results = await runFinancialPlanner(agent1Results, userProfile, emit)
+  const analysisId = await saveAnalysis(userId, userProfile, agent1Results, agent2Results)
+
+  console.log(`[Pipeline] Analysis ${analysisId} complete for user ${userId}`)
+  return { analysisId, agent1Results, agent2Results }
+}
+
+/**
+ * Re-run Agent 2 for a stored analysis, e.g. after the plan catalogue changes.
+ * Risk results come from the stored analysis, never from the caller.
+ * Returns null when the analysis does not exist or belongs to someone else.
+ */
+export async function replanAnalysis(userId: string, analysisId: string): Promise<Agent2Results | null> {
+  const analysis = await getAnalysis(userId, analysisId)
+
+  if (!analysis) {
+    return null
+  }
+
+  const agent2Results = await runFinancialPlanner(analysis.agent1Results, migrateProfile(analysis.profileData))
+
+  const client = await clientPromise
+  const db = client.db("carefund")
+  await db.collection("analysis_results").updateOne(
+    { _id: new ObjectId(analysisId), userId },
+    { $set: { agent2Results, updatedAt: new Date() } }
+  )
+
+  return agent2Results
+}
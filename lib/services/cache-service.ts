@@ -82,6 +82,32 @@ class CacheService {
     }
   }
 
+  /**
+   * Describe live entries without their data, for cache inspection
+   */
+  getEntries() {
+    const now = Date.now()
+    const entries: { key: string; ageSeconds: number; ttlSeconds: number; expiresInSeconds: number }[] = []
+
+    this.cache.forEach((entry, key) => {
+      const ageSeconds = Math.round((now - entry.timestamp) / 1000)
+      if (ageSeconds <= entry.ttl) {
+        entries.push({ key, ageSeconds, ttlSeconds: entry.ttl, expiresInSeconds: entry.ttl - ageSeconds })
+      }
+    })
+
+    return entries
+  }
+
+  /**
+   * Delete every entry whose key starts with the prefix, returning how many were removed
+   */
+  deleteByPrefix(prefix: string): number {
+    const keys = Array.from(this.cache.keys()).filter(key => key.startsWith(prefix))
+    keys.forEach(key => this.cache.delete(key))
+    return keys.length
+  }
+
   /**
    * Start periodic cleanup of expired entries
    */
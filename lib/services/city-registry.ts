@@ -0,0 +1,177 @@
+/**
+ * City Registry
+ * Single source of Indian city locations. The offline seed answers for the larger
+ * cities and their aliases; the geocoding adapter resolves any other city or pincode.
+ */
+
+import { getAPIConfig } from "@/lib/config/api-config"
+import { CITY_SEED, CitySeed, findSeedCity } from "@/lib/data/indian-cities"
+import { generateCacheKey, withCache } from "@/lib/services/cache-service"
+import { GeocodingAdapter, createOpenMeteoGeocoder } from "@/lib/services/geocoding-adapter"
+import { distanceKm } from "@/lib/utils/geo"
+import { CityLocation } from "@/types/agents"
+
+const PINCODE_PATTERN = /^[1-9]\d{5}$/
+
+// Shortest query sent to the geocoder while the user is still typing
+const MIN_GEOCODER_QUERY_LENGTH = 3
+
+// Same-name places considered when the state is known
+const STATE_MATCH_CANDIDATES = 5
+
+// A geocoded area further than this from the city centre is a namesake elsewhere
+const MAX_LOCALITY_DISTANCE_KM = 35
+
+let geocoder: GeocodingAdapter | null = null
+
+function getGeocoder(): GeocodingAdapter {
+  geocoder ??= createOpenMeteoGeocoder()
+  return geocoder
+}
+
+const normalise = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ")
+
+function seedNames(seed: CitySeed): string[] {
+  return [seed.name, ...seed.aliases].map(normalise)
+}
+
+function toLocation(seed: CitySeed, pincode?: string): CityLocation {
+  return {
+    name: seed.name,
+    state: seed.state,
+    district: seed.district,
+    lat: seed.lat,
+    lon: seed.lon,
+    ...(pincode && { pincode }),
+    source: "seed",
+  }
+}
+
+function seedForPincode(pincode: string): CitySeed | undefined {
+  let best: { seed: CitySeed; length: number } | undefined
+
+  CITY_SEED.forEach((seed) => {
+    seed.pincodePrefixes.forEach((prefix) => {
+      if (pincode.startsWith(prefix) && prefix.length > (best?.length || 0)) {
+        best = { seed, length: prefix.length }
+      }
+    })
+  })
+
+  return best?.seed
+}
+
+async function resolvePincode(pincode: string): Promise<CityLocation | null> {
+  const config = getAPIConfig("indiaPost")
+
+  // Only answers are cached; a failed lookup is retried on the next request
+  try {
+    return await withCache(generateCacheKey("pincode", { pincode }), config.cacheTTL, async () => {
+      const location = await getGeocoder().lookupPincode(pincode)
+      if (location) {
+        // A pincode inside a seeded city resolves to that city, so its name stays canonical
+        const seed = findSeedCity(location.district) || findSeedCity(location.name)
+        return seed ? toLocation(seed, pincode) : location
+      }
+
+      const seed = seedForPincode(pincode)
+      return seed ? toLocation(seed, pincode) : null
+    })
+  } catch (error) {
+    console.error(`[CityRegistry] Pincode lookup failed for ${pincode}, trying seed prefixes:`, error)
+    const seed = seedForPincode(pincode)
+    return seed ? toLocation(seed, pincode) : null
+  }
+}
+
+async function geocodePlaces(query: string, limit: number): Promise<CityLocation[]> {
+  const config = getAPIConfig("openMeteoGeocoding")
+
+  // Only answers are cached, so a geocoder outage is not remembered as "no such place"
+  try {
+    return await withCache(generateCacheKey("geocode", { query: normalise(query), limit }), config.cacheTTL, () =>
+      getGeocoder().searchPlaces(query, limit)
+    )
+  } catch (error) {
+    console.error(`[CityRegistry] Geocoding failed for "${query}":`, error)
+    return []
+  }
+}
+
+/**
+ * Resolve a city name or six-digit pincode to its location. Returns null when
+ * neither the seed nor the geocoder knows the place. `state` picks between towns
+ * of the same name, e.g. Aurangabad in Maharashtra and in Bihar; with it, only a
+ * place in that state is returned.
+ */
+export async function resolveCity(query: string, state: string = ""): Promise<CityLocation | null> {
+  const value = query.trim()
+  if (!value) return null
+
+  if (PINCODE_PATTERN.test(value)) {
+    return resolvePincode(value)
+  }
+
+  const seed = findSeedCity(value)
+  if (seed && (!state || seed.state === state)) return toLocation(seed)
+
+  if (!state) {
+    const [place] = await geocodePlaces(value, 1)
+    return place || null
+  }
+
+  const places = await geocodePlaces(value, STATE_MATCH_CANDIDATES)
+  return places.find((place) => place.state === state) || null
+}
+
+/**
+ * Place an area or locality within a resolved city. Returns null when the geocoder has
+ * no match close enough to the city, so callers fall back to city-level values.
+ */
+export async function resolveLocality(area: string, city: CityLocation): Promise<CityLocation | null> {
+  const value = area.trim()
+  if (value.length < MIN_GEOCODER_QUERY_LENGTH) return null
+
+  const places = await geocodePlaces(value, 5)
+  return (
+    places.find(
+      (place) => place.state === city.state && distanceKm(place, city) <= MAX_LOCALITY_DISTANCE_KM
+    ) || null
+  )
+}
+
+/**
+ * Typeahead suggestions: seed cities first, topped up from the geocoder.
+ * An empty query lists the first seed cities, the largest metros.
+ */
+export async function searchCities(query: string, limit = 8): Promise<CityLocation[]> {
+  const value = normalise(query)
+  if (!value) return CITY_SEED.slice(0, limit).map((seed) => toLocation(seed))
+
+  if (/^\d+$/.test(value)) {
+    const location = PINCODE_PATTERN.test(value) ? await resolvePincode(value) : null
+    return location ? [location] : []
+  }
+
+  const prefixMatches = CITY_SEED.filter((seed) => seedNames(seed).some((name) => name.startsWith(value)))
+  const otherMatches = CITY_SEED.filter(
+    (seed) => !prefixMatches.includes(seed) && seedNames(seed).some((name) => name.includes(value))
+  )
+  const suggestions = [...prefixMatches, ...otherMatches].slice(0, limit).map((seed) => toLocation(seed))
+
+  if (suggestions.length >= limit || value.length < MIN_GEOCODER_QUERY_LENGTH) {
+    return suggestions
+  }
+
+  const places = await geocodePlaces(value, limit)
+  places.forEach((place) => {
+    if (suggestions.length >= limit) return
+    // Seed cities go by their canonical name, so the geocoder's "Bengaluru" is the seed's Bangalore
+    const duplicate =
+      findSeedCity(place.name)?.state === place.state ||
+      suggestions.some((existing) => existing.name === place.name && existing.state === place.state)
+    if (!duplicate) suggestions.push(place)
+  })
+
+  return suggestions
+}
@@ -0,0 +1,229 @@
+/**
+ * Climate History Service
+ * Twelve months of daily weather and air quality for a city, reduced to the aggregates
+ * the risk model scores. Histories are stored in MongoDB, so each city's year of data is
+ * fetched from Open-Meteo about once a week rather than on every analysis.
+ */
+
+import { type Collection } from "mongodb"
+import clientPromise from "@/lib/mongodb"
+import { getAPIConfig } from "@/lib/config/api-config"
+import { generateCacheKey, withCache } from "@/lib/services/cache-service"
+import { resolveCity } from "@/lib/services/city-registry"
+import { fetchWithRetry, logAPIMetrics } from "@/lib/utils/api-helpers"
+import { OpenMeteoAirQualityResponse, OpenMeteoArchiveResponse } from "@/lib/types/api-responses"
+import { CityLocation, ClimateHistory, ClimateHistorySummary, ClimateMonth } from "@/types/agents"
+
+const HISTORY_DAYS = 365
+// The archive's reanalysis trails real time by about five days
+const ARCHIVE_LAG_DAYS = 5
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// IMD declares a heatwave in the plains from a 40°C maximum
+const HEATWAVE_TEMPERATURE = 40
+const HUMID_DAY_HUMIDITY = 80
+const DRY_DAY_HUMIDITY = 30
+
+// Each process re-reads MongoDB daily; the stored history itself is refreshed per the API config
+const MEMORY_TTL = 86400
+
+interface StoredClimateHistory {
+  city: string
+  state: string
+  history: ClimateHistory
+  fetchedAt: Date
+}
+
+interface DailyWeather {
+  date: string
+  maxTemperature: number | null
+  meanHumidity: number | null
+  maxHumidity: number | null
+  minHumidity: number | null
+}
+
+interface DailyAQI {
+  date: string
+  aqi: number
+}
+
+let indexesReady: Promise<unknown> | null = null
+
+async function historyCollection(): Promise<Collection<StoredClimateHistory>> {
+  const client = await clientPromise
+  const histories = client.db("carefund").collection<StoredClimateHistory>("climate_history")
+  indexesReady ??= histories.createIndex({ city: 1, state: 1 }, { unique: true })
+  await indexesReady
+  return histories
+}
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10)
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
+
+const present = (values: (number | null)[]) => values.filter((value): value is number => value !== null)
+
+async function fetchDailyWeather(location: CityLocation, from: string, to: string): Promise<DailyWeather[]> {
+  const config = getAPIConfig("openMeteoArchive")
+  const url = `${config.baseUrl}/archive?latitude=${location.lat}&longitude=${location.lon}&start_date=${from}&end_date=${to}&daily=temperature_2m_max,relative_humidity_2m_mean,relative_humidity_2m_max,relative_humidity_2m_min&timezone=Asia/Kolkata`
+  const { daily } = await fetchWithRetry<OpenMeteoArchiveResponse>(url, { method: "GET" }, config, "Open-Meteo Archive")
+
+  return daily.time.map((date, index) => ({
+    date,
+    maxTemperature: daily.temperature_2m_max[index],
+    meanHumidity: daily.relative_humidity_2m_mean[index],
+    maxHumidity: daily.relative_humidity_2m_max[index],
+    minHumidity: daily.relative_humidity_2m_min[index],
+  }))
+}
+
+/**
+ * Daily mean US AQI from the hourly series; days without readings are left out
+ */
+async function fetchDailyAQI(location: CityLocation, from: string, to: string): Promise<DailyAQI[]> {
+  const config = getAPIConfig("openMeteoAirQuality")
+  const url = `${config.baseUrl}/air-quality?latitude=${location.lat}&longitude=${location.lon}&start_date=${from}&end_date=${to}&hourly=us_aqi&timezone=Asia/Kolkata`
+  const { hourly } = await fetchWithRetry<OpenMeteoAirQualityResponse>(url, { method: "GET" }, config, "Open-Meteo Air Quality")
+
+  const byDay = new Map<string, number[]>()
+  hourly.time.forEach((time, index) => {
+    const value = hourly.us_aqi[index]
+    if (value === null) return
+    const date = time.slice(0, 10)
+    byDay.set(date, [...(byDay.get(date) || []), value])
+  })
+
+  return Array.from(byDay, ([date, values]) => ({ date, aqi: Math.round(mean(values)!) }))
+}
+
+function summariseAQI(days: DailyAQI[]): ClimateHistorySummary["aqi"] {
+  if (days.length === 0) return null
+  return {
+    mean: Math.round(mean(days.map((day) => day.aqi))!),
+    daysAbove150: days.filter((day) => day.aqi > 150).length,
+    daysAbove200: days.filter((day) => day.aqi > 200).length,
+    daysMeasured: days.length,
+  }
+}
+
+function summariseWeather(days: DailyWeather[]): ClimateHistorySummary["weather"] {
+  const maxTemperatures = present(days.map((day) => day.maxTemperature))
+  const meanHumidities = present(days.map((day) => day.meanHumidity))
+  if (maxTemperatures.length === 0 || meanHumidities.length === 0) return null
+
+  return {
+    heatwaveDays: maxTemperatures.filter((temperature) => temperature >= HEATWAVE_TEMPERATURE).length,
+    peakTemperature: round1(Math.max(...maxTemperatures)),
+    meanHumidity: Math.round(mean(meanHumidities)!),
+    humidDays: meanHumidities.filter((humidity) => humidity >= HUMID_DAY_HUMIDITY).length,
+    dryDays: meanHumidities.filter((humidity) => humidity <= DRY_DAY_HUMIDITY).length,
+    maxHumidity: Math.max(...present(days.map((day) => day.maxHumidity)), ...meanHumidities),
+    minHumidity: Math.min(...present(days.map((day) => day.minHumidity)), ...meanHumidities),
+  }
+}
+
+/**
+ * Month-by-month series for the trend charts, oldest first
+ */
+function summariseMonths(weather: DailyWeather[], aqi: DailyAQI[]): ClimateMonth[] {
+  const months = Array.from(new Set([...weather, ...aqi].map((day) => day.date.slice(0, 7)))).sort()
+
+  return months.map((month) => {
+    const monthAQI = aqi.filter((day) => day.date.startsWith(month)).map((day) => day.aqi)
+    const monthWeather = weather.filter((day) => day.date.startsWith(month))
+    const maxTemperatures = present(monthWeather.map((day) => day.maxTemperature))
+    const meanAQI = mean(monthAQI)
+    const meanMaxTemperature = mean(maxTemperatures)
+    const meanHumidity = mean(present(monthWeather.map((day) => day.meanHumidity)))
+
+    return {
+      month,
+      meanAQI: meanAQI === null ? null : Math.round(meanAQI),
+      daysAbove150: monthAQI.filter((value) => value > 150).length,
+      meanMaxTemperature: meanMaxTemperature === null ? null : round1(meanMaxTemperature),
+      heatwaveDays: maxTemperatures.filter((temperature) => temperature >= HEATWAVE_TEMPERATURE).length,
+      meanHumidity: meanHumidity === null ? null : Math.round(meanHumidity),
+    }
+  })
+}
+
+async function fetchClimateHistory(location: CityLocation): Promise<ClimateHistory | null> {
+  const to = new Date(Date.now() - ARCHIVE_LAG_DAYS * DAY_MS)
+  const from = new Date(to.getTime() - (HISTORY_DAYS - 1) * DAY_MS)
+
+  const [weather, aqi] = await Promise.all([
+    fetchDailyWeather(location, isoDate(from), isoDate(to)).catch((error) => {
+      console.error(`[ClimateHistory] Archive fetch failed for ${location.name}:`, error)
+      return [] as DailyWeather[]
+    }),
+    fetchDailyAQI(location, isoDate(from), isoDate(to)).catch((error) => {
+      console.error(`[ClimateHistory] Air quality fetch failed for ${location.name}:`, error)
+      return [] as DailyAQI[]
+    }),
+  ])
+
+  const summary = { aqi: summariseAQI(aqi), weather: summariseWeather(weather) }
+  if (!summary.aqi && !summary.weather) return null
+
+  return {
+    city: location.name,
+    from: isoDate(from),
+    to: isoDate(to),
+    ...summary,
+    monthly: summariseMonths(weather, aqi),
+  }
+}
+
+/**
+ * Twelve-month climate history for a city: from this process's cache, then MongoDB while
+ * the stored copy is fresh, then Open-Meteo. A stale stored copy is still returned when
+ * Open-Meteo is unreachable; null means no history is available at all.
+ */
+export async function getClimateHistory(city: string, state: string = ""): Promise<ClimateHistory | null> {
+  const location = await resolveCity(city, state)
+  if (!location) return null
+
+  const maxAgeMs = getAPIConfig("openMeteoArchive").cacheTTL * 1000
+  const key = { city: location.name, state: location.state }
+
+  return withCache(generateCacheKey("climateHistory", key), MEMORY_TTL, async () => {
+    const startTime = Date.now()
+    let stored: StoredClimateHistory | null = null
+    try {
+      stored = await (await historyCollection()).findOne(key)
+    } catch (error) {
+      console.error("[ClimateHistory] Could not read stored history:", error)
+    }
+
+    if (stored && Date.now() - stored.fetchedAt.getTime() < maxAgeMs) {
+      return stored.history
+    }
+
+    const history = await fetchClimateHistory(location)
+    if (!history) {
+      logAPIMetrics("ClimateHistory", startTime, false, "No archive or air quality data")
+      return stored?.history || null
+    }
+
+    try {
+      await (await historyCollection()).updateOne(key, { $set: { ...key, history, fetchedAt: new Date() } }, { upsert: true })
+    } catch (error) {
+      console.error("[ClimateHistory] Could not store history:", error)
+    }
+
+    logAPIMetrics("ClimateHistory", startTime, true)
+    return history
+  })
+}
+
+/**
+ * The aggregates stored with an analysis, without the monthly series
+ */
+export function climateHistorySummary(history: ClimateHistory): ClimateHistorySummary {
+  const { from, to, aqi, weather } = history
+  return { from, to, aqi, weather }
+}
@@ -1,8 +1,12 @@
-import axios from "axios"
 import { getCityStatistics, calculateCrimeStressImpact } from "@/lib/data/crime-statistics"
 import { getOccupationHazard } from "@/lib/data/occupation-hazards"
-import { fetchAllRealTimeData } from "./real-time-data-fetcher"
+import { canonicalCityName } from "@/lib/data/indian-cities"
+import { fetchAllRealTimeData, trackSource } from "./real-time-data-fetcher"
+import { fetchClimateData } from "./environmental-data"
+import { fetchLocalityData, localityCoverage } from "./locality-data"
+import { climateHistorySummary, getClimateHistory } from "./climate-history"
 import { RealTimeData } from "@/lib/types/api-responses"
+import { ClimateHistory, ClimateHistorySummary, DataQuality, LocalityData, PipelineEmitter, PollutantBreakdown } from "@/types/agents"
 
 export interface CollectedData {
   environmental: {
@@ -13,6 +17,8 @@ export interface CollectedData {
     climateRisk: string
     weatherCondition?: string
     seasonalRisks?: string[]
+    history?: ClimateHistorySummary
+    pollutants?: PollutantBreakdown
     timestamp: string
     source: any
   }
@@ -30,50 +36,32 @@ export interface CollectedData {
   cityStats: any
   realTimeData?: RealTimeData
   healthAlerts?: any[]
-  dataQuality?: {
-    overall: 'excellent' | 'good' | 'fair' | 'poor'
-    sources: number
-    realTimeDataPercentage: number
-  }
+  // Area-level inputs; the environmental AQI is the nearest station's when one was found
+  locality?: LocalityData
+  dataQuality?: DataQuality
 }
 
 /**
- * Fetch environmental data (AQI, weather, climate)
+ * Fetch environmental data (AQI, weather, climate) from the shared environmental data service
  */
-export async function fetchEnvironmentalData(city: string): Promise<CollectedData["environmental"]> {
-  try {
-    // Use the existing environment API
-    const response = await axios.get(`${process.env.NEXTAUTH_URL || "http://localhost:3000"}/api/environment?city=${city}`)
-    
-    const data = response.data
-    
-    // Determine climate risk based on AQI
-    let climateRisk = "Low"
-    if (data.aqi > 200) climateRisk = "Critical"
-    else if (data.aqi > 150) climateRisk = "High"
-    else if (data.aqi > 100) climateRisk = "Moderate"
-    
-    return {
-      city: data.city,
-      aqi: data.aqi,
-      temperature: data.temperature,
-      humidity: data.humidity,
-      climateRisk,
-      timestamp: data.timestamp,
-      source: data.source
-    }
-  } catch (error) {
-    console.error("[DataCollector] Environmental data fetch error:", error)
-    // Return fallback data
-    return {
-      city,
-      aqi: 150,
-      temperature: 30,
-      humidity: 65,
-      climateRisk: "Moderate",
-      timestamp: new Date().toISOString(),
-      source: { weather: "Fallback", aqi: "Estimated" }
-    }
+export async function fetchEnvironmentalData(
+  city: string,
+  area: string = "",
+  state: string = ""
+): Promise<CollectedData["environmental"]> {
+  const climate = await fetchClimateData(city, area, state)
+
+  return {
+    city: climate.city,
+    aqi: climate.aqi,
+    temperature: climate.temperature,
+    humidity: climate.humidity,
+    climateRisk: climate.climateRisk,
+    weatherCondition: climate.weatherCondition,
+    seasonalRisks: climate.seasonalRisks,
+    ...(climate.pollutants && { pollutants: climate.pollutants }),
+    timestamp: climate.timestamp,
+    source: climate.sources
   }
 }
 
@@ -109,7 +97,7 @@ export async function fetchDeathRateData(city: string, age: number): Promise<num
       "Lucknow": 1.05
     }
     
-    const multiplier = cityMultipliers[city] || 1.0
+    const multiplier = cityMultipliers[canonicalCityName(city)] || 1.0
     return Math.round(baseRate * multiplier * 10) / 10
   } catch (error) {
     console.error("[DataCollector] Death rate fetch error:", error)
@@ -118,20 +106,28 @@ export async function fetchDeathRateData(city: string, age: number): Promise<num
 }
 
 /**
- * Calculate city health index
+ * Calculate city health index from the current reading and, when available,
+ * the last 12 months of air quality and heat
  */
 export function calculateCityHealthIndex(
   aqi: number,
   crimeRate: number,
-  temperature: number
+  temperature: number,
+  history?: ClimateHistorySummary | null
 ): number {
   let index = 100
   
-  // AQI impact (0-50 points deduction)
-  if (aqi > 200) index -= 50
-  else if (aqi > 150) index -= 35
-  else if (aqi > 100) index -= 20
-  else if (aqi > 50) index -= 10
+  // AQI impact (0-50 points deduction), from the worse of today's reading and the 12-month mean
+  const exposureAQI = Math.max(aqi, history?.aqi?.mean || 0)
+  if (exposureAQI > 200) index -= 50
+  else if (exposureAQI > 150) index -= 35
+  else if (exposureAQI > 100) index -= 20
+  else if (exposureAQI > 50) index -= 10
+  
+  // Sustained pollution (0-10 points deduction)
+  const pollutedDays = history?.aqi?.daysAbove150 || 0
+  if (pollutedDays > 90) index -= 10
+  else if (pollutedDays > 30) index -= 5
   
   // Crime rate impact (0-30 points deduction)
   if (crimeRate > 1000) index -= 30
@@ -139,26 +135,71 @@ export function calculateCityHealthIndex(
   else if (crimeRate > 300) index -= 10
   else if (crimeRate > 150) index -= 5
   
-  // Temperature extremes (0-20 points deduction)
-  if (temperature > 40 || temperature < 10) index -= 20
-  else if (temperature > 35 || temperature < 15) index -= 10
+  // Temperature extremes (0-20 points deduction), today or across the year's heatwaves
+  const heatwaveDays = history?.weather?.heatwaveDays || 0
+  if (temperature > 40 || temperature < 10 || heatwaveDays > 30) index -= 20
+  else if (temperature > 35 || temperature < 15 || heatwaveDays > 10) index -= 10
   
   return Math.max(index, 0)
 }
 
 /**
- * Collect all data for Agent 1 with enhanced real-time data
+ * Describe where the locality inputs came from, for the pipeline progress line
+ */
+function describeLocality(locality: LocalityData): string {
+  if (!locality.area.trim()) return "No area given, city-level values"
+  const { localMetrics, cityFallbacks } = localityCoverage(locality)
+  return `${localMetrics.length} area-level, ${cityFallbacks.length} city-level`
+}
+
+/**
+ * Describe the climate history for the pipeline progress line
+ */
+function describeHistory(history: ClimateHistory | null): string {
+  if (!history) return "Unavailable, current reading only"
+  const parts = [
+    history.aqi && `mean AQI ${history.aqi.mean}`,
+    history.weather && `${history.weather.heatwaveDays} heatwave days`,
+  ].filter(Boolean)
+  return `Open-Meteo, ${history.from} to ${history.to} (${parts.join(", ")})`
+}
+
+/**
+ * Collect all data for Agent 1 with enhanced real-time data.
+ * `area` adds locality-level inputs; without one every input stays city-level.
+ * `state` is the profile city's state, which tells same-name cities apart.
  */
 export async function collectAllData(
   city: string,
   occupation: string,
-  age: number
+  age: number,
+  area: string = "",
+  state: string = "",
+  emit?: PipelineEmitter
 ): Promise<CollectedData> {
   try {
     console.log(`[DataCollector] Starting enhanced data collection for ${city}, ${occupation}, age ${age}`)
     
-    // Fetch comprehensive real-time data
-    const realTimeData = await fetchAllRealTimeData(city, occupation, age)
+    // Fetch comprehensive real-time data alongside the area-level inputs
+    const [realTimeData, areaData, climateHistory] = await Promise.all([
+      fetchAllRealTimeData(city, occupation, age, area, state, emit),
+      trackSource('locality', () => fetchLocalityData(city, area, state), describeLocality, emit),
+      trackSource('climateHistory', () => getClimateHistory(city, state), describeHistory, emit)
+    ])
+    const history = climateHistory ? climateHistorySummary(climateHistory) : undefined
+
+    const climate = realTimeData.climate
+
+    // Without a nearby station the area's AQI is the city feed's
+    const locality: LocalityData = {
+      ...areaData,
+      aqi: areaData.aqi || {
+        value: climate.aqi,
+        station: `${climate.city} city feed`,
+        scope: "city",
+        ...(climate.pollutants && { pollutants: climate.pollutants })
+      }
+    }
     
     // Get city statistics (local data as backup)
     const cityStats = getCityStatistics(city)
@@ -166,24 +207,27 @@ export async function collectAllData(
     // Get occupation hazard data (local data as backup)
     const occupationHazard = getOccupationHazard(occupation)
     
-    // Merge real-time climate data with environmental data
+    // The shared service has already preferred the area's station for AQI, as /api/environment does
     const environmental = {
-      city: realTimeData.climate.city,
-      aqi: realTimeData.climate.aqi,
-      temperature: realTimeData.climate.temperature,
-      humidity: realTimeData.climate.humidity,
-      climateRisk: realTimeData.climate.climateRisk,
-      weatherCondition: realTimeData.climate.weatherCondition,
-      seasonalRisks: realTimeData.climate.seasonalRisks,
-      timestamp: realTimeData.climate.timestamp,
-      source: realTimeData.climate.sources
+      city: climate.city,
+      aqi: climate.aqi,
+      temperature: climate.temperature,
+      humidity: climate.humidity,
+      climateRisk: climate.climateRisk,
+      weatherCondition: climate.weatherCondition,
+      seasonalRisks: climate.seasonalRisks,
+      ...(history && { history }),
+      pollutants: climate.pollutants,
+      timestamp: climate.timestamp,
+      source: climate.sources
     }
     
-    // Calculate city health index with real-time data
+    // The city health index stays a city-wide measure
     const cityHealthIndex = calculateCityHealthIndex(
-      environmental.aqi,
+      climate.station?.cityAqi ?? climate.aqi,
       realTimeData.crime.crimeRate,
-      environmental.temperature
+      environmental.temperature,
+      history
     )
     
     // Compile enhanced statistical data
@@ -198,7 +242,11 @@ export async function collectAllData(
       cityHealthIndex
     }
     
+    const coverage = localityCoverage(locality)
     console.log(`[DataCollector] Data collection complete. Quality: ${realTimeData.dataQuality.overall}`)
+    if (coverage.cityFallbacks.length > 0) {
+      console.log(`[DataCollector] City-level values used for: ${coverage.cityFallbacks.join(", ")}`)
+    }
     
     return {
       environmental,
@@ -207,14 +255,15 @@ export async function collectAllData(
       cityStats,
       realTimeData,
       healthAlerts: realTimeData.healthAlerts,
-      dataQuality: realTimeData.dataQuality
+      locality,
+      dataQuality: { ...realTimeData.dataQuality, locality: coverage }
     }
   } catch (error) {
     console.error("[DataCollector] Error collecting data:", error)
     
     // Fallback to basic data collection
     console.log("[DataCollector] Falling back to basic data collection")
-    return await collectBasicData(city, occupation, age)
+    return await collectBasicData(city, occupation, age, area, state)
   }
 }
 
@@ -224,11 +273,13 @@ export async function collectAllData(
 async function collectBasicData(
   city: string,
   occupation: string,
-  age: number
+  age: number,
+  area: string = "",
+  state: string = ""
 ): Promise<CollectedData> {
   try {
     // Fetch environmental data
-    const environmental = await fetchEnvironmentalData(city)
+    const environmental = await fetchEnvironmentalData(city, area, state)
     
     // Get city statistics
     const cityStats = getCityStatistics(city)
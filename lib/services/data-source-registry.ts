@@ -0,0 +1,246 @@
+/**
+ * Data Source Registry
+ * The external providers in API_CONFIGS with the names their calls are recorded under,
+ * so admins can see which are configured, reachable or failing and probe one on demand.
+ */
+
+import { API_CONFIGS, getAPIConfig, getAPIKeys, isAPIKeyConfigured } from "@/lib/config/api-config"
+import { aqicnProblem } from "@/lib/services/environmental-data"
+import { APIMetricRecord, fetchWithRetry, getAPIMetrics, parseErrorMessage } from "@/lib/utils/api-helpers"
+import { ProviderHealth, ProviderProbeResult, ProviderStatus } from "@/types/agents"
+
+export type ProviderId = keyof typeof API_CONFIGS
+
+type APIKeyName = keyof ReturnType<typeof getAPIKeys>
+
+interface ProviderProbe {
+  // Cheapest request that shows the provider answers, relative to its base URL
+  path: (keys: ReturnType<typeof getAPIKeys>) => string
+  // Problem reported in a successful HTTP response, null when the body looks right
+  check?: (body: any) => string | null
+}
+
+interface ProviderDefinition {
+  id: ProviderId
+  label: string
+  usedFor: string
+  apiKey?: APIKeyName
+  // apiName values passed to fetchWithRetry for this provider; the first is used by probes
+  metricNames: string[]
+  probe?: ProviderProbe
+}
+
+// Share of calls that may fail before a provider that is otherwise working counts as degraded
+const DEGRADED_FAILURE_RATE = 0.2
+
+// Probes ask about New Delhi
+const PROBE_LAT = 28.61
+const PROBE_LON = 77.21
+
+const PROBE_ARCHIVE_LAG_DAYS = 10
+
+function probeArchiveDate(): string {
+  return new Date(Date.now() - PROBE_ARCHIVE_LAG_DAYS * 86400000).toISOString().slice(0, 10)
+}
+
+const PROVIDERS: ProviderDefinition[] = [
+  {
+    id: "openMeteo",
+    label: "Open-Meteo",
+    usedFor: "Current weather and the 7-day forecast",
+    metricNames: ["Open-Meteo", "Open-Meteo Forecast"],
+    probe: { path: () => `/forecast?latitude=${PROBE_LAT}&longitude=${PROBE_LON}&current=temperature_2m` },
+  },
+  {
+    id: "openMeteoArchive",
+    label: "Open-Meteo Archive",
+    usedFor: "12-month weather history",
+    metricNames: ["Open-Meteo Archive"],
+    probe: {
+      path: () => {
+        const date = probeArchiveDate()
+        return `/archive?latitude=${PROBE_LAT}&longitude=${PROBE_LON}&start_date=${date}&end_date=${date}&daily=temperature_2m_max`
+      },
+    },
+  },
+  {
+    id: "openMeteoAirQuality",
+    label: "Open-Meteo Air Quality",
+    usedFor: "Air quality history and particulate forecast",
+    metricNames: ["Open-Meteo Air Quality", "Open-Meteo Air Quality Forecast"],
+    probe: { path: () => `/air-quality?latitude=${PROBE_LAT}&longitude=${PROBE_LON}&current=us_aqi` },
+  },
+  {
+    id: "openWeatherMap",
+    label: "OpenWeatherMap",
+    usedFor: "Current weather condition",
+    apiKey: "openWeatherMap",
+    metricNames: ["OpenWeatherMap"],
+    probe: { path: (keys) => `/weather?lat=${PROBE_LAT}&lon=${PROBE_LON}&appid=${keys.openWeatherMap}` },
+  },
+  {
+    id: "openMeteoGeocoding",
+    label: "Open-Meteo Geocoding",
+    usedFor: "Resolving cities outside the seeded registry",
+    metricNames: ["Open-Meteo Geocoding"],
+    probe: { path: () => "/search?name=Delhi&count=1" },
+  },
+  {
+    id: "indiaPost",
+    label: "India Post",
+    usedFor: "Resolving pincodes",
+    metricNames: ["India Post"],
+    probe: { path: () => "/pincode/110001" },
+  },
+  {
+    id: "aqicn",
+    label: "AQICN",
+    usedFor: "Current AQI, pollutant breakdown and locality stations",
+    apiKey: "aqicn",
+    metricNames: ["AQICN", "AQICN Geo"],
+    probe: {
+      path: (keys) => `/feed/delhi/?token=${keys.aqicn}`,
+      check: aqicnProblem,
+    },
+  },
+  {
+    id: "overpass",
+    label: "Overpass (OpenStreetMap)",
+    usedFor: "Nearest hospital to the locality",
+    metricNames: ["Overpass"],
+    probe: { path: () => `/interpreter?data=${encodeURIComponent("[out:json];node(1);out;")}` },
+  },
+  {
+    id: "worldBank",
+    label: "World Bank",
+    usedFor: "National health statistics",
+    metricNames: ["WorldBank"],
+    probe: { path: () => "/country/IND?format=json" },
+  },
+  {
+    id: "newsApi",
+    label: "NewsAPI",
+    usedFor: "Health alerts",
+    apiKey: "newsApi",
+    metricNames: ["NewsAPI"],
+    probe: { path: (keys) => `/top-headlines?country=in&pageSize=1&apiKey=${keys.newsApi}` },
+  },
+  {
+    // Configured but not called anywhere yet, so there is nothing meaningful to probe
+    id: "dataGovIn",
+    label: "data.gov.in",
+    usedFor: "Not used yet",
+    apiKey: "dataGovIn",
+    metricNames: [],
+  },
+]
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === "string" && PROVIDERS.some((provider) => provider.id === value)
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]
+}
+
+function mergeMetrics(names: string[]): APIMetricRecord {
+  const merged: APIMetricRecord = { calls: 0, failures: 0, recentDurations: [], lastSuccess: null, lastError: null }
+
+  for (const name of names) {
+    const record = getAPIMetrics(name)
+    if (!record) continue
+
+    merged.calls += record.calls
+    merged.failures += record.failures
+    merged.recentDurations.push(...record.recentDurations)
+    // ISO timestamps compare chronologically as strings
+    if (record.lastSuccess && (!merged.lastSuccess || record.lastSuccess > merged.lastSuccess)) {
+      merged.lastSuccess = record.lastSuccess
+    }
+    if (record.lastError && (!merged.lastError || record.lastError.at > merged.lastError.at)) {
+      merged.lastError = record.lastError
+    }
+  }
+
+  return merged
+}
+
+function statusFor(configured: boolean, metrics: APIMetricRecord): ProviderStatus {
+  if (!configured) return "unconfigured"
+  if (metrics.calls === 0) return "idle"
+  if (metrics.lastError && (!metrics.lastSuccess || metrics.lastError.at > metrics.lastSuccess)) return "failing"
+  if (metrics.failures / metrics.calls >= DEGRADED_FAILURE_RATE) return "degraded"
+  return "healthy"
+}
+
+function isConfigured(provider: ProviderDefinition): boolean {
+  return !provider.apiKey || isAPIKeyConfigured(provider.apiKey)
+}
+
+function healthOf(provider: ProviderDefinition): ProviderHealth {
+  const configured = isConfigured(provider)
+  const metrics = mergeMetrics(provider.metricNames)
+  const sorted = [...metrics.recentDurations].sort((a, b) => a - b)
+
+  return {
+    id: provider.id,
+    label: provider.label,
+    usedFor: provider.usedFor,
+    baseUrl: getAPIConfig(provider.id).baseUrl,
+    configured,
+    probeable: !!provider.probe && configured,
+    status: statusFor(configured, metrics),
+    calls: metrics.calls,
+    failures: metrics.failures,
+    lastSuccess: metrics.lastSuccess,
+    lastError: metrics.lastError,
+    latencyMs: sorted.length
+      ? { p50: percentile(sorted, 50), p95: percentile(sorted, 95), p99: percentile(sorted, 99) }
+      : null,
+  }
+}
+
+/**
+ * Health of every registered provider from the calls this server process has made
+ */
+export function getDataSourceHealth(): ProviderHealth[] {
+  return PROVIDERS.map(healthOf)
+}
+
+/**
+ * Make one request to a provider without retries. The result is recorded like any
+ * other call, so it shows up in the provider's health afterwards.
+ */
+export async function probeDataSource(id: ProviderId): Promise<ProviderProbeResult> {
+  const provider = PROVIDERS.find((entry) => entry.id === id)!
+  const startTime = Date.now()
+
+  if (!provider.probe) {
+    return { ok: false, latencyMs: 0, error: `${provider.label} has no probe` }
+  }
+
+  if (!isConfigured(provider)) {
+    return { ok: false, latencyMs: 0, error: `${provider.label} API key is not configured` }
+  }
+
+  const config = getAPIConfig(provider.id)
+  const apiName = provider.metricNames[0]
+
+  try {
+    await fetchWithRetry<unknown>(
+      `${config.baseUrl}${provider.probe.path(getAPIKeys())}`,
+      { method: "GET" },
+      { ...config, retryAttempts: 0 },
+      apiName,
+      provider.probe.check
+    )
+
+    return { ok: true, latencyMs: Date.now() - startTime }
+  } catch (error) {
+    console.error(`[DataSourceRegistry] Probe of ${provider.label} failed:`, error)
+    return { ok: false, latencyMs: Date.now() - startTime, error: parseErrorMessage(error) }
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Environmental Data Service
+ * Current weather and AQI for a city and, given the profile's area, the monitoring
+ * station nearest to it. `/api/environment`, the analysis pipeline and its
+ * basic-collection fallback all read the present conditions from here, so the report
+ * page and the analysis always show the same numbers.
+ */
+
+import { getAPIConfig, getAPIKeys, isAPIKeyConfigured } from "@/lib/config/api-config"
+import { canonicalCityName } from "@/lib/data/indian-cities"
+import { generateCacheKey, withCache } from "@/lib/services/cache-service"
+import { resolveCity, resolveLocality } from "@/lib/services/city-registry"
+import { fetchWithRetry, logAPIMetrics } from "@/lib/utils/api-helpers"
+import { distanceKm } from "@/lib/utils/geo"
+import { parsePollutants } from "@/lib/utils/pollutants"
+import { AQICNResponse, ClimateData, OpenMeteoCurrentResponse, OpenWeatherMapResponse } from "@/lib/types/api-responses"
+import { CityLocation, LocalityData, PollutantBreakdown } from "@/types/agents"
+
+// Historical average AQI, used when AQICN is not configured or has no reading
+const ESTIMATED_AQI: Record<string, number> = {
+  Mumbai: 165,
+  Delhi: 220,
+  Bangalore: 95,
+  Hyderabad: 130,
+  Chennai: 140,
+  Kolkata: 180,
+  Pune: 110,
+  Ahmedabad: 150,
+  Jaipur: 160,
+  Lucknow: 190,
+}
+const DEFAULT_ESTIMATED_AQI = 150
+
+const ESTIMATED_AQI_SOURCE = "Estimated (Historical Average)"
+
+// A station further away than this does not represent the area's air
+const MAX_STATION_DISTANCE_KM = 10
+
+interface StationReading {
+  aqi: number
+  pollutants?: PollutantBreakdown
+}
+
+/**
+ * Historical average AQI for a city, 150 for cities without one
+ */
+export function estimatedAQI(city: string): number {
+  return ESTIMATED_AQI[canonicalCityName(city)] || DEFAULT_ESTIMATED_AQI
+}
+
+/**
+ * Climate risk band for an AQI reading
+ */
+export function climateRiskFor(aqi: number): ClimateData["climateRisk"] {
+  if (aqi > 200) return "Critical"
+  if (aqi > 150) return "High"
+  if (aqi > 100) return "Moderate"
+  return "Low"
+}
+
+/**
+ * Problem in an AQICN reply, null when it is usable. A bad or expired token still gets
+ * HTTP 200 with status "error"; "Unknown station" only means the feed has no station.
+ */
+export function aqicnProblem(response: AQICNResponse): string | null {
+  if (response?.status === "ok") return null
+  const message = String(response?.data || "unknown error")
+  return message === "Unknown station" ? null : `AQICN replied: ${message}`
+}
+
+async function fetchAQICNFeed(feed: string, apiName: string): Promise<StationReading | null> {
+  const config = getAPIConfig("aqicn")
+  const response = await fetchWithRetry<AQICNResponse>(
+    `${config.baseUrl}/feed/${feed}/?token=${getAPIKeys().aqicn}`,
+    { method: "GET" },
+    config,
+    apiName,
+    aqicnProblem
+  )
+
+  // Stations without a current reading report "-" instead of a number
+  const aqi = Number(response.data?.aqi)
+  if (response.status !== "ok" || !(aqi > 0)) return null
+  return { aqi, pollutants: parsePollutants(response.data) }
+}
+
+/**
+ * AQI from the city's AQICN feed, falling back to the station nearest the city centre
+ */
+async function fetchStationReading(location: CityLocation): Promise<StationReading | null> {
+  if (!isAPIKeyConfigured("aqicn")) return null
+
+  try {
+    return (
+      (await fetchAQICNFeed(encodeURIComponent(location.name.toLowerCase()), "AQICN")) ||
+      (await fetchAQICNFeed(`geo:${location.lat};${location.lon}`, "AQICN Geo"))
+    )
+  } catch (error) {
+    console.error(`[EnvironmentalData] AQICN fetch failed for ${location.name}, using estimate:`, error)
+    return null
+  }
+}
+
+/**
+ * AQI at the monitoring station nearest to a point, if it is close enough to count
+ */
+export async function fetchNearestStation(point: CityLocation): Promise<LocalityData["aqi"]> {
+  if (!isAPIKeyConfigured("aqicn")) return null
+
+  const config = getAPIConfig("aqicn")
+  const cacheKey = generateCacheKey("nearestStation", { lat: point.lat, lon: point.lon })
+
+  try {
+    return await withCache(cacheKey, config.cacheTTL, async () => {
+      const url = `${config.baseUrl}/feed/geo:${point.lat};${point.lon}/?token=${getAPIKeys().aqicn}`
+      const response = await fetchWithRetry<AQICNResponse>(url, { method: "GET" }, config, "AQICN Geo", aqicnProblem)
+
+      // Stations without a current reading report "-" instead of a number
+      const aqi = Number(response.data?.aqi)
+      if (response.status !== "ok" || !(aqi > 0)) return null
+
+      const [lat, lon] = response.data.city.geo
+      const distance = distanceKm(point, { lat, lon })
+      if (distance > MAX_STATION_DISTANCE_KM) return null
+
+      const pollutants = parsePollutants(response.data)
+      return {
+        value: aqi,
+        station: response.data.city.name,
+        distanceKm: distance,
+        scope: "locality" as const,
+        ...(pollutants && { pollutants }),
+      }
+    })
+  } catch (error) {
+    console.error(`[EnvironmentalData] Nearest station lookup failed for ${point.name}:`, error)
+    return null
+  }
+}
+
+/**
+ * The station reading for the profile's area, null without an area or a station near it
+ */
+async function fetchAreaStation(location: CityLocation, area: string): Promise<LocalityData["aqi"]> {
+  if (!area.trim()) return null
+  const point = await resolveLocality(area, location)
+  return point ? fetchNearestStation(point) : null
+}
+
+async function fetchWeatherCondition(location: CityLocation): Promise<string> {
+  if (!isAPIKeyConfigured("openWeatherMap")) return "Clear"
+
+  try {
+    const config = getAPIConfig("openWeatherMap")
+    const response = await fetchWithRetry<OpenWeatherMapResponse>(
+      `${config.baseUrl}/weather?lat=${location.lat}&lon=${location.lon}&appid=${getAPIKeys().openWeatherMap}&units=metric`,
+      { method: "GET" },
+      config,
+      "OpenWeatherMap"
+    )
+    return response.weather[0]?.main || "Clear"
+  } catch (error) {
+    console.error("[EnvironmentalData] OpenWeatherMap fetch failed")
+    return "Clear"
+  }
+}
+
+function seasonalRisksFor(temperature: number, humidity: number, aqi: number): string[] {
+  const risks: string[] = []
+  if (temperature > 40) risks.push("Extreme heat warning")
+  else if (temperature > 35) risks.push("Heat stress risk")
+
+  if (aqi > 150) risks.push("Poor air quality - respiratory risks")
+  if (humidity > 80) risks.push("High humidity - heat exhaustion risk")
+  return risks
+}
+
+/**
+ * Current weather, AQI and pollutant breakdown for a city, within `state` when the
+ * profile has one. With an area, the AQI and
+ * breakdown come from the station nearest to it when one is within 10 km. Falls back to
+ * the estimated AQI when AQICN has no reading, and to estimates throughout when the
+ * weather is unavailable.
+ */
+export async function fetchClimateData(city: string, area: string = "", state: string = ""): Promise<ClimateData> {
+  const climate = await fetchCityClimate(city, state)
+  if (!area.trim()) return climate
+
+  const location = await resolveCity(climate.city, state)
+  const station = location && (await fetchAreaStation(location, area))
+  if (!station) return climate
+
+  return {
+    ...climate,
+    aqi: station.value,
+    climateRisk: climateRiskFor(station.value),
+    seasonalRisks: seasonalRisksFor(climate.temperature, climate.humidity, station.value),
+    // The breakdown always describes the station the AQI came from
+    pollutants: station.pollutants,
+    station: { name: station.station, distanceKm: station.distanceKm!, cityAqi: climate.aqi },
+    sources: { ...climate.sources, aqi: `AQICN station ${station.station}, ${station.distanceKm} km away (Real-time)` },
+  }
+}
+
+async function fetchCityClimate(city: string, state: string): Promise<ClimateData> {
+  const startTime = Date.now()
+  const weatherConfig = getAPIConfig("openMeteo")
+
+  try {
+    const location = await resolveCity(city, state)
+    if (!location) {
+      throw new Error(`Unknown city: ${city}`)
+    }
+
+    // Keyed by the resolved name so "Bombay" and "Mumbai" share a reading
+    const cacheKey = generateCacheKey("climate", { city: location.name, state: location.state })
+    return await withCache(cacheKey, weatherConfig.cacheTTL, async () => {
+      const [weather, station, weatherCondition] = await Promise.all([
+        fetchWithRetry<OpenMeteoCurrentResponse>(
+          `${weatherConfig.baseUrl}/forecast?latitude=${location.lat}&longitude=${location.lon}&current=temperature_2m,relative_humidity_2m,weather_code&timezone=Asia/Kolkata`,
+          { method: "GET" },
+          weatherConfig,
+          "Open-Meteo"
+        ),
+        fetchStationReading(location),
+        fetchWeatherCondition(location),
+      ])
+
+      const aqi = station?.aqi || estimatedAQI(location.name)
+      const temperature = Math.round(weather.current.temperature_2m)
+      const humidity = weather.current.relative_humidity_2m
+
+      const result: ClimateData = {
+        city: location.name,
+        temperature,
+        humidity,
+        aqi,
+        weatherCondition,
+        climateRisk: climateRiskFor(aqi),
+        seasonalRisks: seasonalRisksFor(temperature, humidity, aqi),
+        ...(station?.pollutants && { pollutants: station.pollutants }),
+        timestamp: new Date().toISOString(),
+        sources: {
+          weather: "Open-Meteo (Real-time)",
+          aqi: station ? "AQICN (Real-time)" : ESTIMATED_AQI_SOURCE,
+        },
+      }
+
+      logAPIMetrics("ClimateData", startTime, true)
+      return result
+    })
+  } catch (error) {
+    console.error(`[EnvironmentalData] Climate data unavailable for ${city}:`, error)
+    logAPIMetrics("ClimateData", startTime, false, error instanceof Error ? error.message : "Unknown error")
+
+    const aqi = estimatedAQI(city)
+    return {
+      city,
+      temperature: 30,
+      humidity: 65,
+      aqi,
+      weatherCondition: "Clear",
+      climateRisk: climateRiskFor(aqi),
+      seasonalRisks: ["Data temporarily unavailable"],
+      timestamp: new Date().toISOString(),
+      sources: {
+        weather: "Fallback estimate",
+        aqi: ESTIMATED_AQI_SOURCE,
+      },
+    }
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Environmental Forecast Service
+ * Seven days of Open-Meteo weather and air quality forecasts, scored against the hours a
+ * profile actually spends outside so each day comes with an exposure level and precautions.
+ */
+
+import { getAPIConfig } from "@/lib/config/api-config"
+import { COMMUTE_HOURS, DEFAULT_SHIFT, OUTDOOR_OCCUPATIONS, SHIFT_WINDOWS } from "@/lib/data/exposure-schedules"
+import { generateCacheKey, withCache } from "@/lib/services/cache-service"
+import { resolveCity } from "@/lib/services/city-registry"
+import { fetchWithRetry, logAPIMetrics } from "@/lib/utils/api-helpers"
+import { OpenMeteoForecastResponse, OpenMeteoParticulateResponse } from "@/lib/types/api-responses"
+import {
+  CityLocation,
+  EnvironmentalForecast,
+  ExposureLevel,
+  ExposurePattern,
+  ForecastDay,
+  ForecastHazard,
+} from "@/types/agents"
+
+const FORECAST_DAYS = 7
+
+const LEVELS: ExposureLevel[] = ["low", "moderate", "high", "severe"]
+
+// Lower bounds of moderate, high and severe. PM bands follow India's NAQI (poor, very poor,
+// severe), UV the WHO index (high, very high, extreme) and heat IMD's 40°C heatwave mark.
+const THRESHOLDS: Record<ForecastHazard, [number, number, number]> = {
+  heat: [33, 37, 40],
+  pm25: [61, 121, 251],
+  pm10: [101, 251, 431],
+  uv: [6, 8, 11],
+}
+
+// Humid air slows cooling by sweat; score such hours as if they were this much hotter
+const HUMID_HOUR_HUMIDITY = 70
+const HUMID_HEAT_PENALTY = 3
+
+const PRECAUTIONS: Record<ForecastHazard, Record<Exclude<ExposureLevel, "low">, string>> = {
+  heat: {
+    moderate: "Carry water and avoid heavy exertion in the afternoon",
+    high: "Take shaded breaks every hour and drink water every 20 minutes",
+    severe: "Heatwave conditions: reschedule outdoor work away from 12–4 pm if you can",
+  },
+  pm25: {
+    moderate: "Sensitive groups should limit time outdoors",
+    high: "Wear an N95 mask outdoors and keep windows closed",
+    severe: "Severe air: wear an N95 mask and keep time outdoors to a minimum",
+  },
+  pm10: {
+    moderate: "Dusty air: cover your nose and mouth outdoors",
+    high: "Wear a mask against dust and rinse your eyes after work",
+    severe: "Very heavy dust: avoid outdoor exertion and wear a well-fitted mask",
+  },
+  uv: {
+    moderate: "Use sunscreen if you are outside around midday",
+    high: "Wear a cap, sunglasses and sunscreen between 10 am and 4 pm",
+    severe: "Extreme UV: cover up and stay in shade around midday",
+  },
+}
+
+interface HourlyConditions {
+  temperature: number | null
+  humidity: number | null
+  uv: number | null
+  pm25: number | null
+  pm10: number | null
+}
+
+interface ForecastData {
+  hourly: Record<string, HourlyConditions>
+  daily: Pick<ForecastDay, "date" | "temperatureMax" | "temperatureMin" | "uvIndexMax">[]
+}
+
+const present = (values: (number | null | undefined)[]) =>
+  values.filter((value): value is number => value !== null && value !== undefined)
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
+
+const max = (values: number[]) => (values.length > 0 ? Math.max(...values) : null)
+
+const round = (value: number | null) => (value === null ? null : Math.round(value))
+
+function levelFor(hazard: ForecastHazard, value: number): ExposureLevel {
+  const [moderate, high, severe] = THRESHOLDS[hazard]
+  if (value >= severe) return "severe"
+  if (value >= high) return "high"
+  if (value >= moderate) return "moderate"
+  return "low"
+}
+
+// "2026-10-19" plus 27 hours → "2026-10-20T03:00", matching Open-Meteo's local timestamps
+function hourKey(date: string, hour: number): string {
+  return new Date(Date.parse(`${date}T00:00Z`) + hour * 3600 * 1000).toISOString().slice(0, 13) + ":00"
+}
+
+/**
+ * Outdoor hours for an occupation and shift. Unknown shifts are treated as day shifts.
+ */
+export function exposurePattern(occupation: string, workShift: string): ExposurePattern {
+  const shift = workShift.replace(/\s*Shift$/i, "")
+  const windows = SHIFT_WINDOWS[shift] || SHIFT_WINDOWS[DEFAULT_SHIFT]
+  const outdoorWork = OUTDOOR_OCCUPATIONS.includes(occupation)
+
+  const hours = new Set<number>()
+  windows.forEach(({ startHour, hours: length }) => {
+    for (let hour = startHour - COMMUTE_HOURS; hour < startHour + length + COMMUTE_HOURS; hour++) {
+      const commuting = hour < startHour || hour >= startHour + length
+      if (outdoorWork || commuting) hours.add(hour)
+    }
+  })
+
+  const shiftName = SHIFT_WINDOWS[shift] ? shift.toLowerCase() : DEFAULT_SHIFT.toLowerCase()
+  return {
+    occupation,
+    workShift: SHIFT_WINDOWS[shift] ? shift : DEFAULT_SHIFT,
+    outdoorWork,
+    hours: Array.from(hours).sort((a, b) => a - b),
+    description: outdoorWork
+      ? `Outdoors for the whole ${shiftName} shift and the commute`
+      : `Outdoors for the commute either side of a ${shiftName} shift`,
+  }
+}
+
+async function fetchForecastData(location: CityLocation): Promise<ForecastData> {
+  const weatherConfig = getAPIConfig("openMeteo")
+  const airConfig = getAPIConfig("openMeteoAirQuality")
+  const place = `latitude=${location.lat}&longitude=${location.lon}&forecast_days=${FORECAST_DAYS}&timezone=Asia/Kolkata`
+
+  const [weather, air] = await Promise.all([
+    fetchWithRetry<OpenMeteoForecastResponse>(
+      `${weatherConfig.baseUrl}/forecast?${place}&hourly=temperature_2m,relative_humidity_2m,uv_index&daily=temperature_2m_max,temperature_2m_min,uv_index_max`,
+      { method: "GET" },
+      weatherConfig,
+      "Open-Meteo Forecast"
+    ),
+    // Particulates are optional; the weather alone still gives heat and UV
+    fetchWithRetry<OpenMeteoParticulateResponse>(
+      `${airConfig.baseUrl}/air-quality?${place}&hourly=pm2_5,pm10`,
+      { method: "GET" },
+      airConfig,
+      "Open-Meteo Air Quality Forecast"
+    ).catch((error) => {
+      console.error(`[Forecast] Air quality forecast failed for ${location.name}:`, error)
+      return null
+    }),
+  ])
+
+  const hourly: Record<string, HourlyConditions> = {}
+  weather.hourly.time.forEach((time, index) => {
+    hourly[time] = {
+      temperature: weather.hourly.temperature_2m[index],
+      humidity: weather.hourly.relative_humidity_2m[index],
+      uv: weather.hourly.uv_index[index],
+      pm25: null,
+      pm10: null,
+    }
+  })
+  air?.hourly.time.forEach((time, index) => {
+    if (!hourly[time]) return
+    hourly[time].pm25 = air.hourly.pm2_5[index]
+    hourly[time].pm10 = air.hourly.pm10[index]
+  })
+
+  return {
+    hourly,
+    daily: weather.daily.time.map((date, index) => ({
+      date,
+      temperatureMax: weather.daily.temperature_2m_max[index],
+      temperatureMin: weather.daily.temperature_2m_min[index],
+      uvIndexMax: weather.daily.uv_index_max[index],
+    })),
+  }
+}
+
+/**
+ * Score one day: heat and UV by their worst exposed hour, particulates by the mean over
+ * the exposed hours. Commute-only exposure is brief, so it counts one level lower.
+ */
+function scoreDay(day: ForecastData["daily"][number], data: ForecastData, pattern: ExposurePattern): ForecastDay {
+  const dayHours = Array.from({ length: 24 }, (_, hour) => data.hourly[hourKey(day.date, hour)]).filter(Boolean)
+  const exposed = pattern.hours.map((hour) => data.hourly[hourKey(day.date, hour)]).filter(Boolean)
+
+  const heat = exposed.map((hour) =>
+    hour.temperature === null
+      ? null
+      : hour.temperature + ((hour.humidity ?? 0) >= HUMID_HOUR_HUMIDITY ? HUMID_HEAT_PENALTY : 0)
+  )
+  const values: Record<ForecastHazard, number | null> = {
+    heat: max(present(heat)),
+    pm25: mean(present(exposed.map((hour) => hour.pm25))),
+    pm10: mean(present(exposed.map((hour) => hour.pm10))),
+    uv: max(present(exposed.map((hour) => hour.uv))),
+  }
+
+  const hazards = (Object.keys(values) as ForecastHazard[])
+    .filter((hazard) => values[hazard] !== null)
+    .map((hazard) => {
+      const level = levelFor(hazard, values[hazard]!)
+      const adjusted = pattern.outdoorWork ? level : LEVELS[Math.max(0, LEVELS.indexOf(level) - 1)]
+      return { hazard, level: adjusted, value: Math.round(values[hazard]! * 10) / 10 }
+    })
+    .filter((entry) => entry.level !== "low")
+    .sort((a, b) => LEVELS.indexOf(b.level) - LEVELS.indexOf(a.level))
+
+  return {
+    ...day,
+    meanHumidity: round(mean(present(dayHours.map((hour) => hour.humidity)))),
+    pm25: round(mean(present(dayHours.map((hour) => hour.pm25)))),
+    pm10: round(mean(present(dayHours.map((hour) => hour.pm10)))),
+    exposure: {
+      level: hazards[0]?.level || "low",
+      hours: exposed.length,
+      hazards,
+    },
+    precautions: hazards.map(({ hazard, level }) => PRECAUTIONS[hazard][level as Exclude<ExposureLevel, "low">]),
+  }
+}
+
+/**
+ * Seven-day forecast for a city with each day scored for the given occupation and shift.
+ * Null when the city is unknown or the weather forecast could not be fetched.
+ */
+export async function getEnvironmentalForecast(
+  city: string,
+  occupation: string,
+  workShift: string,
+  state: string = ""
+): Promise<EnvironmentalForecast | null> {
+  const location = await resolveCity(city, state)
+  if (!location) return null
+
+  const startTime = Date.now()
+  try {
+    const data = await withCache(
+      generateCacheKey("forecast", { lat: location.lat, lon: location.lon }),
+      getAPIConfig("openMeteo").cacheTTL,
+      () => fetchForecastData(location)
+    )
+    const pattern = exposurePattern(occupation, workShift)
+
+    logAPIMetrics("Forecast", startTime, true)
+    return {
+      city: location.name,
+      pattern,
+      days: data.daily.map((day) => scoreDay(day, data, pattern)),
+      generatedAt: new Date().toISOString(),
+    }
+  } catch (error) {
+    console.error(`[Forecast] Forecast failed for ${location.name}:`, error)
+    logAPIMetrics("Forecast", startTime, false, error instanceof Error ? error.message : "Unknown error")
+    return null
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  FamilyCoverage,
+  FinancialInsights,
+  FinancialTip,
+  InsurancePlan,
+  PreventionStep,
+  RiskFactor,
+  RiskInsights,
+} from "@/types/agents"
+
+/**
+ * Deterministic content used when no LLM provider is configured or the model keeps
+ * returning output that fails validation. The mock provider answers with it too.
+ */
+
+export function fallbackRiskInsights(riskFactors: RiskFactor[], riskScore: number, riskLevel: string): RiskInsights {
+  const elevated = riskFactors.filter((factor) => factor.level === "high" || factor.level === "critical")
+
+  return {
+    summary: `Risk analysis based on statistical data and expert guidelines. Your overall risk score is ${riskScore}/100 (${riskLevel} risk)${
+      elevated.length > 0 ? `, driven mainly by ${elevated.map((factor) => factor.category.toLowerCase()).join(", ")}` : ""
+    }.`,
+    factorCommentary: riskFactors.map((factor) => ({
+      category: factor.category,
+      commentary: `${factor.description} This factor is rated ${factor.level} and adds about ${factor.impact} points to your score.`,
+    })),
+    outlook:
+      riskLevel === "low"
+        ? "Your current risk is low. Keep up regular check-ups and preventive habits to stay there."
+        : "Acting on the high-priority prevention steps and keeping adequate cover in place will reduce both your health risk and your exposure to medical costs.",
+  }
+}
+
+export function fallbackPreventionSteps(aqi: number, occupationHazard: { preventiveMeasures: string[] }): PreventionStep[] {
+  return [
+    {
+      priority: "high",
+      action: "Schedule regular health check-ups",
+      description: "Get comprehensive health screening every 6 months",
+      frequency: "Bi-annually",
+      category: "medical",
+    },
+    {
+      priority: "high",
+      action: "Monitor air quality daily",
+      description: `Use air purifier when AQI exceeds 100 (current: ${aqi})`,
+      frequency: "Daily",
+      category: "environmental",
+    },
+    {
+      priority: "medium",
+      action: "Follow occupation safety guidelines",
+      description: occupationHazard.preventiveMeasures[0] || "Follow workplace safety protocols",
+      frequency: "Daily",
+      category: "occupational",
+    },
+    {
+      priority: "medium",
+      action: "Maintain healthy lifestyle",
+      description: "Exercise 30 minutes daily, eat balanced diet, get 7-8 hours sleep",
+      frequency: "Daily",
+      category: "lifestyle",
+    },
+    {
+      priority: "low",
+      action: "Stress management",
+      description: "Practice meditation or yoga to manage work and environmental stress",
+      frequency: "Weekly",
+      category: "mental-health",
+    },
+  ]
+}
+
+export function fallbackFinancialInsights(
+  insurancePlan: InsurancePlan,
+  monthlySavings: number,
+  emergencyFund: number,
+  familyCoverage?: FamilyCoverage
+): FinancialInsights {
+  const tips: FinancialTip[] = [
+    {
+      title: "Build the emergency fund first",
+      detail: `Set aside ₹${monthlySavings.toLocaleString()} every month until you reach ₹${emergencyFund.toLocaleString()}, and keep it in a liquid account.`,
+      category: "emergency-fund",
+    },
+    {
+      title: "Automate premium payments",
+      detail: "Pay the premium on a fixed date each month so the policy never lapses and waiting periods keep running.",
+      category: "insurance",
+    },
+    {
+      title: "Claim Section 80D deductions",
+      detail: "Health insurance premiums for yourself and your family qualify for a tax deduction under Section 80D.",
+      category: "tax",
+    },
+    {
+      title: "Review cover every year",
+      detail: "Medical costs rise faster than general inflation, so revisit your sum insured at each renewal.",
+      category: "long-term",
+    },
+  ]
+
+  if (familyCoverage) {
+    tips.push({
+      title: familyCoverage.recommendation === "floater" ? "Use a family floater" : "Keep individual policies",
+      detail: familyCoverage.reason,
+      category: "family",
+    })
+  }
+
+  return {
+    summary: "Financial recommendations based on standard planning guidelines and risk assessment.",
+    planRationale: `${insurancePlan.name} offers ₹${insurancePlan.coverage.toLocaleString()} of cover for ₹${insurancePlan.premium.toLocaleString()} a month, matched to your risk score.`,
+    tips,
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  Content,
+  GenerateContentRequest,
+  GenerativeModel,
+  GoogleGenerativeAI,
+  ResponseSchema,
+  SchemaType,
+} from "@google/generative-ai"
+import type { ChatRequest, GenerationRequest, LLMProvider, OutputSchema } from "@/lib/services/llm-provider"
+
+/**
+ * Translate an output schema into Gemini's response schema. Properties are generated
+ * in declaration order; Gemini orders them alphabetically otherwise, which would put
+ * the streamed summary last. propertyOrdering is accepted by the API but missing from
+ * the SDK's types.
+ */
+function toGeminiSchema(schema: OutputSchema): ResponseSchema {
+  switch (schema.type) {
+    case "string":
+      return schema.enum
+        ? { type: SchemaType.STRING, format: "enum", enum: schema.enum, description: schema.description }
+        : { type: SchemaType.STRING, description: schema.description }
+
+    case "array":
+      return { type: SchemaType.ARRAY, items: toGeminiSchema(schema.items), description: schema.description }
+
+    case "object": {
+      const keys = Object.keys(schema.properties)
+      return {
+        type: SchemaType.OBJECT,
+        properties: Object.fromEntries(keys.map((key) => [key, toGeminiSchema(schema.properties[key])])),
+        required: keys,
+        propertyOrdering: keys,
+        description: schema.description,
+      } as ResponseSchema
+    }
+  }
+}
+
+/**
+ * Run a request, streaming partial text to onText when a listener is given
+ */
+async function run(model: GenerativeModel, request: GenerateContentRequest, onText?: (text: string) => void): Promise<string> {
+  if (!onText) {
+    const result = await model.generateContent(request)
+    return result.response.text()
+  }
+
+  const result = await model.generateContentStream(request)
+  let text = ""
+  for await (const chunk of result.stream) {
+    const chunkText = chunk.text()
+    if (chunkText) {
+      text += chunkText
+      onText(chunkText)
+    }
+  }
+  return text
+}
+
+export function createGeminiProvider(): LLMProvider {
+  const apiKey = process.env.GEMINI_API_KEY || ""
+  const model = process.env.GEMINI_MODEL || "gemini-2.5-pro"
+  const genAI = new GoogleGenerativeAI(apiKey)
+
+  return {
+    id: "gemini",
+    model,
+
+    isConfigured() {
+      return apiKey.length > 0
+    },
+
+    async generate({ prompt, schema, onText }: GenerationRequest) {
+      const generativeModel = genAI.getGenerativeModel({
+        model,
+        generationConfig: { responseMimeType: "application/json", responseSchema: toGeminiSchema(schema) },
+      })
+
+      return run(generativeModel, { contents: [{ role: "user", parts: [{ text: prompt }] }] }, onText)
+    },
+
+    async chat({ system, messages, onText }: ChatRequest) {
+      const generativeModel = genAI.getGenerativeModel({ model, systemInstruction: system })
+      const contents: Content[] = messages.map((message) => ({
+        role: message.role === "assistant" ? "model" : "user",
+        parts: [{ text: message.content }],
+      }))
+
+      return run(generativeModel, { contents }, onText)
+    },
+  }
+}
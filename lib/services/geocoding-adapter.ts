@@ -0,0 +1,66 @@
+import { getAPIConfig } from "@/lib/config/api-config"
+import { fetchWithRetry } from "@/lib/utils/api-helpers"
+import { IndiaPostPincodeResponse, OpenMeteoGeocodingResponse } from "@/lib/types/api-responses"
+import { CityLocation } from "@/types/agents"
+
+/**
+ * Online lookup behind the city registry. Both methods only return places in India
+ * and throw on transport errors, leaving fallback to the registry.
+ */
+export interface GeocodingAdapter {
+  id: string
+  searchPlaces(query: string, limit: number): Promise<CityLocation[]>
+  lookupPincode(pincode: string): Promise<CityLocation | null>
+}
+
+// Populated places only (cities, towns, district seats), not rivers or stations
+const PLACE_FEATURE_CODE = /^PPL/
+
+/**
+ * Open-Meteo's place search, with India Post resolving pincodes to a district first
+ */
+export function createOpenMeteoGeocoder(): GeocodingAdapter {
+  const searchPlaces = async (query: string, limit: number): Promise<CityLocation[]> => {
+    const config = getAPIConfig("openMeteoGeocoding")
+    // Ask for extra results because non-place features are filtered out afterwards
+    const url = `${config.baseUrl}/search?name=${encodeURIComponent(query)}&count=${limit * 2}&language=en&format=json&countryCode=IN`
+    const response = await fetchWithRetry<OpenMeteoGeocodingResponse>(url, { method: "GET" }, config, "Open-Meteo Geocoding")
+
+    return (response.results || [])
+      .filter((place) => place.country_code === "IN" && PLACE_FEATURE_CODE.test(place.feature_code))
+      .slice(0, limit)
+      .map((place) => ({
+        name: place.name,
+        state: place.admin1 || "",
+        district: place.admin2 || place.name,
+        lat: place.latitude,
+        lon: place.longitude,
+        source: "geocoder" as const,
+      }))
+  }
+
+  return {
+    id: "open-meteo",
+    searchPlaces,
+
+    async lookupPincode(pincode: string) {
+      const config = getAPIConfig("indiaPost")
+      const [result] = await fetchWithRetry<IndiaPostPincodeResponse>(
+        `${config.baseUrl}/pincode/${pincode}`,
+        { method: "GET" },
+        config,
+        "India Post"
+      )
+
+      const office = result?.Status === "Success" ? result.PostOffice?.[0] : undefined
+      if (!office) return null
+
+      // India Post has no coordinates, so the district is geocoded within its state
+      const places = await searchPlaces(office.District, 5)
+      const place = places.find((candidate) => candidate.state === office.State) || places[0]
+      if (!place) return null
+
+      return { ...place, state: office.State, district: office.District, pincode }
+    },
+  }
+}
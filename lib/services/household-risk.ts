@@ -0,0 +1,97 @@
+import {
+  RiskCalculationInput,
+  calculateRiskScore,
+  generateRiskFactors,
+  getRiskLevel,
+} from "@/lib/services/risk-calculator"
+import { RiskScoringModel, getRiskModel } from "@/lib/config/risk-models"
+import { Dependent, HouseholdRisk, MemberRisk } from "@/types/agents"
+
+// A floater is only as healthy as its riskiest member, so the household score
+// leans on the peak member score and uses the average for the remainder
+const PEAK_WEIGHT = 0.6
+
+// Dependents are scored without occupational exposure
+const NO_OCCUPATION_HAZARD = {
+  occupation: "None",
+  hazardLevel: "low",
+  riskScore: 0,
+  deathRate: 0,
+  commonRisks: [],
+  healthIssues: [],
+  preventiveMeasures: [],
+}
+
+function topFactors(input: RiskCalculationInput, model: RiskScoringModel): string[] {
+  return generateRiskFactors(input, model)
+    .slice(0, 3)
+    .map(factor => factor.category)
+}
+
+/**
+ * Score a dependent against the household's shared city environment
+ */
+function dependentInput(primary: RiskCalculationInput, dependent: Dependent): RiskCalculationInput {
+  return {
+    ...primary,
+    userProfile: {
+      name: dependent.name,
+      age: dependent.age,
+      healthConditions: dependent.healthConditions || [],
+      addictions: [],
+      pastSurgeries: [],
+      workShift: "",
+      occupation: "",
+    },
+    // The age-adjusted death rate was fetched for the primary member's age band
+    statisticalData: { ...primary.statisticalData, ageAdjustedDeathRate: undefined },
+    occupationHazard: NO_OCCUPATION_HAZARD,
+  }
+}
+
+/**
+ * Per-member risk plus a household aggregate for floater pricing.
+ * Returns undefined when the profile has no dependents.
+ */
+export function calculateHouseholdRisk(
+  primary: RiskCalculationInput,
+  model: RiskScoringModel = getRiskModel()
+): HouseholdRisk | undefined {
+  const dependents: Dependent[] = primary.userProfile.dependents || []
+  if (dependents.length === 0) return undefined
+
+  const memberRisk = (
+    input: RiskCalculationInput,
+    name: string,
+    relationship: MemberRisk["relationship"]
+  ): MemberRisk => {
+    const riskScore = calculateRiskScore(input, model)
+    return {
+      name,
+      relationship,
+      age: Number(input.userProfile.age),
+      riskScore,
+      riskLevel: getRiskLevel(riskScore, model),
+      topFactors: topFactors(input, model),
+    }
+  }
+
+  const members = [
+    memberRisk(primary, primary.userProfile.name || "You", "self"),
+    ...dependents.map(dependent =>
+      memberRisk(dependentInput(primary, dependent), dependent.name, dependent.relationship)
+    ),
+  ]
+
+  const peak = Math.max(...members.map(member => member.riskScore))
+  const average = members.reduce((sum, member) => sum + member.riskScore, 0) / members.length
+  const aggregateScore = Math.round(PEAK_WEIGHT * peak + (1 - PEAK_WEIGHT) * average)
+
+  return {
+    members,
+    memberCount: members.length,
+    eldestAge: Math.max(...members.map(member => member.age)),
+    aggregateScore,
+    aggregateLevel: getRiskLevel(aggregateScore, model),
+  }
+}
@@ -0,0 +1,160 @@
+import { z } from "zod"
+import {
+  FinancialInsights,
+  FinancialTipCategory,
+  PreventionCategory,
+  PreventionFrequency,
+  PreventionStep,
+  RiskInsights,
+} from "@/types/agents"
+
+export const PREVENTION_CATEGORIES: PreventionCategory[] = [
+  "medical",
+  "environmental",
+  "occupational",
+  "lifestyle",
+  "mental-health",
+]
+
+export const PREVENTION_FREQUENCIES: PreventionFrequency[] = [
+  "Daily",
+  "Weekly",
+  "Monthly",
+  "Quarterly",
+  "Bi-annually",
+  "Annually",
+  "As needed",
+]
+
+export const FINANCIAL_TIP_CATEGORIES: FinancialTipCategory[] = [
+  "insurance",
+  "savings",
+  "emergency-fund",
+  "tax",
+  "family",
+  "long-term",
+]
+
+const text = z.string().trim().min(1)
+
+/**
+ * Risk analysis output. Commentary may only refer to the risk factors the model was given.
+ */
+export function riskInsightsSchema(factorCategories: string[]) {
+  return z.object({
+    summary: text,
+    factorCommentary: z
+      .array(
+        z.object({
+          category: text.refine((category) => factorCategories.includes(category), {
+            message: "Commentary must refer to one of the listed risk factors",
+          }),
+          commentary: text,
+        })
+      )
+      .min(1),
+    outlook: text,
+  }) satisfies z.ZodType<RiskInsights>
+}
+
+export const preventionStepSchema = z.object({
+  priority: z.enum(["high", "medium", "low"]),
+  action: text,
+  description: text,
+  frequency: z.enum(PREVENTION_FREQUENCIES as [PreventionFrequency, ...PreventionFrequency[]]),
+  category: z.enum(PREVENTION_CATEGORIES as [PreventionCategory, ...PreventionCategory[]]),
+}) satisfies z.ZodType<PreventionStep>
+
+export const preventionStepsSchema = z.object({
+  steps: z.array(preventionStepSchema).min(3).max(8),
+})
+
+export const financialInsightsSchema = z.object({
+  summary: text,
+  planRationale: text,
+  tips: z
+    .array(
+      z.object({
+        title: text,
+        detail: text,
+        category: z.enum(FINANCIAL_TIP_CATEGORIES as [FinancialTipCategory, ...FinancialTipCategory[]]),
+      })
+    )
+    .min(3)
+    .max(8),
+}) satisfies z.ZodType<FinancialInsights>
+
+export type StructuredParseResult<T> = { ok: true; data: T } | { ok: false; error: string }
+
+/**
+ * Parse model output as JSON and validate it. Models occasionally wrap JSON in a
+ * markdown fence even when asked not to, so a single surrounding fence is tolerated.
+ */
+export function parseStructuredOutput<T>(schema: z.ZodType<T>, raw: string): StructuredParseResult<T> {
+  const unfenced = raw.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, "$1")
+
+  let json: unknown
+  try {
+    json = JSON.parse(unfenced)
+  } catch (error) {
+    return { ok: false, error: `Invalid JSON: ${error instanceof Error ? error.message : "parse failed"}` }
+  }
+
+  const result = schema.safeParse(json)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "root"}: ${issue.message}`)
+    return { ok: false, error: issues.join("; ") }
+  }
+
+  return { ok: true, data: result.data }
+}
+
+/**
+ * Text of the "summary" field from a partially streamed JSON object, so the live
+ * view can show prose instead of raw JSON while the rest is still generating
+ */
+export function streamedSummary(raw: string): string {
+  const start = raw.match(/"summary"\s*:\s*"/)
+  if (!start || start.index === undefined) return ""
+
+  let summary = ""
+  for (let i = start.index + start[0].length; i < raw.length; i++) {
+    const char = raw[i]
+    if (char === '"') break
+    if (char !== "\\") {
+      summary += char
+      continue
+    }
+
+    // Stop before an escape sequence that has not fully arrived yet
+    const next = raw[i + 1]
+    if (next === undefined) break
+    if (next === "u") {
+      const hex = raw.slice(i + 2, i + 6)
+      if (hex.length < 4) break
+      summary += String.fromCharCode(parseInt(hex, 16))
+      i += 5
+      continue
+    }
+    summary += next === "n" ? "\n" : next === "t" ? "\t" : next
+    i++
+  }
+
+  return summary
+}
+
+export function formatRiskInsights(insights: RiskInsights): string {
+  return [
+    insights.summary,
+    ...insights.factorCommentary.map((item) => `${item.category}: ${item.commentary}`),
+    `Outlook: ${insights.outlook}`,
+  ].join("\n\n")
+}
+
+export function formatFinancialInsights(insights: FinancialInsights): string {
+  return [
+    insights.summary,
+    insights.planRationale,
+    ...insights.tips.map((tip) => `${tip.title}: ${tip.detail}`),
+  ].join("\n\n")
+}
@@ -0,0 +1,239 @@
+import { ObjectId, type Collection, type Document, type WithId } from "mongodb"
+import { z } from "zod"
+import clientPromise from "@/lib/mongodb"
+import cacheService, { withCache } from "@/lib/services/cache-service"
+import { INSURANCE_PLANS, InsurancePlanTemplate } from "@/lib/data/insurance-plan-templates"
+
+const ACTIVE_PLANS_CACHE_KEY = "insurance_plans:active"
+// Admin writes clear this process's cache immediately; other instances catch up within the TTL
+const ACTIVE_PLANS_TTL = 300
+
+export type PlanStatus = "active" | "retired"
+
+export interface StoredInsurancePlan extends InsurancePlanTemplate {
+  _id: string
+  status: PlanStatus
+  createdAt: Date
+  updatedAt: Date
+  retiredAt?: Date
+}
+
+const textList = z.array(z.string().trim().min(1).max(200)).max(20)
+const rupees = z.number().int().positive()
+
+const planTemplateFields = z.object({
+  name: z.string().trim().min(1).max(100),
+  type: z.string().trim().min(1).max(50),
+  minCoverage: rupees,
+  maxCoverage: rupees,
+  basePremium: rupees,
+  features: textList,
+  advantages: textList,
+  disadvantages: textList,
+  suitableFor: textList,
+  riskRange: z.object({
+    min: z.number().int().min(0).max(100),
+    max: z.number().int().min(0).max(100),
+  }),
+  floater: z.object({
+    maxMembers: z.number().int().min(2).max(12),
+    maxCoverage: rupees,
+    memberLoading: z.number().min(0).max(2),
+    coveragePerMember: z.number().min(0).max(2),
+  }),
+})
+
+export const insurancePlanTemplateSchema = planTemplateFields.superRefine((plan, ctx) => {
+  if (plan.minCoverage > plan.maxCoverage) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["minCoverage"], message: "minCoverage cannot exceed maxCoverage" })
+  }
+  if (plan.riskRange.min > plan.riskRange.max) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["riskRange", "min"], message: "riskRange.min cannot exceed riskRange.max" })
+  }
+  if (plan.floater.maxCoverage < plan.minCoverage) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["floater", "maxCoverage"],
+      message: "Floater cover cannot be lower than individual minCoverage",
+    })
+  }
+}) satisfies z.ZodType<InsurancePlanTemplate>
+
+export const insurancePlanUpdateSchema = planTemplateFields.partial()
+
+const storedPlanFields = z.object({
+  status: z.enum(["active", "retired"]),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  retiredAt: z.date().optional(),
+})
+
+async function plansCollection(): Promise<Collection> {
+  const client = await clientPromise
+  return client.db("carefund").collection("insurance_plans")
+}
+
+/**
+ * Validate a plan document read from the database. Documents that were edited by hand
+ * or written by an older version are logged and return null rather than reaching pricing.
+ */
+function toStoredPlan(doc: WithId<Document>): StoredInsurancePlan | null {
+  const template = insurancePlanTemplateSchema.safeParse(doc)
+  const stored = storedPlanFields.safeParse(doc)
+
+  if (!template.success || !stored.success) {
+    const issues = [...(template.error?.issues ?? []), ...(stored.error?.issues ?? [])]
+    console.warn(
+      `[Plans] Skipping invalid plan document ${doc._id.toString()}:`,
+      issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+    )
+    return null
+  }
+
+  return { ...template.data, ...stored.data, _id: doc._id.toString() }
+}
+
+function toStoredPlans(docs: WithId<Document>[]): StoredInsurancePlan[] {
+  return docs.map(toStoredPlan).filter((plan): plan is StoredInsurancePlan => plan !== null)
+}
+
+let seeded: Promise<void> | null = null
+
+/**
+ * Create the collection's index and copy the bundled templates into an empty collection.
+ * Safe to call repeatedly; existing plans are never overwritten.
+ */
+export function seedInsurancePlans(): Promise<void> {
+  if (!seeded) {
+    seeded = (async () => {
+      const collection = await plansCollection()
+      await collection.createIndex({ name: 1 }, { unique: true })
+
+      if ((await collection.countDocuments()) === 0) {
+        const now = new Date()
+        await collection.insertMany(
+          INSURANCE_PLANS.map((plan) => ({ ...plan, status: "active", createdAt: now, updatedAt: now }))
+        )
+        console.log(`[Plans] Seeded ${INSURANCE_PLANS.length} insurance plans`)
+      }
+    })().catch((error) => {
+      seeded = null
+      throw error
+    })
+  }
+  return seeded
+}
+
+/**
+ * Active plan templates ordered by risk band, cached in memory.
+ * Falls back to the bundled templates when the database is unreachable so pricing keeps working.
+ */
+export async function getActivePlanTemplates(): Promise<InsurancePlanTemplate[]> {
+  try {
+    return await withCache(ACTIVE_PLANS_CACHE_KEY, ACTIVE_PLANS_TTL, async () => {
+      await seedInsurancePlans()
+      const collection = await plansCollection()
+      const docs = await collection.find({ status: "active" }).sort({ "riskRange.min": 1 }).toArray()
+      const plans = toStoredPlans(docs)
+      if (plans.length === 0) throw new Error("No valid active insurance plans")
+
+      return plans.map(({ _id, status, createdAt, updatedAt, retiredAt, ...template }) => template)
+    })
+  } catch (error) {
+    console.error("[Plans] Failed to load insurance plans, using bundled templates:", error)
+    return INSURANCE_PLANS
+  }
+}
+
+function invalidateActivePlans() {
+  cacheService.delete(ACTIVE_PLANS_CACHE_KEY)
+}
+
+/**
+ * Every plan including retired ones, for the admin catalogue
+ */
+export async function listPlanTemplates(): Promise<StoredInsurancePlan[]> {
+  await seedInsurancePlans()
+  const collection = await plansCollection()
+  const docs = await collection.find().sort({ status: 1, "riskRange.min": 1 }).toArray()
+  return toStoredPlans(docs)
+}
+
+/**
+ * Every plan a stored analysis may have recommended: the active plans, which fall back to the
+ * bundled templates, plus retired plans whenever the database can be read
+ */
+export async function getPlanCatalogue(): Promise<InsurancePlanTemplate[]> {
+  const active = await getActivePlanTemplates()
+
+  try {
+    return [...active, ...(await listPlanTemplates())]
+  } catch (error) {
+    console.error("[Plans] Failed to load retired insurance plans, using active plans only:", error)
+    return active
+  }
+}
+
+export async function getPlanTemplate(id: string): Promise<StoredInsurancePlan | null> {
+  if (!ObjectId.isValid(id)) return null
+  const collection = await plansCollection()
+  const doc = await collection.findOne({ _id: new ObjectId(id) })
+  return doc ? toStoredPlan(doc) : null
+}
+
+/**
+ * True when a write failed on the unique plan name index
+ */
+export function isDuplicatePlanName(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: number }).code === 11000
+}
+
+export async function createPlanTemplate(plan: InsurancePlanTemplate): Promise<StoredInsurancePlan> {
+  await seedInsurancePlans()
+  const collection = await plansCollection()
+  const now = new Date()
+  const doc = { ...plan, status: "active" as const, createdAt: now, updatedAt: now }
+
+  const result = await collection.insertOne(doc)
+  invalidateActivePlans()
+  return { ...doc, _id: result.insertedId.toString() }
+}
+
+/**
+ * Replace a plan's template fields. Returns null when the plan does not exist.
+ */
+export async function updatePlanTemplate(id: string, plan: InsurancePlanTemplate): Promise<StoredInsurancePlan | null> {
+  if (!ObjectId.isValid(id)) return null
+  const collection = await plansCollection()
+
+  const doc = await collection.findOneAndUpdate(
+    { _id: new ObjectId(id) },
+    { $set: { ...plan, updatedAt: new Date() } },
+    { returnDocument: "after" }
+  )
+  invalidateActivePlans()
+  return doc ? toStoredPlan(doc) : null
+}
+
+/**
+ * Take a plan off sale. Retired plans stay in the collection so stored analyses
+ * that reference them still make sense. Returns null when the plan does not exist.
+ */
+export async function retirePlanTemplate(id: string): Promise<StoredInsurancePlan | null> {
+  if (!ObjectId.isValid(id)) return null
+  const collection = await plansCollection()
+  const now = new Date()
+
+  const doc = await collection.findOneAndUpdate(
+    { _id: new ObjectId(id) },
+    { $set: { status: "retired", retiredAt: now, updatedAt: now } },
+    { returnDocument: "after" }
+  )
+  invalidateActivePlans()
+  return doc ? toStoredPlan(doc) : null
+}
+
+export async function countActivePlans(): Promise<number> {
+  const collection = await plansCollection()
+  return collection.countDocuments({ status: "active" })
+}
@@ -0,0 +1,73 @@
+import { runAnalysisPipeline } from "@/lib/services/analysis-pipeline"
+import {
+  AnalysisJob,
+  claimNextJob,
+  createJobRecorder,
+  jobsCollection,
+  markJobFailed,
+  markJobSucceeded,
+} from "@/lib/services/analysis-jobs"
+
+const POLL_INTERVAL_MS = 2000
+
+// Survives hot reloads in development so only one loop polls per process
+const globalWithWorker = global as typeof globalThis & { _analysisJobWorker?: boolean }
+
+async function runJob(job: AnalysisJob): Promise<void> {
+  const jobs = await jobsCollection()
+  const recorder = createJobRecorder(jobs, job._id)
+
+  // A job reclaimed after its worker died may already have used every attempt
+  if (job.attempts > job.maxAttempts) {
+    await markJobFailed(jobs, job, "collector", new Error("Analysis was interrupted too many times"))
+    return
+  }
+
+  console.log(`[Jobs] Running job ${job._id} (attempt ${job.attempts} of ${job.maxAttempts})`)
+
+  try {
+    const { analysisId } = await runAnalysisPipeline(job.userId, job.profileData, recorder.emit)
+    const timings = await recorder.finish()
+    await markJobSucceeded(jobs, job, analysisId)
+    console.log(
+      `[Jobs] Job ${job._id} succeeded: ${timings.map((t) => `${t.stage} ${t.durationMs}ms`).join(", ")}`
+    )
+  } catch (error) {
+    const stage = recorder.currentStage()
+    await recorder.finish()
+    const status = await markJobFailed(jobs, job, stage, error)
+    console.error(`[Jobs] Job ${job._id} failed during ${stage}, now ${status}:`, error)
+  }
+}
+
+/**
+ * Run queued jobs one at a time until none are left
+ */
+async function drainQueue(): Promise<void> {
+  let job = await claimNextJob()
+  while (job) {
+    await runJob(job)
+    job = await claimNextJob()
+  }
+}
+
+/**
+ * Start polling the analysis_jobs collection. Safe to call more than once.
+ */
+export function startJobWorker(): void {
+  if (globalWithWorker._analysisJobWorker) return
+  globalWithWorker._analysisJobWorker = true
+
+  const tick = async () => {
+    try {
+      await drainQueue()
+    } catch (error) {
+      console.error("[Jobs] Worker error:", error)
+    } finally {
+      setTimeout(tick, POLL_INTERVAL_MS)
+    }
+  }
+
+  console.log("[Jobs] Analysis worker started")
+  void tick()
+}
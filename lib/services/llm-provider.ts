@@ -0,0 +1,98 @@
+import { createGeminiProvider } from "@/lib/services/gemini-provider"
+import { createMockLLMProvider } from "@/lib/services/mock-llm-provider"
+import { createOpenAICompatibleProvider } from "@/lib/services/openai-compatible-provider"
+
+export type LLMProviderId = "gemini" | "openai-compatible" | "mock"
+
+/**
+ * Provider-neutral description of the JSON a model must return. Every object property
+ * is required. Each provider translates this into its own structured-output format.
+ */
+export type OutputSchema =
+  | { type: "string"; description?: string; enum?: string[] }
+  | { type: "array"; items: OutputSchema; description?: string }
+  | { type: "object"; properties: Record<string, OutputSchema>; description?: string }
+
+export type ObjectOutputSchema = Extract<OutputSchema, { type: "object" }>
+
+export const prose = (description: string): OutputSchema => ({ type: "string", description })
+
+export const stringEnum = (values: string[], description?: string): OutputSchema => ({
+  type: "string",
+  enum: values,
+  ...(description && { description }),
+})
+
+export const arrayOf = (items: OutputSchema): OutputSchema => ({ type: "array", items })
+
+export const objectOf = (properties: Record<string, OutputSchema>): ObjectOutputSchema => ({
+  type: "object",
+  properties,
+})
+
+export interface GenerationRequest {
+  // Short name used in logs, e.g. "Risk analysis"
+  label: string
+  prompt: string
+  schema: ObjectOutputSchema
+  // Deterministic output for this request; the mock provider returns it instead of calling a model
+  template: () => unknown
+  // Receives raw output text as it is generated; providers that cannot stream call it once
+  onText?: (chunk: string) => void
+}
+
+export interface ChatTurn {
+  role: "user" | "assistant"
+  content: string
+}
+
+export interface ChatRequest {
+  label: string
+  system: string
+  // Conversation so far, ending with the user's latest message
+  messages: ChatTurn[]
+  // Deterministic reply; the mock provider returns it instead of calling a model
+  template: () => string
+  onText?: (chunk: string) => void
+}
+
+export interface LLMProvider {
+  id: LLMProviderId
+  model: string
+  isConfigured(): boolean
+  /**
+   * Return the raw JSON text produced for a request. Throws on transport errors;
+   * validating the output is left to the caller.
+   */
+  generate(request: GenerationRequest): Promise<string>
+  /**
+   * Return a free-text reply to a conversation. Throws on transport errors.
+   */
+  chat(request: ChatRequest): Promise<string>
+}
+
+const PROVIDER_FACTORIES: Record<LLMProviderId, () => LLMProvider> = {
+  gemini: createGeminiProvider,
+  "openai-compatible": createOpenAICompatibleProvider,
+  mock: createMockLLMProvider,
+}
+
+let provider: LLMProvider | null = null
+
+/**
+ * The provider chosen by LLM_PROVIDER, defaulting to Gemini
+ */
+export function getLLMProvider(): LLMProvider {
+  if (provider) return provider
+
+  const requested = (process.env.LLM_PROVIDER || "gemini") as LLMProviderId
+  const factory = PROVIDER_FACTORIES[requested]
+
+  if (!factory) {
+    console.warn(`[LLM] Unknown LLM_PROVIDER "${requested}", falling back to gemini`)
+  }
+
+  provider = (factory || createGeminiProvider)()
+  console.log(`[LLM] Using ${provider.id} provider (${provider.model})`)
+  return provider
+}
@@ -0,0 +1,241 @@
+import { PromptTemplateId } from "@/lib/config/prompt-templates"
+import {
+  CatalogueRule,
+  ConditionRule,
+  RedactedField,
+  RedactionPolicy,
+  getRedactionPolicy,
+} from "@/lib/config/redaction-policy"
+import {
+  ADDICTIONS,
+  CatalogueEntry,
+  MEDICAL_CONDITIONS,
+  MedicalCondition,
+  SURGERIES,
+  matchReportedItems,
+} from "@/lib/data/medical-conditions"
+import { OCCUPATIONS } from "@/lib/data/profile-options"
+import { formatAddictions, formatHealthConditions, formatSurgeries, normalizeHealthHistory } from "@/lib/utils/health-history"
+import { DisclosureTreatment, Dependent, FieldDisclosure, RiskFactor, UserProfile } from "@/types/agents"
+
+/**
+ * A stored profile after migrateProfile. Older profiles hold age as the string the form sent.
+ */
+export type RedactableProfile = Partial<Omit<UserProfile, "age">> & { name?: string; age?: number | string }
+
+// Personal fields each prompt template carries, directly or through risk factor text.
+// "dependents" is added wherever family coverage is discussed.
+export const PROMPT_PROFILE_FIELDS: Record<PromptTemplateId, RedactedField[]> = {
+  "risk-analysis": ["age", "occupation", "city", "area", "workShift", "healthConditions", "addictions", "pastSurgeries"],
+  "financial-plan": ["age", "occupation", "city", "workShift", "healthConditions", "addictions", "pastSurgeries"],
+  "prevention-steps": ["age", "occupation", "workShift", "healthConditions", "addictions", "pastSurgeries"],
+  "analysis-chat": ["age", "occupation", "city", "workShift", "healthConditions", "addictions", "pastSurgeries"],
+}
+
+const WITHHELD = "Not shared"
+const AGE_BAND_YEARS = 10
+const OLDEST_AGE_BAND = 80
+
+const CONDITION_CATEGORY_LABELS: Record<MedicalCondition["category"], string> = {
+  respiratory: "Respiratory condition",
+  cardiovascular: "Cardiovascular condition",
+  metabolic: "Metabolic condition",
+  endocrine: "Endocrine condition",
+  musculoskeletal: "Musculoskeletal condition",
+  chronic: "Chronic illness",
+  mental: "Mental health condition",
+}
+
+// Profile values exactly as they appear in prompts
+export interface RedactedProfile {
+  age: string
+  occupation: string
+  city: string
+  area: string
+  workShift: string
+  healthConditions: string
+  addictions: string
+  pastSurgeries: string
+  dependents: string
+}
+
+export interface ProfileRedaction {
+  profile: RedactedProfile
+  // Apply the same redaction to derived text, such as risk factor descriptions
+  scrub(text: string): string
+  // Audit entries for the fields a prompt carries
+  disclose(fields: RedactedField[]): FieldDisclosure[]
+}
+
+// Replaces a raw value wherever it appears as a whole word
+type Replacement = [from: string, to: string]
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function wordPattern(value: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(value)}(?![\\p{L}\\p{N}])`, "giu")
+}
+
+export function ageBand(age: number): string {
+  if (age >= OLDEST_AGE_BAND) return `${OLDEST_AGE_BAND}+`
+  const start = Math.floor(age / AGE_BAND_YEARS) * AGE_BAND_YEARS
+  return `${start}-${start + AGE_BAND_YEARS - 1}`
+}
+
+function treatmentFor(rule: string): DisclosureTreatment {
+  switch (rule) {
+    case "exact":
+    case "send":
+      return "exact"
+    case "bucket":
+      return "bucketed"
+    case "omit":
+      return "withheld"
+    default:
+      return "generalised"
+  }
+}
+
+/**
+ * Rename reported entries to what the rule allows, dropping years unless they are sent as entered.
+ * Every raw name that changes is added to `replacements` so derived text can be scrubbed to match.
+ */
+function generaliseEntries<E extends { name: string; year?: number; diagnosedYear?: number }, T extends CatalogueEntry>(
+  entries: E[],
+  catalogue: Record<string, T>,
+  rule: CatalogueRule | ConditionRule,
+  otherLabel: string,
+  replacements: Replacement[],
+  categoryLabel?: (entry: T) => string
+): E[] {
+  if (rule === "send") return entries
+
+  const generalised: E[] = []
+  entries.forEach((entry) => {
+    matchReportedItems(catalogue, [{ name: entry.name }]).forEach((item) => {
+      const label =
+        rule === "omit" || !item.entry
+          ? otherLabel
+          : rule === "category" && categoryLabel
+            ? categoryLabel(item.entry)
+            : item.entry.name
+
+      if (label !== item.name) replacements.push([item.name, label])
+      if (!generalised.some((existing) => existing.name === label)) {
+        const { year, diagnosedYear, ...rest } = entry
+        generalised.push({ ...rest, name: label } as E)
+      }
+    })
+  })
+
+  return generalised
+}
+
+/**
+ * Minimise a profile according to the redaction policy before any of it reaches an LLM provider
+ */
+export function redactProfile(profile: RedactableProfile, policy: RedactionPolicy = getRedactionPolicy()): ProfileRedaction {
+  const replacements: Replacement[] = []
+  const { healthConditions, addictions, pastSurgeries } = normalizeHealthHistory(profile)
+
+  const ageText = (age: number) =>
+    policy.age === "exact" ? String(age) : policy.age === "bucket" ? ageBand(age) : WITHHELD.toLowerCase()
+
+  const occupation: string = profile.occupation || ""
+  const sentOccupation =
+    policy.occupation === "omit"
+      ? WITHHELD
+      : policy.occupation === "catalogue" && !OCCUPATIONS.includes(occupation)
+        ? "Other"
+        : occupation
+  if (occupation && sentOccupation !== occupation) {
+    replacements.push([occupation, policy.occupation === "omit" ? "Their occupation" : sentOccupation])
+  }
+
+  if (policy.city === "omit" && profile.city) replacements.push([profile.city, "the user's city"])
+  if (policy.area === "omit" && profile.area) replacements.push([profile.area, "the user's area"])
+
+  const conditions = generaliseEntries(
+    healthConditions,
+    MEDICAL_CONDITIONS,
+    policy.healthConditions,
+    "Other condition",
+    replacements,
+    (entry) => CONDITION_CATEGORY_LABELS[entry.category]
+  )
+  const habits = generaliseEntries(addictions, ADDICTIONS, policy.addictions, "Other substance", replacements)
+  const surgeries = generaliseEntries(pastSurgeries, SURGERIES, policy.pastSurgeries, "Other surgery", replacements)
+
+  const dependents: Dependent[] = profile.dependents || []
+  const eldestAge = Math.max(Number(profile.age) || 0, ...dependents.map((dependent) => dependent.age))
+
+  // Names are never part of a prompt; these catch them inside free text
+  const names = [profile.name, ...dependents.map((dependent) => dependent.name)].filter(
+    (name): name is string => typeof name === "string" && name.trim().length > 1
+  )
+  names.forEach((name) => replacements.push([name.trim(), "[name]"]))
+
+  // Longest first so a value is never partly replaced by a shorter one it contains
+  const patterns = replacements
+    .filter(([from]) => from.trim().length > 0)
+    .sort(([a], [b]) => b.length - a.length)
+    .map(([from, to]) => [wordPattern(from), to] as const)
+
+  const redactedProfile: RedactedProfile = {
+    age: policy.age === "omit" ? WITHHELD : ageText(Number(profile.age)),
+    occupation: sentOccupation,
+    city: policy.city === "omit" ? WITHHELD : profile.city || "",
+    area: policy.area === "omit" ? WITHHELD : profile.area || "",
+    workShift: policy.workShift === "omit" ? WITHHELD : profile.workShift || "",
+    healthConditions: policy.healthConditions === "omit" ? WITHHELD : formatHealthConditions(conditions),
+    addictions: policy.addictions === "omit" ? WITHHELD : formatAddictions(habits),
+    pastSurgeries: policy.pastSurgeries === "omit" ? WITHHELD : formatSurgeries(surgeries),
+    dependents:
+      dependents.length > 0
+        ? `${dependents.length} dependent${dependents.length === 1 ? "" : "s"}, household eldest aged ${ageText(eldestAge)}`
+        : "None",
+  }
+
+  return {
+    profile: redactedProfile,
+
+    scrub(text: string) {
+      const scrubbed = patterns.reduce((result, [pattern, to]) => result.replace(pattern, to), text)
+      return policy.age === "exact"
+        ? scrubbed
+        : scrubbed.replace(/\b(age|aged)\s+(\d{1,3})\b(?![-+])/gi, (_, word: string, age: string) => `${word} ${ageText(Number(age))}`)
+    },
+
+    disclose(fields: RedactedField[]) {
+      return fields.map((field) => {
+        const treatment =
+          field === "dependents"
+            ? policy.age === "exact" ? "exact" : "generalised"
+            : treatmentFor(policy[field])
+        return { field, treatment, value: treatment === "withheld" ? null : redactedProfile[field] }
+      })
+    },
+  }
+}
+
+/**
+ * Scrub risk factors for a prompt. Categories stay unique, so a category the model
+ * returns maps back to the factor at the same index in the original list.
+ */
+export function redactRiskFactors(riskFactors: RiskFactor[], redaction: ProfileRedaction): RiskFactor[] {
+  const seen = new Map<string, number>()
+
+  return riskFactors.map((factor) => {
+    const category = redaction.scrub(factor.category)
+    const count = (seen.get(category) || 0) + 1
+    seen.set(category, count)
+
+    return {
+      ...factor,
+      category: count > 1 ? `${category} (${count})` : category,
+      description: redaction.scrub(factor.description),
+    }
+  })
+}
@@ -0,0 +1,373 @@
+import { z } from "zod"
+import {
+  FINANCIAL_TIP_CATEGORIES,
+  PREVENTION_CATEGORIES,
+  PREVENTION_FREQUENCIES,
+  financialInsightsSchema,
+  parseStructuredOutput,
+  preventionStepsSchema,
+  riskInsightsSchema,
+  streamedSummary,
+} from "@/lib/services/insight-schemas"
+import { fallbackFinancialInsights, fallbackPreventionSteps, fallbackRiskInsights } from "@/lib/services/fallback-insights"
+import { arrayOf, getLLMProvider, objectOf, prose, stringEnum, type GenerationRequest } from "@/lib/services/llm-provider"
+import { PROMPT_PROFILE_FIELDS, ProfileRedaction, redactProfile, redactRiskFactors } from "@/lib/services/llm-redaction"
+import {
+  FinancialPlanPromptVariables,
+  PreventionStepsPromptVariables,
+  PromptTemplateId,
+  PromptVariablesById,
+  RiskAnalysisPromptVariables,
+  getPromptTemplate,
+  hashPrompt,
+  renderPrompt,
+} from "@/lib/config/prompt-templates"
+import {
+  FamilyCoverage,
+  FieldDisclosure,
+  FinancialInsights,
+  InsurancePlan,
+  PreventionStep,
+  PromptRun,
+  RiskFactor,
+  RiskInsights,
+} from "@/types/agents"
+
+// One retry after output that is not valid JSON or fails the schema
+const MAX_STRUCTURED_ATTEMPTS = 2
+
+interface StructuredRequest<T> extends Omit<GenerationRequest, "onText"> {
+  validator: z.ZodType<T>
+  template: () => T
+  onSummary?: (text: string) => void
+}
+
+export interface LLMResult<T> {
+  // Null when no valid output could be produced
+  data: T | null
+  prompt: PromptRun
+}
+
+/**
+ * Ask the configured model for JSON matching the request's schema and validate it with
+ * zod, retrying once with the validation errors when the output is malformed. Returns
+ * null when no valid output could be produced so callers can use their deterministic
+ * content. When onSummary is given, the "summary" field is streamed as it is generated.
+ */
+async function generateStructured<T>({ validator, onSummary, ...request }: StructuredRequest<T>): Promise<T | null> {
+  const provider = getLLMProvider()
+  let prompt = request.prompt
+
+  for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+    let raw = ""
+    let streamed = 0
+
+    // Only the first attempt streams, so a retry never repeats text the user has already seen
+    const onText = onSummary && attempt === 1
+      ? (chunk: string) => {
+          raw += chunk
+          const summary = streamedSummary(raw)
+          if (summary.length > streamed) {
+            onSummary(summary.slice(streamed))
+            streamed = summary.length
+          }
+        }
+      : undefined
+
+    try {
+      raw = await provider.generate({ ...request, prompt, onText })
+    } catch (error) {
+      console.error(`[LLM] ${request.label} error (${provider.id}):`, error)
+      return null
+    }
+
+    const parsed = parseStructuredOutput(validator, raw)
+    if (parsed.ok) {
+      return parsed.data
+    }
+
+    console.warn(`[LLM] ${request.label} returned malformed output (attempt ${attempt}/${MAX_STRUCTURED_ATTEMPTS}): ${parsed.error}`)
+    prompt = `${request.prompt}
+
+Your previous response was rejected because: ${parsed.error}
+Respond again with only a JSON object that satisfies the response schema.`
+  }
+
+  return null
+}
+
+/**
+ * Render the default version of a template and run it, recording which prompt produced the output
+ * and which personal fields it carried
+ */
+async function runTemplate<K extends PromptTemplateId, T>(
+  templateId: K,
+  variables: PromptVariablesById[K],
+  disclosure: FieldDisclosure[],
+  request: Omit<StructuredRequest<T>, "prompt">
+): Promise<LLMResult<T>> {
+  const template = getPromptTemplate(templateId)
+  if (!template) {
+    throw new Error(`No default version registered for prompt template ${templateId}`)
+  }
+
+  const provider = getLLMProvider()
+  const prompt = renderPrompt(template, variables)
+  const data = await generateStructured({ ...request, prompt })
+
+  return {
+    data,
+    prompt: {
+      templateId,
+      templateVersion: template.version,
+      provider: provider.id,
+      model: provider.model,
+      promptHash: hashPrompt(prompt),
+      generated: data !== null,
+      disclosure,
+    },
+  }
+}
+
+export interface RiskAnalysisRequest {
+  userProfile: any
+  environmentalData: any
+  statisticalData: any
+  occupationHazard: any
+  cityStats: any
+  riskScore: number
+  riskLevel: string
+  riskFactors: RiskFactor[]
+}
+
+export interface FinancialPlanRequest {
+  riskAnalysis: any
+  userProfile: any
+  insurancePlan: InsurancePlan
+  monthlySavings: number
+  emergencyFund: number
+  familyCoverage?: FamilyCoverage
+}
+
+export interface PreventionStepsRequest {
+  riskFactors: RiskFactor[]
+  userProfile: any
+  environmentalData: any
+  occupationHazard: any
+}
+
+const formatRiskFactorLines = (riskFactors: RiskFactor[]) =>
+  riskFactors.map((f) => `- ${f.category} (${f.level}): ${f.description}`).join("\n")
+
+export function riskAnalysisPromptVariables(
+  data: RiskAnalysisRequest,
+  redaction: ProfileRedaction = redactProfile(data.userProfile)
+): RiskAnalysisPromptVariables {
+  const { profile } = redaction
+
+  return {
+    age: profile.age,
+    occupation: profile.occupation,
+    city: profile.city,
+    area: profile.area,
+    workShift: profile.workShift,
+    healthConditions: profile.healthConditions,
+    addictions: profile.addictions,
+    pastSurgeries: profile.pastSurgeries,
+    aqi: data.environmentalData.aqi,
+    temperature: data.environmentalData.temperature,
+    humidity: data.environmentalData.humidity,
+    hazardLevel: data.occupationHazard.hazardLevel,
+    occupationRiskScore: data.occupationHazard.riskScore,
+    occupationDeathRate: data.occupationHazard.deathRate,
+    commonRisks: data.occupationHazard.commonRisks.join(", "),
+    healthIssues: data.occupationHazard.healthIssues.join(", "),
+    crimeRate: data.cityStats.crimeRate,
+    safetyIndex: data.cityStats.safetyIndex,
+    stressLevel: data.cityStats.stressLevel,
+    healthRiskImpact: data.cityStats.healthRiskImpact,
+    cityHealthIndex: data.statisticalData.cityHealthIndex,
+    deathRate: data.statisticalData.deathRate,
+    riskScore: data.riskScore,
+    riskLevel: data.riskLevel,
+    riskFactors: formatRiskFactorLines(redactRiskFactors(data.riskFactors, redaction)),
+  }
+}
+
+export function financialPlanPromptVariables(
+  data: FinancialPlanRequest,
+  redaction: ProfileRedaction = redactProfile(data.userProfile)
+): FinancialPlanPromptVariables {
+  const { familyCoverage } = data
+  const { profile } = redaction
+
+  return {
+    age: profile.age,
+    occupation: profile.occupation,
+    city: profile.city,
+    riskScore: data.riskAnalysis.riskScore,
+    riskLevel: data.riskAnalysis.riskLevel,
+    riskFactorCategories: redactRiskFactors(data.riskAnalysis.riskFactors, redaction).map((f) => f.category).join(", "),
+    planName: data.insurancePlan.name,
+    planCoverage: data.insurancePlan.coverage.toLocaleString(),
+    planPremium: data.insurancePlan.premium.toLocaleString(),
+    planFeatures: data.insurancePlan.features.slice(0, 5).join(", "),
+    monthlySavings: data.monthlySavings.toLocaleString(),
+    emergencyFund: data.emergencyFund.toLocaleString(),
+    familyCoverage: familyCoverage ? redaction.scrub(`
+FAMILY COVERAGE (${familyCoverage.floater.memberCount} members, eldest aged ${familyCoverage.floater.eldestAge}):
+- Household Risk Score: ${data.riskAnalysis.householdRisk?.aggregateScore}/100
+- Floater: ${familyCoverage.floater.name}, ₹${familyCoverage.floater.coverage.toLocaleString()} cover, ₹${familyCoverage.floater.premium.toLocaleString()}/month
+- Individual policies: ₹${familyCoverage.individual.totalPremium.toLocaleString()}/month in total
+- Recommendation: ${familyCoverage.recommendation} (${familyCoverage.reason})
+`) : "",
+    familyCoverageTip: familyCoverage
+      ? ", including whether the family floater or individual policies suit this household better"
+      : "",
+  }
+}
+
+export function preventionStepsPromptVariables(
+  data: PreventionStepsRequest,
+  redaction: ProfileRedaction = redactProfile(data.userProfile)
+): PreventionStepsPromptVariables {
+  const { profile } = redaction
+
+  return {
+    riskFactors: formatRiskFactorLines(redactRiskFactors(data.riskFactors, redaction)),
+    occupation: profile.occupation,
+    age: profile.age,
+    healthConditions: profile.healthConditions,
+    addictions: profile.addictions,
+    commonRisks: data.occupationHazard.commonRisks.join(", "),
+  }
+}
+
+/**
+ * Agent 1: Risk Analysis using the configured LLM provider.
+ * Null without risk factors: the commentary schema needs at least one, so no model output
+ * could pass and the caller's deterministic insights are used without a provider call.
+ */
+export async function analyzeHealthRisks(
+  data: RiskAnalysisRequest,
+  onSummary?: (text: string) => void
+): Promise<LLMResult<RiskInsights> | null> {
+  const redaction = redactProfile(data.userProfile)
+  const promptFactors = redactRiskFactors(data.riskFactors, redaction)
+  const factorCategories = promptFactors.map((factor) => factor.category)
+
+  if (promptFactors.length === 0) return null
+
+  const schema = objectOf({
+    summary: prose("Overview of the user's health risk"),
+    factorCommentary: arrayOf(
+      objectOf({
+        category: stringEnum(factorCategories),
+        commentary: prose("Why this factor matters for the user and how to mitigate it"),
+      })
+    ),
+    outlook: prose("Overall health outlook"),
+  })
+
+  const result = await runTemplate(
+    "risk-analysis",
+    riskAnalysisPromptVariables(data, redaction),
+    redaction.disclose(PROMPT_PROFILE_FIELDS["risk-analysis"]),
+    {
+      label: "Risk analysis",
+      schema,
+      validator: riskInsightsSchema(factorCategories),
+      template: () => fallbackRiskInsights(promptFactors, data.riskScore, data.riskLevel),
+      onSummary,
+    }
+  )
+
+  // The model saw redacted categories; store commentary against the real ones
+  const insights = result.data
+  return {
+    ...result,
+    data: insights && {
+      ...insights,
+      factorCommentary: insights.factorCommentary.map((entry) => ({
+        ...entry,
+        category: data.riskFactors[factorCategories.indexOf(entry.category)].category,
+      })),
+    },
+  }
+}
+
+/**
+ * Agent 2: Financial Planning using the configured LLM provider
+ */
+export async function generateFinancialPlan(
+  data: FinancialPlanRequest,
+  onSummary?: (text: string) => void
+): Promise<LLMResult<FinancialInsights>> {
+  const schema = objectOf({
+    summary: prose("Overview of the user's healthcare financial plan"),
+    planRationale: prose("Why the recommended plan suits the user"),
+    tips: arrayOf(
+      objectOf({
+        title: prose("Short imperative title"),
+        detail: prose("One or two sentences of practical detail"),
+        category: stringEnum(FINANCIAL_TIP_CATEGORIES),
+      })
+    ),
+  })
+
+  const redaction = redactProfile(data.userProfile)
+  const fields = PROMPT_PROFILE_FIELDS["financial-plan"]
+
+  return runTemplate(
+    "financial-plan",
+    financialPlanPromptVariables(data, redaction),
+    redaction.disclose(data.familyCoverage ? [...fields, "dependents"] : fields),
+    {
+      label: "Financial planning",
+      schema,
+      validator: financialInsightsSchema,
+      template: () =>
+        fallbackFinancialInsights(data.insurancePlan, data.monthlySavings, data.emergencyFund, data.familyCoverage),
+      onSummary,
+    }
+  )
+}
+
+/**
+ * Generate prevention steps using the configured LLM provider
+ */
+export async function generatePreventionSteps(data: PreventionStepsRequest): Promise<LLMResult<PreventionStep[]>> {
+  const schema = objectOf({
+    steps: arrayOf(
+      objectOf({
+        priority: stringEnum(["high", "medium", "low"]),
+        action: prose("Short imperative title"),
+        description: prose("How to carry out the step"),
+        frequency: stringEnum(PREVENTION_FREQUENCIES),
+        category: stringEnum(PREVENTION_CATEGORIES),
+      })
+    ),
+  })
+
+  const redaction = redactProfile(data.userProfile)
+  const result = await runTemplate(
+    "prevention-steps",
+    preventionStepsPromptVariables(data, redaction),
+    redaction.disclose(PROMPT_PROFILE_FIELDS["prevention-steps"]),
+    {
+      label: "Prevention steps",
+      schema,
+      validator: preventionStepsSchema,
+      template: () => ({ steps: fallbackPreventionSteps(data.environmentalData.aqi, data.occupationHazard) }),
+    }
+  )
+
+  return { data: result.data?.steps ?? null, prompt: result.prompt }
+}
+
+/**
+ * Check if the selected LLM provider is configured
+ */
+export function isLLMConfigured(): boolean {
+  return getLLMProvider().isConfigured()
+}
@@ -0,0 +1,209 @@
+/**
+ * Locality Data Service
+ * Area-level risk inputs for the profile's `area`: the nearest AQI monitoring station,
+ * flood and waterlogging proneness, distance to the nearest hospital and ward health
+ * indicators. Each input falls back to the city-level value when the area has none
+ * and records which level it came from.
+ */
+
+import fs from "fs"
+import { z } from "zod"
+import { getAPIConfig } from "@/lib/config/api-config"
+import { canonicalCityName } from "@/lib/data/indian-cities"
+import {
+  BUILT_IN_LOCALITY_DATASET,
+  CityLocalityRecord,
+  LocalityDataset,
+  LocalityRecord,
+} from "@/lib/data/locality-indicators"
+import { generateCacheKey, withCache } from "@/lib/services/cache-service"
+import { resolveCity, resolveLocality } from "@/lib/services/city-registry"
+import { fetchNearestStation } from "@/lib/services/environmental-data"
+import { fetchWithRetry, logAPIMetrics } from "@/lib/utils/api-helpers"
+import { distanceKm } from "@/lib/utils/geo"
+import { OverpassResponse } from "@/lib/types/api-responses"
+import { CityLocation, LocalityCoverage, LocalityData, LocalityMetric, LocalityScope } from "@/types/agents"
+
+const HOSPITAL_SEARCH_RADIUS_M = 15000
+
+const floodProneness = z.enum(["low", "moderate", "high"])
+
+const healthIndicatorValues = z.object({
+  vectorBorneCasesPer100k: z.number().nonnegative(),
+  waterborneCasesPer100k: z.number().nonnegative(),
+})
+
+const localityDatasetSchema = z.object({
+  id: z.string().min(1),
+  source: z.string().min(1),
+  year: z.number().int(),
+  cities: z.array(
+    z.object({
+      city: z.string().min(1),
+      floodProneness,
+      health: healthIndicatorValues,
+      localities: z.array(
+        z.object({
+          names: z.array(z.string().min(1)).min(1),
+          ward: z.string().min(1),
+          floodProneness: floodProneness.optional(),
+          floodNote: z.string().optional(),
+          health: healthIndicatorValues.optional(),
+        })
+      ),
+    })
+  ),
+})
+
+let dataset: LocalityDataset | null = null
+
+/**
+ * The locality dataset: a JSON file at LOCALITY_DATASET_PATH when one is configured
+ * and valid, otherwise the built-in sample
+ */
+export function getLocalityDataset(): LocalityDataset {
+  if (dataset) return dataset
+
+  const path = process.env.LOCALITY_DATASET_PATH
+  if (path) {
+    try {
+      const parsed = localityDatasetSchema.safeParse(JSON.parse(fs.readFileSync(path, "utf8")))
+      if (parsed.success) {
+        dataset = parsed.data
+        console.log(`[LocalityData] Using dataset ${dataset.id} from ${path}`)
+        return dataset
+      }
+      console.warn(`[LocalityData] ${path} is not a valid locality dataset, using the built-in sample:`, parsed.error.flatten().fieldErrors)
+    } catch (error) {
+      console.error(`[LocalityData] Could not read ${path}, using the built-in sample:`, error)
+    }
+  }
+
+  dataset = BUILT_IN_LOCALITY_DATASET
+  return dataset
+}
+
+const normalise = (value: string) => ` ${value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim()} `
+
+/**
+ * Dataset record whose name appears as whole words in the user's area or the geocoded
+ * place, e.g. "Andheri West, near station" finds Andheri West. The longest name wins.
+ */
+function findLocalityRecord(record: CityLocalityRecord, texts: string[]): LocalityRecord | undefined {
+  const haystacks = texts.filter(Boolean).map(normalise)
+  let best: { locality: LocalityRecord; length: number } | undefined
+
+  record.localities.forEach((locality) => {
+    locality.names.forEach((name) => {
+      const needle = normalise(name)
+      if (haystacks.some((text) => text.includes(needle)) && needle.length > (best?.length || 0)) {
+        best = { locality, length: needle.length }
+      }
+    })
+  })
+
+  return best?.locality
+}
+
+/**
+ * Nearest hospital mapped in OpenStreetMap within the search radius
+ */
+async function fetchNearestHospital(point: CityLocation, scope: LocalityScope): Promise<LocalityData["nearestHospital"]> {
+  const config = getAPIConfig("overpass")
+  // About 100 m of rounding lets nearby lookups share a cache entry
+  const lat = Math.round(point.lat * 1000) / 1000
+  const lon = Math.round(point.lon * 1000) / 1000
+
+  try {
+    const nearest = await withCache(generateCacheKey("nearestHospital", { lat, lon }), config.cacheTTL, async () => {
+      const around = `around:${HOSPITAL_SEARCH_RADIUS_M},${lat},${lon}`
+      const query = `[out:json][timeout:15];(node["amenity"="hospital"](${around});way["amenity"="hospital"](${around}););out center;`
+      const response = await fetchWithRetry<OverpassResponse>(
+        `${config.baseUrl}/interpreter?data=${encodeURIComponent(query)}`,
+        { method: "GET" },
+        config,
+        "Overpass"
+      )
+
+      return response.elements.reduce<{ name: string; distanceKm: number } | null>((closest, element) => {
+        const position = element.center || (element.lat !== undefined && element.lon !== undefined ? { lat: element.lat, lon: element.lon } : null)
+        if (!position) return closest
+
+        const distance = distanceKm({ lat, lon }, position)
+        return !closest || distance < closest.distanceKm
+          ? { name: element.tags?.name || "Unnamed hospital", distanceKm: distance }
+          : closest
+      }, null)
+    })
+
+    return nearest && { ...nearest, scope }
+  } catch (error) {
+    console.error(`[LocalityData] Hospital lookup failed for ${point.name}:`, error)
+    return null
+  }
+}
+
+/**
+ * Collect the area-level inputs for a profile's city and area.
+ * The AQI is null when no nearby station was found; the caller has the city feed for that.
+ */
+export async function fetchLocalityData(city: string, area: string, state: string = ""): Promise<LocalityData> {
+  const startTime = Date.now()
+  const cityLocation = await resolveCity(city, state)
+  const location = cityLocation && area.trim() ? await resolveLocality(area, cityLocation) : null
+
+  const localityDataset = getLocalityDataset()
+  const cityRecord = localityDataset.cities.find((record) => record.city === canonicalCityName(city))
+  const localityRecord = cityRecord && findLocalityRecord(cityRecord, [area, location?.name || ""])
+
+  const [aqi, nearestHospital] = await Promise.all([
+    location ? fetchNearestStation(location) : Promise.resolve(null),
+    location
+      ? fetchNearestHospital(location, "locality")
+      : cityLocation
+        ? fetchNearestHospital(cityLocation, "city")
+        : Promise.resolve(null),
+  ])
+
+  const floodLevel = localityRecord?.floodProneness
+  const floodRisk: LocalityData["floodRisk"] = floodLevel
+    ? {
+        level: floodLevel,
+        ...(localityRecord.floodNote && { note: localityRecord.floodNote }),
+        scope: "locality",
+        source: localityDataset.source,
+      }
+    : cityRecord
+      ? { level: cityRecord.floodProneness, scope: "city", source: localityDataset.source }
+      : null
+
+  const wardHealth: LocalityData["wardHealth"] = localityRecord?.health
+    ? { ward: localityRecord.ward, ...localityRecord.health, year: localityDataset.year, scope: "locality", source: localityDataset.source }
+    : cityRecord
+      ? { ward: cityRecord.city, ...cityRecord.health, year: localityDataset.year, scope: "city", source: localityDataset.source }
+      : null
+
+  const result: LocalityData = { area, location, aqi, floodRisk, nearestHospital, wardHealth }
+  logAPIMetrics("LocalityData", startTime, true)
+  return result
+}
+
+/**
+ * Which locality inputs were measured for the area and which fell back to the city
+ */
+export function localityCoverage(locality: LocalityData): LocalityCoverage {
+  const scopes: Record<LocalityMetric, LocalityScope | undefined> = {
+    aqi: locality.aqi?.scope,
+    floodRisk: locality.floodRisk?.scope,
+    hospitalAccess: locality.nearestHospital?.scope,
+    wardHealth: locality.wardHealth?.scope,
+  }
+  const metrics = Object.keys(scopes) as LocalityMetric[]
+
+  return {
+    area: locality.area,
+    localMetrics: metrics.filter((metric) => scopes[metric] === "locality"),
+    cityFallbacks: metrics.filter((metric) => scopes[metric] === "city"),
+    unavailable: metrics.filter((metric) => !scopes[metric]),
+  }
+}
@@ -0,0 +1,37 @@
+import type { ChatRequest, GenerationRequest, LLMProvider } from "@/lib/services/llm-provider"
+
+// Small enough that the live view still shows text arriving in pieces
+const CHUNK_SIZE = 48
+
+function streamText(text: string, onText?: (chunk: string) => void): string {
+  if (onText) {
+    for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+      onText(text.slice(i, i + CHUNK_SIZE))
+    }
+  }
+  return text
+}
+
+/**
+ * Deterministic provider for tests, demos and offline development. It answers every
+ * request with the request's own template, serialised as JSON for structured requests,
+ * so the agents run end to end through the same parsing and validation as a real model.
+ */
+export function createMockLLMProvider(): LLMProvider {
+  return {
+    id: "mock",
+    model: "template",
+
+    isConfigured() {
+      return true
+    },
+
+    async generate({ template, onText }: GenerationRequest) {
+      return streamText(JSON.stringify(template()), onText)
+    },
+
+    async chat({ template, onText }: ChatRequest) {
+      return streamText(template(), onText)
+    },
+  }
+}
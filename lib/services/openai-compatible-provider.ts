@@ -0,0 +1,133 @@
+import { APIError } from "@/lib/utils/api-helpers"
+import type { ChatRequest, GenerationRequest, LLMProvider, OutputSchema } from "@/lib/services/llm-provider"
+
+// Local models on modest hardware can take minutes for a long response
+const REQUEST_TIMEOUT_MS = 180000
+
+function toJSONSchema(schema: OutputSchema): Record<string, unknown> {
+  switch (schema.type) {
+    case "string":
+      return { type: "string", ...(schema.enum && { enum: schema.enum }), ...(schema.description && { description: schema.description }) }
+
+    case "array":
+      return { type: "array", items: toJSONSchema(schema.items), ...(schema.description && { description: schema.description }) }
+
+    case "object": {
+      const keys = Object.keys(schema.properties)
+      return {
+        type: "object",
+        properties: Object.fromEntries(keys.map((key) => [key, toJSONSchema(schema.properties[key])])),
+        required: keys,
+        additionalProperties: false,
+        ...(schema.description && { description: schema.description }),
+      }
+    }
+  }
+}
+
+/**
+ * Yield the content deltas of an OpenAI-style chat completion event stream
+ */
+async function* readCompletionStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    const lines = buffer.split("\n")
+    buffer = lines.pop() || ""
+
+    for (const line of lines) {
+      const data = line.trim()
+      if (!data.startsWith("data:")) continue
+
+      const payload = data.slice(5).trim()
+      if (payload === "[DONE]") return
+
+      const content = JSON.parse(payload).choices?.[0]?.delta?.content
+      if (content) yield content
+    }
+  }
+}
+
+/**
+ * Any server exposing the OpenAI chat completions API with JSON schema output,
+ * such as llama.cpp's server, Ollama or vLLM
+ */
+export function createOpenAICompatibleProvider(): LLMProvider {
+  const baseUrl = (process.env.LLM_BASE_URL || "").replace(/\/+$/, "")
+  const model = process.env.LLM_MODEL || "llama3.1"
+  const apiKey = process.env.LLM_API_KEY
+
+  /**
+   * POST a chat completion, streaming content deltas to onText when a listener is given
+   */
+  const complete = async (body: Record<string, unknown>, onText?: (chunk: string) => void): Promise<string> => {
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({ model, ...body, stream: !!onText }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      })
+    } catch (error) {
+      if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+        throw new APIError("Request timeout", 408, "openai-compatible", error)
+      }
+      throw error
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "Unknown error")
+      throw new APIError(`HTTP ${response.status}: ${errorText}`, response.status, "openai-compatible")
+    }
+
+    if (!onText || !response.body) {
+      const completion = await response.json()
+      const text: string = completion.choices?.[0]?.message?.content || ""
+      onText?.(text)
+      return text
+    }
+
+    let text = ""
+    for await (const chunk of readCompletionStream(response.body)) {
+      text += chunk
+      onText(chunk)
+    }
+    return text
+  }
+
+  return {
+    id: "openai-compatible",
+    model,
+
+    isConfigured() {
+      return baseUrl.length > 0
+    },
+
+    async generate({ prompt, schema, onText }: GenerationRequest) {
+      return complete(
+        {
+          messages: [{ role: "user", content: prompt }],
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "response", strict: true, schema: toJSONSchema(schema) },
+          },
+        },
+        onText
+      )
+    },
+
+    async chat({ system, messages, onText }: ChatRequest) {
+      return complete({ messages: [{ role: "system", content: system }, ...messages] }, onText)
+    },
+  }
+}
@@ -0,0 +1,140 @@
+import { getCityStatistics } from "@/lib/data/crime-statistics"
+import { getOccupationHazard } from "@/lib/data/occupation-hazards"
+import {
+  PromptTemplateId,
+  getPromptTemplate,
+  hashPrompt,
+  renderPrompt,
+} from "@/lib/config/prompt-templates"
+import { analysisChatPromptVariables, getChatMessages } from "@/lib/services/analysis-chat"
+import {
+  financialPlanPromptVariables,
+  preventionStepsPromptVariables,
+  riskAnalysisPromptVariables,
+} from "@/lib/services/llm-service"
+import { migrateProfile } from "@/lib/utils/health-history"
+import { AnalysisResults, FieldDisclosure, PromptRun } from "@/types/agents"
+
+export interface PromptPreview {
+  analysisId: string
+  templateId: PromptTemplateId
+  templateVersion: string
+  text: string
+  promptHash: string
+  // Prompt recorded for this template when the analysis ran, null for older reports
+  stored: PromptRun | null
+  // Whether the preview is byte-for-byte the prompt that was sent, null when nothing was recorded
+  matchesStored: boolean | null
+}
+
+function renderForAnalysis(analysis: AnalysisResults, templateId: PromptTemplateId, version?: string): string | null {
+  const { agent1Results, agent2Results } = analysis
+  const userProfile = migrateProfile(analysis.profileData)
+  // Occupation and city reference data are not stored with a report, so they are read as they are today
+  const occupationHazard = getOccupationHazard(userProfile.occupation)
+
+  switch (templateId) {
+    case "risk-analysis": {
+      const template = getPromptTemplate(templateId, version)
+      return template && renderPrompt(template, riskAnalysisPromptVariables({
+        userProfile,
+        environmentalData: agent1Results.environmentalData,
+        statisticalData: agent1Results.statisticalData,
+        occupationHazard,
+        cityStats: getCityStatistics(userProfile.city),
+        riskScore: agent1Results.riskScore,
+        riskLevel: agent1Results.riskLevel,
+        riskFactors: agent1Results.riskFactors,
+      }))
+    }
+
+    case "prevention-steps": {
+      const template = getPromptTemplate(templateId, version)
+      return template && renderPrompt(template, preventionStepsPromptVariables({
+        riskFactors: agent1Results.riskFactors,
+        userProfile,
+        environmentalData: agent1Results.environmentalData,
+        occupationHazard,
+      }))
+    }
+
+    case "financial-plan": {
+      const template = getPromptTemplate(templateId, version)
+      return template && renderPrompt(template, financialPlanPromptVariables({
+        riskAnalysis: agent1Results,
+        userProfile,
+        insurancePlan: agent2Results.insurancePlan,
+        monthlySavings: agent2Results.monthlySavings,
+        emergencyFund: agent2Results.emergencyFund,
+        familyCoverage: agent2Results.familyCoverage,
+      }))
+    }
+
+    case "analysis-chat": {
+      const template = getPromptTemplate(templateId, version)
+      return template && renderPrompt(template, analysisChatPromptVariables(analysis))
+    }
+  }
+}
+
+/**
+ * Render a template against a stored analysis and compare it with the prompt recorded
+ * when the analysis ran. Returns null when the template version does not exist.
+ */
+export function previewPromptForAnalysis(
+  analysis: AnalysisResults,
+  templateId: PromptTemplateId,
+  version?: string
+): PromptPreview | null {
+  const text = renderForAnalysis(analysis, templateId, version)
+  if (text === null) {
+    return null
+  }
+
+  const promptHash = hashPrompt(text)
+  const storedRuns = [...(analysis.agent1Results.prompts || []), ...(analysis.agent2Results.prompts || [])]
+  const stored = storedRuns.find((run) => run.templateId === templateId) || null
+
+  return {
+    analysisId: analysis._id!,
+    templateId,
+    templateVersion: version || getPromptTemplate(templateId)!.version,
+    text,
+    promptHash,
+    stored,
+    matchesStored: stored ? stored.promptHash === promptHash : null,
+  }
+}
+
+export interface PromptDisclosure {
+  templateId: string
+  templateVersion: string
+  provider: string
+  model: string
+  // Set for chat replies
+  sentAt?: string
+  // Null for prompts sent before disclosures were recorded
+  fields: FieldDisclosure[] | null
+}
+
+/**
+ * Every prompt sent for an analysis, including its chat replies, with the personal fields each carried
+ */
+export async function disclosuresForAnalysis(analysis: AnalysisResults): Promise<PromptDisclosure[]> {
+  const toDisclosure = (run: PromptRun, sentAt?: string): PromptDisclosure => ({
+    templateId: run.templateId,
+    templateVersion: run.templateVersion,
+    provider: run.provider,
+    model: run.model,
+    ...(sentAt && { sentAt }),
+    fields: run.disclosure || null,
+  })
+
+  const chat = await getChatMessages(analysis.userId, analysis._id!)
+
+  return [
+    ...(analysis.agent1Results.prompts || []).map((run) => toDisclosure(run)),
+    ...(analysis.agent2Results.prompts || []).map((run) => toDisclosure(run)),
+    ...chat.flatMap((message) => (message.prompt ? [toDisclosure(message.prompt, message.createdAt)] : [])),
+  ]
+}
@@ -5,160 +5,19 @@
 
 import { getAPIConfig, getAPIKeys, isAPIKeyConfigured } from '@/lib/config/api-config'
 import cacheService, { generateCacheKey, withCache } from './cache-service'
+import { canonicalCityName } from '@/lib/data/indian-cities'
+import { fetchClimateData } from './environmental-data'
 import { fetchWithRetry, safeAPICall, buildQueryString, logAPIMetrics } from '@/lib/utils/api-helpers'
 import {
-  ClimateData,
   DeathRateData,
   OccupationDeathRateData,
   CrimeData,
   HealthAlert,
   RealTimeData,
   WorldBankResponse,
-  OpenWeatherMapResponse,
-  NewsAPIResponse,
-  AQICNResponse
+  NewsAPIResponse
 } from '@/lib/types/api-responses'
-
-// City coordinates for API calls
-const CITY_COORDINATES: Record<string, { lat: number; lon: number; country: string }> = {
-  Mumbai: { lat: 19.076, lon: 72.8777, country: 'IN' },
-  Delhi: { lat: 28.7041, lon: 77.1025, country: 'IN' },
-  Bangalore: { lat: 12.9716, lon: 77.5946, country: 'IN' },
-  Hyderabad: { lat: 17.385, lon: 78.4867, country: 'IN' },
-  Chennai: { lat: 13.0827, lon: 80.2707, country: 'IN' },
-  Kolkata: { lat: 22.5726, lon: 88.3639, country: 'IN' },
-  Pune: { lat: 18.5204, lon: 73.8567, country: 'IN' },
-  Ahmedabad: { lat: 23.0225, lon: 72.5714, country: 'IN' },
-  Jaipur: { lat: 26.9124, lon: 75.7873, country: 'IN' },
-  Lucknow: { lat: 26.8467, lon: 80.9462, country: 'IN' }
-}
-
-/**
- * Fetch comprehensive climate data
- */
-export async function fetchClimateData(city: string): Promise<ClimateData> {
-  const startTime = Date.now()
-  const cacheKey = generateCacheKey('climate', { city })
-  
-  try {
-    return await withCache(cacheKey, 3600, async () => {
-      const coords = CITY_COORDINATES[city]
-      if (!coords) {
-        throw new Error(`Unknown city: ${city}`)
-      }
-
-      // Fetch from Open-Meteo (always available, no key needed)
-      const openMeteoConfig = getAPIConfig('openMeteo')
-      const weatherUrl = `${openMeteoConfig.baseUrl}/forecast?latitude=${coords.lat}&longitude=${coords.lon}&current=temperature_2m,relative_humidity_2m,weather_code&timezone=Asia/Kolkata`
-      
-      const weatherData = await fetchWithRetry<any>(
-        weatherUrl,
-        { method: 'GET' },
-        openMeteoConfig,
-        'Open-Meteo'
-      )
-
-      // Fetch AQI data
-      let aqi = 150 // Default fallback
-      let aqiSource = 'Estimated'
-      
-      if (isAPIKeyConfigured('aqicn')) {
-        try {
-          const aqicnConfig = getAPIConfig('aqicn')
-          const apiKeys = getAPIKeys()
-          const aqiUrl = `${aqicnConfig.baseUrl}/feed/${city.toLowerCase()}/?token=${apiKeys.aqicn}`
-          
-          const aqiData = await fetchWithRetry<AQICNResponse>(
-            aqiUrl,
-            { method: 'GET' },
-            aqicnConfig,
-            'AQICN'
-          )
-          
-          if (aqiData.status === 'ok' && aqiData.data?.aqi > 0) {
-            aqi = aqiData.data.aqi
-            aqiSource = 'AQICN (Real-time)'
-          }
-        } catch (error) {
-          console.error('[ClimateData] AQICN fetch failed, using estimate')
-        }
-      }
-
-      // Try OpenWeatherMap for additional data if configured
-      let weatherCondition = 'Clear'
-      if (isAPIKeyConfigured('openWeatherMap')) {
-        try {
-          const owmConfig = getAPIConfig('openWeatherMap')
-          const apiKeys = getAPIKeys()
-          const owmUrl = `${owmConfig.baseUrl}/weather?lat=${coords.lat}&lon=${coords.lon}&appid=${apiKeys.openWeatherMap}&units=metric`
-          
-          const owmData = await fetchWithRetry<OpenWeatherMapResponse>(
-            owmUrl,
-            { method: 'GET' },
-            owmConfig,
-            'OpenWeatherMap'
-          )
-          
-          weatherCondition = owmData.weather[0]?.main || 'Clear'
-        } catch (error) {
-          console.error('[ClimateData] OpenWeatherMap fetch failed')
-        }
-      }
-
-      // Determine climate risk
-      let climateRisk: 'Low' | 'Moderate' | 'High' | 'Critical' = 'Low'
-      if (aqi > 200) climateRisk = 'Critical'
-      else if (aqi > 150) climateRisk = 'High'
-      else if (aqi > 100) climateRisk = 'Moderate'
-
-      // Determine seasonal risks
-      const seasonalRisks: string[] = []
-      const temp = Math.round(weatherData.current.temperature_2m)
-      
-      if (temp > 40) seasonalRisks.push('Extreme heat warning')
-      else if (temp > 35) seasonalRisks.push('Heat stress risk')
-      
-      if (aqi > 150) seasonalRisks.push('Poor air quality - respiratory risks')
-      if (weatherData.current.relative_humidity_2m > 80) seasonalRisks.push('High humidity - heat exhaustion risk')
-
-      const result: ClimateData = {
-        city,
-        temperature: temp,
-        humidity: weatherData.current.relative_humidity_2m,
-        aqi,
-        weatherCondition,
-        climateRisk,
-        seasonalRisks,
-        timestamp: new Date().toISOString(),
-        sources: {
-          weather: 'Open-Meteo (Real-time)',
-          aqi: aqiSource
-        }
-      }
-
-      logAPIMetrics('ClimateData', startTime, true)
-      return result
-    })
-  } catch (error) {
-    logAPIMetrics('ClimateData', startTime, false, error instanceof Error ? error.message : 'Unknown error')
-    
-    // Return fallback data
-    return {
-      city,
-      temperature: 30,
-      humidity: 65,
-      aqi: 150,
-      weatherCondition: 'Clear',
-      climateRisk: 'Moderate',
-      seasonalRisks: ['Data temporarily unavailable'],
-      timestamp: new Date().toISOString(),
-      sources: {
-        weather: 'Fallback estimate',
-        aqi: 'Fallback estimate'
-      }
-    }
-  }
-}
+import { DataSourceId, PipelineEmitter } from '@/types/agents'
 
 /**
  * Fetch death rate data from World Bank API
@@ -213,7 +72,7 @@ export async function fetchDeathRateData(city: string, age: number): Promise<Dea
         Lucknow: 1.05
       }
 
-      const multiplier = cityMultipliers[city] || 1.0
+      const multiplier = cityMultipliers[canonicalCityName(city)] || 1.0
       ageAdjustedRate *= multiplier
 
       const result: DeathRateData = {
@@ -326,7 +185,7 @@ export async function fetchCrimeData(city: string): Promise<CrimeData> {
         Lucknow: { rate: 245.6, violent: 9.8, property: 235.8, safety: 78 }
       }
 
-      const rates = crimeRates[city] || { rate: 300, violent: 15, property: 285, safety: 70 }
+      const rates = crimeRates[canonicalCityName(city)] || { rate: 300, violent: 15, property: 285, safety: 70 }
 
       const result: CrimeData = {
         city,
@@ -448,13 +307,45 @@ function determineSeverity(text: string): 'low' | 'medium' | 'high' | 'critical'
   return 'low'
 }
 
+const DATA_SOURCE_LABELS: Record<DataSourceId, string> = {
+  climate: 'Climate & air quality',
+  deathRate: 'Mortality statistics',
+  occupationDeathRate: 'Occupational fatality rates',
+  crime: 'Crime statistics',
+  healthAlerts: 'Health alerts',
+  locality: 'Locality data',
+  climateHistory: 'Climate history (12 months)'
+}
+
+/**
+ * Report a fetch's start and finish to the pipeline, if one is listening
+ */
+export async function trackSource<T>(
+  source: DataSourceId,
+  fetchFn: () => Promise<T>,
+  describe: (data: T) => string,
+  emit?: PipelineEmitter
+): Promise<T> {
+  const label = DATA_SOURCE_LABELS[source]
+  const startTime = Date.now()
+  emit?.({ type: 'source_started', source, label })
+
+  const data = await fetchFn()
+  emit?.({ type: 'source_finished', source, label, sourceLabel: describe(data), durationMs: Date.now() - startTime })
+  return data
+}
+
 /**
- * Fetch all real-time data
+ * Fetch all real-time data. `area` picks the AQI station nearest to it over the city feed;
+ * `state` tells same-name cities apart.
  */
 export async function fetchAllRealTimeData(
   city: string,
   occupation: string,
-  age: number
+  age: number,
+  area: string = '',
+  state: string = '',
+  emit?: PipelineEmitter
 ): Promise<RealTimeData> {
   const startTime = Date.now()
   
@@ -462,11 +353,11 @@ export async function fetchAllRealTimeData(
 
   // Fetch all data in parallel for better performance
   const [climate, deathRate, occupationDeathRate, crime, healthAlerts] = await Promise.all([
-    fetchClimateData(city),
-    fetchDeathRateData(city, age),
-    fetchOccupationDeathRate(occupation),
-    fetchCrimeData(city),
-    fetchHealthAlerts(city)
+    trackSource('climate', () => fetchClimateData(city, area, state), data => `${data.sources.aqi} / ${data.sources.weather}`, emit),
+    trackSource('deathRate', () => fetchDeathRateData(city, age), data => data.source, emit),
+    trackSource('occupationDeathRate', () => fetchOccupationDeathRate(occupation), data => data.source, emit),
+    trackSource('crime', () => fetchCrimeData(city), data => data.source, emit),
+    trackSource('healthAlerts', () => fetchHealthAlerts(city), alerts => `${alerts.length} alerts`, emit)
   ])
 
   // Calculate data quality
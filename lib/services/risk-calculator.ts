@@ -1,5 +1,36 @@
-import { RiskFactor } from "@/types/agents"
-import { calculateCrimeStressImpact } from "@/lib/data/crime-statistics"
+import {
+  ClimateHistorySummary,
+  LocalityData,
+  LocalityScope,
+  PollutantBreakdown,
+  RiskContribution,
+  RiskFactor,
+  RiskScoreBreakdown,
+} from "@/types/agents"
+import {
+  AboveBand,
+  BelowBand,
+  CatalogueScoring,
+  FlatScoring,
+  LevelBand,
+  LocalityScoring,
+  OccupationalPollutant,
+  RiskLevel,
+  RiskScoringModel,
+  getRiskModel,
+} from "@/lib/config/risk-models"
+import {
+  ADDICTIONS,
+  CatalogueEntry,
+  ConditionSensitivity,
+  MEDICAL_CONDITIONS,
+  MedicalCondition,
+  ReportedItem,
+  SURGERIES,
+  matchReportedItems,
+} from "@/lib/data/medical-conditions"
+import { normalizeHealthHistory } from "@/lib/utils/health-history"
+import { POLLUTANT_LABELS } from "@/lib/utils/pollutants"
 
 export interface RiskCalculationInput {
   userProfile: any
@@ -7,219 +38,704 @@ export interface RiskCalculationInput {
   statisticalData: any
   occupationHazard: any
   cityStats: any
+  // Area-level inputs; absent when only city-level data was collected
+  localityData?: LocalityData
 }
 
 /**
- * Calculate overall risk score (0-100) with enhanced real-time data
+ * Points from the first band the value exceeds
  */
-export function calculateRiskScore(input: RiskCalculationInput): number {
-  let score = 0
-  
-  // 1. Base risk (10 points)
-  score += 10
-  
-  // 2. Age factor (0-20 points) - Enhanced with age-adjusted death rate
-  const age = input.userProfile.age
-  if (age > 60) score += 20
-  else if (age > 50) score += 15
-  else if (age > 40) score += 10
-  else if (age > 30) score += 5
-  
-  // Additional age-adjusted death rate impact (if available)
-  if (input.statisticalData.ageAdjustedDeathRate) {
-    const ageDeathRateImpact = Math.min((input.statisticalData.ageAdjustedDeathRate / 20) * 5, 5)
-    score += ageDeathRateImpact
-  }
-  
-  // 3. Environmental factors (0-25 points) - Enhanced with seasonal risks
-  const aqi = input.environmentalData.aqi
-  if (aqi > 200) score += 25
-  else if (aqi > 150) score += 20
-  else if (aqi > 100) score += 15
-  else if (aqi > 50) score += 10
-  else score += 5
-  
-  // Additional seasonal risk impact
-  if (input.environmentalData.seasonalRisks && input.environmentalData.seasonalRisks.length > 0) {
-    score += Math.min(input.environmentalData.seasonalRisks.length * 2, 5)
-  }
-  
-  // 4. Occupation hazard (0-20 points)
-  const occupationRisk = input.occupationHazard.riskScore
-  score += Math.round(occupationRisk * 0.2) // Scale to 0-20
-  
-  // 5. Health condition (0-15 points)
-  if (input.userProfile.healthCondition !== "None" && input.userProfile.healthCondition !== "") {
-    score += 15
+function pointsAbove(value: number, bands: AboveBand[], otherwise: number = 0): number {
+  const band = bands.find(b => value > b.above)
+  return band ? band.points : otherwise
+}
+
+/**
+ * Points from the first band the value falls below
+ */
+function pointsBelow(value: number, bands: BelowBand[]): number {
+  const band = bands.find(b => value < b.below)
+  return band ? band.points : 0
+}
+
+/**
+ * Risk factor level for a value, or null if it doesn't warrant a factor
+ */
+function levelFor(value: number, bands: LevelBand[]): RiskLevel | null {
+  const band = bands.find(b =>
+    (b.above === undefined || value > b.above) && (b.below === undefined || value < b.below)
+  )
+  return band ? band.level : null
+}
+
+/**
+ * The profile form stores "Night"/"Rotating"; older profiles used "Night Shift"
+ */
+function normalizeWorkShift(workShift: string | undefined): string {
+  return (workShift || "").replace(/\s*Shift$/i, "")
+}
+
+// Per-component scoring, shared by the score and the generated risk factors
+
+function ageScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  return pointsAbove(input.userProfile.age, model.age.bands)
+}
+
+function ageDeathRateScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  const rate = input.statisticalData.ageAdjustedDeathRate
+  if (!rate) return 0
+  const { divisor, multiplier, cap } = model.ageAdjustedDeathRate
+  return Math.min((rate / divisor) * multiplier, cap)
+}
+
+function aqiScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  return pointsAbove(input.environmentalData.aqi, model.aqi.bands, model.aqi.otherwise)
+}
+
+function seasonalScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  const risks: string[] = input.environmentalData.seasonalRisks || []
+  return Math.min(risks.length * model.seasonalRisks.pointsPerRisk, model.seasonalRisks.cap)
+}
+
+function occupationScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  return Math.round(input.occupationHazard.riskScore * model.occupation.weight)
+}
+
+function workShiftScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  return model.workShift.points[normalizeWorkShift(input.userProfile.workShift)] || 0
+}
+
+function crimeScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  return Math.min(pointsAbove(input.cityStats.crimeRate, model.crime.bands, model.crime.otherwise), model.crime.cap)
+}
+
+function violentCrimeScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  const rate = input.statisticalData.violentCrimeRate
+  const { threshold, divisor, cap } = model.violentCrime
+  if (!rate || rate <= threshold) return 0
+  return Math.min(rate / divisor, cap)
+}
+
+function safetyIndexScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  const safetyIndex = input.statisticalData.safetyIndex
+  if (!safetyIndex) return 0
+  return pointsBelow(safetyIndex, model.safetyIndex.bands)
+}
+
+// Twelve-month history, scored alongside the current reading
+
+function chronicAirQualityScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  const aqi = input.environmentalData.history?.aqi
+  if (!model.climateHistory || !aqi) return 0
+  const { daysAbove150, daysAbove200, cap } = model.climateHistory.airQuality
+  return Math.min(pointsAbove(aqi.daysAbove150, daysAbove150) + pointsAbove(aqi.daysAbove200, daysAbove200), cap)
+}
+
+function heatExposureScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  const weather = input.environmentalData.history?.weather
+  if (!model.climateHistory || !weather) return 0
+  const { heatwaveDays, humidDays, cap } = model.climateHistory.heat
+  return Math.min(pointsAbove(weather.heatwaveDays, heatwaveDays) + pointsAbove(weather.humidDays, humidDays), cap)
+}
+
+// Pollutant breakdown: exposure some occupations add on top of the station reading
+
+interface OccupationalExposure {
+  rule: OccupationalPollutant
+  value: number
+  points: number
+}
+
+function occupationalPollutants(input: RiskCalculationInput, model: RiskScoringModel): OccupationalExposure[] {
+  const pollutants: PollutantBreakdown | undefined = input.environmentalData.pollutants
+  if (!model.pollutants || !pollutants) return []
+
+  return model.pollutants.occupational.flatMap(rule => {
+    const value = pollutants.values[rule.pollutant]
+    if (value === undefined || !rule.occupations.includes(input.userProfile.occupation)) return []
+    return [{ rule, value, points: pointsAbove(value, rule.bands) }]
+  })
+}
+
+function pollutantExposureScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  if (!model.pollutants) return 0
+  const total = occupationalPollutants(input, model).reduce((sum, exposure) => sum + exposure.points, 0)
+  return Math.min(total, model.pollutants.occupationalCap)
+}
+
+// Locality inputs count in full for the user's area and at a reduced weight when city-level
+
+function scopeWeight(scope: LocalityScope, scoring: LocalityScoring): number {
+  return scope === "city" ? scoring.cityFallbackWeight : 1
+}
+
+function floodScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  const flood = input.localityData?.floodRisk
+  if (!model.locality || !flood) return 0
+  return model.locality.floodRisk.points[flood.level] * scopeWeight(flood.scope, model.locality)
+}
+
+function hospitalAccessScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  const hospital = input.localityData?.nearestHospital
+  if (!model.locality || !hospital) return 0
+  return pointsAbove(hospital.distanceKm, model.locality.hospitalDistance.bands) * scopeWeight(hospital.scope, model.locality)
+}
+
+function wardHealthPoints(input: RiskCalculationInput, model: RiskScoringModel): number {
+  const ward = input.localityData?.wardHealth
+  if (!model.locality || !ward) return 0
+  const { vectorBorne, waterborne, cap } = model.locality.wardHealth
+  return Math.min(
+    pointsAbove(ward.vectorBorneCasesPer100k, vectorBorne) + pointsAbove(ward.waterborneCasesPer100k, waterborne),
+    cap
+  )
+}
+
+function wardHealthScore(input: RiskCalculationInput, model: RiskScoringModel): number {
+  const ward = input.localityData?.wardHealth
+  if (!model.locality || !ward) return 0
+  return wardHealthPoints(input, model) * scopeWeight(ward.scope, model.locality)
+}
+
+/**
+ * How a locality value is described: the user's area, or the city when it fell back
+ */
+function localityWhere(input: RiskCalculationInput, scope: LocalityScope): string {
+  return scope === "locality" ? "Your area" : `${input.environmentalData.city} (city-level figure)`
+}
+
+// Health conditions, addictions and surgeries are scored per reported item
+
+interface ConditionInteraction {
+  sensitivity: ConditionSensitivity
+  points: number
+  reason: string
+}
+
+interface ScoredItem {
+  name: string
+  // Condition status or addiction frequency, when reported
+  qualifier?: string
+  // Catalogue weight after qualifier modifiers, before the additional-entry discount
+  weight: number
+  points: number
+  interactions: ConditionInteraction[]
+}
+
+/**
+ * Score catalogue items: the heaviest item counts in full, the rest at `additionalWeight`
+ */
+function scoreCatalogueItems<T extends CatalogueEntry>(
+  reported: ReportedItem<T>[],
+  scoring: CatalogueScoring,
+  interactionsFor: (entry: T) => ConditionInteraction[] = () => []
+): ScoredItem[] {
+  const items = reported
+    .map(item => {
+      const baseWeight = item.entry ? scoring.weights[item.entry.id] ?? scoring.unrecognised : scoring.unrecognised
+      const modifier = item.qualifier ? scoring.modifiers?.[item.qualifier] ?? 1 : 1
+      return {
+        name: item.name,
+        qualifier: item.qualifier,
+        weight: roundPoints(baseWeight * modifier),
+        interactions: item.entry ? interactionsFor(item.entry) : [],
+      }
+    })
+    .sort((a, b) => b.weight - a.weight)
+
+  return items.map((item, index) => ({
+    ...item,
+    points: roundPoints(index === 0 ? item.weight : item.weight * scoring.additionalWeight),
+  }))
+}
+
+/**
+ * Flat scoring treats all reported items as a single answer
+ */
+function flatItem(names: string[], scoring: FlatScoring): ScoredItem[] {
+  if (names.length === 0) return []
+  return [{ name: names.join(", "), weight: scoring.points, points: scoring.points, interactions: [] }]
+}
+
+function conditionInteractions(
+  condition: MedicalCondition,
+  input: RiskCalculationInput,
+  model: RiskScoringModel
+): ConditionInteraction[] {
+  if (model.healthCondition.type !== "catalogue") return []
+
+  const rules = model.healthCondition.interactions
+  const interactions: ConditionInteraction[] = []
+  const add = (sensitivity: ConditionSensitivity, points: number, reason: string) => {
+    if (condition.sensitivities.includes(sensitivity) && points > 0) {
+      interactions.push({ sensitivity, points, reason })
+    }
   }
-  
-  // 6. Addictions (0-10 points)
-  if (input.userProfile.addictions !== "None" && input.userProfile.addictions !== "") {
-    score += 10
+
+  // A clean-air day should not hide a polluted year
+  const currentAQI: number = input.environmentalData.aqi
+  const annualAQI = model.climateHistory ? input.environmentalData.history?.aqi?.mean : undefined
+  if (annualAQI !== undefined && annualAQI > currentAQI) {
+    add("airQuality", pointsAbove(annualAQI, rules.airQuality), `a 12-month mean AQI of ${annualAQI}`)
+  } else {
+    add("airQuality", pointsAbove(currentAQI, rules.airQuality), `AQI of ${currentAQI}`)
   }
-  
-  // 7. Past surgery (0-5 points)
-  if (input.userProfile.pastSurgery !== "None" && input.userProfile.pastSurgery !== "") {
-    score += 5
+
+  // The pollutant that most affects this condition, beyond the overall AQI
+  const pollutants: PollutantBreakdown | undefined = input.environmentalData.pollutants
+  const aggravating = model.pollutants?.conditions[condition.id] || []
+  const worst = aggravating
+    .filter(pollutant => pollutants?.values[pollutant] !== undefined)
+    .sort((a, b) => pollutants!.values[b]! - pollutants!.values[a]!)[0]
+  if (model.pollutants && worst) {
+    const value = pollutants!.values[worst]!
+    add("airQuality", pointsAbove(value, model.pollutants.conditionBands), `${POLLUTANT_LABELS[worst]} at ${value}`)
   }
-  
-  // 8. Work shift impact (0-5 points)
-  if (input.userProfile.workShift === "Night Shift") {
-    score += 5
-  } else if (input.userProfile.workShift === "Rotating Shift") {
-    score += 3
+
+  const temperature = input.environmentalData.temperature
+  add("heat", pointsAbove(temperature, rules.heat), `temperatures of ${temperature}°C`)
+
+  if (rules.physicalLabour.hazardLevels.includes(input.occupationHazard.hazardLevel)) {
+    add("physicalLabour", rules.physicalLabour.points, `${input.occupationHazard.hazardLevel}-hazard work as ${input.userProfile.occupation}`)
   }
-  
-  // 9. Crime-related stress (0-10 points) - Enhanced with violent crime rate
-  const crimeStressImpact = calculateCrimeStressImpact(input.cityStats.crimeRate)
-  score += Math.min(crimeStressImpact, 10)
-  
-  // Additional violent crime impact
-  if (input.statisticalData.violentCrimeRate && input.statisticalData.violentCrimeRate > 30) {
-    score += Math.min((input.statisticalData.violentCrimeRate / 10), 5)
+
+  const shift = normalizeWorkShift(input.userProfile.workShift)
+  if (rules.shiftWork.shifts.includes(shift)) {
+    add("shiftWork", rules.shiftWork.points, `${shift.toLowerCase()} shift work`)
   }
-  
-  // 10. Safety index impact (0-5 points)
-  if (input.statisticalData.safetyIndex && input.statisticalData.safetyIndex < 60) {
-    score += 5
-  } else if (input.statisticalData.safetyIndex && input.statisticalData.safetyIndex < 70) {
-    score += 3
+
+  return interactions
+}
+
+function healthConditionItems(input: RiskCalculationInput, model: RiskScoringModel): ScoredItem[] {
+  const scoring = model.healthCondition
+  const { healthConditions } = normalizeHealthHistory(input.userProfile)
+  if (scoring.type === "flat") return flatItem(healthConditions.map(c => c.name), scoring)
+
+  const reported = matchReportedItems(
+    MEDICAL_CONDITIONS,
+    healthConditions.map(c => ({ name: c.name, qualifier: c.status }))
+  )
+  return scoreCatalogueItems(reported, scoring, condition => conditionInteractions(condition, input, model))
+}
+
+function addictionItems(input: RiskCalculationInput, model: RiskScoringModel): ScoredItem[] {
+  const scoring = model.addictions
+  const { addictions } = normalizeHealthHistory(input.userProfile)
+  if (scoring.type === "flat") return flatItem(addictions.map(a => a.name), scoring)
+
+  const reported = matchReportedItems(ADDICTIONS, addictions.map(a => ({ name: a.name, qualifier: a.frequency })))
+  return scoreCatalogueItems(reported, scoring)
+}
+
+function pastSurgeryItems(input: RiskCalculationInput, model: RiskScoringModel): ScoredItem[] {
+  const scoring = model.pastSurgery
+  const { pastSurgeries } = normalizeHealthHistory(input.userProfile)
+  if (scoring.type === "flat") return flatItem(pastSurgeries.map(s => s.name), scoring)
+
+  return scoreCatalogueItems(matchReportedItems(SURGERIES, pastSurgeries.map(s => ({ name: s.name }))), scoring)
+}
+
+function itemsScore(items: ScoredItem[], scoring: FlatScoring | CatalogueScoring): number {
+  const total = items.reduce((sum, item) => sum + item.points, 0)
+  return scoring.type === "catalogue" ? Math.min(total, scoring.cap) : total
+}
+
+function interactionScore(items: ScoredItem[], model: RiskScoringModel): number {
+  if (model.healthCondition.type !== "catalogue") return 0
+  const total = items.reduce(
+    (sum, item) => sum + item.interactions.reduce((itemSum, interaction) => itemSum + interaction.points, 0),
+    0
+  )
+  return Math.min(total, model.healthCondition.interactions.cap)
+}
+
+/**
+ * Risk factor level for a single scored item
+ */
+function itemLevel(points: number, scoring: FlatScoring | CatalogueScoring): RiskLevel {
+  if (scoring.type === "flat") return scoring.factorLevel || "low"
+  return levelFor(points, scoring.factorLevels) || "low"
+}
+
+function itemLabel(item: ScoredItem): string {
+  return item.qualifier && item.qualifier !== "unknown" ? `${item.name} (${item.qualifier})` : item.name
+}
+
+function itemNames(items: ScoredItem[]): string | null {
+  return items.length > 0 ? items.map(itemLabel).join(", ") : null
+}
+
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100
+}
+
+/**
+ * Calculate the per-component contribution ledger behind the risk score.
+ * Contributions, rounding and the cap always sum exactly to `score`.
+ */
+export function calculateRiskBreakdown(
+  input: RiskCalculationInput,
+  model: RiskScoringModel = getRiskModel()
+): RiskScoreBreakdown {
+  const { userProfile, environmentalData, statisticalData, occupationHazard, cityStats, localityData } = input
+  const seasonalRisks: string[] = environmentalData.seasonalRisks || []
+  const history: ClimateHistorySummary | undefined = environmentalData.history
+  const conditions = healthConditionItems(input, model)
+  const addictions = addictionItems(input, model)
+  const surgeries = pastSurgeryItems(input, model)
+
+  const contribution = (
+    key: string,
+    label: string,
+    inputValue: number | string | null | undefined,
+    points: number
+  ): RiskContribution => ({
+    key,
+    label,
+    inputValue: inputValue === undefined || inputValue === "" ? null : inputValue,
+    points: roundPoints(points),
+  })
+
+  const contributions: RiskContribution[] = [
+    contribution("base", "Base risk", null, model.base),
+    contribution("age", "Age", userProfile.age, ageScore(input, model)),
+    contribution(
+      "ageAdjustedDeathRate",
+      "Age-adjusted death rate",
+      statisticalData.ageAdjustedDeathRate,
+      ageDeathRateScore(input, model)
+    ),
+    contribution("aqi", "Air quality (AQI)", environmentalData.aqi, aqiScore(input, model)),
+    contribution("seasonalRisks", "Seasonal risks", seasonalRisks.length, seasonalScore(input, model)),
+    ...(model.climateHistory
+      ? [
+          contribution(
+            "chronicAirQuality",
+            "Air quality, last 12 months",
+            history?.aqi && `${history.aqi.daysAbove150} days above 150, ${history.aqi.daysAbove200} above 200`,
+            chronicAirQualityScore(input, model)
+          ),
+          contribution(
+            "heatExposure",
+            "Heat and humidity, last 12 months",
+            history?.weather && `${history.weather.heatwaveDays} heatwave days, ${history.weather.humidDays} humid days`,
+            heatExposureScore(input, model)
+          ),
+        ]
+      : []),
+    contribution("occupation", "Occupation hazard", occupationHazard.riskScore, occupationScore(input, model)),
+    ...(model.pollutants
+      ? [
+          contribution(
+            "pollutantExposure",
+            "Occupational pollutant exposure",
+            occupationalPollutants(input, model).map(({ rule, value }) => `${POLLUTANT_LABELS[rule.pollutant]} ${value}`).join(", "),
+            pollutantExposureScore(input, model)
+          ),
+        ]
+      : []),
+    contribution(
+      "healthCondition",
+      "Health conditions",
+      itemNames(conditions),
+      itemsScore(conditions, model.healthCondition)
+    ),
+    contribution(
+      "conditionInteractions",
+      "Condition interactions",
+      conditions.flatMap(item => item.interactions.map(i => i.reason)).join(", "),
+      interactionScore(conditions, model)
+    ),
+    contribution("addictions", "Addictions", itemNames(addictions), itemsScore(addictions, model.addictions)),
+    contribution("pastSurgery", "Past surgery", itemNames(surgeries), itemsScore(surgeries, model.pastSurgery)),
+    contribution("workShift", "Work shift", userProfile.workShift, workShiftScore(input, model)),
+    contribution("crime", "Crime rate", cityStats.crimeRate, crimeScore(input, model)),
+    contribution("violentCrime", "Violent crime", statisticalData.violentCrimeRate, violentCrimeScore(input, model)),
+    contribution("safetyIndex", "Safety index", statisticalData.safetyIndex, safetyIndexScore(input, model)),
+    ...(model.locality
+      ? [
+          contribution(
+            "floodRisk",
+            "Flood and waterlogging",
+            localityData?.floodRisk && `${localityData.floodRisk.level} (${localityData.floodRisk.scope})`,
+            floodScore(input, model)
+          ),
+          contribution(
+            "hospitalAccess",
+            "Nearest hospital (km)",
+            localityData?.nearestHospital?.distanceKm,
+            hospitalAccessScore(input, model)
+          ),
+          contribution(
+            "wardHealth",
+            "Ward disease burden",
+            localityData?.wardHealth &&
+              `${localityData.wardHealth.vectorBorneCasesPer100k} vector-borne, ${localityData.wardHealth.waterborneCasesPer100k} waterborne per 100k (${localityData.wardHealth.scope})`,
+            wardHealthScore(input, model)
+          ),
+        ]
+      : []),
+  ]
+
+  const subtotal = roundPoints(contributions.reduce((sum, c) => sum + c.points, 0))
+  const rounded = Math.round(subtotal)
+  const score = Math.min(rounded, model.maxScore)
+
+  return {
+    contributions,
+    subtotal,
+    roundingAdjustment: roundPoints(rounded - subtotal),
+    capAdjustment: score - rounded,
+    maxScore: model.maxScore,
+    score,
   }
-  
-  // Cap at 100
-  return Math.min(Math.round(score), 100)
+}
+
+/**
+ * Calculate overall risk score (0-100) with enhanced real-time data
+ */
+export function calculateRiskScore(
+  input: RiskCalculationInput,
+  model: RiskScoringModel = getRiskModel()
+): number {
+  return calculateRiskBreakdown(input, model).score
 }
 
 /**
  * Determine risk level from score
  */
-export function getRiskLevel(score: number): "low" | "medium" | "high" | "critical" {
-  if (score >= 80) return "critical"
-  if (score >= 60) return "high"
-  if (score >= 40) return "medium"
+export function getRiskLevel(
+  score: number,
+  model: RiskScoringModel = getRiskModel()
+): "low" | "medium" | "high" | "critical" {
+  if (score >= model.riskLevels.critical) return "critical"
+  if (score >= model.riskLevels.high) return "high"
+  if (score >= model.riskLevels.medium) return "medium"
   return "low"
 }
 
 /**
  * Generate detailed risk factors with enhanced real-time data
  */
-export function generateRiskFactors(input: RiskCalculationInput): RiskFactor[] {
+export function generateRiskFactors(
+  input: RiskCalculationInput,
+  model: RiskScoringModel = getRiskModel()
+): RiskFactor[] {
   const factors: RiskFactor[] = []
   
   // Environmental risk - Enhanced with weather condition
   const aqi = input.environmentalData.aqi
   const weatherCondition = input.environmentalData.weatherCondition || ''
+  const aqiLevel = levelFor(aqi, model.aqi.factorLevels)
   
-  if (aqi > 150) {
+  if (aqiLevel) {
+    const effect = aqiLevel === "medium" ? "may affect sensitive individuals" : "poses significant respiratory health risks"
     factors.push({
       category: "Air Quality",
-      level: aqi > 200 ? "critical" : "high",
-      description: `AQI of ${aqi} poses significant respiratory health risks${weatherCondition ? ` (Current: ${weatherCondition})` : ''}`,
-      impact: aqi > 200 ? 25 : 20
-    })
-  } else if (aqi > 100) {
-    factors.push({
-      category: "Air Quality",
-      level: "medium",
-      description: `AQI of ${aqi} may affect sensitive individuals${weatherCondition ? ` (Current: ${weatherCondition})` : ''}`,
-      impact: 15
+      level: aqiLevel,
+      description: `AQI of ${aqi} ${effect}${weatherCondition ? ` (Current: ${weatherCondition})` : ''}`,
+      impact: aqiScore(input, model)
     })
   }
   
   // Seasonal risks
-  if (input.environmentalData.seasonalRisks && input.environmentalData.seasonalRisks.length > 0) {
-    const seasonalRiskLevel = input.environmentalData.seasonalRisks.length > 2 ? "high" : "medium"
+  const seasonalRisks: string[] = input.environmentalData.seasonalRisks || []
+  const seasonalLevel = levelFor(seasonalRisks.length, model.seasonalRisks.factorLevels)
+  if (seasonalLevel) {
     factors.push({
       category: "Seasonal Health Risks",
-      level: seasonalRiskLevel,
-      description: input.environmentalData.seasonalRisks.join('; '),
-      impact: input.environmentalData.seasonalRisks.length * 2
+      level: seasonalLevel,
+      description: seasonalRisks.join('; '),
+      impact: seasonalScore(input, model)
+    })
+  }
+  
+  // Twelve-month history
+  const historyAQI = input.environmentalData.history?.aqi
+  const chronicAirLevel = model.climateHistory && historyAQI
+    ? levelFor(historyAQI.daysAbove150, model.climateHistory.airQuality.factorLevels)
+    : null
+  if (historyAQI && chronicAirLevel) {
+    factors.push({
+      category: "Chronic Air Pollution",
+      level: chronicAirLevel,
+      description: `AQI was above 150 on ${historyAQI.daysAbove150} of the last ${historyAQI.daysMeasured} days (${historyAQI.daysAbove200} above 200), with a 12-month mean of ${historyAQI.mean}`,
+      impact: chronicAirQualityScore(input, model)
+    })
+  }
+
+  const historyWeather = input.environmentalData.history?.weather
+  const heatLevel = model.climateHistory && historyWeather
+    ? levelFor(historyWeather.heatwaveDays, model.climateHistory.heat.factorLevels)
+    : null
+  if (historyWeather && heatLevel) {
+    factors.push({
+      category: "Heatwave Exposure",
+      level: heatLevel,
+      description: `${historyWeather.heatwaveDays} heatwave days (40°C or more, peaking at ${historyWeather.peakTemperature}°C) and ${historyWeather.humidDays} very humid days in the last 12 months`,
+      impact: heatExposureScore(input, model)
     })
   }
   
   // Occupation risk
   const occupationHazard = input.occupationHazard
-  if (occupationHazard.hazardLevel === "critical" || occupationHazard.hazardLevel === "high") {
+  if (model.occupation.factorHazardLevels.includes(occupationHazard.hazardLevel)) {
     factors.push({
       category: "Occupational Hazard",
       level: occupationHazard.hazardLevel,
       description: `${input.userProfile.occupation} has ${occupationHazard.hazardLevel} risk level with death rate of ${occupationHazard.deathRate} per 100,000 workers`,
-      impact: occupationHazard.riskScore * 0.2
+      impact: occupationScore(input, model)
     })
   }
   
+  // Pollutants the occupation is exposed to beyond the station reading
+  occupationalPollutants(input, model).forEach(({ rule, value, points }) => {
+    const level = levelFor(value, rule.factorLevels)
+    if (!level) return
+
+    const dominant: PollutantBreakdown["dominant"] = input.environmentalData.pollutants?.dominant
+    factors.push({
+      category: `Occupational Exposure: ${POLLUTANT_LABELS[rule.pollutant]}`,
+      level,
+      description: `As a ${input.userProfile.occupation.toLowerCase()} you ${rule.exposure}; the ${POLLUTANT_LABELS[rule.pollutant]} sub-index is ${value}${dominant ? ` (dominant pollutant: ${POLLUTANT_LABELS[dominant]})` : ''}`,
+      impact: points
+    })
+  })
+
   // Age risk
   const age = input.userProfile.age
-  if (age > 50) {
+  const ageLevel = levelFor(age, model.age.factorLevels)
+  if (ageLevel) {
     factors.push({
       category: "Age Factor",
-      level: age > 60 ? "high" : "medium",
+      level: ageLevel,
       description: `Age ${age} increases susceptibility to health conditions`,
-      impact: age > 60 ? 20 : 15
+      impact: ageScore(input, model)
     })
   }
   
-  // Health condition
-  if (input.userProfile.healthCondition !== "None" && input.userProfile.healthCondition !== "") {
+  // Health conditions, with the exposures that aggravate each one
+  const conditions = healthConditionItems(input, model)
+  conditions.forEach(item => {
+    const interactionPoints = item.interactions.reduce((sum, interaction) => sum + interaction.points, 0)
+    const aggravation = item.interactions.length > 0
+      ? `, aggravated by ${item.interactions.map(interaction => interaction.reason).join(" and ")}`
+      : ''
+
     factors.push({
-      category: "Pre-existing Condition",
-      level: "high",
-      description: `Existing health condition: ${input.userProfile.healthCondition}`,
-      impact: 15
+      category: model.healthCondition.type === "flat" ? "Pre-existing Condition" : `Pre-existing Condition: ${item.name}`,
+      level: itemLevel(item.weight + interactionPoints, model.healthCondition),
+      description: `Existing health condition: ${itemLabel(item)}${aggravation}`,
+      impact: roundPoints(item.points + interactionPoints)
     })
-  }
+  })
   
   // Lifestyle factors
-  if (input.userProfile.addictions !== "None" && input.userProfile.addictions !== "") {
+  addictionItems(input, model).forEach(item => {
     factors.push({
-      category: "Lifestyle Risk",
-      level: "medium",
-      description: `Addiction to ${input.userProfile.addictions} increases health risks`,
-      impact: 10
+      category: model.addictions.type === "flat" ? "Lifestyle Risk" : `Lifestyle Risk: ${item.name}`,
+      level: itemLevel(item.weight, model.addictions),
+      description: `Addiction to ${itemLabel(item)} increases health risks`,
+      impact: item.points
+    })
+  })
+
+  // Surgical history (flat scoring without a factor level only affects the score)
+  if (model.pastSurgery.type === "catalogue" || model.pastSurgery.factorLevel) {
+    pastSurgeryItems(input, model).forEach(item => {
+      factors.push({
+        category: model.pastSurgery.type === "flat" ? "Surgical History" : `Surgical History: ${item.name}`,
+        level: itemLevel(item.weight, model.pastSurgery),
+        description: `Past surgery (${item.name}) may need ongoing follow-up care`,
+        impact: item.points
+      })
     })
   }
   
   // Work shift
-  if (input.userProfile.workShift === "Night Shift") {
+  const shiftImpact = workShiftScore(input, model)
+  if (shiftImpact > 0) {
     factors.push({
       category: "Work Schedule",
-      level: "medium",
-      description: "Night shift work disrupts circadian rhythm and increases health risks",
-      impact: 5
+      level: model.workShift.factorLevel,
+      description: `${normalizeWorkShift(input.userProfile.workShift)} shift work disrupts circadian rhythm and increases health risks`,
+      impact: shiftImpact
     })
   }
   
   // Crime-related stress - Enhanced with violent crime data
-  if (input.cityStats.crimeRate > 500) {
+  const crimeLevel = levelFor(input.cityStats.crimeRate, model.crime.factorLevels)
+  if (crimeLevel) {
     const violentCrimeInfo = input.statisticalData.violentCrimeRate 
       ? ` including ${input.statisticalData.violentCrimeRate.toFixed(1)} violent crimes per 100k`
       : ''
     
     factors.push({
       category: "Environmental Stress",
-      level: input.cityStats.crimeRate > 1000 ? "high" : "medium",
+      level: crimeLevel,
       description: `High crime rate (${input.cityStats.crimeRate} per 100k${violentCrimeInfo}) contributes to chronic stress`,
-      impact: calculateCrimeStressImpact(input.cityStats.crimeRate)
+      impact: crimeScore(input, model)
     })
   }
   
   // Safety index
-  if (input.statisticalData.safetyIndex && input.statisticalData.safetyIndex < 60) {
+  const safetyLevel = input.statisticalData.safetyIndex
+    ? levelFor(input.statisticalData.safetyIndex, model.safetyIndex.factorLevels)
+    : null
+  if (safetyLevel) {
     factors.push({
       category: "City Safety",
-      level: input.statisticalData.safetyIndex < 50 ? "high" : "medium",
+      level: safetyLevel,
       description: `Low safety index (${input.statisticalData.safetyIndex}/100) indicates higher security concerns`,
-      impact: 5
+      impact: safetyIndexScore(input, model)
+    })
+  }
+  
+  // Locality: flood proneness, hospital access and ward health. Descriptions leave out ward,
+  // hospital and street names, which would identify the area in an LLM prompt.
+  const locality = model.locality
+  const flood = input.localityData?.floodRisk
+  const floodLevel = locality && flood ? locality.floodRisk.factorLevels[flood.level] : undefined
+  if (flood && floodLevel) {
+    factors.push({
+      category: "Flood & Waterlogging",
+      level: floodLevel,
+      description: `${localityWhere(input, flood.scope)} is ${flood.level === "high" ? "highly" : "moderately"} prone to flooding and waterlogging, raising the risk of waterborne and vector-borne disease after heavy rain`,
+      impact: roundPoints(floodScore(input, model))
+    })
+  }
+
+  const hospital = input.localityData?.nearestHospital
+  const hospitalLevel = locality && hospital ? levelFor(hospital.distanceKm, locality.hospitalDistance.factorLevels) : null
+  if (hospital && hospitalLevel) {
+    factors.push({
+      category: "Hospital Access",
+      level: hospitalLevel,
+      description: `${localityWhere(input, hospital.scope)}: the nearest hospital is ${hospital.distanceKm} km away, delaying emergency care`,
+      impact: roundPoints(hospitalAccessScore(input, model))
+    })
+  }
+
+  const ward = input.localityData?.wardHealth
+  const wardLevel = locality && ward ? levelFor(wardHealthPoints(input, model), locality.wardHealth.factorLevels) : null
+  if (ward && wardLevel) {
+    factors.push({
+      category: "Local Disease Burden",
+      level: wardLevel,
+      description: `${localityWhere(input, ward.scope)} reports ${ward.vectorBorneCasesPer100k} dengue and malaria and ${ward.waterborneCasesPer100k} waterborne disease cases per 100,000 residents (${ward.year})`,
+      impact: roundPoints(wardHealthScore(input, model))
     })
   }
   
   // City health index
-  if (input.statisticalData.cityHealthIndex < 60) {
+  const cityHealthLevel = levelFor(input.statisticalData.cityHealthIndex, model.cityHealthIndex.factorLevels)
+  if (cityHealthLevel) {
     factors.push({
       category: "City Health Infrastructure",
-      level: input.statisticalData.cityHealthIndex < 40 ? "high" : "medium",
+      level: cityHealthLevel,
       description: `City health index of ${input.statisticalData.cityHealthIndex}/100 indicates limited healthcare access`,
-      impact: 10
+      impact: model.cityHealthIndex.impact
     })
   }
   
@@ -0,0 +1,166 @@
+import { ObjectId } from "mongodb"
+import clientPromise from "@/lib/mongodb"
+import type { UserRole } from "@/types/next-auth"
+
+export const USER_ROLES: UserRole[] = ["user", "admin"]
+
+export interface UserSummary {
+  _id: string
+  name: string
+  email: string
+  role: UserRole
+  createdAt?: Date
+}
+
+export type RoleChange = { ok: true; user: UserSummary } | { ok: false; reason: "not_found" | "last_admin" }
+
+export interface UserPage {
+  users: UserSummary[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+interface SettingDocument {
+  _id: string
+  userId: string
+  claimedAt: Date
+}
+
+const BOOTSTRAP_SETTING_ID = "admin_bootstrap"
+
+async function usersCollection() {
+  const client = await clientPromise
+  return client.db("carefund").collection("users")
+}
+
+async function settingsCollection() {
+  const client = await clientPromise
+  return client.db("carefund").collection<SettingDocument>("settings")
+}
+
+/**
+ * Accounts created before roles existed have no role field and are regular users
+ */
+export function roleOf(doc: Record<string, any> | null | undefined): UserRole {
+  return doc?.role === "admin" ? "admin" : "user"
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (USER_ROLES as string[]).includes(value)
+}
+
+export async function getUserRole(userId: string): Promise<UserRole | null> {
+  if (!ObjectId.isValid(userId)) return null
+  const users = await usersCollection()
+  const doc = await users.findOne({ _id: new ObjectId(userId) }, { projection: { role: 1 } })
+  return doc ? roleOf(doc) : null
+}
+
+export async function countAdmins(): Promise<number> {
+  const users = await usersCollection()
+  return users.countDocuments({ role: "admin" })
+}
+
+/**
+ * Promote the account named by BOOTSTRAP_ADMIN_EMAIL, but only while no admin exists.
+ * Once there is an admin, roles are managed through /api/admin/users instead.
+ * The promotion is claimed once in the settings collection so concurrent sign-ins cannot
+ * both act on the same empty count. Returns the user's role after any promotion.
+ */
+export async function bootstrapAdmin(userId: string, email: string, role: UserRole): Promise<UserRole> {
+  const bootstrapEmail = process.env.BOOTSTRAP_ADMIN_EMAIL?.trim().toLowerCase()
+  if (role === "admin" || !bootstrapEmail || email.toLowerCase() !== bootstrapEmail) {
+    return role
+  }
+
+  if ((await countAdmins()) > 0) {
+    return role
+  }
+
+  const settings = await settingsCollection()
+  try {
+    await settings.insertOne({ _id: BOOTSTRAP_SETTING_ID, userId, claimedAt: new Date() })
+  } catch (error) {
+    // Another sign-in already claimed the bootstrap
+    if ((error as { code?: number }).code === 11000) return role
+    throw error
+  }
+
+  const users = await usersCollection()
+  await users.updateOne({ _id: new ObjectId(userId) }, { $set: { role: "admin", updatedAt: new Date() } })
+  console.log(`[Auth] Promoted ${email} to admin via BOOTSTRAP_ADMIN_EMAIL`)
+  return "admin"
+}
+
+/**
+ * List accounts for user management, newest first
+ */
+export async function listUsers(page: number, limit: number): Promise<UserPage> {
+  const users = await usersCollection()
+
+  const [total, documents] = await Promise.all([
+    users.countDocuments(),
+    users
+      .find()
+      .project({ name: 1, email: 1, role: 1, createdAt: 1 })
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .toArray(),
+  ])
+
+  return {
+    users: documents.map((doc) => ({
+      _id: doc._id.toString(),
+      name: doc.name ?? "",
+      email: doc.email ?? "",
+      role: roleOf(doc),
+      createdAt: doc.createdAt,
+    })),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  }
+}
+
+/**
+ * Change a user's role. The admin count is checked after the write, because two demotions
+ * that each counted first could both pass and leave no admin; a change that leaves none
+ * is undone and reported as last_admin.
+ */
+export async function setUserRole(userId: string, role: UserRole): Promise<RoleChange> {
+  if (!ObjectId.isValid(userId)) return { ok: false, reason: "not_found" }
+  const users = await usersCollection()
+  const _id = new ObjectId(userId)
+
+  const before = await users.findOneAndUpdate(
+    { _id },
+    { $set: { role, updatedAt: new Date() } },
+    { returnDocument: "before", projection: { name: 1, email: 1, role: 1, createdAt: 1 } }
+  )
+
+  if (!before) return { ok: false, reason: "not_found" }
+
+  if (roleOf(before) === "admin" && role !== "admin" && (await countAdmins()) === 0) {
+    await users.updateOne({ _id }, { $set: { role: "admin", updatedAt: new Date() } })
+    return { ok: false, reason: "last_admin" }
+  }
+
+  return {
+    ok: true,
+    user: {
+      _id: before._id.toString(),
+      name: before.name ?? "",
+      email: before.email ?? "",
+      role,
+      createdAt: before.createdAt,
+    },
+  }
+}
@@ -0,0 +1,143 @@
+import { collectAllData, CollectedData } from "@/lib/services/data-collector"
+import { calculateRiskScore, getRiskLevel } from "@/lib/services/risk-calculator"
+import { getRiskModel, RiskScoringModel } from "@/lib/config/risk-models"
+import { calculateAffordability, calculateMonthlySavings, getInsurancePlan } from "@/lib/data/insurance-plans"
+import { healthHistorySchema, migrateProfile } from "@/lib/utils/health-history"
+import { UserProfile, WhatIfOutcome, WhatIfOverrides, WhatIfResults, WhatIfScenario } from "@/types/agents"
+
+export const MAX_WHAT_IF_SCENARIOS = 5
+
+// The profile being simulated; monthly income only feeds the affordability check
+type SimulatedProfile = UserProfile & { monthlyIncome?: number }
+
+// Pick fails to compile if an override ever names a field the profile does not have
+type OverriddenFields = Pick<SimulatedProfile, keyof WhatIfOverrides>
+
+const STRING_OVERRIDES = ["city", "occupation", "workShift"] as const
+const NUMBER_OVERRIDES = ["age", "monthlyIncome"] as const
+const LIST_OVERRIDES = ["healthConditions", "addictions", "pastSurgeries"] as const
+
+/**
+ * Keep only the overrides the simulator understands.
+ * Returns null if a value has the wrong type.
+ */
+export function parseOverrides(raw: unknown): WhatIfOverrides | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null
+
+  const input = raw as Record<string, unknown>
+  const overrides: WhatIfOverrides = {}
+
+  for (const field of STRING_OVERRIDES) {
+    if (input[field] === undefined) continue
+    if (typeof input[field] !== "string") return null
+    overrides[field] = input[field] as string
+  }
+
+  for (const field of NUMBER_OVERRIDES) {
+    if (input[field] === undefined) continue
+    const value = Number(input[field])
+    if (!Number.isFinite(value) || value <= 0) return null
+    overrides[field] = value
+  }
+
+  const lists = Object.fromEntries(
+    LIST_OVERRIDES.filter((field) => input[field] !== undefined).map((field) => [field, input[field]])
+  )
+  const parsedLists = healthHistorySchema.partial().safeParse(lists)
+  if (!parsedLists.success) return null
+
+  return { ...overrides, ...parsedLists.data }
+}
+
+/**
+ * The base profile with a scenario's overrides applied. Moving to another city drops the
+ * base profile's area and picked location, so the scenario is scored for the city it names.
+ */
+function applyOverrides(base: SimulatedProfile, overrides: Partial<OverriddenFields>): SimulatedProfile {
+  const profile: SimulatedProfile = { ...base, ...overrides }
+  if (overrides.city === undefined || overrides.city === base.city) return profile
+
+  return { ...profile, area: "", cityLocation: undefined }
+}
+
+/**
+ * Score and price a single profile against already collected data
+ */
+async function evaluateProfile(profile: SimulatedProfile, data: CollectedData, model: RiskScoringModel): Promise<WhatIfOutcome> {
+  const age = profile.age
+  const riskScore = calculateRiskScore(
+    {
+      userProfile: profile,
+      environmentalData: data.environmental,
+      statisticalData: data.statistical,
+      occupationHazard: data.occupationHazard,
+      cityStats: data.cityStats,
+      localityData: data.locality,
+    },
+    model
+  )
+
+  const plan = await getInsurancePlan(riskScore, age, profile.occupation)
+  const monthlySavings = calculateMonthlySavings(riskScore, plan.premium, age)
+  const monthlyIncome = profile.monthlyIncome || 50000
+
+  return {
+    riskScore,
+    riskLevel: getRiskLevel(riskScore, model),
+    insurancePlan: { name: plan.name, type: plan.type, premium: plan.premium, coverage: plan.coverage },
+    monthlySavings,
+    affordability: calculateAffordability(monthlyIncome, plan.premium, monthlySavings),
+  }
+}
+
+/**
+ * Re-run the risk and plan engines for a base profile and a set of scenarios.
+ * Only deterministic calculations run here: no Gemini calls and nothing is saved.
+ */
+export async function runWhatIf(
+  rawProfile: UserProfile & { monthlyIncome?: number | string },
+  scenarios: WhatIfScenario[]
+): Promise<WhatIfResults> {
+  const model = getRiskModel()
+  // Profiles posted from the form carry age and income as strings
+  const migrated = migrateProfile(rawProfile)
+  const baseProfile: SimulatedProfile = {
+    ...migrated,
+    age: Number(migrated.age),
+    monthlyIncome: Number(rawProfile.monthlyIncome) || undefined,
+  }
+
+  // City, area, occupation and age drive data collection; scenarios sharing them reuse one fetch
+  const collected = new Map<string, Promise<CollectedData>>()
+  const collectFor = (profile: SimulatedProfile) => {
+    const area = profile.area || ""
+    const state = profile.cityLocation?.state || ""
+    const key = `${profile.city}|${state}|${area}|${profile.occupation}|${profile.age}`
+    if (!collected.has(key)) {
+      collected.set(key, collectAllData(profile.city, profile.occupation, profile.age, area, state))
+    }
+    return collected.get(key)!
+  }
+
+  const baseline = await evaluateProfile(baseProfile, await collectFor(baseProfile), model)
+
+  const results = await Promise.all(
+    scenarios.map(async (scenario) => {
+      const profile = applyOverrides(baseProfile, scenario.overrides)
+      const outcome = await evaluateProfile(profile, await collectFor(profile), model)
+
+      return {
+        label: scenario.label,
+        overrides: scenario.overrides,
+        outcome,
+        delta: {
+          riskScore: outcome.riskScore - baseline.riskScore,
+          premium: outcome.insurancePlan.premium - baseline.insurancePlan.premium,
+          monthlySavings: outcome.monthlySavings - baseline.monthlySavings,
+        },
+      }
+    })
+  )
+
+  return { riskModelVersion: model.version, baseline, scenarios: results }
+}
@@ -2,6 +2,8 @@
  * Type definitions for external API responses
  */
 
+import { PollutantBreakdown } from '@/types/agents'
+
 // Weather & Climate Data
 export interface WeatherData {
   temperature: number
@@ -20,6 +22,14 @@ export interface ClimateData {
   weatherCondition: string
   climateRisk: 'Low' | 'Moderate' | 'High' | 'Critical'
   seasonalRisks: string[]
+  // Absent when the AQI was estimated
+  pollutants?: PollutantBreakdown
+  // Set when the AQI is the station nearest the profile's area rather than the city feed
+  station?: {
+    name: string
+    distanceKm: number
+    cityAqi: number
+  }
   timestamp: string
   sources: {
     weather: string
@@ -221,3 +231,104 @@ export interface AQICNResponse {
     }
   }
 }
+
+// Open-Meteo Geocoding Response
+export interface OpenMeteoGeocodingResponse {
+  results?: Array<{
+    id: number
+    name: string
+    latitude: number
+    longitude: number
+    feature_code: string
+    country_code: string
+    admin1?: string
+    admin2?: string
+    population?: number
+  }>
+}
+
+// India Post Pincode Response (one element per requested pincode)
+export type IndiaPostPincodeResponse = Array<{
+  Status: 'Success' | 'Error' | '404'
+  Message: string
+  PostOffice: Array<{
+    Name: string
+    District: string
+    State: string
+    Block: string
+    Country: string
+    Pincode: string
+  }> | null
+}>
+
+// OpenStreetMap Overpass API Response (`out center` gives ways and relations a centre point)
+export interface OverpassResponse {
+  elements: Array<{
+    type: 'node' | 'way' | 'relation'
+    id: number
+    lat?: number
+    lon?: number
+    center?: {
+      lat: number
+      lon: number
+    }
+    tags?: {
+      name?: string
+      [key: string]: string | undefined
+    }
+  }>
+}
+
+// Open-Meteo Archive Response (daily values, null where the reanalysis has a gap)
+export interface OpenMeteoArchiveResponse {
+  daily: {
+    time: string[]
+    temperature_2m_max: (number | null)[]
+    relative_humidity_2m_mean: (number | null)[]
+    relative_humidity_2m_max: (number | null)[]
+    relative_humidity_2m_min: (number | null)[]
+  }
+}
+
+// Open-Meteo Air Quality Response (hourly US AQI)
+export interface OpenMeteoAirQualityResponse {
+  hourly: {
+    time: string[]
+    us_aqi: (number | null)[]
+  }
+}
+
+// Open-Meteo Current Conditions Response
+export interface OpenMeteoCurrentResponse {
+  current: {
+    time: string
+    temperature_2m: number
+    relative_humidity_2m: number
+    weather_code: number
+  }
+}
+
+// Open-Meteo Forecast Response (hourly and daily values for the coming week)
+export interface OpenMeteoForecastResponse {
+  hourly: {
+    time: string[]
+    temperature_2m: (number | null)[]
+    relative_humidity_2m: (number | null)[]
+    uv_index: (number | null)[]
+  }
+  daily: {
+    time: string[]
+    temperature_2m_max: (number | null)[]
+    temperature_2m_min: (number | null)[]
+    uv_index_max: (number | null)[]
+  }
+}
+
+// Open-Meteo Air Quality Forecast Response (hourly particulate matter in µg/m³)
+export interface OpenMeteoParticulateResponse {
+  hourly: {
+    time: string[]
+    pm2_5: (number | null)[]
+    pm10: (number | null)[]
+  }
+}
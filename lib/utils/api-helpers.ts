@@ -17,6 +17,20 @@ export class APIError extends Error {
   }
 }
 
+// Recent calls kept per API name for latency percentiles
+const METRIC_WINDOW = 100
+
+export interface APIMetricRecord {
+  calls: number
+  failures: number
+  // Durations of the most recent calls, oldest first
+  recentDurations: number[]
+  lastSuccess: string | null
+  lastError: { at: string; message: string } | null
+}
+
+const apiMetrics = new Map<string, APIMetricRecord>()
+
 /**
  * Sleep utility for retry delays
  */
@@ -52,14 +66,17 @@ async function fetchWithTimeout(
 }
 
 /**
- * Retry logic with exponential backoff
+ * Retry logic with exponential backoff.
+ * validate may reject a successful response by returning a problem; that fails the call without retrying.
  */
 export async function fetchWithRetry<T>(
   url: string,
   options: RequestInit,
   config: APIConfig,
-  apiName: string
+  apiName: string,
+  validate?: (data: T) => string | null
 ): Promise<T> {
+  const startTime = Date.now()
   let lastError: Error | null = null
 
   for (let attempt = 0; attempt <= config.retryAttempts; attempt++) {
@@ -80,7 +97,16 @@ export async function fetchWithRetry<T>(
 
       // Parse JSON response
       const data = await response.json()
+
+      // The same body would come back on a retry
+      const problem = validate?.(data) ?? null
+      if (problem) {
+        lastError = new APIError(problem, response.status, apiName)
+        break
+      }
+
       console.log(`[API] ${apiName} - Success`)
+      logAPIMetrics(apiName, startTime, true)
       return data as T
 
     } catch (error) {
@@ -90,6 +116,7 @@ export async function fetchWithRetry<T>(
       // Don't retry on client errors (4xx) except 429 (rate limit)
       if (error instanceof APIError && error.statusCode) {
         if (error.statusCode >= 400 && error.statusCode < 500 && error.statusCode !== 429) {
+          logAPIMetrics(apiName, startTime, false, error.message)
           throw error
         }
       }
@@ -104,6 +131,7 @@ export async function fetchWithRetry<T>(
   }
 
   // All attempts failed
+  logAPIMetrics(apiName, startTime, false, lastError?.message)
   throw new APIError(
     `Failed after ${config.retryAttempts + 1} attempts: ${lastError?.message}`,
     undefined,
@@ -185,7 +213,7 @@ export function parseErrorMessage(error: any): string {
 }
 
 /**
- * Log API call metrics
+ * Log API call metrics and record them for the data source health report
  */
 export function logAPIMetrics(
   apiName: string,
@@ -197,4 +225,21 @@ export function logAPIMetrics(
   const status = success ? 'SUCCESS' : 'FAILED'
   
   console.log(`[API Metrics] ${apiName} - ${status} - ${duration}ms${error ? ` - ${error}` : ''}`)
+
+  const record = apiMetrics.get(apiName) || { calls: 0, failures: 0, recentDurations: [], lastSuccess: null, lastError: null }
+  const at = new Date().toISOString()
+  apiMetrics.set(apiName, {
+    calls: record.calls + 1,
+    failures: record.failures + (success ? 0 : 1),
+    recentDurations: [...record.recentDurations, duration].slice(-METRIC_WINDOW),
+    lastSuccess: success ? at : record.lastSuccess,
+    lastError: success ? record.lastError : { at, message: error || 'Unknown error' }
+  })
+}
+
+/**
+ * Calls recorded under an API name since the process started, null if there were none
+ */
+export function getAPIMetrics(apiName: string): APIMetricRecord | null {
+  return apiMetrics.get(apiName) || null
 }
@@ -0,0 +1,127 @@
+import { z } from "zod"
+import { splitFreeText } from "@/lib/data/medical-conditions"
+import { AddictionEntry, HealthConditionEntry, SurgeryEntry } from "@/types/agents"
+
+const currentYear = () => new Date().getFullYear()
+
+const entryName = z.string().trim().min(1, "Name is required").max(100)
+
+const yearSchema = z
+  .number()
+  .int()
+  .min(1900)
+  .refine((year) => year <= currentYear(), "Year cannot be in the future")
+  .optional()
+
+export const healthHistorySchema = z.object({
+  healthConditions: z
+    .array(
+      z.object({
+        name: entryName,
+        diagnosedYear: yearSchema,
+        status: z.enum(["controlled", "uncontrolled", "unknown"]).default("unknown"),
+      })
+    )
+    .max(20)
+    .default([]),
+  addictions: z
+    .array(
+      z.object({
+        name: entryName,
+        frequency: z.enum(["occasional", "weekly", "daily", "heavy"]),
+      })
+    )
+    .max(10)
+    .default([]),
+  pastSurgeries: z
+    .array(
+      z.object({
+        name: entryName,
+        year: yearSchema,
+      })
+    )
+    .max(20)
+    .default([]),
+})
+
+export type HealthHistory = z.infer<typeof healthHistorySchema>
+
+export const dependentsSchema = z.object({
+  dependents: z
+    .array(
+      z.object({
+        name: entryName,
+        relationship: z.enum(["spouse", "child", "parent"]),
+        age: z.coerce.number().int().min(0).max(120),
+        healthConditions: healthHistorySchema.shape.healthConditions,
+      })
+    )
+    .max(10)
+    .default([]),
+})
+
+// Split the old single-string fields the same way catalogue matching does
+function splitLegacy(value: unknown): string[] {
+  return typeof value === "string" ? splitFreeText(value) : []
+}
+
+/**
+ * Read the structured health history from a profile, converting the legacy
+ * single-string fields (healthCondition/customHealthCondition, addictions, pastSurgery).
+ */
+export function normalizeHealthHistory(profile: Record<string, any> | null | undefined): HealthHistory {
+  const source = profile || {}
+
+  let healthConditions: HealthConditionEntry[]
+  if (Array.isArray(source.healthConditions)) {
+    healthConditions = source.healthConditions
+  } else if (source.healthCondition === "Other") {
+    // "Other" without a description is still a condition, just an unnamed one
+    const custom = splitLegacy(source.customHealthCondition)
+    healthConditions = (custom.length > 0 ? custom : ["Other"]).map((name) => ({ name, status: "unknown" }))
+  } else {
+    healthConditions = splitLegacy(source.healthCondition).map((name) => ({ name, status: "unknown" }))
+  }
+
+  // Legacy answers carried no frequency; daily keeps their original full weighting
+  const addictions: AddictionEntry[] = Array.isArray(source.addictions)
+    ? source.addictions
+    : splitLegacy(source.addictions).map((name) => ({ name, frequency: "daily" }))
+
+  const pastSurgeries: SurgeryEntry[] = Array.isArray(source.pastSurgeries)
+    ? source.pastSurgeries
+    : splitLegacy(source.pastSurgery).map((name) => ({ name }))
+
+  return { healthConditions, addictions, pastSurgeries }
+}
+
+/**
+ * Replace legacy health fields on a profile with the structured lists
+ */
+export function migrateProfile<T extends Record<string, any>>(profile: T) {
+  const { healthCondition, customHealthCondition, pastSurgery, ...rest } = profile
+  return { ...rest, ...normalizeHealthHistory(profile) }
+}
+
+export function formatHealthConditions(conditions: HealthConditionEntry[]): string {
+  if (conditions.length === 0) return "None"
+  return conditions
+    .map((condition) => {
+      const details = [
+        condition.status !== "unknown" ? condition.status : null,
+        condition.diagnosedYear ? `since ${condition.diagnosedYear}` : null,
+      ].filter(Boolean)
+      return details.length > 0 ? `${condition.name} (${details.join(", ")})` : condition.name
+    })
+    .join(", ")
+}
+
+export function formatAddictions(addictions: AddictionEntry[]): string {
+  if (addictions.length === 0) return "None"
+  return addictions.map((addiction) => `${addiction.name} (${addiction.frequency})`).join(", ")
+}
+
+export function formatSurgeries(surgeries: SurgeryEntry[]): string {
+  if (surgeries.length === 0) return "None"
+  return surgeries.map((surgery) => (surgery.year ? `${surgery.name} (${surgery.year})` : surgery.name)).join(", ")
+}
@@ -0,0 +1,59 @@
+/**
+ * PDF Chart Helpers
+ * Simple vector charts drawn directly with jsPDF primitives
+ */
+
+import type jsPDF from "jspdf"
+import { buildWaterfallSteps, waterfallPeak, WaterfallStep } from "@/lib/utils/score-waterfall"
+import { RiskScoreBreakdown } from "@/types/agents"
+
+const STEP_COLORS: Record<WaterfallStep["kind"], [number, number, number]> = {
+  increase: [249, 115, 22],
+  decrease: [22, 163, 74],
+  total: [8, 145, 178],
+}
+
+/**
+ * Draw a horizontal waterfall of the risk score breakdown.
+ * Returns the y position just below the chart.
+ */
+export function drawScoreWaterfall(
+  pdf: jsPDF,
+  breakdown: RiskScoreBreakdown,
+  x: number,
+  y: number,
+  width: number
+): number {
+  const steps = buildWaterfallSteps(breakdown)
+  const labelWidth = 50
+  const valueWidth = 18
+  const trackWidth = width - labelWidth - valueWidth
+  const rowHeight = 6
+  const scale = trackWidth / waterfallPeak(steps, breakdown.maxScore)
+
+  pdf.setFontSize(8)
+  pdf.setFont("helvetica", "normal")
+
+  steps.forEach((step, index) => {
+    const rowY = y + index * rowHeight
+    const barStart = Math.min(step.start, step.end)
+    const barWidth = Math.max(Math.abs(step.end - step.start) * scale, 0.5)
+
+    pdf.setTextColor(51, 65, 85)
+    pdf.text(step.label, x, rowY + 4)
+
+    // Track
+    pdf.setFillColor(241, 245, 249)
+    pdf.rect(x + labelWidth, rowY + 1, trackWidth, rowHeight - 2, "F")
+
+    // Bar
+    pdf.setFillColor(...STEP_COLORS[step.kind])
+    pdf.rect(x + labelWidth + barStart * scale, rowY + 1, barWidth, rowHeight - 2, "F")
+
+    const valueText = step.kind === "total" ? `${step.end}` : `${step.points > 0 ? "+" : ""}${step.points}`
+    pdf.text(valueText, x + labelWidth + trackWidth + 2, rowY + 4)
+  })
+
+  pdf.setTextColor(0, 0, 0)
+  return y + steps.length * rowHeight + 4
+}
@@ -0,0 +1,169 @@
+import { AgentStep, AnalysisJobView, GeminiTask, LocalityCoverage, LocalityMetric, PipelineEvent, PipelineStage } from "@/types/agents"
+
+const STAGE_INDEX: Record<PipelineStage, number> = {
+  collector: 0,
+  analyzer: 1,
+  planner: 2,
+}
+
+const STAGE_TASK: Partial<Record<PipelineStage, GeminiTask>> = {
+  analyzer: "riskAnalysis",
+  planner: "financialPlan",
+}
+
+const LOCALITY_METRIC_LABELS: Record<LocalityMetric, string> = {
+  aqi: "air quality",
+  floodRisk: "flood risk",
+  hospitalAccess: "hospital access",
+  wardHealth: "ward health",
+}
+
+const pendingLine = (label: string) => `⏳ ${label}`
+
+function localityLine({ localMetrics, cityFallbacks }: LocalityCoverage): string {
+  const labels = (metrics: LocalityMetric[]) => metrics.map((metric) => LOCALITY_METRIC_LABELS[metric]).join(", ") || "none"
+  return `🏘️ Area-level data: ${labels(localMetrics)}; city-level fallback: ${labels(cityFallbacks)}`
+}
+
+function updateStep(steps: AgentStep[], stage: PipelineStage, update: (step: AgentStep) => Partial<AgentStep>): AgentStep[] {
+  const index = STAGE_INDEX[stage]
+  return steps.map((step, idx) => (idx === index ? { ...step, ...update(step) } : step))
+}
+
+/**
+ * Reset steps to their initial state before a new run
+ */
+export function resetSteps(steps: AgentStep[]): AgentStep[] {
+  return steps.map((step) => ({ ...step, status: "pending", details: [], liveText: undefined, error: undefined }))
+}
+
+/**
+ * Fold one pipeline event into the analysis page's agent steps
+ */
+export function applyPipelineEvent(steps: AgentStep[], event: PipelineEvent, profile: any): AgentStep[] {
+  switch (event.type) {
+    case "stage_started":
+      return updateStep(steps, event.stage, () => ({ status: "processing", description: event.message }))
+
+    case "source_started":
+      return updateStep(steps, "collector", (step) => ({
+        description: `Fetching ${event.label.toLowerCase()}...`,
+        details: [...(step.details || []), pendingLine(event.label)],
+      }))
+
+    case "source_finished":
+      return updateStep(steps, "collector", (step) => ({
+        details: (step.details || []).map((line) =>
+          line === pendingLine(event.label)
+            ? `✅ ${event.label}: ${event.sourceLabel} (${(event.durationMs / 1000).toFixed(1)}s)`
+            : line
+        ),
+      }))
+
+    case "risk_scored":
+      return updateStep(
+        updateStep(steps, "collector", () => ({ status: "complete", description: "Data collection complete" })),
+        "analyzer",
+        () => ({
+          status: "processing",
+          description: "Risk score calculated, waiting for AI insights...",
+          details: [
+            `🎯 Overall Risk Score: ${event.riskScore}/100 (${event.riskLevel.toUpperCase()} Risk, model v${event.riskModelVersion})`,
+            `⚠️ Top Risk Factors:`,
+            ...event.topFactors.map((factor) => `  • ${factor.category}: ${factor.description}`),
+          ],
+        })
+      )
+
+    case "gemini_chunk":
+      return updateStep(steps, event.task === "riskAnalysis" ? "analyzer" : "planner", (step) => ({
+        liveText: (step.liveText || "") + event.text,
+      }))
+
+    case "collector_complete": {
+      const { environmentalData: envData, statisticalData: statsData } = event.results
+      const withSummary = updateStep(steps, "collector", (step) => ({
+        status: "complete",
+        description: "Data collection complete",
+        details: [
+          ...(step.details || []),
+          `📍 Location: ${envData.city}, ${profile.area}`,
+          ...(event.results.dataQuality?.locality ? [localityLine(event.results.dataQuality.locality)] : []),
+          `🌫️ Air Quality Index: ${envData.aqi} (${envData.climateRisk} Risk)`,
+          `🌡️ Temperature: ${envData.temperature}°C, Humidity: ${envData.humidity}%`,
+          `💼 Occupation: ${profile.occupation} (${statsData.occupationHazardLevel} hazard level)`,
+          `📊 City Health Index: ${statsData.cityHealthIndex}/100`,
+          `🚨 Crime Rate: ${statsData.crimeRate} per 100,000 population`,
+        ],
+      }))
+      const { riskInsights } = event.results
+      return updateStep(withSummary, "analyzer", (step) => ({
+        status: "complete",
+        description: "Risk analysis complete",
+        details: [
+          ...(step.details || []),
+          ...(riskInsights?.factorCommentary || []).map((item) => `💬 ${item.category}: ${item.commentary}`),
+        ],
+        // The validated summary replaces whatever was streamed before it was checked
+        liveText: riskInsights?.summary || step.liveText || event.results.geminiAnalysis,
+      }))
+    }
+
+    case "planner_complete": {
+      const { insurancePlan, monthlySavings, emergencyFund, autoPaySetup, geminiAnalysis, financialInsights } = event.results
+      return updateStep(steps, "planner", (step) => ({
+        status: "complete",
+        description: "Financial planning complete",
+        details: [
+          `🏥 Recommended Insurance: ${insurancePlan.name}`,
+          `💰 Coverage Amount: ₹${insurancePlan.coverage.toLocaleString()}`,
+          `📅 Monthly Premium: ₹${insurancePlan.premium.toLocaleString()}`,
+          `💵 Suggested Monthly Savings: ₹${monthlySavings.toLocaleString()}`,
+          `🎯 Emergency Fund Target: ₹${emergencyFund.toLocaleString()}`,
+          `🔮 ${autoPaySetup.message}`,
+          ...(financialInsights?.tips || []).map((tip) => `💡 ${tip.title}: ${tip.detail}`),
+        ],
+        liveText: financialInsights?.summary || step.liveText || geminiAnalysis,
+      }))
+    }
+
+    case "error":
+      return updateStep(steps, event.stage, () => ({
+        status: "error",
+        description: "An error occurred during analysis",
+        error: event.message,
+      }))
+
+    case "done":
+      return steps
+  }
+}
+
+/**
+ * Overall progress: finished steps count fully, the running one counts half
+ */
+export function pipelineProgress(steps: AgentStep[]): number {
+  const done = steps.filter((step) => step.status === "complete").length
+  const running = steps.some((step) => step.status === "processing") ? 0.5 : 0
+  return ((done + running) / steps.length) * 100
+}
+
+/**
+ * Rebuild the agent steps from a polled job: replay its recorded events and
+ * place the Gemini text received so far under the stage that produces it
+ */
+export function stepsFromJob(steps: AgentStep[], job: AnalysisJobView, profile: any): AgentStep[] {
+  let next = resetSteps(steps)
+
+  for (const event of job.events) {
+    next = applyPipelineEvent(next, event, profile)
+
+    const task = event.type === "stage_started" ? STAGE_TASK[event.stage] : undefined
+    const text = task && job.liveText[task]
+    if (task && text) {
+      next = applyPipelineEvent(next, { type: "gemini_chunk", task, text }, profile)
+    }
+  }
+
+  return next
+}
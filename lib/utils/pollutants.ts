@@ -0,0 +1,30 @@
+import { AQICNResponse } from "@/lib/types/api-responses"
+import { PollutantBreakdown, PollutantId } from "@/types/agents"
+
+export const POLLUTANT_IDS: PollutantId[] = ["pm25", "pm10", "no2", "o3", "so2", "co"]
+
+export const POLLUTANT_LABELS: Record<PollutantId, string> = {
+  pm25: "PM2.5",
+  pm10: "PM10",
+  no2: "NO₂",
+  o3: "Ozone",
+  so2: "SO₂",
+  co: "CO",
+}
+
+const isPollutant = (value: string): value is PollutantId => (POLLUTANT_IDS as string[]).includes(value)
+
+/**
+ * Pollutant sub-indices from an AQICN feed. Weather readings in `iaqi` (t, h, w...) are
+ * skipped; undefined when the station reports no pollutants at all.
+ */
+export function parsePollutants(data: AQICNResponse["data"] | undefined): PollutantBreakdown | undefined {
+  const values: PollutantBreakdown["values"] = {}
+  Object.entries(data?.iaqi || {}).forEach(([key, reading]) => {
+    const value = Number(reading?.v)
+    if (isPollutant(key) && Number.isFinite(value)) values[key] = Math.round(value)
+  })
+
+  if (Object.keys(values).length === 0) return undefined
+  return { dominant: data?.dominentpol && isPollutant(data.dominentpol) ? data.dominentpol : null, values }
+}
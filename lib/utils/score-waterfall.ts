@@ -0,0 +1,42 @@
+import { RiskScoreBreakdown } from "@/types/agents"
+
+export interface WaterfallStep {
+  label: string
+  start: number
+  end: number
+  points: number
+  kind: "increase" | "decrease" | "total"
+}
+
+/**
+ * Turn a risk score breakdown into waterfall steps.
+ * Zero-point components are skipped; rounding and the cap appear as their own
+ * steps so the running total always lands on the final score.
+ */
+export function buildWaterfallSteps(breakdown: RiskScoreBreakdown): WaterfallStep[] {
+  const steps: WaterfallStep[] = []
+  let running = 0
+
+  const addStep = (label: string, points: number) => {
+    if (points === 0) return
+    const start = running
+    running = Math.round((running + points) * 100) / 100
+    steps.push({ label, start, end: running, points, kind: points > 0 ? "increase" : "decrease" })
+  }
+
+  breakdown.contributions.forEach((contribution) => addStep(contribution.label, contribution.points))
+  addStep("Rounding", breakdown.roundingAdjustment)
+  addStep(`Cap at ${breakdown.maxScore}`, breakdown.capAdjustment)
+
+  steps.push({ label: "Risk score", start: 0, end: breakdown.score, points: breakdown.score, kind: "total" })
+
+  return steps
+}
+
+/**
+ * Highest point the waterfall reaches. Before the cap is applied the running total
+ * can exceed the maximum score, so charts scale to this rather than maxScore.
+ */
+export function waterfallPeak(steps: WaterfallStep[], maxScore: number): number {
+  return Math.max(maxScore, ...steps.map((step) => Math.max(step.start, step.end)))
+}
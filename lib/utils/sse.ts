@@ -0,0 +1,74 @@
+/**
+ * Server-Sent Events helpers shared by streaming routes and the pages that read them.
+ * Streams are read with fetch rather than EventSource so requests can be POSTs.
+ */
+
+const encoder = new TextEncoder()
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+}
+
+export function encodeSSE(data: unknown): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(data)}\n\n`)
+}
+
+/**
+ * Stream whose producer can keep pushing after the client goes away; late writes are dropped
+ */
+export function createSSEStream<T>(produce: (send: (event: T) => void) => Promise<void>): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    async start(controller) {
+      let open = true
+      const send = (event: T) => {
+        if (!open) return
+        try {
+          controller.enqueue(encodeSSE(event))
+        } catch {
+          open = false
+        }
+      }
+
+      try {
+        await produce(send)
+      } finally {
+        if (open) {
+          open = false
+          controller.close()
+        }
+      }
+    },
+  })
+}
+
+/**
+ * Read a `data:` event stream, calling onEvent with each parsed JSON payload
+ */
+export async function readSSE<T>(response: Response, onEvent: (event: T) => void): Promise<void> {
+  if (!response.body) throw new Error("Response has no body to stream")
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    let boundary = buffer.indexOf("\n\n")
+    while (boundary !== -1) {
+      const message = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      const data = message
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n")
+      if (data) onEvent(JSON.parse(data) as T)
+      boundary = buffer.indexOf("\n\n")
+    }
+  }
+}
@@ -1,8 +1,22 @@
 import { withAuth } from "next-auth/middleware"
 import { NextResponse } from "next/server"
 
+const ADMIN_PATHS = ["/admin", "/api/admin"]
+
+function isAdminPath(pathname: string) {
+  return ADMIN_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`))
+}
+
 export default withAuth(
   function middleware(req) {
+    // Admin areas additionally need the admin role; route handlers re-check it against the database
+    if (isAdminPath(req.nextUrl.pathname) && req.nextauth.token?.role !== "admin") {
+      if (req.nextUrl.pathname.startsWith("/api/")) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+      }
+      return NextResponse.redirect(new URL("/dashboard", req.url))
+    }
+
     // Allow the request to proceed if authenticated
     return NextResponse.next()
   },
@@ -20,5 +34,15 @@ export default withAuth(
 )
 
 export const config = {
-  matcher: ["/dashboard/:path*", "/api/profile/:path*", "/api/agents/:path*"],
+  matcher: [
+    "/dashboard/:path*",
+    "/admin/:path*",
+    "/api/profile/:path*",
+    "/api/agents/:path*",
+    "/api/analyses/:path*",
+    "/api/what-if/:path*",
+    "/api/analysis/:path*",
+    "/api/jobs/:path*",
+    "/api/admin/:path*",
+  ],
 }
@@ -1,16 +1,224 @@
 // Type definitions for AI Agents
 
+export type ConditionStatus = "controlled" | "uncontrolled" | "unknown"
+
+export type AddictionFrequency = "occasional" | "weekly" | "daily" | "heavy"
+
+export interface HealthConditionEntry {
+  name: string
+  diagnosedYear?: number
+  status: ConditionStatus
+}
+
+export interface AddictionEntry {
+  name: string
+  frequency: AddictionFrequency
+}
+
+export interface SurgeryEntry {
+  name: string
+  year?: number
+}
+
+export type DependentRelationship = "spouse" | "child" | "parent"
+
+export interface Dependent {
+  name: string
+  relationship: DependentRelationship
+  age: number
+  healthConditions: HealthConditionEntry[]
+}
+
 export interface UserProfile {
   userId: string
   occupation: string
   city: string
   area: string
   workShift: string
-  healthCondition: string
-  addictions: string
-  pastSurgery: string
+  healthConditions: HealthConditionEntry[]
+  addictions: AddictionEntry[]
+  pastSurgeries: SurgeryEntry[]
+  dependents?: Dependent[]
   age: number
   profileCompleted: boolean
+  // The place picked in the city typeahead; absent on profiles saved before it was kept
+  cityLocation?: CityLocation
+}
+
+// A place resolved by the city registry (lib/services/city-registry.ts)
+export interface CityLocation {
+  name: string
+  state: string
+  district: string
+  lat: number
+  lon: number
+  // Set when the location was looked up by pincode
+  pincode?: string
+  source: "seed" | "geocoder"
+}
+
+// Whether a locality value was measured for the user's area or is the city-level figure
+export type LocalityScope = "locality" | "city"
+
+export type LocalityMetric = "aqi" | "floodRisk" | "hospitalAccess" | "wardHealth"
+
+export type FloodProneness = "low" | "moderate" | "high"
+
+export interface WardHealthIndicators {
+  // Ward or zone the figures were reported for, the city name for city-level figures
+  ward: string
+  // Notified dengue and malaria cases per 100,000 residents
+  vectorBorneCasesPer100k: number
+  // Notified diarrhoea, typhoid and hepatitis A cases per 100,000 residents
+  waterborneCasesPer100k: number
+  year: number
+}
+
+export type PollutantId = "pm25" | "pm10" | "no2" | "o3" | "so2" | "co"
+
+/**
+ * Per-pollutant readings from AQICN's `iaqi`. Values are sub-indices on the same US EPA
+ * scale as the AQI, so they compare directly with it and with each other.
+ */
+export interface PollutantBreakdown {
+  // The pollutant that sets the AQI; null when the station does not report one
+  dominant: PollutantId | null
+  // Only the pollutants the station measures
+  values: Partial<Record<PollutantId, number>>
+}
+
+/**
+ * Area-level inputs from lib/services/locality-data.ts. A metric is null when
+ * neither the area nor the city had a value for it.
+ */
+export interface LocalityData {
+  area: string
+  // Where the area was placed; null when it could not be geocoded within the city
+  location: CityLocation | null
+  aqi: {
+    value: number
+    station: string
+    // Station distance from the area; absent for the city feed
+    distanceKm?: number
+    scope: LocalityScope
+    pollutants?: PollutantBreakdown
+  } | null
+  floodRisk: {
+    level: FloodProneness
+    note?: string
+    scope: LocalityScope
+    source: string
+  } | null
+  nearestHospital: {
+    name: string
+    distanceKm: number
+    scope: LocalityScope
+  } | null
+  wardHealth: (WardHealthIndicators & { scope: LocalityScope; source: string }) | null
+}
+
+export interface LocalityCoverage {
+  area: string
+  // Metrics measured for the area itself
+  localMetrics: LocalityMetric[]
+  // Metrics that fell back to city-level values
+  cityFallbacks: LocalityMetric[]
+  // Metrics with no value at either level
+  unavailable: LocalityMetric[]
+}
+
+export interface DataQuality {
+  overall: 'excellent' | 'good' | 'fair' | 'poor'
+  sources: number
+  realTimeDataPercentage: number
+  // Absent on reports created before locality data was collected
+  locality?: LocalityCoverage
+}
+
+/**
+ * Twelve-month aggregates from Open-Meteo's archive and air-quality endpoints.
+ * Either half is null when its endpoint had no data for the city.
+ */
+export interface ClimateHistorySummary {
+  // First and last day covered, YYYY-MM-DD
+  from: string
+  to: string
+  aqi: {
+    // Mean of the daily mean US AQI
+    mean: number
+    daysAbove150: number
+    daysAbove200: number
+    daysMeasured: number
+  } | null
+  weather: {
+    // Days with a maximum of at least 40°C, IMD's heatwave threshold for the plains
+    heatwaveDays: number
+    peakTemperature: number
+    meanHumidity: number
+    // Days with mean relative humidity of at least 80%, or at most 30%
+    humidDays: number
+    dryDays: number
+    maxHumidity: number
+    minHumidity: number
+  } | null
+}
+
+export interface ClimateMonth {
+  // YYYY-MM
+  month: string
+  meanAQI: number | null
+  daysAbove150: number
+  meanMaxTemperature: number | null
+  heatwaveDays: number
+  meanHumidity: number | null
+}
+
+export interface ClimateHistory extends ClimateHistorySummary {
+  city: string
+  monthly: ClimateMonth[]
+}
+
+export type ExposureLevel = "low" | "moderate" | "high" | "severe"
+
+export type ForecastHazard = "heat" | "pm25" | "pm10" | "uv"
+
+/**
+ * The hours of each day a profile spends outside: a whole shift plus the commute for
+ * outdoor occupations, only the commute otherwise. Night windows run past midnight.
+ */
+export interface ExposurePattern {
+  occupation: string
+  workShift: string
+  outdoorWork: boolean
+  // Hours from midnight of the shift's first day, e.g. 21 to 30 for a night shift
+  hours: number[]
+  description: string
+}
+
+export interface ForecastDay {
+  // YYYY-MM-DD
+  date: string
+  temperatureMax: number | null
+  temperatureMin: number | null
+  meanHumidity: number | null
+  // Daily means in µg/m³; null when the air quality forecast was unavailable
+  pm25: number | null
+  pm10: number | null
+  uvIndexMax: number | null
+  exposure: {
+    level: ExposureLevel
+    // Exposed hours the forecast covers
+    hours: number
+    hazards: { hazard: ForecastHazard; level: ExposureLevel; value: number }[]
+  }
+  precautions: string[]
+}
+
+export interface EnvironmentalForecast {
+  city: string
+  pattern: ExposurePattern
+  days: ForecastDay[]
+  generatedAt: string
 }
 
 export interface EnvironmentalData {
@@ -21,6 +229,10 @@ export interface EnvironmentalData {
   climateRisk: string
   weatherCondition?: string
   seasonalRisks?: string[]
+  // Absent when the history was unavailable and on reports created before it was collected
+  history?: ClimateHistorySummary
+  // From the same station as the AQI; absent when the AQI was estimated
+  pollutants?: PollutantBreakdown
   timestamp: string
 }
 
@@ -42,21 +254,137 @@ export interface RiskFactor {
   impact: number
 }
 
+export interface RiskContribution {
+  key: string
+  label: string
+  // Raw input the component was scored from, null when the data was unavailable
+  inputValue: number | string | null
+  points: number
+}
+
+export interface RiskScoreBreakdown {
+  contributions: RiskContribution[]
+  subtotal: number
+  // score = subtotal + roundingAdjustment + capAdjustment
+  roundingAdjustment: number
+  capAdjustment: number
+  maxScore: number
+  score: number
+}
+
+export type PreventionCategory = "medical" | "environmental" | "occupational" | "lifestyle" | "mental-health"
+
+export type PreventionFrequency = "Daily" | "Weekly" | "Monthly" | "Quarterly" | "Bi-annually" | "Annually" | "As needed"
+
 export interface PreventionStep {
   priority: "high" | "medium" | "low"
   action: string
   description: string
   frequency: string
+  // Absent on reports created before prevention steps were categorised
+  category?: PreventionCategory
+}
+
+export interface FactorCommentary {
+  // Matches a RiskFactor category
+  category: string
+  commentary: string
+}
+
+export interface RiskInsights {
+  summary: string
+  factorCommentary: FactorCommentary[]
+  outlook: string
+}
+
+export type FinancialTipCategory = "insurance" | "savings" | "emergency-fund" | "tax" | "family" | "long-term"
+
+export interface FinancialTip {
+  title: string
+  detail: string
+  category: FinancialTipCategory
+}
+
+export interface FinancialInsights {
+  summary: string
+  planRationale: string
+  tips: FinancialTip[]
+}
+
+export interface PromptRun {
+  // Template from lib/config/prompt-templates.ts
+  templateId: string
+  templateVersion: string
+  provider: string
+  model: string
+  // sha256 of the rendered prompt, before any retry instructions were appended
+  promptHash: string
+  // False when the model's output was unusable and deterministic content was stored instead
+  generated: boolean
+  // Personal profile fields the prompt carried and how each was redacted; absent on older reports
+  disclosure?: FieldDisclosure[]
+}
+
+export type DisclosureTreatment = "exact" | "bucketed" | "generalised" | "withheld"
+
+export interface FieldDisclosure {
+  // Field name from lib/config/redaction-policy.ts
+  field: string
+  treatment: DisclosureTreatment
+  // The value as it appeared in the prompt, null when withheld
+  value: string | null
+}
+
+export interface ChatMessage {
+  role: "user" | "assistant"
+  content: string
+  createdAt: string
+  // Assistant replies only
+  prompt?: PromptRun
+}
+
+export type ChatEvent =
+  | { type: "delta"; text: string }
+  | { type: "done"; message: ChatMessage }
+  | { type: "error"; message: string }
+
+export interface MemberRisk {
+  name: string
+  relationship: "self" | DependentRelationship
+  age: number
+  riskScore: number
+  riskLevel: "low" | "medium" | "high" | "critical"
+  // Highest-impact factors for this member
+  topFactors: string[]
+}
+
+export interface HouseholdRisk {
+  members: MemberRisk[]
+  memberCount: number
+  eldestAge: number
+  // Blend of the riskiest member and the member average, used to price floater cover
+  aggregateScore: number
+  aggregateLevel: "low" | "medium" | "high" | "critical"
 }
 
 export interface Agent1Results {
   riskScore: number
   riskLevel: "low" | "medium" | "high" | "critical"
+  // Version of the scoring model in lib/config/risk-models.ts; absent on reports
+  // created before scoring models were versioned
+  riskModelVersion?: string
+  scoreBreakdown?: RiskScoreBreakdown
+  // Present when the profile lists dependents
+  householdRisk?: HouseholdRisk
   environmentalData: EnvironmentalData
   statisticalData: StatisticalData
   riskFactors: RiskFactor[]
   preventionSteps: PreventionStep[]
+  // Plain-text rendering of riskInsights, kept for older readers of the report
   geminiAnalysis: string
+  riskInsights?: RiskInsights
+  // Prompts sent for this result; absent when no LLM provider was configured
+  prompts?: PromptRun[]
   timestamp: string
   // Enhanced fields
   healthAlerts?: Array<{
@@ -69,11 +397,9 @@ export interface Agent1Results {
     source: string
     url?: string
   }>
-  dataQuality?: {
-    overall: 'excellent' | 'good' | 'fair' | 'poor'
-    sources: number
-    realTimeDataPercentage: number
-  }
+  dataQuality?: DataQuality
+  // Area-level inputs; absent on reports created before locality data was collected
+  localityData?: LocalityData
   realTimeDataSources?: {
     climate: {
       weather: string
@@ -110,14 +436,42 @@ export interface FinancialRecommendation {
   priority: "high" | "medium" | "low"
 }
 
+export interface MemberPlan {
+  name: string
+  relationship: MemberRisk["relationship"]
+  planName: string
+  coverage: number
+  premium: number
+}
+
+export interface FamilyCoverage {
+  recommendation: "floater" | "individual"
+  reason: string
+  floater: InsurancePlan & {
+    memberCount: number
+    eldestAge: number
+  }
+  individual: {
+    plans: MemberPlan[]
+    totalPremium: number
+    totalCoverage: number
+  }
+  // Positive when the floater is cheaper than individual policies
+  monthlyDifference: number
+}
+
 export interface Agent2Results {
   insurancePlan: InsurancePlan
   alternativePlans: InsurancePlan[]
+  familyCoverage?: FamilyCoverage
   monthlySavings: number
   emergencyFund: number
   yearlyHealthBudget: number
   financialRecommendations: FinancialRecommendation[]
+  // Plain-text rendering of financialInsights, kept for older readers of the report
   geminiAnalysis: string
+  financialInsights?: FinancialInsights
+  prompts?: PromptRun[]
   autoPaySetup: {
     available: boolean
     message: string
@@ -135,6 +489,128 @@ export interface AnalysisResults {
   updatedAt: Date
 }
 
+export interface AnalysisSummary {
+  _id: string
+  riskScore: number
+  riskLevel: "low" | "medium" | "high" | "critical"
+  planName: string
+  planType: string
+  premium: number
+  city: string
+  occupation: string
+  createdAt: Date
+}
+
+export interface NumericChange {
+  from: number | null
+  to: number | null
+  delta: number | null
+}
+
+export interface RiskFactorChange {
+  category: string
+  from: Pick<RiskFactor, "level" | "impact">
+  to: Pick<RiskFactor, "level" | "impact">
+}
+
+export interface ProfileFieldChange {
+  field: string
+  from: unknown
+  to: unknown
+}
+
+export interface AnalysisDiff {
+  base: { id: string; createdAt: Date }
+  target: { id: string; createdAt: Date }
+  riskScore: NumericChange
+  riskLevel: {
+    from: Agent1Results["riskLevel"]
+    to: Agent1Results["riskLevel"]
+    changed: boolean
+  }
+  riskModelVersion: {
+    from: string | null
+    to: string | null
+    changed: boolean
+  }
+  riskFactors: {
+    added: RiskFactor[]
+    removed: RiskFactor[]
+    changed: RiskFactorChange[]
+  }
+  environmental: {
+    aqi: NumericChange
+    temperature: NumericChange
+    humidity: NumericChange
+  }
+  statistical: {
+    deathRate: NumericChange
+    ageAdjustedDeathRate: NumericChange
+    crimeRate: NumericChange
+    violentCrimeRate: NumericChange
+    safetyIndex: NumericChange
+    cityHealthIndex: NumericChange
+    occupationDeathRate: NumericChange
+  }
+  insurancePlan: {
+    from: Pick<InsurancePlan, "name" | "type" | "premium" | "coverage">
+    to: Pick<InsurancePlan, "name" | "type" | "premium" | "coverage">
+    planChanged: boolean
+    // "unknown" when either plan type is no longer in the catalogue
+    tierChange: "upgrade" | "downgrade" | "same" | "unknown"
+    premium: NumericChange
+    coverage: NumericChange
+  }
+  financial: {
+    monthlySavings: NumericChange
+    emergencyFund: NumericChange
+    yearlyHealthBudget: NumericChange
+  }
+  profileChanges: ProfileFieldChange[]
+}
+
+// Profile fields a what-if scenario may change
+export interface WhatIfOverrides {
+  age?: number
+  city?: string
+  occupation?: string
+  workShift?: string
+  healthConditions?: HealthConditionEntry[]
+  addictions?: AddictionEntry[]
+  pastSurgeries?: SurgeryEntry[]
+  monthlyIncome?: number
+}
+
+export interface WhatIfScenario {
+  label: string
+  overrides: WhatIfOverrides
+}
+
+export interface WhatIfOutcome {
+  riskScore: number
+  riskLevel: "low" | "medium" | "high" | "critical"
+  insurancePlan: Pick<InsurancePlan, "name" | "type" | "premium" | "coverage">
+  monthlySavings: number
+  affordability: NonNullable<InsurancePlan["affordability"]>
+}
+
+export interface WhatIfScenarioResult {
+  label: string
+  overrides: WhatIfOverrides
+  outcome: WhatIfOutcome
+  delta: {
+    riskScore: number
+    premium: number
+    monthlySavings: number
+  }
+}
+
+export interface WhatIfResults {
+  riskModelVersion: string
+  baseline: WhatIfOutcome
+  scenarios: WhatIfScenarioResult[]
+}
+
 export interface AgentStep {
   id: string
   name: string
@@ -142,5 +618,99 @@ export interface AgentStep {
   icon: any
   description: string
   details?: string[]
+  // Partial Gemini output while it streams in
+  liveText?: string
+  error?: string
+}
+
+export type PipelineStage = "collector" | "analyzer" | "planner"
+
+export type DataSourceId = "climate" | "deathRate" | "occupationDeathRate" | "crime" | "healthAlerts" | "locality" | "climateHistory"
+
+export type GeminiTask = "riskAnalysis" | "financialPlan"
+
+/**
+ * Progress events emitted while an analysis runs, streamed to the analysis page
+ */
+export type PipelineEvent =
+  | { type: "stage_started"; stage: PipelineStage; message: string }
+  | { type: "source_started"; source: DataSourceId; label: string }
+  | {
+      type: "source_finished"
+      source: DataSourceId
+      label: string
+      // Where the data actually came from, e.g. "AQICN (Real-time)" or an estimate
+      sourceLabel: string
+      durationMs: number
+    }
+  | {
+      type: "risk_scored"
+      riskScore: number
+      riskLevel: Agent1Results["riskLevel"]
+      riskModelVersion: string
+      topFactors: RiskFactor[]
+    }
+  | { type: "gemini_chunk"; task: GeminiTask; text: string }
+  | { type: "collector_complete"; results: Agent1Results }
+  | { type: "planner_complete"; results: Agent2Results }
+  | { type: "done"; analysisId: string }
+  | { type: "error"; stage: PipelineStage; message: string }
+
+export type PipelineEmitter = (event: PipelineEvent) => void
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed"
+
+export interface JobStepTiming {
+  stage: PipelineStage
+  startedAt: string
+  durationMs: number
+}
+
+/**
+ * Analysis job as reported by GET /api/jobs/[id]
+ */
+export interface AnalysisJobView {
+  _id: string
+  status: JobStatus
+  attempts: number
+  maxAttempts: number
+  // Progress events of the current attempt, without Gemini chunks
+  events: PipelineEvent[]
+  // Gemini text received so far in the current attempt
+  liveText: Partial<Record<GeminiTask, string>>
+  timings: JobStepTiming[]
+  analysisId?: string
+  error?: string
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+}
+
+export type ProviderStatus = "unconfigured" | "idle" | "healthy" | "degraded" | "failing"
+
+/**
+ * Health of one external data provider as reported by GET /api/admin/data-sources
+ */
+export interface ProviderHealth {
+  id: string
+  label: string
+  usedFor: string
+  baseUrl: string
+  // False when the provider needs an API key that is not set
+  configured: boolean
+  probeable: boolean
+  status: ProviderStatus
+  // Counted since the server process started
+  calls: number
+  failures: number
+  lastSuccess: string | null
+  lastError: { at: string; message: string } | null
+  // Over the most recent calls, null before the first one
+  latencyMs: { p50: number; p95: number; p99: number } | null
+}
+
+export interface ProviderProbeResult {
+  ok: boolean
+  latencyMs: number
   error?: string
 }
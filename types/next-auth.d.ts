@@ -1,8 +1,11 @@
 import "next-auth"
 
+export type UserRole = "user" | "admin"
+
 declare module "next-auth" {
   interface User {
     id: string
+    role: UserRole
   }
 
   interface Session {
@@ -10,6 +13,7 @@ declare module "next-auth" {
       id: string
       email: string
       name: string
+      role: UserRole
     }
   }
 }
@@ -17,5 +21,6 @@ declare module "next-auth" {
 declare module "next-auth/jwt" {
   interface JWT {
     id: string
+    role: UserRole
   }
 }